@@ -0,0 +1,285 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+type ConfigModule = typeof import('../config');
+
+describe('config', () => {
+  const originalEnv = process.env;
+  let dir: string;
+
+  const loadConfigModule = (): ConfigModule => {
+    let mod: ConfigModule | undefined;
+    jest.isolateModules(() => {
+      mod = require('../config');
+    });
+    return mod!;
+  };
+
+  const writeConfigFile = (contents: Record<string, unknown>): void => {
+    writeFileSync(process.env.CONFIG_PATH!, JSON.stringify(contents));
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'config-test-'));
+    process.env = {
+      ...originalEnv,
+      TG_API_ID: '12345',
+      TG_API_HASH: 'hash',
+      CONFIG_PATH: join(dir, 'default.json'),
+    };
+    delete process.env.LOW_THRESHOLD;
+    delete process.env.ACTION_THRESHOLD;
+    delete process.env.DEFAULT_ACTION;
+    delete process.env.ENABLE_DELETION;
+    delete process.env.ENABLE_BLOCKING;
+    delete process.env.LEXICON_PACKS;
+    delete process.env.CONFIG_GENERATION;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('layering', () => {
+    it('should use built-in defaults when no config file exists', () => {
+      const { config, getConfigSources } = loadConfigModule();
+
+      expect(config.thresholds.lowThreshold).toBe(0.3);
+      expect(config.actions.defaultAction).toBe('log');
+      expect(config.telegram.databaseDirectory).toBe('./tdlib-data');
+      expect(getConfigSources()['thresholds.lowThreshold']).toBe('default');
+    });
+
+    it('should let the config file override defaults', () => {
+      writeConfigFile({ thresholds: { lowThreshold: 0.4 }, actions: { defaultAction: 'archive' } });
+
+      const { config, getConfigSources } = loadConfigModule();
+
+      expect(config.thresholds.lowThreshold).toBe(0.4);
+      expect(config.thresholds.actionThreshold).toBe(0.85);
+      expect(config.actions.defaultAction).toBe('archive');
+      expect(getConfigSources()['thresholds.lowThreshold']).toBe('file');
+      expect(getConfigSources()['thresholds.actionThreshold']).toBe('default');
+    });
+
+    it('should let per-user env vars override the config file', () => {
+      writeConfigFile({ thresholds: { lowThreshold: 0.4 }, actions: { enableBlocking: true } });
+      process.env.LOW_THRESHOLD = '0.2';
+      process.env.ACTION_THRESHOLD = '0.7';
+      process.env.DEFAULT_ACTION = 'block';
+      process.env.ENABLE_DELETION = 'true';
+      process.env.ENABLE_BLOCKING = 'false';
+
+      const { config, getConfigSources } = loadConfigModule();
+
+      expect(config.thresholds.lowThreshold).toBe(0.2);
+      expect(config.thresholds.actionThreshold).toBe(0.7);
+      expect(config.actions.defaultAction).toBe('block');
+      expect(config.actions.enableDeletion).toBe(true);
+      expect(config.actions.enableBlocking).toBe(false);
+      expect(getConfigSources()['actions.enableBlocking']).toBe('env');
+    });
+
+    it('should ignore empty env vars', () => {
+      process.env.LOW_THRESHOLD = '';
+
+      const { config, getConfigSources } = loadConfigModule();
+
+      expect(config.thresholds.lowThreshold).toBe(0.3);
+      expect(getConfigSources()['thresholds.lowThreshold']).toBe('default');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid values in the config file', () => {
+      writeConfigFile({ thresholds: { lowThreshold: 2 } });
+
+      expect(() => loadConfigModule()).toThrow('Invalid file config: "thresholds.lowThreshold" must be a number between 0 and 1');
+    });
+
+    it('should reject unknown settings in the config file', () => {
+      writeConfigFile({ detection: { checkEverything: true } });
+
+      expect(() => loadConfigModule()).toThrow('unknown setting "detection.checkEverything"');
+    });
+
+    it('should reject malformed env values', () => {
+      process.env.ENABLE_DELETION = 'yes';
+
+      expect(() => loadConfigModule()).toThrow('Invalid env config: "actions.enableDeletion" must be a boolean');
+    });
+
+    it('should reject a low threshold above the action threshold', () => {
+      process.env.LOW_THRESHOLD = '0.9';
+      process.env.ACTION_THRESHOLD = '0.5';
+
+      expect(() => loadConfigModule()).toThrow('lowThreshold (0.9) must not exceed actionThreshold (0.5)');
+    });
+  });
+
+  describe('attachment risk table', () => {
+    it('should replace only the categories the config file lists', () => {
+      writeConfigFile({ attachmentRisks: { androidPackage: ['.APK', 'xapk'] } });
+
+      const { config } = loadConfigModule();
+
+      expect(config.attachmentRisks.androidPackage).toEqual(['apk', 'xapk']);
+      expect(config.attachmentRisks.executable).toContain('scr');
+    });
+
+    it('should reject unknown categories and malformed extensions', () => {
+      writeConfigFile({ attachmentRisks: { scripts: ['sh'], archive: ['zip', 'tar.gz'] } });
+
+      expect(() => loadConfigModule()).toThrow(
+        'Invalid attachmentRisks config: unknown category "scripts"; "attachmentRisks.archive" must be a list of file extensions'
+      );
+    });
+  });
+
+  describe('lexicon packs', () => {
+    it('should read enabled packs from a comma-separated env var', () => {
+      writeConfigFile({ lexicons: { enabledPacks: ['loan'] } });
+      process.env.LEXICON_PACKS = 'crypto_investment, giveaway';
+
+      const { config, getConfigSources } = loadConfigModule();
+
+      expect(config.lexicons.enabledPacks).toEqual(['crypto_investment', 'giveaway']);
+      expect(getConfigSources()['lexicons.enabledPacks']).toBe('env');
+      expect(config.storage.lexiconDirectory).toBe(join(dir, 'lexicons'));
+    });
+
+    it('should reject malformed pack ids', () => {
+      writeConfigFile({ lexicons: { enabledPacks: ['loan', '../secrets'] } });
+
+      expect(() => loadConfigModule()).toThrow('Invalid file config: "lexicons.enabledPacks" must be a list of ids');
+    });
+  });
+
+  describe('applyRuntimeConfig', () => {
+    it('should apply runtime updates over every other layer', () => {
+      process.env.LOW_THRESHOLD = '0.2';
+      const { config, applyRuntimeConfig, getConfigSources } = loadConfigModule();
+
+      applyRuntimeConfig({ thresholds: { lowThreshold: 0.4 } });
+
+      expect(config.thresholds.lowThreshold).toBe(0.4);
+      expect(getConfigSources()['thresholds.lowThreshold']).toBe('runtime');
+    });
+
+    it('should keep earlier runtime updates when applying new ones', () => {
+      const { config, applyRuntimeConfig } = loadConfigModule();
+
+      applyRuntimeConfig({ actions: { defaultAction: 'archive' } });
+      applyRuntimeConfig({ actions: { enableDeletion: true } });
+
+      expect(config.actions.defaultAction).toBe('archive');
+      expect(config.actions.enableDeletion).toBe(true);
+    });
+
+    it('should leave config untouched when an update is invalid', () => {
+      const { config, applyRuntimeConfig, getConfigSources } = loadConfigModule();
+
+      expect(() => applyRuntimeConfig({ thresholds: { lowThreshold: 0.95 } })).toThrow('must not exceed');
+      expect(() => applyRuntimeConfig({ actions: { defaultAction: 'nuke' } })).toThrow('Invalid runtime config');
+
+      expect(config.thresholds.lowThreshold).toBe(0.3);
+      expect(config.actions.defaultAction).toBe('log');
+      expect(getConfigSources()['thresholds.lowThreshold']).toBe('default');
+    });
+  });
+
+  describe('rule overrides', () => {
+    it('should load rule overrides from the config file', () => {
+      writeConfigFile({ rules: { no_profile_photo: { weight: 0.05 }, no_common_groups: { enabled: false } } });
+
+      const { config, getConfigSources } = loadConfigModule();
+
+      expect(config.rules).toEqual({
+        no_profile_photo: { weight: 0.05 },
+        no_common_groups: { enabled: false },
+      });
+      expect(getConfigSources()['rules.no_profile_photo.weight']).toBe('file');
+    });
+
+    it('should reject malformed rule overrides', () => {
+      writeConfigFile({ rules: { no_profile_photo: { weight: 3, colour: 'red' }, 'Bad-Id': {} } });
+
+      expect(() => loadConfigModule()).toThrow(
+        'Invalid file config: "rules.no_profile_photo.weight" must be a number between 0 and 1; ' +
+        'unknown setting "rules.no_profile_photo.colour"; invalid rule id "Bad-Id"'
+      );
+    });
+
+    it('should merge runtime rule updates field by field', () => {
+      writeConfigFile({ rules: { no_profile_photo: { weight: 0.05 } } });
+      const { config, applyRuntimeConfig, getConfigSources, getTunableConfig } = loadConfigModule();
+
+      applyRuntimeConfig({ rules: { no_profile_photo: { enabled: false } } });
+      applyRuntimeConfig({ rules: { no_common_groups: { weight: 0.1 } } });
+
+      expect(config.rules).toEqual({
+        no_profile_photo: { weight: 0.05, enabled: false },
+        no_common_groups: { weight: 0.1 },
+      });
+      expect(getConfigSources()['rules.no_profile_photo.weight']).toBe('file');
+      expect(getConfigSources()['rules.no_profile_photo.enabled']).toBe('runtime');
+      expect(getTunableConfig().rules).toEqual(config.rules);
+    });
+  });
+
+  describe('runtime config persistence', () => {
+    it('should restore persisted runtime overrides on the next start', () => {
+      process.env.DATA_DIR = join(dir, 'state');
+      process.env.LOW_THRESHOLD = '0.2';
+      const first = loadConfigModule();
+      first.applyRuntimeConfig({ thresholds: { lowThreshold: 0.4 } });
+      first.persistRuntimeConfig();
+
+      const second = loadConfigModule();
+      expect(second.config.thresholds.lowThreshold).toBe(0.2);
+
+      expect(second.restoreRuntimeConfig()).toBe('restored');
+      expect(second.config.thresholds.lowThreshold).toBe(0.4);
+      expect(second.getConfigSources()['thresholds.lowThreshold']).toBe('runtime');
+    });
+
+    it('should report when there is nothing to restore', () => {
+      process.env.DATA_DIR = join(dir, 'empty');
+      const { restoreRuntimeConfig } = loadConfigModule();
+
+      expect(restoreRuntimeConfig()).toBe('missing');
+    });
+
+    it('should keep overrides across restarts of the same container', () => {
+      process.env.DATA_DIR = join(dir, 'state');
+      process.env.CONFIG_GENERATION = 'created-1';
+      const first = loadConfigModule();
+      first.applyRuntimeConfig({ actions: { defaultAction: 'archive' } });
+      first.persistRuntimeConfig();
+
+      const restarted = loadConfigModule();
+
+      expect(restarted.restoreRuntimeConfig()).toBe('restored');
+      expect(restarted.config.actions.defaultAction).toBe('archive');
+    });
+
+    it('should let the env of a recreated container win over overrides saved by the old one', () => {
+      process.env.DATA_DIR = join(dir, 'state');
+      process.env.CONFIG_GENERATION = 'created-1';
+      const first = loadConfigModule();
+      first.applyRuntimeConfig({ thresholds: { lowThreshold: 0.4 } });
+      first.persistRuntimeConfig();
+
+      process.env.CONFIG_GENERATION = 'created-2';
+      process.env.LOW_THRESHOLD = '0.25';
+      const recreated = loadConfigModule();
+
+      expect(recreated.restoreRuntimeConfig()).toBe('discarded');
+      expect(recreated.config.thresholds.lowThreshold).toBe(0.25);
+      expect(recreated.getConfigSources()['thresholds.lowThreshold']).toBe('env');
+      expect(recreated.restoreRuntimeConfig()).toBe('missing');
+    });
+  });
+});
@@ -1,21 +1,38 @@
 import express, { Express, Request, Response } from 'express';
+import { Server } from 'http';
 import { Client } from 'tdl';
 import { AuthHandler } from './handlers/authHandler';
+import { MessageHandler } from './handlers/messageHandler';
+import { applyRuntimeConfig, getConfigSources, getTunableConfig, persistRuntimeConfig } from './config';
 import { logger } from './utils/logger';
+import { eventLog } from './utils/eventLog';
+import { senderLists, validateEntries } from './utils/senderLists';
+import { feedbackStore } from './utils/feedbackStore';
+import { actionJournal } from './utils/actionJournal';
+import { spamSimilarityIndex } from './utils/spamSimilarity';
+import { textClassifier } from './utils/textClassifier';
+import { spamImageIndex } from './utils/imageHash';
+import { lexiconPacks } from './utils/lexiconPacks';
+import { senderReputation } from './utils/senderReputation';
+import { observationWindows } from './utils/observationWindow';
+import { ruleEngine } from './rules/ruleEngine';
 
 /**
  * Simple HTTP server to receive authentication commands from orchestrator bot
+ * and expose agent state (metrics) for polling
  */
 export class AuthServer {
   private app: Express;
-  private server: any;
+  private server: Server | null = null;
   private port: number;
   private authHandler: AuthHandler;
+  private messageHandler: MessageHandler;
   private client: Client;
 
-  constructor(client: Client, authHandler: AuthHandler, port = 3100) {
+  constructor(client: Client, authHandler: AuthHandler, messageHandler: MessageHandler, port = 3100) {
     this.client = client;
     this.authHandler = authHandler;
+    this.messageHandler = messageHandler;
     this.port = port;
     this.app = express();
     this.app.use(express.json());
@@ -28,6 +45,246 @@ export class AuthServer {
       res.json({ status: 'ok' });
     });
 
+    // Cumulative detection counters (persisted across restarts)
+    this.app.get('/metrics', (req: Request, res: Response) => {
+      res.json(this.messageHandler.getMetrics());
+    });
+
+    // Effective configuration and the layer each value came from
+    this.app.get('/config', (req: Request, res: Response) => {
+      res.json({ config: getTunableConfig(), sources: getConfigSources() });
+    });
+
+    // Hot-reload settings pushed by the orchestrator; applied all-or-nothing
+    this.app.put('/config', (req: Request, res: Response) => {
+      let updated;
+      try {
+        updated = applyRuntimeConfig(req.body);
+      } catch (error) {
+        logger.warn({ error }, 'Rejected runtime config update');
+        return res.status(400).json({
+          error: 'Invalid configuration',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      this.messageHandler.refreshConfig();
+
+      try {
+        persistRuntimeConfig();
+      } catch (error) {
+        // Still applied in memory; only lost if the agent restarts
+        logger.error({ error }, 'Failed to persist runtime config');
+      }
+
+      logger.info({ config: updated }, 'Runtime config updated');
+      res.json({ success: true, config: updated, sources: getConfigSources() });
+    });
+
+    // Registered detection rules with their effective weight and enabled flag
+    this.app.get('/rules', (req: Request, res: Response) => {
+      res.json({ rules: ruleEngine.getStatus() });
+    });
+
+    // Events since the orchestrator's last cursor
+    this.app.get('/events', (req: Request, res: Response) => {
+      const after = parseInt(String(req.query.after ?? '0'), 10);
+      if (Number.isNaN(after) || after < 0) {
+        return res.status(400).json({ error: 'after must be a non-negative integer' });
+      }
+      res.json({ events: eventLog.getEventsAfter(after), lastId: eventLog.getLastId() });
+    });
+
+    // Allow/deny lists synced from the orchestrator
+    this.app.get('/lists', (req: Request, res: Response) => {
+      res.json({ entries: senderLists.getEntries() });
+    });
+
+    this.app.put('/lists', (req: Request, res: Response) => {
+      let entries;
+      try {
+        entries = validateEntries(req.body?.entries);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Invalid sender list',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      try {
+        senderLists.setEntries(entries);
+      } catch (error) {
+        logger.error({ error }, 'Failed to persist sender lists');
+      }
+
+      logger.info({ count: entries.length }, 'Sender lists updated');
+      res.json({ success: true, count: entries.length });
+    });
+
+    // User verdict on a queued detection, relayed by the orchestrator
+    this.app.post('/feedback', (req: Request, res: Response) => {
+      const { eventId, label } = req.body || {};
+
+      if (!Number.isInteger(eventId) || (label !== 'spam' && label !== 'not_spam')) {
+        return res.status(400).json({ error: 'eventId (integer) and label (spam or not_spam) are required' });
+      }
+
+      let example;
+      try {
+        const previous = feedbackStore.getLabeledExamples().find(labeled => labeled.eventId === eventId)?.label;
+        example = feedbackStore.recordLabel(eventId, label);
+        if (example) {
+          senderReputation.recordFeedback(example.userId, label, previous);
+        }
+        // Confirmed spam feeds near-duplicate detection; a relabel takes it back out
+        if (example && label === 'spam') {
+          spamSimilarityIndex.add(eventId, example.text);
+          (example.imageHashes || []).forEach(hash => spamImageIndex.add(eventId, hash));
+        } else if (example) {
+          spamSimilarityIndex.remove(eventId);
+          spamImageIndex.remove(eventId);
+        }
+      } catch (error) {
+        logger.error({ error, eventId }, 'Failed to persist feedback');
+        return res.status(500).json({
+          error: 'Failed to record feedback',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      if (!example) {
+        return res.status(404).json({ error: 'Detection not found' });
+      }
+
+      logger.info({ eventId, label }, 'Feedback recorded');
+      res.json({ success: true });
+    });
+
+    // Block a sender the user flagged from the review queue
+    this.app.post('/actions/block', async (req: Request, res: Response) => {
+      const { chatId, userId } = req.body || {};
+
+      if (!Number.isInteger(chatId) || !Number.isInteger(userId)) {
+        return res.status(400).json({ error: 'chatId and userId are required' });
+      }
+
+      try {
+        const actionId = await this.messageHandler.blockSender(this.client, chatId, userId);
+        res.json({ success: true, actionId });
+      } catch (error) {
+        logger.error({ error, userId }, 'Failed to block sender');
+        res.status(500).json({
+          error: 'Failed to block sender',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    // Recent archive/block actions, newest first
+    this.app.get('/actions', (req: Request, res: Response) => {
+      res.json({ actions: actionJournal.getRecent() });
+    });
+
+    // Reverse an action (unarchive/unblock) and allowlist the sender
+    this.app.post('/actions/:id/undo', async (req: Request, res: Response) => {
+      const actionId = parseInt(req.params.id, 10);
+      const record = Number.isNaN(actionId) ? undefined : actionJournal.get(actionId);
+
+      if (!record) {
+        return res.status(404).json({ error: 'Action not found' });
+      }
+      if (record.undoneAt) {
+        return res.status(409).json({ error: 'Action was already undone' });
+      }
+
+      try {
+        const undone = await this.messageHandler.undoAction(this.client, actionId);
+        logger.info({ actionId }, 'Action undone');
+        res.json({ success: true, action: undone });
+      } catch (error) {
+        logger.error({ error, actionId }, 'Failed to undo action');
+        res.status(500).json({
+          error: 'Failed to undo action',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    // Per-sender history the detector uses, most recently seen first
+    this.app.get('/reputation', (req: Request, res: Response) => {
+      const limit = parseInt(String(req.query.limit ?? '100'), 10);
+      res.json({ senders: senderReputation.list(Number.isNaN(limit) ? 100 : limit) });
+    });
+
+    this.app.get('/reputation/:userId', (req: Request, res: Response) => {
+      const userId = parseInt(req.params.userId, 10);
+      const reputation = Number.isNaN(userId) ? undefined : senderReputation.get(userId);
+
+      if (!reputation) {
+        return res.status(404).json({ error: 'Sender not found' });
+      }
+      res.json({ sender: reputation });
+    });
+
+    // Forget what the agent learned about one sender, or about everyone
+    this.app.delete('/reputation/:userId', (req: Request, res: Response) => {
+      const userId = parseInt(req.params.userId, 10);
+
+      try {
+        if (Number.isNaN(userId) || !senderReputation.purge(userId)) {
+          return res.status(404).json({ error: 'Sender not found' });
+        }
+        logger.info({ userId }, 'Sender reputation purged');
+        res.json({ success: true });
+      } catch (error) {
+        logger.error({ error, userId }, 'Failed to purge sender reputation');
+        res.status(500).json({
+          error: 'Failed to purge sender reputation',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    this.app.delete('/reputation', (req: Request, res: Response) => {
+      try {
+        const purged = senderReputation.purgeAll();
+        logger.info({ purged }, 'All sender reputation purged');
+        res.json({ success: true, purged });
+      } catch (error) {
+        logger.error({ error }, 'Failed to purge sender reputation');
+        res.status(500).json({
+          error: 'Failed to purge sender reputation',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    // Which classifier model is scoring messages, if one has been trained
+    this.app.get('/classifier', (req: Request, res: Response) => {
+      res.json({ model: textClassifier.getInfo() });
+    });
+
+    // Installed keyword packs and whether this account has them enabled
+    this.app.get('/lexicons', (req: Request, res: Response) => {
+      const enabled = new Set(getTunableConfig().lexicons.enabledPacks);
+      res.json({ packs: lexiconPacks.list().map(pack => ({ ...pack, enabled: enabled.has(pack.id) })) });
+    });
+
+    // New chats whose verdict is still pending, with the conversation score so far
+    this.app.get('/observations', (req: Request, res: Response) => {
+      res.json({ observations: observationWindows.list() });
+    });
+
+    this.app.get('/observations/:chatId', (req: Request, res: Response) => {
+      const chatId = parseInt(req.params.chatId, 10);
+      const window = Number.isNaN(chatId) ? undefined : observationWindows.get(chatId);
+
+      if (!window) {
+        return res.status(404).json({ error: 'Observation not found' });
+      }
+      res.json({ observation: observationWindows.summarize(window) });
+    });
+
     // Submit phone number
     this.app.post('/auth/phone', async (req: Request, res: Response) => {
       const { phone_number } = req.body;
@@ -138,7 +395,7 @@ export class AuthServer {
   stop(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.server) {
-        this.server.close((err: Error) => {
+        this.server.close((err?: Error) => {
           if (err) {
             reject(err);
           } else {
@@ -1,19 +1,27 @@
 import dotenv from 'dotenv';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { dirname, join } from 'path';
+import { readJsonIfExists, writeJsonAtomic } from './utils/jsonFile';
 
 dotenv.config({ path: join(__dirname, '../../.env') });
 
-interface Config {
-  telegram: {
-    apiId: number;
-    apiHash: string;
-    phoneNumber?: string;
-    databaseDirectory: string;
-    filesDirectory: string;
-    useTestDc: boolean;
-    logVerbosityLevel: number;
-  };
+export type DefaultAction = 'archive' | 'delete' | 'block' | 'log';
+
+/** What happens to messages from bot accounts the owner did not start */
+export type BotSenderPolicy = 'score' | 'allow' | 'archive';
+
+/**
+ * Per-rule override; anything left out falls back to the rule's built-in default
+ */
+export interface RuleSettings {
+  enabled?: boolean;
+  weight?: number;
+}
+
+/**
+ * Settings that can be layered (defaults → file → env → runtime)
+ */
+export interface TunableConfig {
   thresholds: {
     lowThreshold: number;
     actionThreshold: number;
@@ -28,24 +36,476 @@ interface Config {
     checkCommonGroups: boolean;
     checkProfilePhoto: boolean;
     checkLinks: boolean;
+    checkInviteLinks: boolean;
+    checkMentions: boolean;
     checkPhoneNumbers: boolean;
+    checkBio: boolean;
+    checkPhotos: boolean;
+    checkAttachments: boolean;
+    checkProfileNames: boolean;
+  };
+  /** Hold back the verdict on new unknown chats until a few messages are in */
+  observation: {
+    enabled: boolean;
+    /** Decide once this many messages have arrived */
+    maxMessages: number;
+    /** Decide this long after the first message, whatever has arrived */
+    windowSeconds: number;
+  };
+  /** Repetition across messages and chats */
+  campaign: {
+    /** Messages from one sender within `burstWindowSeconds` that count as a flood */
+    burstMessages: number;
+    burstWindowSeconds: number;
+    /** Distinct new senders with the same text within `clusterWindowSeconds` that make a campaign */
+    clusterSenders: number;
+    clusterWindowSeconds: number;
+    /** New chats within `firstContactWindowSeconds` that make a spike */
+    firstContactSpike: number;
+    firstContactWindowSeconds: number;
+  };
+  /** Keyword lexicon packs from the config directory */
+  lexicons: {
+    /** Pack ids the user turned on in /settings */
+    enabledPacks: string[];
   };
   actions: {
-    defaultAction: 'archive' | 'delete' | 'log';
+    defaultAction: DefaultAction;
     enableBlocking: boolean;
     enableDeletion: boolean;
     removeFromChatList: boolean;
     revokeMessages: boolean;
+    /** Archive chats with a risky attachment even when the score stays below the thresholds */
+    quarantineRiskyAttachments: boolean;
+    /** Bots the owner started are trusted whatever the policy */
+    botSenderPolicy: BotSenderPolicy;
+  };
+  /** Detection rule overrides keyed by rule id */
+  rules: Record<string, RuleSettings>;
+}
+
+/**
+ * File extensions (lowercase, without the dot) per kind of attachment
+ */
+export interface AttachmentRiskTable {
+  executable: string[];
+  androidPackage: string[];
+  archive: string[];
+  macroDocument: string[];
+  diskImage: string[];
+  /** Harmless-looking extensions a lure puts in front of a risky one, as in "invoice.pdf.exe" */
+  decoy: string[];
+}
+
+interface Config extends TunableConfig {
+  telegram: {
+    apiId: number;
+    apiHash: string;
+    phoneNumber?: string;
+    databaseDirectory: string;
+    filesDirectory: string;
+    useTestDc: boolean;
+    logVerbosityLevel: number;
+  };
+  storage: {
+    dataDirectory: string;
+    /** Operator-maintained domain blocklist/allowlist, next to the config file by default */
+    domainListsPath: string;
+    /** Directory of lexicon pack files, next to the config file by default */
+    lexiconDirectory: string;
   };
   logging: {
     level: string;
   };
+  attachmentRisks: AttachmentRiskTable;
+}
+
+export type ConfigLayerName = 'default' | 'file' | 'env' | 'runtime';
+
+export type ConfigLayer = {
+  [S in keyof TunableConfig]?: Partial<TunableConfig[S]>;
+};
+
+type FieldRule = 'unit' | 'count' | 'boolean' | 'idList' | readonly string[];
+
+// Sections with a fixed set of keys; `rules` is keyed by rule id instead
+type FixedSection = Exclude<keyof TunableConfig, 'rules'>;
+
+// Single source of truth for which keys exist and what values they accept
+const tunableSchema: { [S in FixedSection]: { [K in keyof TunableConfig[S]]: FieldRule } } = {
+  thresholds: {
+    lowThreshold: 'unit',
+    actionThreshold: 'unit',
+    vectorSimilarityCutoff: 'unit',
+  },
+  rateLimits: {
+    maxDeletesPerMinute: 'count',
+    maxBlocksPerMinute: 'count',
+  },
+  detection: {
+    checkContacts: 'boolean',
+    checkCommonGroups: 'boolean',
+    checkProfilePhoto: 'boolean',
+    checkLinks: 'boolean',
+    checkInviteLinks: 'boolean',
+    checkMentions: 'boolean',
+    checkPhoneNumbers: 'boolean',
+    checkBio: 'boolean',
+    checkPhotos: 'boolean',
+    checkAttachments: 'boolean',
+    checkProfileNames: 'boolean',
+  },
+  observation: {
+    enabled: 'boolean',
+    maxMessages: 'count',
+    windowSeconds: 'count',
+  },
+  campaign: {
+    burstMessages: 'count',
+    burstWindowSeconds: 'count',
+    clusterSenders: 'count',
+    clusterWindowSeconds: 'count',
+    firstContactSpike: 'count',
+    firstContactWindowSeconds: 'count',
+  },
+  lexicons: {
+    enabledPacks: 'idList',
+  },
+  actions: {
+    defaultAction: ['archive', 'delete', 'block', 'log'],
+    enableBlocking: 'boolean',
+    enableDeletion: 'boolean',
+    removeFromChatList: 'boolean',
+    revokeMessages: 'boolean',
+    quarantineRiskyAttachments: 'boolean',
+    botSenderPolicy: ['score', 'allow', 'archive'],
+  },
+};
+
+const ruleSettingsSchema: { [K in keyof RuleSettings]-?: FieldRule } = {
+  enabled: 'boolean',
+  weight: 'unit',
+};
+
+const tunableSections = [...Object.keys(tunableSchema), 'rules'];
+
+const builtInDefaults: TunableConfig = {
+  thresholds: {
+    lowThreshold: 0.3,
+    actionThreshold: 0.85,
+    vectorSimilarityCutoff: 0.9,
+  },
+  rateLimits: {
+    maxDeletesPerMinute: 5,
+    maxBlocksPerMinute: 10,
+  },
+  detection: {
+    checkContacts: true,
+    checkCommonGroups: true,
+    checkProfilePhoto: true,
+    checkLinks: true,
+    checkInviteLinks: true,
+    checkMentions: true,
+    checkPhoneNumbers: true,
+    checkBio: true,
+    checkPhotos: true,
+    checkAttachments: true,
+    checkProfileNames: true,
+  },
+  observation: {
+    enabled: true,
+    maxMessages: 3,
+    windowSeconds: 600,
+  },
+  campaign: {
+    burstMessages: 5,
+    burstWindowSeconds: 60,
+    clusterSenders: 3,
+    clusterWindowSeconds: 600,
+    firstContactSpike: 5,
+    firstContactWindowSeconds: 600,
+  },
+  lexicons: {
+    enabledPacks: [],
+  },
+  actions: {
+    defaultAction: 'log',
+    enableBlocking: true,
+    enableDeletion: false,
+    removeFromChatList: true,
+    revokeMessages: true,
+    quarantineRiskyAttachments: false,
+    botSenderPolicy: 'score',
+  },
+  rules: {},
+};
+
+const defaultTdlib = {
+  databaseDirectory: './tdlib-data',
+  filesDirectory: './tdlib-files',
+  useTestDc: false,
+  logVerbosityLevel: 2,
+};
+
+const defaultAttachmentRisks: AttachmentRiskTable = {
+  executable: ['exe', 'scr', 'com', 'pif', 'bat', 'cmd', 'msi', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'hta', 'ps1', 'lnk', 'jar', 'cpl'],
+  androidPackage: ['apk', 'apks', 'xapk', 'apkm'],
+  archive: ['zip', 'rar', '7z', 'tar', 'gz', 'tgz', 'bz2', 'xz', 'cab'],
+  macroDocument: ['docm', 'dotm', 'xlsm', 'xltm', 'xlam', 'pptm', 'ppsm'],
+  diskImage: ['iso', 'img', 'vhd', 'vhdx', 'dmg'],
+  decoy: ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'jpg', 'jpeg', 'png', 'gif', 'mp4', 'mov', 'avi', 'mkv', 'mp3'],
+};
+
+// Environment variables set by the orchestrator from the user's /settings
+const envOverrides: Record<string, [FixedSection, string]> = {
+  LOW_THRESHOLD: ['thresholds', 'lowThreshold'],
+  ACTION_THRESHOLD: ['thresholds', 'actionThreshold'],
+  VECTOR_SIMILARITY_CUTOFF: ['thresholds', 'vectorSimilarityCutoff'],
+  MAX_DELETES_PER_MINUTE: ['rateLimits', 'maxDeletesPerMinute'],
+  MAX_BLOCKS_PER_MINUTE: ['rateLimits', 'maxBlocksPerMinute'],
+  DEFAULT_ACTION: ['actions', 'defaultAction'],
+  ENABLE_DELETION: ['actions', 'enableDeletion'],
+  ENABLE_BLOCKING: ['actions', 'enableBlocking'],
+  LEXICON_PACKS: ['lexicons', 'enabledPacks'],
+};
+
+function describeRule(rule: FieldRule): string {
+  if (Array.isArray(rule)) {
+    return `one of ${rule.join(', ')}`;
+  }
+  switch (rule) {
+    case 'unit':
+      return 'a number between 0 and 1';
+    case 'count':
+      return 'a non-negative integer';
+    case 'idList':
+      return 'a list of ids';
+    default:
+      return 'a boolean';
+  }
+}
+
+function matchesRule(value: unknown, rule: FieldRule): boolean {
+  if (Array.isArray(rule)) {
+    return typeof value === 'string' && rule.includes(value);
+  }
+  switch (rule) {
+    case 'unit':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+    case 'count':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    case 'idList':
+      return Array.isArray(value) && value.every(id => typeof id === 'string' && /^[a-z][a-z0-9_]*$/.test(id));
+    default:
+      return typeof value === 'boolean';
+  }
+}
+
+function validateRuleSettings(values: Record<string, unknown>, errors: string[]): void {
+  for (const [ruleId, settings] of Object.entries(values)) {
+    if (!/^[a-z][a-z0-9_]*$/.test(ruleId)) {
+      errors.push(`invalid rule id "${ruleId}"`);
+      continue;
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      errors.push(`"rules.${ruleId}" must be an object`);
+      continue;
+    }
+    for (const [key, value] of Object.entries(settings)) {
+      const rule = (ruleSettingsSchema as Record<string, FieldRule>)[key];
+      if (!rule) {
+        errors.push(`unknown setting "rules.${ruleId}.${key}"`);
+      } else if (!matchesRule(value, rule)) {
+        errors.push(`"rules.${ruleId}.${key}" must be ${describeRule(rule)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a single layer against the schema. Throws listing every problem found.
+ */
+export function validateLayer(layer: unknown, name: ConfigLayerName): ConfigLayer {
+  if (typeof layer !== 'object' || layer === null || Array.isArray(layer)) {
+    throw new Error(`Invalid ${name} config: expected an object`);
+  }
+
+  const errors: string[] = [];
+  const input = layer as Record<string, unknown>;
+
+  for (const [section, values] of Object.entries(input)) {
+    const sectionSchema = (tunableSchema as Record<string, Record<string, FieldRule>>)[section];
+    if (!sectionSchema && section !== 'rules') {
+      errors.push(`unknown section "${section}"`);
+      continue;
+    }
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      errors.push(`"${section}" must be an object`);
+      continue;
+    }
+    if (section === 'rules') {
+      validateRuleSettings(values as Record<string, unknown>, errors);
+      continue;
+    }
+    for (const [key, value] of Object.entries(values)) {
+      const rule = sectionSchema[key];
+      if (!rule) {
+        errors.push(`unknown setting "${section}.${key}"`);
+      } else if (!matchesRule(value, rule)) {
+        errors.push(`"${section}.${key}" must be ${describeRule(rule)}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${name} config: ${errors.join('; ')}`);
+  }
+
+  return input as ConfigLayer;
+}
+
+function parseEnvValue(raw: string, rule: FieldRule): unknown {
+  if (rule === 'unit' || rule === 'count') {
+    return Number(raw);
+  }
+  if (rule === 'idList') {
+    // Comma-separated, as the orchestrator writes it
+    return raw.split(',').map(id => id.trim()).filter(Boolean);
+  }
+  if (rule === 'boolean') {
+    if (raw === 'true' || raw === '1') return true;
+    if (raw === 'false' || raw === '0') return false;
+  }
+  // Leave anything else as-is so validation reports it
+  return raw;
+}
+
+function loadEnvLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+  const layer: Record<string, Record<string, unknown>> = {};
+
+  for (const [envVar, [section, key]] of Object.entries(envOverrides)) {
+    const raw = env[envVar];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+    const rule = (tunableSchema[section] as Record<string, FieldRule>)[key];
+    layer[section] = { ...layer[section], [key]: parseEnvValue(raw, rule) };
+  }
+
+  return validateLayer(layer, 'env');
+}
+
+function loadFileLayer(configFile: Record<string, unknown>): ConfigLayer {
+  // The file also carries non-tunable sections (tdlib, attachmentRisks); only validate the tunable ones
+  const layer: Record<string, unknown> = {};
+  for (const section of tunableSections) {
+    if (configFile[section] !== undefined) {
+      layer[section] = configFile[section];
+    }
+  }
+  return validateLayer(layer, 'file');
+}
+
+/**
+ * Overlay the file's attachment risk table on the defaults, one category at a time
+ */
+function loadAttachmentRisks(section: unknown): AttachmentRiskTable {
+  if (section === undefined) {
+    return defaultAttachmentRisks;
+  }
+  if (typeof section !== 'object' || section === null || Array.isArray(section)) {
+    throw new Error('Invalid attachmentRisks config: expected an object');
+  }
+
+  const errors: string[] = [];
+  const table = { ...defaultAttachmentRisks };
+  for (const [category, extensions] of Object.entries(section)) {
+    if (!(category in defaultAttachmentRisks)) {
+      errors.push(`unknown category "${category}"`);
+    } else if (!Array.isArray(extensions) || !extensions.every(ext => typeof ext === 'string' && /^\.?[a-z0-9]+$/i.test(ext))) {
+      errors.push(`"attachmentRisks.${category}" must be a list of file extensions`);
+    } else {
+      table[category as keyof AttachmentRiskTable] = extensions.map(ext => ext.replace(/^\./, '').toLowerCase());
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid attachmentRisks config: ${errors.join('; ')}`);
+  }
+  return table;
+}
+
+/**
+ * Merge layers in order; later layers win. Returns merged values and the layer each value came from.
+ */
+function mergeLayers(layers: [ConfigLayerName, ConfigLayer][]): {
+  values: TunableConfig;
+  sources: Record<string, ConfigLayerName>;
+} {
+  const values = {} as Record<string, Record<string, unknown>>;
+  const sources: Record<string, ConfigLayerName> = {};
+
+  for (const [section, sectionSchema] of Object.entries(tunableSchema)) {
+    values[section] = {};
+    for (const key of Object.keys(sectionSchema)) {
+      for (const [name, layer] of layers) {
+        const layerSection = layer[section as keyof TunableConfig] as Record<string, unknown> | undefined;
+        if (layerSection && layerSection[key] !== undefined) {
+          values[section][key] = layerSection[key];
+          sources[`${section}.${key}`] = name;
+        }
+      }
+    }
+  }
+
+  // Rule overrides merge per rule and per field, so a layer can change one weight only
+  const rules: Record<string, RuleSettings> = {};
+  for (const [name, layer] of layers) {
+    for (const [ruleId, settings] of Object.entries(layer.rules || {})) {
+      for (const [key, value] of Object.entries(settings || {})) {
+        if (value !== undefined) {
+          rules[ruleId] = { ...rules[ruleId], [key]: value };
+          sources[`rules.${ruleId}.${key}`] = name;
+        }
+      }
+    }
+  }
+  values.rules = rules as Record<string, unknown>;
+
+  const merged = values as unknown as TunableConfig;
+  if (merged.thresholds.lowThreshold > merged.thresholds.actionThreshold) {
+    throw new Error(
+      `Invalid config: lowThreshold (${merged.thresholds.lowThreshold}) must not exceed ` +
+      `actionThreshold (${merged.thresholds.actionThreshold}), ` +
+      `set by ${sources['thresholds.lowThreshold']} and ${sources['thresholds.actionThreshold']} layers`
+    );
+  }
+
+  return { values: merged, sources };
+}
+
+const layers: Record<ConfigLayerName, ConfigLayer> = {
+  default: builtInDefaults,
+  file: {},
+  env: {},
+  runtime: {},
+};
+
+let configSources: Record<string, ConfigLayerName> = {};
+
+function orderedLayers(): [ConfigLayerName, ConfigLayer][] {
+  return [
+    ['default', layers.default],
+    ['file', layers.file],
+    ['env', layers.env],
+    ['runtime', layers.runtime],
+  ];
 }
 
 function loadConfig(): Config {
   // In Docker, config is mounted at /app/config; otherwise use relative path
   const configPath = process.env.CONFIG_PATH || join(__dirname, '../../config/default.json');
-  const configFile = JSON.parse(readFileSync(configPath, 'utf-8'));
+  const configFile = existsSync(configPath) ? JSON.parse(readFileSync(configPath, 'utf-8')) : {};
 
   const apiId = process.env.TG_API_ID;
   const apiHash = process.env.TG_API_HASH;
@@ -54,21 +514,137 @@ function loadConfig(): Config {
     throw new Error('TG_API_ID and TG_API_HASH must be set in environment variables');
   }
 
+  layers.file = loadFileLayer(configFile);
+  layers.env = loadEnvLayer(process.env);
+  const { values, sources } = mergeLayers(orderedLayers());
+  configSources = sources;
+
+  const tdlib = { ...defaultTdlib, ...configFile.tdlib };
+  const attachmentRisks = loadAttachmentRisks(configFile.attachmentRisks);
+
   return {
     telegram: {
       apiId: parseInt(apiId, 10),
       apiHash,
       phoneNumber: process.env.TG_PHONE_NUMBER,
-      ...configFile.tdlib,
+      ...tdlib,
+    },
+    ...values,
+    storage: {
+      // Agent state lives next to the TDLib database so it shares the per-user session volume
+      dataDirectory: process.env.DATA_DIR || join(tdlib.databaseDirectory, 'agent-state'),
+      domainListsPath: process.env.DOMAIN_LISTS_PATH || join(dirname(configPath), 'domain-lists.json'),
+      lexiconDirectory: process.env.LEXICON_DIR || join(dirname(configPath), 'lexicons'),
     },
-    thresholds: configFile.thresholds,
-    rateLimits: configFile.rateLimits,
-    detection: configFile.detection,
-    actions: configFile.actions,
     logging: {
       level: process.env.LOG_LEVEL || 'info',
     },
+    attachmentRisks,
   };
 }
 
 export const config = loadConfig();
+
+/**
+ * Layer each tunable value was resolved from, keyed by "section.key"
+ */
+export function getConfigSources(): Record<string, ConfigLayerName> {
+  return { ...configSources };
+}
+
+/**
+ * Current tunable values (without Telegram credentials or paths)
+ */
+export function getTunableConfig(): TunableConfig {
+  return {
+    thresholds: { ...config.thresholds },
+    rateLimits: { ...config.rateLimits },
+    detection: { ...config.detection },
+    observation: { ...config.observation },
+    campaign: { ...config.campaign },
+    lexicons: { enabledPacks: [...config.lexicons.enabledPacks] },
+    actions: { ...config.actions },
+    rules: Object.fromEntries(Object.entries(config.rules).map(([ruleId, settings]) => [ruleId, { ...settings }])),
+  };
+}
+
+/**
+ * Apply runtime overrides on top of the other layers. The update is validated and
+ * merged first; `config` is only modified if the whole result is valid.
+ */
+export function applyRuntimeConfig(update: unknown): TunableConfig {
+  const validated = validateLayer(update, 'runtime');
+
+  const runtime = { ...layers.runtime } as Record<string, Record<string, unknown>>;
+  for (const [section, values] of Object.entries(validated)) {
+    if (section === 'rules') {
+      const rules = { ...runtime.rules } as Record<string, RuleSettings>;
+      for (const [ruleId, settings] of Object.entries(values as Record<string, RuleSettings>)) {
+        rules[ruleId] = { ...rules[ruleId], ...settings };
+      }
+      runtime.rules = rules as Record<string, unknown>;
+    } else {
+      runtime[section] = { ...runtime[section], ...values };
+    }
+  }
+
+  const { values, sources } = mergeLayers([...orderedLayers().slice(0, 3), ['runtime', runtime as ConfigLayer]]);
+
+  layers.runtime = runtime as ConfigLayer;
+  configSources = sources;
+  config.thresholds = values.thresholds;
+  config.rateLimits = values.rateLimits;
+  config.detection = values.detection;
+  config.observation = values.observation;
+  config.campaign = values.campaign;
+  config.lexicons = values.lexicons;
+  config.actions = values.actions;
+  config.rules = values.rules;
+
+  return getTunableConfig();
+}
+
+function runtimeConfigPath(): string {
+  return join(config.storage.dataDirectory, 'runtime-config.json');
+}
+
+/**
+ * The saved runtime layer, tagged with the container it was saved in
+ */
+interface PersistedRuntimeConfig {
+  /** `CONFIG_GENERATION` of the container, set by the orchestrator each time it creates one */
+  generation: string | null;
+  layer: ConfigLayer;
+}
+
+function configGeneration(): string | null {
+  return process.env.CONFIG_GENERATION || null;
+}
+
+/**
+ * Save the runtime layer so settings pushed by the orchestrator survive container restarts
+ */
+export function persistRuntimeConfig(): void {
+  const filePath = runtimeConfigPath();
+  const persisted: PersistedRuntimeConfig = { generation: configGeneration(), layer: layers.runtime };
+  writeJsonAtomic(filePath, persisted);
+}
+
+/**
+ * Re-apply the runtime layer saved by a previous run of the same container. A layer
+ * saved by an earlier container is deleted instead: the orchestrator created this one
+ * with the user's current settings in its env, and stale overrides would hide them.
+ */
+export function restoreRuntimeConfig(): 'restored' | 'discarded' | 'missing' {
+  const filePath = runtimeConfigPath();
+  const saved = readJsonIfExists<Partial<PersistedRuntimeConfig>>(filePath);
+  if (!saved) {
+    return 'missing';
+  }
+  if (saved.generation !== configGeneration() || saved.layer === undefined) {
+    rmSync(filePath, { force: true });
+    return 'discarded';
+  }
+  applyRuntimeConfig(saved.layer);
+  return 'restored';
+}
@@ -41,6 +41,7 @@ jest.mock('../../utils/metrics', () => ({
 const { logger } = require('../../utils/logger');
 const { metrics } = require('../../utils/metrics');
 const { config } = require('../../config');
+const { actionJournal } = require('../../utils/actionJournal');
 
 describe('ActionHandler', () => {
   let actionHandler: ActionHandler;
@@ -55,11 +56,39 @@ describe('ActionHandler', () => {
   });
 
   describe('handleSpam', () => {
+    it('should return the action taken and its journal id', async () => {
+      mockClient.invoke.mockResolvedValue({});
+
+      const outcome = await actionHandler.handleSpam(mockClient, 12345, 67890, {
+        isSpam: true,
+        score: 0.9,
+        reasons: [{ ruleId: 'test', contribution: 0.9 }],
+      });
+
+      expect(outcome).toEqual({ action: 'archive', actionId: expect.any(Number) });
+      expect(actionJournal.get(outcome.actionId!)).toMatchObject({
+        chatId: 12345,
+        userId: 67890,
+        archived: true,
+        blocked: false,
+      });
+    });
+
+    it('should not journal log-only detections', async () => {
+      const outcome = await actionHandler.handleSpam(mockClient, 12345, 67890, {
+        isSpam: true,
+        score: 0.5,
+        reasons: [{ ruleId: 'test', contribution: 0.9 }],
+      });
+
+      expect(outcome).toEqual({ action: 'log', actionId: null });
+    });
+
     it('should log only when score is below action threshold and default action is log', async () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.5,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -75,7 +104,10 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.9,
-        reasons: ['sender_not_in_contacts', 'suspicious_content_pattern'],
+        reasons: [
+          { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+          { ruleId: 'contains_url', contribution: 0.4 },
+        ],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -95,7 +127,11 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.95,
-        reasons: ['sender_not_in_contacts', 'no_common_groups', 'suspicious_content_pattern'],
+        reasons: [
+          { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+          { ruleId: 'no_common_groups', contribution: 0.2 },
+          { ruleId: 'contains_url', contribution: 0.4 },
+        ],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -125,7 +161,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.95,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       // Exhaust the rate limit (5 deletes per minute)
@@ -138,7 +174,7 @@ describe('ActionHandler', () => {
       metrics.incrementSpamBlocked.mockClear();
 
       // Next call should fallback to archive
-      await actionHandler.handleSpam(mockClient, 99999, 88888, detection);
+      const outcome = await actionHandler.handleSpam(mockClient, 99999, 88888, detection);
 
       expect(logger.warn).toHaveBeenCalledWith(
         expect.objectContaining({ chatId: 99999 }),
@@ -152,6 +188,7 @@ describe('ActionHandler', () => {
       expect(metrics.incrementRateLimitHits).toHaveBeenCalled();
       expect(metrics.incrementSpamArchived).toHaveBeenCalled();
       expect(metrics.incrementSpamBlocked).not.toHaveBeenCalled();
+      expect(outcome.action).toBe('archive');
 
       config.actions.enableDeletion = false;
     });
@@ -163,7 +200,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.95,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -190,7 +227,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.95,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await expect(
@@ -211,7 +248,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.5, // Below action threshold
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -240,7 +277,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.95,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -258,7 +295,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.95,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       // Perform 3 block+delete operations
@@ -274,6 +311,95 @@ describe('ActionHandler', () => {
     });
   });
 
+  describe('updateRateLimits', () => {
+    it('should pick up changed rate limits from config', () => {
+      config.rateLimits.maxDeletesPerMinute = 2;
+      config.rateLimits.maxBlocksPerMinute = 3;
+
+      actionHandler.updateRateLimits();
+
+      expect(actionHandler.getRemainingActions()).toEqual({ deletes: 2, blocks: 3 });
+
+      config.rateLimits.maxDeletesPerMinute = 5;
+      config.rateLimits.maxBlocksPerMinute = 10;
+    });
+  });
+
+  describe('blockSender', () => {
+    it('should block the sender even when automatic blocking is disabled', async () => {
+      config.actions.enableBlocking = false;
+      mockClient.invoke.mockResolvedValue({});
+
+      const actionId = await actionHandler.blockSender(mockClient, 12345, 67890);
+
+      expect(mockClient.invoke).toHaveBeenCalledWith({
+        _: 'setMessageSenderBlockList',
+        sender_id: { _: 'messageSenderUser', user_id: 67890 },
+        block_list: { _: 'blockListMain' },
+      });
+      expect(metrics.incrementSpamBlocked).toHaveBeenCalled();
+      expect(actionHandler.getRemainingActions().blocks).toBe(9);
+      expect(actionJournal.get(actionId)).toMatchObject({ chatId: 12345, userId: 67890, blocked: true });
+
+      config.actions.enableBlocking = true;
+    });
+
+    it('should refuse once the block rate limit is reached', async () => {
+      mockClient.invoke.mockResolvedValue({});
+      for (let i = 0; i < 10; i++) {
+        await actionHandler.blockSender(mockClient, 10000 + i, 20000 + i);
+      }
+
+      await expect(actionHandler.blockSender(mockClient, 88888, 99999)).rejects.toThrow('Block rate limit exceeded');
+      expect(metrics.incrementRateLimitHits).toHaveBeenCalled();
+    });
+  });
+
+  describe('undoAction', () => {
+    it('should move an archived chat back to the main list', async () => {
+      mockClient.invoke.mockResolvedValue({});
+      const { actionId } = await actionHandler.handleSpam(mockClient, 12345, 67890, {
+        isSpam: true,
+        score: 0.9,
+        reasons: [{ ruleId: 'test', contribution: 0.9 }],
+      });
+      mockClient.invoke.mockClear();
+
+      const record = await actionHandler.undoAction(mockClient, actionId!);
+
+      expect(mockClient.invoke).toHaveBeenCalledTimes(1);
+      expect(mockClient.invoke).toHaveBeenCalledWith({
+        _: 'addChatToList',
+        chat_id: 12345,
+        chat_list: { _: 'chatListMain' },
+      });
+      expect(record.undoneAt).not.toBeNull();
+    });
+
+    it('should unblock a blocked sender with a null block list', async () => {
+      mockClient.invoke.mockResolvedValue({});
+      const actionId = await actionHandler.blockSender(mockClient, 12345, 67890);
+      mockClient.invoke.mockClear();
+
+      await actionHandler.undoAction(mockClient, actionId);
+
+      expect(mockClient.invoke).toHaveBeenCalledWith({
+        _: 'setMessageSenderBlockList',
+        sender_id: { _: 'messageSenderUser', user_id: 67890 },
+        block_list: null,
+      });
+    });
+
+    it('should refuse unknown or already undone actions', async () => {
+      mockClient.invoke.mockResolvedValue({});
+      const actionId = await actionHandler.blockSender(mockClient, 12345, 67890);
+      await actionHandler.undoAction(mockClient, actionId);
+
+      await expect(actionHandler.undoAction(mockClient, actionId)).rejects.toThrow('already undone');
+      await expect(actionHandler.undoAction(mockClient, 999999)).rejects.toThrow('not found');
+    });
+  });
+
   describe('determineAction', () => {
     it('should return block when score exceeds action threshold and deletion enabled', async () => {
       config.actions.enableDeletion = true;
@@ -281,7 +407,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.9,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -298,7 +424,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.9,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -318,7 +444,7 @@ describe('ActionHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.5,
-        reasons: ['sender_not_in_contacts'],
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
       };
 
       await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
@@ -338,5 +464,60 @@ describe('ActionHandler', () => {
       config.actions.defaultAction = 'log';
       config.actions.enableDeletion = false;
     });
+
+    it('should map "block" action from bot settings to "block"', async () => {
+      actionHandler = new ActionHandler();
+      config.actions.defaultAction = 'block';
+
+      const detection: SpamDetectionResult = {
+        isSpam: true,
+        score: 0.5,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+      };
+
+      await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
+
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'block' }),
+        'Taking action on spam'
+      );
+
+      config.actions.defaultAction = 'log';
+    });
+
+    it('should archive quarantined detections even when the default action is log', async () => {
+      mockClient.invoke.mockResolvedValue({});
+
+      const detection: SpamDetectionResult = {
+        isSpam: true,
+        score: 0.2,
+        reasons: [{ ruleId: 'attachment_macro_document', contribution: 0.2 }],
+        quarantine: true,
+      };
+
+      const outcome = await actionHandler.handleSpam(mockClient, 12345, 67890, detection);
+
+      expect(outcome.action).toBe('archive');
+      expect(mockClient.invoke).toHaveBeenCalledWith(expect.objectContaining({ _: 'addChatToList', chat_id: 12345 }));
+    });
+
+    it('should only archive detections that force it, whatever the score and default action', async () => {
+      mockClient.invoke.mockResolvedValue({});
+      config.actions.defaultAction = 'block';
+      config.actions.enableDeletion = true;
+
+      const outcome = await actionHandler.handleSpam(mockClient, 12345, 67890, {
+        isSpam: true,
+        score: 1,
+        reasons: [{ ruleId: 'bot_sender_policy', contribution: 1 }],
+        forceArchive: true,
+      });
+
+      expect(outcome.action).toBe('archive');
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'setMessageSenderBlockList' }));
+
+      config.actions.defaultAction = 'log';
+      config.actions.enableDeletion = false;
+    });
   });
 });
@@ -2,6 +2,7 @@ import { MessageHandler } from '../messageHandler';
 import { ActionHandler } from '../actionHandler';
 import { detectSpam, getUserProfile, SpamDetectionResult, UserProfile } from '../spamDetector';
 import { Client } from 'tdl';
+import { config } from '../../config';
 
 // Mocks
 jest.mock('../../utils/logger', () => ({
@@ -12,10 +13,36 @@ jest.mock('../../utils/logger', () => ({
   },
 }));
 
+jest.mock('../../config', () => ({
+  config: {
+    thresholds: {
+      lowThreshold: 0.3,
+      actionThreshold: 0.85,
+    },
+    observation: {
+      enabled: false,
+      maxMessages: 3,
+      windowSeconds: 600,
+    },
+    actions: {
+      botSenderPolicy: 'score',
+    },
+    campaign: {
+      burstMessages: 5,
+      burstWindowSeconds: 60,
+      clusterSenders: 3,
+      clusterWindowSeconds: 600,
+      firstContactSpike: 5,
+      firstContactWindowSeconds: 600,
+    },
+  },
+}));
+
 jest.mock('../../utils/metrics', () => ({
   metrics: {
     incrementMessagesProcessed: jest.fn(),
     incrementSpamDetected: jest.fn(),
+    incrementEditedSpamDetected: jest.fn(),
     getMetrics: jest.fn(() => ({
       msgProcessedTotal: 42,
       spamDetectedTotal: 10,
@@ -35,7 +62,30 @@ jest.mock('../spamDetector', () => ({
 // Spy on ActionHandler to intercept instance methods
 jest.mock('../actionHandler');
 
+jest.mock('../../utils/eventLog', () => ({
+  eventLog: {
+    record: jest.fn(() => ({ id: 7 })),
+  },
+}));
+
+jest.mock('../../utils/feedbackStore', () => ({
+  feedbackStore: {
+    addPending: jest.fn(),
+    getPending: jest.fn(() => []),
+    getLabeledExamples: jest.fn(() => []),
+    recordLabel: jest.fn(),
+  },
+}));
+
 const { metrics } = require('../../utils/metrics');
+const { eventLog } = require('../../utils/eventLog');
+const { feedbackStore } = require('../../utils/feedbackStore');
+const { senderLists } = require('../../utils/senderLists');
+const { senderReputation } = require('../../utils/senderReputation');
+const { chatActivity } = require('../../utils/chatActivity');
+const { observationWindows } = require('../../utils/observationWindow');
+const { campaignTracker } = require('../../utils/campaignTracker');
+const { actionJournal } = require('../../utils/actionJournal');
 const { logger } = require('../../utils/logger');
 
 describe('MessageHandler', () => {
@@ -54,17 +104,37 @@ describe('MessageHandler', () => {
     // Mock ActionHandler constructor to return a mock instance
     (ActionHandler as jest.Mock).mockImplementation(() => {
       mockActionHandlerInstance = {
-        handleSpam: jest.fn().mockResolvedValue(undefined),
+        handleSpam: jest.fn().mockResolvedValue({ action: 'archive', actionId: 4 }),
+        blockSender: jest.fn().mockResolvedValue(5),
+        undoAction: jest.fn().mockResolvedValue({
+          id: 4,
+          chatId: 123,
+          userId: 999,
+          archived: true,
+          blocked: false,
+          historyDeleted: false,
+          timestamp: 1,
+          undoneAt: 2,
+        }),
         getRemainingActions: jest.fn(() => ({ deletes: 5, blocks: 10 })),
       } as any;
       return mockActionHandlerInstance;
     });
 
     messageHandler = new MessageHandler();
+    senderLists.setEntries([]);
+    senderReputation.purgeAll();
+    // Observation windows have their own tests below
+    config.observation = { enabled: false, maxMessages: 3, windowSeconds: 600 };
+    observationWindows.clear();
+    campaignTracker.clear();
   });
 
   describe('handleNewMessage', () => {
-    it('should ignore outgoing messages', async () => {
+    it('should not score outgoing messages', async () => {
+      mockClient.invoke.mockResolvedValueOnce({
+        type: { _: 'chatTypePrivate', user_id: 999 },
+      } as any);
       const update = {
         message: {
           is_outgoing: true,
@@ -74,7 +144,7 @@ describe('MessageHandler', () => {
 
       await messageHandler.handleNewMessage(mockClient, update);
 
-      expect(mockClient.invoke).not.toHaveBeenCalled();
+      expect(detectSpam).not.toHaveBeenCalled();
       expect(metrics.incrementMessagesProcessed).not.toHaveBeenCalled();
     });
 
@@ -114,7 +184,10 @@ describe('MessageHandler', () => {
       const detection: SpamDetectionResult = {
         isSpam: true,
         score: 0.9,
-        reasons: ['sender_not_in_contacts', 'suspicious_content_pattern'],
+        reasons: [
+          { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+          { ruleId: 'contains_url', contribution: 0.4 },
+        ],
       };
       (detectSpam as jest.Mock).mockResolvedValueOnce(detection);
 
@@ -200,6 +273,758 @@ describe('MessageHandler', () => {
     });
   });
 
+  describe('sender lists', () => {
+    const strangerProfile: UserProfile = {
+      userId: 999,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: false,
+      username: 'promo_bot_42',
+      hasCommonGroups: false,
+    };
+
+    const update = {
+      message: {
+        is_outgoing: false,
+        chat_id: 123,
+        content: { text: { text: 'Visit https://spam.com' } },
+      },
+    };
+
+    beforeEach(() => {
+      mockClient.invoke.mockResolvedValueOnce({
+        type: { _: 'chatTypePrivate', user_id: 999 },
+      } as any);
+      (getUserProfile as jest.Mock).mockResolvedValueOnce(strangerProfile);
+    });
+
+    it('should skip scoring for allowlisted senders and record the hit', async () => {
+      senderLists.setEntries([{ list: 'allow', type: 'user_id', value: '999' }]);
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).not.toHaveBeenCalled();
+      expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+      expect(eventLog.record).toHaveBeenCalledWith('list_hit', {
+        chatId: 123,
+        userId: 999,
+        list: 'allow',
+        entryType: 'user_id',
+        entryValue: '999',
+      });
+    });
+
+    it('should treat denylisted senders as spam without scoring', async () => {
+      senderLists.setEntries([{ list: 'deny', type: 'username', value: 'promo_*' }]);
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).not.toHaveBeenCalled();
+      expect(metrics.incrementSpamDetected).toHaveBeenCalled();
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(
+        mockClient,
+        123,
+        999,
+        { isSpam: true, score: 1, reasons: [{ ruleId: 'denylist_match', contribution: 1 }] }
+      );
+      expect(eventLog.record).toHaveBeenCalledWith('list_hit', expect.objectContaining({ list: 'deny' }));
+    });
+
+    it('should score normally when no list entry matches', async () => {
+      senderLists.setEntries([{ list: 'deny', type: 'user_id', value: '1' }]);
+      (detectSpam as jest.Mock).mockResolvedValueOnce({ isSpam: false, score: 0, reasons: [] });
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).toHaveBeenCalled();
+      expect(eventLog.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bot senders', () => {
+    const botProfile: UserProfile = {
+      userId: 777,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      username: 'lucky_prize_bot',
+      hasCommonGroups: false,
+      accountType: 'bot',
+    };
+
+    const update = {
+      message: {
+        is_outgoing: false,
+        chat_id: 777,
+        content: { text: { text: 'You won! Claim at https://prize.example' } },
+      },
+    };
+
+    beforeEach(() => {
+      mockClient.invoke.mockResolvedValueOnce({
+        type: { _: 'chatTypePrivate', user_id: 777 },
+      } as any);
+      (getUserProfile as jest.Mock).mockResolvedValueOnce(botProfile);
+      (detectSpam as jest.Mock).mockResolvedValue({ isSpam: false, score: 0.2, reasons: [] });
+    });
+
+    afterEach(() => {
+      config.actions.botSenderPolicy = 'score';
+    });
+
+    it('should score bots normally by default', async () => {
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).toHaveBeenCalled();
+    });
+
+    it('should let bots through without scoring under the allow policy', async () => {
+      config.actions.botSenderPolicy = 'allow';
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).not.toHaveBeenCalled();
+      expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+    });
+
+    it('should archive bots without scoring under the archive policy', async () => {
+      config.actions.botSenderPolicy = 'archive';
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).not.toHaveBeenCalled();
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 777, 777, {
+        isSpam: true,
+        score: 1,
+        reasons: [{ ruleId: 'bot_sender_policy', contribution: 1 }],
+        forceArchive: true,
+      });
+      expect(eventLog.record).toHaveBeenCalledWith('detection', expect.objectContaining({ action: 'archive' }));
+    });
+
+    it('should trust bots the owner started whatever the policy', async () => {
+      config.actions.botSenderPolicy = 'archive';
+      chatActivity.recordOutgoing(777);
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(detectSpam).not.toHaveBeenCalled();
+      expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+    });
+
+    it('should leave denylisted bots to the denylist', async () => {
+      config.actions.botSenderPolicy = 'allow';
+      senderLists.setEntries([{ list: 'deny', type: 'user_id', value: '777' }]);
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 777, 777, expect.objectContaining({
+        reasons: [{ ruleId: 'denylist_match', contribution: 1 }],
+      }));
+    });
+  });
+
+  describe('review queue', () => {
+    const update = {
+      message: {
+        is_outgoing: false,
+        chat_id: 123,
+        content: { text: { text: 'Cheap followers at https://spam.com, ask @promo_seller' } },
+      },
+    };
+
+    beforeEach(() => {
+      mockClient.invoke.mockResolvedValueOnce({
+        type: { _: 'chatTypePrivate', user_id: 999 },
+      } as any);
+      (getUserProfile as jest.Mock).mockResolvedValueOnce({
+        userId: 999,
+        isContact: false,
+        isMutualContact: false,
+        hasProfilePhoto: false,
+        username: 'promo_seller',
+        hasCommonGroups: false,
+      });
+    });
+
+    it('should publish detections with a redacted snippet and the action taken', async () => {
+      (detectSpam as jest.Mock).mockResolvedValueOnce({
+        isSpam: true,
+        score: 0.7,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+      });
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(eventLog.record).toHaveBeenCalledWith('detection', {
+        chatId: 123,
+        userId: 999,
+        username: 'promo_seller',
+        score: 0.7,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+        snippet: 'Cheap followers at [link] ask [handle]',
+        action: 'archive',
+        actionId: 4,
+      });
+    });
+
+    it('should keep the full text locally for labeling', async () => {
+      (detectSpam as jest.Mock).mockResolvedValueOnce({
+        isSpam: true,
+        score: 0.7,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+      });
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(feedbackStore.addPending).toHaveBeenCalledWith({
+        eventId: 7,
+        chatId: 123,
+        userId: 999,
+        text: 'Cheap followers at https://spam.com, ask @promo_seller',
+        score: 0.7,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+      });
+    });
+
+    it('should queue the caption of media messages', async () => {
+      (detectSpam as jest.Mock).mockResolvedValueOnce({
+        isSpam: true,
+        score: 0.7,
+        reasons: [{ ruleId: 'contains_url', contribution: 0.4 }],
+      });
+
+      await messageHandler.handleNewMessage(mockClient, {
+        message: {
+          ...update.message,
+          content: { _: 'messagePhoto', caption: { text: 'Prizes at https://win.example', entities: [] } },
+        },
+      });
+
+      expect(eventLog.record).toHaveBeenCalledWith('detection', expect.objectContaining({
+        snippet: 'Prizes at [link]',
+      }));
+      expect(feedbackStore.addPending).toHaveBeenCalledWith(expect.objectContaining({
+        text: 'Prizes at https://win.example',
+      }));
+    });
+
+    it('should keep photo hashes with the review so confirmed spam images can be matched', async () => {
+      (detectSpam as jest.Mock).mockResolvedValueOnce({
+        isSpam: true,
+        score: 0.7,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+        imageHashes: ['f0f0f0f0f0f0f0f0'],
+      });
+
+      await messageHandler.handleNewMessage(mockClient, {
+        message: { ...update.message, content: { _: 'messagePhoto', caption: { text: '', entities: [] } } },
+      });
+
+      expect(feedbackStore.addPending).toHaveBeenCalledWith(expect.objectContaining({
+        imageHashes: ['f0f0f0f0f0f0f0f0'],
+      }));
+    });
+
+    it('should remember the sender, their score and the action taken', async () => {
+      (detectSpam as jest.Mock).mockResolvedValueOnce({
+        isSpam: true,
+        score: 0.7,
+        reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }],
+      });
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(senderReputation.get(999)).toMatchObject({
+        messageCount: 1,
+        detectionCount: 1,
+        recentScores: [0.7],
+        actions: { archive: 1, block: 0 },
+      });
+    });
+
+    it('should not queue messages below the low threshold', async () => {
+      (detectSpam as jest.Mock).mockResolvedValueOnce({ isSpam: false, score: 0.1, reasons: [] });
+
+      await messageHandler.handleNewMessage(mockClient, update);
+
+      expect(eventLog.record).not.toHaveBeenCalled();
+      expect(feedbackStore.addPending).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('observation window', () => {
+    const stranger: UserProfile = {
+      userId: 999,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: false,
+      hasCommonGroups: false,
+    };
+
+    const incoming = (chatId: number, text: string) => ({
+      message: { is_outgoing: false, chat_id: chatId, content: { text: { text } } },
+    });
+
+    const receive = async (chatId: number, text: string, detection: SpamDetectionResult) => {
+      mockClient.invoke.mockResolvedValueOnce({ type: { _: 'chatTypePrivate', user_id: 999 } } as any);
+      (getUserProfile as jest.Mock).mockResolvedValueOnce(stranger);
+      (detectSpam as jest.Mock).mockResolvedValueOnce(detection);
+      await messageHandler.handleNewMessage(mockClient, incoming(chatId, text));
+    };
+
+    const interim = { isSpam: true, score: 0.5, reasons: [{ ruleId: 'sender_not_in_contacts', contribution: 0.3 }] };
+
+    beforeEach(() => {
+      config.observation = { enabled: true, maxMessages: 2, windowSeconds: 600 };
+    });
+
+    it('should hold back the verdict on the first message from a new sender', async () => {
+      await receive(801, 'Hi, is this Anna?', interim);
+
+      expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+      expect(observationWindows.list()).toEqual([
+        expect.objectContaining({ chatId: 801, userId: 999, messageCount: 1, score: 0.5 }),
+      ]);
+    });
+
+    it('should score later messages with the conversation so far and decide when the window is full', async () => {
+      await receive(802, 'Hi, is this Anna?', { isSpam: false, score: 0.1, reasons: [] });
+      await receive(802, 'Invest with me at https://spam.com', interim);
+
+      expect((detectSpam as jest.Mock).mock.calls[1][3]).toEqual([incoming(802, 'Hi, is this Anna?').message]);
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 802, 999, interim);
+      expect(feedbackStore.addPending).toHaveBeenCalledWith(expect.objectContaining({
+        chatId: 802,
+        text: 'Hi, is this Anna?\nInvest with me at https://spam.com',
+      }));
+      expect(observationWindows.has(802)).toBe(false);
+    });
+
+    it('should act at once on a hard signal', async () => {
+      const detection = { isSpam: true, score: 0.9, reasons: [{ ruleId: 'telegram_flagged_scam', contribution: 0.9 }] };
+
+      await receive(803, 'Claim your prize', detection);
+
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 803, 999, detection);
+      expect(observationWindows.has(803)).toBe(false);
+    });
+
+    it('should act at once on a quarantined attachment', async () => {
+      const detection = {
+        isSpam: true,
+        score: 0.2,
+        reasons: [{ ruleId: 'attachment_macro_document', contribution: 0.2 }],
+        quarantine: true,
+      };
+
+      await receive(808, 'Salary review attached', detection);
+
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 808, 999, detection);
+      expect(observationWindows.has(808)).toBe(false);
+    });
+
+    it('should decide when the window expires', async () => {
+      jest.useFakeTimers();
+      try {
+        await receive(804, 'Hi, is this Anna?', interim);
+        expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(600 * 1000);
+
+        expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 804, 999, interim);
+        expect(observationWindows.has(804)).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should decide every open window on shutdown', async () => {
+      await receive(809, 'Hi, is this Anna?', interim);
+      await receive(810, 'Hi, is this Anna?', { isSpam: false, score: 0.1, reasons: [] });
+
+      await messageHandler.closeAllObservations(mockClient);
+
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledTimes(1);
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 809, 999, interim);
+      expect(observationWindows.list()).toEqual([]);
+    });
+
+    it('should not act when the conversation stays clean', async () => {
+      await receive(805, 'Hi, is this Anna?', { isSpam: false, score: 0.1, reasons: [] });
+      await receive(805, 'Sorry, wrong number', { isSpam: false, score: 0.1, reasons: [] });
+
+      expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+      expect(observationWindows.has(805)).toBe(false);
+    });
+
+    it('should score senders it already knows per message', async () => {
+      senderReputation.recordMessage(999, 0, false);
+
+      await receive(806, 'Hi again', interim);
+
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalled();
+      expect(observationWindows.has(806)).toBe(false);
+    });
+
+    it('should drop the window when the owner replies', async () => {
+      await receive(807, 'Hi, is this Anna?', interim);
+      mockClient.invoke.mockResolvedValueOnce({ type: { _: 'chatTypePrivate', user_id: 999 } } as any);
+
+      await messageHandler.handleNewMessage(mockClient, { message: { is_outgoing: true, chat_id: 807 } });
+
+      expect(observationWindows.has(807)).toBe(false);
+      expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('edited messages', () => {
+    const stranger: UserProfile = {
+      userId: 999,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: false,
+      hasCommonGroups: false,
+    };
+    const edited = {
+      id: 55,
+      chat_id: 901,
+      is_outgoing: false,
+      date: 1700000000,
+      edit_date: 1700000060,
+      content: { _: 'messageText', text: { text: 'Now at https://spam.com', entities: [] } },
+    };
+    const spam = { isSpam: true, score: 0.5, reasons: [{ ruleId: 'edited_after_send', contribution: 0.2 }] };
+
+    const tdlib = (message: object) => {
+      mockClient.invoke.mockImplementation(async (request: any) => {
+        switch (request._) {
+          case 'getMessage':
+            return message;
+          case 'getChat':
+            return { type: { _: 'chatTypePrivate', user_id: 999 } };
+          default:
+            throw new Error(`Unexpected request ${request._}`);
+        }
+      });
+      (getUserProfile as jest.Mock).mockResolvedValue(stranger);
+    };
+
+    afterEach(() => {
+      (getUserProfile as jest.Mock).mockReset();
+    });
+
+    it('should fetch and re-score the edited message', async () => {
+      tdlib(edited);
+      (detectSpam as jest.Mock).mockResolvedValueOnce(spam);
+
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageContent', chat_id: 901, message_id: 55 });
+
+      expect(mockClient.invoke).toHaveBeenCalledWith({ _: 'getMessage', chat_id: 901, message_id: 55 });
+      expect(detectSpam).toHaveBeenCalledWith(mockClient, edited, stranger);
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 901, 999, spam);
+      expect(metrics.incrementEditedSpamDetected).toHaveBeenCalled();
+      expect(metrics.incrementSpamDetected).not.toHaveBeenCalled();
+      expect(metrics.incrementMessagesProcessed).not.toHaveBeenCalled();
+    });
+
+    it('should score each edit once although TDLib reports it twice', async () => {
+      tdlib({ ...edited, chat_id: 902 });
+      (detectSpam as jest.Mock).mockResolvedValue({ isSpam: false, score: 0.1, reasons: [] });
+
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageContent', chat_id: 902, message_id: 55 });
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageEdited', chat_id: 902, message_id: 55 });
+
+      expect(detectSpam).toHaveBeenCalledTimes(1);
+      (detectSpam as jest.Mock).mockReset();
+    });
+
+    it('should not fetch edited messages in groups and channels', async () => {
+      mockClient.invoke.mockResolvedValueOnce({ type: { _: 'chatTypeSupergroup', supergroup_id: 5 } } as any);
+
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageContent', chat_id: -1005, message_id: 55 });
+
+      expect(mockClient.invoke).toHaveBeenCalledTimes(1);
+      expect(mockClient.invoke).toHaveBeenCalledWith({ _: 'getChat', chat_id: -1005 });
+      expect(detectSpam).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the owner\'s own edits', async () => {
+      tdlib({ ...edited, is_outgoing: true });
+
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageEdited', chat_id: 901, message_id: 55 });
+
+      expect(detectSpam).not.toHaveBeenCalled();
+    });
+
+    it('should leave chats already waiting for review alone', async () => {
+      tdlib({ ...edited, chat_id: 903 });
+      feedbackStore.getPending.mockReturnValueOnce([{ eventId: 7, chatId: 903, userId: 999 }]);
+
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageContent', chat_id: 903, message_id: 55 });
+
+      expect(detectSpam).not.toHaveBeenCalled();
+    });
+
+    it('should re-score an observed conversation with the edited message', async () => {
+      config.observation = { enabled: true, maxMessages: 3, windowSeconds: 600 };
+      const original = { ...edited, chat_id: 904, edit_date: 0, content: { text: { text: 'Hi, is this Anna?' } } };
+      tdlib(original);
+      (detectSpam as jest.Mock).mockResolvedValueOnce({ isSpam: false, score: 0.1, reasons: [] });
+      await messageHandler.handleNewMessage(mockClient, { message: original });
+
+      const update = { ...edited, chat_id: 904 };
+      tdlib(update);
+      const hard = { isSpam: true, score: 0.9, reasons: [{ ruleId: 'contains_url', contribution: 0.4 }] };
+      (detectSpam as jest.Mock).mockResolvedValueOnce(hard);
+
+      await messageHandler.handleEditedMessage(mockClient, { _: 'updateMessageContent', chat_id: 904, message_id: 55 });
+
+      expect(detectSpam).toHaveBeenLastCalledWith(mockClient, update, stranger, []);
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 904, 999, hard);
+      expect(metrics.incrementEditedSpamDetected).toHaveBeenCalled();
+      expect(observationWindows.has(904)).toBe(false);
+    });
+  });
+
+  describe('campaigns', () => {
+    const pitch = 'Earn 500 USD a day with my crypto mentor, message me';
+    const messageFrom = (userId: number) => ({
+      id: userId * 10,
+      chat_id: userId,
+      is_outgoing: false,
+      content: { _: 'messageText', text: { text: pitch, entities: [] } },
+    });
+    const profileOf = (userId: number): UserProfile => ({
+      userId,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    });
+
+    beforeEach(() => {
+      mockClient.invoke.mockImplementation(async (request: any) => {
+        switch (request._) {
+          case 'getChat':
+            return { type: { _: 'chatTypePrivate', user_id: request.chat_id } };
+          case 'getMessage':
+            return messageFrom(request.chat_id);
+          default:
+            throw new Error(`Unexpected request ${request._}`);
+        }
+      });
+      (getUserProfile as jest.Mock).mockImplementation(async (_client: unknown, userId: number) => profileOf(userId));
+    });
+
+    afterEach(() => {
+      (getUserProfile as jest.Mock).mockReset();
+      (detectSpam as jest.Mock).mockReset();
+    });
+
+    it('should re-score earlier senders once the same text forms a campaign', async () => {
+      const clean = { isSpam: false, score: 0.2, reasons: [] };
+      const campaign = { isSpam: true, score: 0.7, reasons: [{ ruleId: 'campaign_cluster', contribution: 0.5 }] };
+      (detectSpam as jest.Mock)
+        .mockResolvedValueOnce(clean)
+        .mockResolvedValueOnce(clean)
+        .mockResolvedValue(campaign);
+
+      for (const userId of [901, 902, 903]) {
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(userId) });
+      }
+
+      expect(mockClient.invoke).toHaveBeenCalledWith({ _: 'getMessage', chat_id: 901, message_id: 9010 });
+      expect(mockClient.invoke).toHaveBeenCalledWith({ _: 'getMessage', chat_id: 902, message_id: 9020 });
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledTimes(3);
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 901, 901, campaign);
+      expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 902, 902, campaign);
+    });
+
+    it('should leave members that are already waiting for review alone', async () => {
+      (detectSpam as jest.Mock).mockResolvedValue({ isSpam: false, score: 0.2, reasons: [] });
+      feedbackStore.getPending.mockReturnValue([{ eventId: 1, chatId: 901, userId: 901 }]);
+
+      try {
+        for (const userId of [901, 902, 903]) {
+          await messageHandler.handleNewMessage(mockClient, { message: messageFrom(userId) });
+        }
+      } finally {
+        feedbackStore.getPending.mockReturnValue([]);
+      }
+
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'getMessage', chat_id: 901 }));
+      expect(mockClient.invoke).toHaveBeenCalledWith({ _: 'getMessage', chat_id: 902, message_id: 9020 });
+    });
+
+    it('should leave chats that were already acted on or labeled alone', async () => {
+      (detectSpam as jest.Mock).mockResolvedValue({ isSpam: false, score: 0.2, reasons: [] });
+      feedbackStore.getLabeledExamples.mockReturnValue([{ eventId: 1, chatId: 901, userId: 901, label: 'not_spam' }]);
+      const hasChat = jest.spyOn(actionJournal, 'hasChat').mockImplementation(chatId => chatId === 902);
+
+      try {
+        for (const userId of [901, 902, 903]) {
+          await messageHandler.handleNewMessage(mockClient, { message: messageFrom(userId) });
+        }
+      } finally {
+        feedbackStore.getLabeledExamples.mockReturnValue([]);
+        hasChat.mockRestore();
+      }
+
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'getMessage', chat_id: 901 }));
+      expect(logger.info).toHaveBeenCalledWith({ chats: 2 }, 'Campaign detected, re-scoring earlier senders');
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'getMessage', chat_id: 902 }));
+    });
+
+    describe('members that would not be scored now', () => {
+      const clean = { isSpam: false, score: 0.2, reasons: [] };
+      const campaign = { isSpam: true, score: 0.7, reasons: [{ ruleId: 'campaign_cluster', contribution: 0.5 }] };
+
+      beforeEach(() => {
+        (detectSpam as jest.Mock)
+          .mockResolvedValueOnce(clean)
+          .mockResolvedValueOnce(clean)
+          .mockResolvedValue(campaign);
+      });
+
+      afterEach(() => {
+        config.actions.botSenderPolicy = 'score';
+      });
+
+      it('should leave senders allowlisted since their message alone', async () => {
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(901) });
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(902) });
+        senderLists.setEntries([{ list: 'allow', type: 'user_id', value: '901' }]);
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(903) });
+
+        expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalledWith(mockClient, 901, 901, campaign);
+        expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 902, 902, campaign);
+      });
+
+      it('should leave senders the user marked as not spam alone', async () => {
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(901) });
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(902) });
+        senderReputation.recordFeedback(901, 'not_spam');
+        await messageHandler.handleNewMessage(mockClient, { message: messageFrom(903) });
+
+        expect(mockActionHandlerInstance.handleSpam).not.toHaveBeenCalledWith(mockClient, 901, 901, campaign);
+        expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 902, 902, campaign);
+      });
+
+      it('should leave bots to the bot sender policy', async () => {
+        config.actions.botSenderPolicy = 'archive';
+        (getUserProfile as jest.Mock).mockImplementation(async (_client: unknown, userId: number) => (
+          userId === 901 ? { ...profileOf(userId), accountType: 'bot' } : profileOf(userId)
+        ));
+
+        for (const userId of [901, 902, 903]) {
+          await messageHandler.handleNewMessage(mockClient, { message: messageFrom(userId) });
+        }
+
+        const bot901 = mockActionHandlerInstance.handleSpam.mock.calls.filter(call => call[1] === 901);
+        expect(bot901).toHaveLength(1);
+        expect(bot901[0][3]).toEqual(expect.objectContaining({ forceArchive: true }));
+        expect(mockActionHandlerInstance.handleSpam).toHaveBeenCalledWith(mockClient, 902, 902, campaign);
+      });
+    });
+  });
+
+  describe('owner replies', () => {
+    const reply = (chatId: number) => ({
+      message: { is_outgoing: true, chat_id: chatId, date: 1700000000 },
+    });
+
+    it('should trust private chats the owner writes in', async () => {
+      mockClient.invoke.mockResolvedValueOnce({ type: { _: 'chatTypePrivate', user_id: 999 } } as any);
+
+      await messageHandler.handleNewMessage(mockClient, reply(501));
+
+      expect(chatActivity.get(501)).toEqual({ chatId: 501, outgoingCount: 1, lastOutgoingAt: 1700000000 });
+      expect(eventLog.record).not.toHaveBeenCalled();
+    });
+
+    it('should ignore outgoing messages in groups', async () => {
+      mockClient.invoke.mockResolvedValueOnce({ type: { _: 'chatTypeBasicGroup' } } as any);
+
+      await messageHandler.handleNewMessage(mockClient, reply(502));
+
+      expect(chatActivity.hasOwnerReplied(502)).toBe(false);
+    });
+
+    it('should treat a reply to a flagged chat as not spam', async () => {
+      mockClient.invoke.mockResolvedValueOnce({ type: { _: 'chatTypePrivate', user_id: 999 } } as any);
+      feedbackStore.getPending.mockReturnValueOnce([
+        { eventId: 7, chatId: 503, userId: 999 },
+        { eventId: 8, chatId: 600, userId: 111 },
+        { eventId: 9, chatId: 503, userId: 999 },
+      ]);
+
+      await messageHandler.handleNewMessage(mockClient, reply(503));
+
+      expect(feedbackStore.recordLabel).toHaveBeenCalledTimes(2);
+      expect(feedbackStore.recordLabel).toHaveBeenCalledWith(7, 'not_spam');
+      expect(feedbackStore.recordLabel).toHaveBeenCalledWith(9, 'not_spam');
+      expect(senderReputation.get(999)?.feedback.notSpam).toBe(2);
+      expect(eventLog.record).toHaveBeenCalledWith('owner_replied', { chatId: 503, userId: 999, eventIds: [7, 9] });
+    });
+  });
+
+  describe('scanOwnerActivity', () => {
+    it('should trust private chats with outgoing messages in recent history', async () => {
+      mockClient.invoke.mockImplementation(async (request: any) => {
+        switch (request._) {
+          case 'getChats':
+            return { chat_ids: [701, 702, 703] };
+          case 'getChat':
+            return request.chat_id === 703
+              ? { type: { _: 'chatTypeSupergroup' } }
+              : { type: { _: 'chatTypePrivate', user_id: request.chat_id } };
+          case 'getChatHistory':
+            return request.chat_id === 701
+              ? { messages: [{ is_outgoing: false, date: 10 }, { is_outgoing: true, date: 20 }, { is_outgoing: true, date: 15 }] }
+              : { messages: [{ is_outgoing: false, date: 10 }] };
+          default:
+            return {};
+        }
+      });
+
+      const trusted = await messageHandler.scanOwnerActivity(mockClient);
+
+      expect(trusted).toBe(1);
+      expect(chatActivity.get(701)).toEqual({ chatId: 701, outgoingCount: 2, lastOutgoingAt: 20 });
+      expect(chatActivity.hasOwnerReplied(702)).toBe(false);
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'getChatHistory', chat_id: 703 }));
+    });
+  });
+
+  describe('blockSender', () => {
+    it('should delegate to the action handler and remember the block', async () => {
+      const actionId = await messageHandler.blockSender(mockClient, 123, 999);
+
+      expect(mockActionHandlerInstance.blockSender).toHaveBeenCalledWith(mockClient, 123, 999);
+      expect(actionId).toBe(5);
+      expect(senderReputation.get(999)?.actions.block).toBe(1);
+    });
+  });
+
+  describe('undoAction', () => {
+    it('should reverse the action, allowlist the sender and publish an event', async () => {
+      const record = await messageHandler.undoAction(mockClient, 4);
+
+      expect(mockActionHandlerInstance.undoAction).toHaveBeenCalledWith(mockClient, 4);
+      expect(record.undoneAt).toBe(2);
+      expect(senderLists.match({ userId: 999 })?.list).toBe('allow');
+      expect(eventLog.record).toHaveBeenCalledWith('action_undone', {
+        actionId: 4,
+        chatId: 123,
+        userId: 999,
+        archived: true,
+        blocked: false,
+        historyDeleted: false,
+      });
+    });
+  });
+
   describe('getMetrics', () => {
     it('should return metrics including remaining actions', () => {
       const result = messageHandler.getMetrics();
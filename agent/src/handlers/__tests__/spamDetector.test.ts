@@ -1,5 +1,19 @@
-import { detectSpam, UserProfile } from '../spamDetector';
+import {
+  clearContactNamesCache,
+  clearPhotoHashCache,
+  clearSenderBioCache,
+  detectSpam,
+  getUserProfile,
+  SenderBio,
+  SpamDetectionResult,
+  UserProfile,
+} from '../spamDetector';
 import { Client } from 'tdl';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { patternJpeg } from '../../utils/__tests__/jpegFixtures';
+import type { TdMessage } from '../../utils/messageContent';
 
 // Mock dependencies
 jest.mock('../../config', () => ({
@@ -9,11 +23,42 @@ jest.mock('../../config', () => ({
       checkCommonGroups: true,
       checkProfilePhoto: true,
       checkLinks: true,
+      checkInviteLinks: true,
+      checkMentions: true,
+      checkPhoneNumbers: true,
+      checkBio: true,
+      checkPhotos: true,
+      checkAttachments: true,
+      checkProfileNames: true,
     },
     thresholds: {
       lowThreshold: 0.3,
       actionThreshold: 0.85,
+      vectorSimilarityCutoff: 0.9,
     },
+    campaign: {
+      burstMessages: 5,
+      burstWindowSeconds: 60,
+      clusterSenders: 3,
+      clusterWindowSeconds: 600,
+      firstContactSpike: 5,
+      firstContactWindowSeconds: 600,
+    },
+    lexicons: {
+      enabledPacks: [],
+    },
+    actions: {
+      quarantineRiskyAttachments: false,
+    },
+    attachmentRisks: {
+      executable: ['exe', 'scr', 'bat'],
+      androidPackage: ['apk'],
+      archive: ['zip', 'rar'],
+      macroDocument: ['docm', 'xlsm'],
+      diskImage: ['iso'],
+      decoy: ['pdf', 'jpg', 'mp4'],
+    },
+    rules: {},
   },
 }));
 
@@ -25,12 +70,21 @@ jest.mock('../../utils/logger', () => ({
   },
 }));
 
-jest.mock('../../utils/heuristics', () => ({
-  looksSpam: jest.fn((text: string) => {
-    // Simple mock: detect if text contains common spam indicators
-    return /https?:\/\/|t\.me\/|@\w{3,}|\+?\d[\d\s().-]{7,}/.test(text);
-  }),
-}));
+const { config } = require('../../config');
+const { spamSimilarityIndex } = require('../../utils/spamSimilarity');
+const { senderReputation } = require('../../utils/senderReputation');
+const { chatActivity } = require('../../utils/chatActivity');
+const { campaignTracker } = require('../../utils/campaignTracker');
+const { domainLists } = require('../../utils/domainLists');
+const { textClassifier } = require('../../utils/textClassifier');
+const { lexiconPacks } = require('../../utils/lexiconPacks');
+const { trainClassifier } = require('../../utils/classifierTraining');
+const { hashJpeg, spamImageIndex } = require('../../utils/imageHash');
+
+const ruleIds = (result: SpamDetectionResult) => result.reasons.map(reason => reason.ruleId);
+
+// Fixtures only spell out the fields a test is about; TDLib always sets the ids
+const messageOf = (fields: Partial<TdMessage>): TdMessage => ({ id: 1, chat_id: 1, ...fields });
 
 describe('SpamDetector', () => {
   let mockClient: jest.Mocked<Client>;
@@ -50,13 +104,13 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Hello, how are you?',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
@@ -74,19 +128,19 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Hello',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
       expect(result.score).toBe(0.3);
-      expect(result.reasons).toContain('sender_not_in_contacts');
+      expect(ruleIds(result)).toContain('sender_not_in_contacts');
     });
 
     it('should add score for no common groups', async () => {
@@ -98,20 +152,20 @@ describe('SpamDetector', () => {
         hasCommonGroups: false,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Hello',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
       expect(result.score).toBe(0.5); // 0.3 (not contact) + 0.2 (no common groups)
-      expect(result.reasons).toContain('sender_not_in_contacts');
-      expect(result.reasons).toContain('no_common_groups');
+      expect(ruleIds(result)).toContain('sender_not_in_contacts');
+      expect(ruleIds(result)).toContain('no_common_groups');
     });
 
     it('should add score for no profile photo', async () => {
@@ -123,20 +177,20 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Hello',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
       expect(result.score).toBeCloseTo(0.45); // 0.3 (not contact) + 0.15 (no photo)
-      expect(result.reasons).toContain('sender_not_in_contacts');
-      expect(result.reasons).toContain('no_profile_photo');
+      expect(ruleIds(result)).toContain('sender_not_in_contacts');
+      expect(ruleIds(result)).toContain('no_profile_photo');
     });
 
     it('should add score for suspicious content patterns', async () => {
@@ -148,19 +202,21 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Check out https://spam-site.com for deals!',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
       expect(result.score).toBe(0.4);
-      expect(result.reasons).toContain('suspicious_content_pattern');
+      expect(result.reasons).toEqual([
+        { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['https://spam-site.com'] } },
+      ]);
     });
 
     it('should accumulate scores from multiple indicators', async () => {
@@ -172,24 +228,26 @@ describe('SpamDetector', () => {
         hasCommonGroups: false,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Contact me @spammer or visit https://scam.com',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
-      // 0.3 (not contact) + 0.2 (no groups) + 0.15 (no photo) + 0.4 (suspicious content) = 1.05
-      expect(result.score).toBe(1.05);
-      expect(result.reasons).toHaveLength(4);
-      expect(result.reasons).toContain('sender_not_in_contacts');
-      expect(result.reasons).toContain('no_common_groups');
-      expect(result.reasons).toContain('no_profile_photo');
-      expect(result.reasons).toContain('suspicious_content_pattern');
+      // 0.3 (not contact) + 0.2 (no groups) + 0.15 (no photo) + 0.4 (link) + 0.3 (mention) = 1.35
+      expect(result.score).toBeCloseTo(1.35);
+      expect(ruleIds(result)).toEqual([
+        'sender_not_in_contacts',
+        'no_common_groups',
+        'no_profile_photo',
+        'contains_url',
+        'contains_mention',
+      ]);
     });
 
     it('should handle messages with empty text content', async () => {
@@ -201,20 +259,20 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: '',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
       expect(result.score).toBe(0.3); // Only not-in-contacts
-      expect(result.reasons).toContain('sender_not_in_contacts');
-      expect(result.reasons).not.toContain('suspicious_content_pattern');
+      expect(ruleIds(result)).toContain('sender_not_in_contacts');
+      expect(ruleIds(result)).not.toContain('contains_url');
     });
 
     it('should handle messages with no text content', async () => {
@@ -226,15 +284,15 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {},
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(true);
       expect(result.score).toBe(0.3);
-      expect(result.reasons).toContain('sender_not_in_contacts');
+      expect(ruleIds(result)).toContain('sender_not_in_contacts');
     });
 
     it('should respect mutual contact status', async () => {
@@ -246,19 +304,19 @@ describe('SpamDetector', () => {
         hasCommonGroups: true,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Hello',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
       expect(result.isSpam).toBe(false);
       expect(result.score).toBe(0);
-      expect(result.reasons).not.toContain('sender_not_in_contacts');
+      expect(ruleIds(result)).not.toContain('sender_not_in_contacts');
     });
 
     it('should flag high-risk spam with maximum score', async () => {
@@ -270,13 +328,13 @@ describe('SpamDetector', () => {
         hasCommonGroups: false,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'URGENT! Contact @scammer123 at +1234567890 or visit https://phishing-site.com/steal-data t.me/scamchannel',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
@@ -294,13 +352,13 @@ describe('SpamDetector', () => {
         hasCommonGroups: false,
       };
 
-      const message = {
+      const message = messageOf({
         content: {
           text: {
             text: 'Visit https://spam.com',
           },
         },
-      };
+      });
 
       const result = await detectSpam(mockClient, message, userProfile);
 
@@ -312,4 +370,927 @@ describe('SpamDetector', () => {
       expect(Array.isArray(result.reasons)).toBe(true);
     });
   });
+
+  describe('rich content', () => {
+    const friend: UserProfile = {
+      userId: 123,
+      isContact: true,
+      isMutualContact: true,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+
+    it('should score links in media captions', async () => {
+      const message = messageOf({
+        content: { _: 'messagePhoto', caption: { text: 'Prizes at https://win.example', entities: [] } },
+      });
+
+      const result = await detectSpam(mockClient, message, friend);
+
+      expect(ruleIds(result)).toEqual(['contains_url']);
+    });
+
+    it('should score hidden text links', async () => {
+      const message = messageOf({
+        content: {
+          _: 'messageText',
+          text: {
+            text: 'Open your gift',
+            entities: [{ offset: 5, length: 9, type: { _: 'textEntityTypeTextUrl', url: 'https://phish.example' } }],
+          },
+        },
+      });
+
+      const result = await detectSpam(mockClient, message, friend);
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['https://phish.example'] } },
+        { ruleId: 'hidden_link', contribution: 0.2, details: { hiddenUrls: ['https://phish.example'] } },
+      ]);
+    });
+
+    it('should score invite links behind inline buttons', async () => {
+      const message = messageOf({
+        content: { _: 'messageText', text: { text: 'Tap below', entities: [] } },
+        reply_markup: {
+          _: 'replyMarkupInlineKeyboard',
+          rows: [[{ text: 'Join', type: { _: 'inlineKeyboardButtonTypeUrl', url: 'https://t.me/+Abc123' } }]],
+        },
+      });
+
+      const result = await detectSpam(mockClient, message, friend);
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'contains_invite_link', contribution: 0.4, details: { inviteLinks: ['https://t.me/+Abc123'] } },
+      ]);
+    });
+
+    it('should score forwarded channel posts and contact cards', async () => {
+      const forwarded = messageOf({
+        content: { _: 'messageText', text: { text: 'Signals group is open', entities: [] } },
+        forward_info: { origin: { _: 'messageOriginChannel', chat_id: -100123 } },
+      });
+      const contactCard = messageOf({
+        content: { _: 'messageContact', contact: { phone_number: '+15551234567', user_id: 0 } },
+      });
+
+      const forwardedResult = await detectSpam(mockClient, forwarded, friend);
+      const contactResult = await detectSpam(mockClient, contactCard, friend);
+
+      expect(forwardedResult.reasons).toEqual([
+        { ruleId: 'forwarded_from_channel', contribution: 0.2, details: { chatId: -100123 } },
+      ]);
+      expect(contactResult.reasons).toEqual([
+        { ruleId: 'shares_contact_card', contribution: 0.2, details: { phoneNumbers: ['+15551234567'] } },
+      ]);
+    });
+
+    it('should score obfuscated text and the links it hides', async () => {
+      const message = messageOf({
+        content: { _: 'messageText', text: { text: 'Prizes at t\u{1F539}me/win_big', entities: [] } },
+      });
+
+      const result = await detectSpam(mockClient, message, friend);
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['t.me/win_big'] } },
+        { ruleId: 'obfuscated_text', contribution: 0.3, details: { techniques: ['emoji_separators'] } },
+      ]);
+    });
+
+    it('should classify risky links', async () => {
+      const message = messageOf({
+        content: {
+          _: 'messageText',
+          text: { text: 'Verify at https://teleqram.org/login or http://203.0.113.7/claim, or tap t.me/PrizeBot?start=ref1', entities: [] },
+        },
+      });
+
+      const result = await detectSpam(mockClient, message, friend);
+
+      expect(result.reasons).toEqual(expect.arrayContaining([
+        { ruleId: 'lookalike_domain', contribution: 0.5, details: { urls: ['https://teleqram.org/login'], brands: ['telegram'] } },
+        { ruleId: 'ip_address_url', contribution: 0.3, details: { urls: ['http://203.0.113.7/claim'] } },
+        { ruleId: 'bot_start_link', contribution: 0.3, details: { urls: ['t.me/PrizeBot?start=ref1'] } },
+      ]));
+      expect(ruleIds(result)).not.toContain('url_shortener');
+    });
+
+    it('should apply the operator domain lists', async () => {
+      domainLists.setLists({ block: ['win.example'], allow: ['docs.example'] });
+      const message = messageOf({
+        content: {
+          _: 'messageText',
+          text: { text: 'See https://docs.example/faq and https://prizes.win.example', entities: [] },
+        },
+      });
+
+      try {
+        const result = await detectSpam(mockClient, message, friend);
+
+        expect(result.reasons).toEqual([
+          { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['https://prizes.win.example'] } },
+          { ruleId: 'blocklisted_domain', contribution: 0.8, details: { urls: ['https://prizes.win.example'] } },
+        ]);
+      } finally {
+        domainLists.setLists({ block: [], allow: [] });
+      }
+    });
+
+    it('should weigh the classifier probability when a model is trained', async () => {
+      const spam = ['Guaranteed profit from crypto signals', 'Earn passive income with my signals', 'Guaranteed income, join my signals'];
+      const ham = ['Are we still on for lunch', 'Thanks for the photos from lunch', 'See you at the game on Sunday'];
+      textClassifier.setModel(trainClassifier([
+        ...spam.map(text => ({ text, label: 'spam' as const })),
+        ...ham.map(text => ({ text, label: 'not_spam' as const })),
+      ]));
+
+      try {
+        const flagged = await detectSpam(mockClient, messageOf({ content: { text: { text: 'Guaranteed profit signals' } } }), friend);
+        const clean = await detectSpam(mockClient, messageOf({ content: { text: { text: 'Lunch on Sunday?' } } }), friend);
+
+        expect(flagged.reasons).toEqual([{
+          ruleId: 'text_classifier',
+          contribution: expect.any(Number),
+          details: { probability: expect.any(Number) },
+        }]);
+        expect(flagged.reasons[0].contribution).toBeCloseTo(0.5 * (flagged.reasons[0].details?.probability as number), 2);
+        expect(clean.reasons).toEqual([]);
+      } finally {
+        textClassifier.setModel(null);
+      }
+    });
+
+    it('should report terms of the enabled lexicon packs', async () => {
+      lexiconPacks.setPacks([
+        { id: 'loan', version: 2, name: 'Loan scams', terms: { en: { 'instant loan': 0.4, 'no credit check': 0.4 } } },
+        { id: 'giveaway', version: 1, name: 'Giveaways', terms: { en: { 'you won': 0.5 } } },
+      ]);
+      config.lexicons.enabledPacks = ['loan'];
+
+      try {
+        const result = await detectSpam(
+          mockClient,
+          messageOf({ content: { text: { text: 'Instant loan, no credit check! You won!' } } }),
+          friend
+        );
+
+        expect(result.reasons).toEqual([{
+          ruleId: 'lexicon_match',
+          contribution: 0.4,
+          details: { terms: ['instant loan', 'no credit check'], packs: { loan: 2 } },
+        }]);
+      } finally {
+        config.lexicons.enabledPacks = [];
+        lexiconPacks.setPacks([]);
+      }
+    });
+
+    it('should score messages edited after sending', async () => {
+      const edited = messageOf({
+        date: 1700000000,
+        edit_date: 1700000090,
+        content: { _: 'messageText', text: { text: 'Prizes at https://win.example', entities: [] } },
+      });
+
+      const result = await detectSpam(mockClient, edited, friend);
+      const unedited = await detectSpam(mockClient, messageOf({ ...edited, edit_date: 0 }), friend);
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'edited_after_send',
+        contribution: 0.2,
+        details: { editDelaySeconds: 90 },
+      });
+      expect(ruleIds(unedited)).toEqual(['contains_url']);
+    });
+
+    it('should score earlier messages of the conversation together', async () => {
+      const greeting = messageOf({ content: { _: 'messageText', text: { text: 'Hi, is this Anna?', entities: [] } } });
+      const pitch = messageOf({ content: { _: 'messageText', text: { text: 'My mentor is @crypto_mentor', entities: [] } } });
+      const link = messageOf({ content: { _: 'messageText', text: { text: 'Sign up at https://win.example', entities: [] } } });
+
+      const result = await detectSpam(mockClient, link, friend, [greeting, pitch]);
+
+      expect(ruleIds(result)).toEqual(['contains_url', 'contains_mention']);
+    });
+  });
+
+  describe('rule configuration', () => {
+    const stranger: UserProfile = {
+      userId: 123,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: false,
+      hasCommonGroups: true,
+    };
+    const message = messageOf({ content: { text: { text: 'Hello' } } });
+
+    afterEach(() => {
+      config.rules = {};
+      config.detection.checkProfilePhoto = true;
+      config.detection.checkPhoneNumbers = true;
+    });
+
+    it('should report each rule with its contribution', async () => {
+      const result = await detectSpam(mockClient, message, stranger);
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+        { ruleId: 'no_profile_photo', contribution: 0.15 },
+      ]);
+    });
+
+    it('should use weights from config', async () => {
+      config.rules = { no_profile_photo: { weight: 0.05 } };
+
+      const result = await detectSpam(mockClient, message, stranger);
+
+      expect(result.score).toBeCloseTo(0.35);
+      expect(result.reasons[1]).toEqual({ ruleId: 'no_profile_photo', contribution: 0.05 });
+    });
+
+    it('should report phone numbers separately and honor checkPhoneNumbers', async () => {
+      const friend: UserProfile = { ...stranger, isContact: true, hasProfilePhoto: true };
+      const phoneMessage = messageOf({ content: { text: { text: 'Call +44 20 1234 5678 today' } } });
+
+      const flagged = await detectSpam(mockClient, phoneMessage, friend);
+      config.detection.checkPhoneNumbers = false;
+      const ignored = await detectSpam(mockClient, phoneMessage, friend);
+
+      expect(flagged.reasons).toEqual([
+        { ruleId: 'contains_phone_number', contribution: 0.3, details: { phoneNumbers: ['+44 20 1234 5678'] } },
+      ]);
+      expect(ignored.reasons).toEqual([]);
+    });
+
+    it('should flag near-duplicates of confirmed spam', async () => {
+      const friend: UserProfile = { ...stranger, isContact: true, hasProfilePhoto: true };
+      spamSimilarityIndex.add(1, 'Earn passive income from crypto trading signals, join our private group today');
+
+      try {
+        const result = await detectSpam(
+          mockClient,
+          messageOf({ content: { text: { text: 'Earn passive income from crypto trading signals! Join our private group today' } } }),
+          friend
+        );
+
+        expect(result.isSpam).toBe(true);
+        expect(result.reasons).toEqual([{
+          ruleId: 'similar_to_known_spam',
+          contribution: 0.6,
+          details: { similarity: expect.any(Number), matchedEventId: 1 },
+        }]);
+      } finally {
+        spamSimilarityIndex.remove(1);
+      }
+    });
+
+    it('should skip rules disabled in config', async () => {
+      config.rules = { no_profile_photo: { enabled: false } };
+
+      const result = await detectSpam(mockClient, message, stranger);
+
+      expect(ruleIds(result)).toEqual(['sender_not_in_contacts']);
+    });
+
+    it('should keep honoring the detection toggles', async () => {
+      config.detection.checkProfilePhoto = false;
+      config.rules = { no_profile_photo: { enabled: true } };
+
+      const result = await detectSpam(mockClient, message, stranger);
+
+      expect(ruleIds(result)).not.toContain('no_profile_photo');
+    });
+  });
+
+  describe('account flags', () => {
+    const stranger: UserProfile = {
+      userId: 123,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const message = messageOf({ content: { text: { text: 'Hello' } } });
+
+    it('should score accounts Telegram flags as scam or fake near-certain', async () => {
+      const result = await detectSpam(mockClient, message, { ...stranger, isScam: true, isFake: true });
+
+      expect(result.score).toBeGreaterThanOrEqual(config.thresholds.actionThreshold);
+      expect(result.reasons).toContainEqual({
+        ruleId: 'telegram_flagged_scam',
+        contribution: 1,
+        details: { flags: ['scam', 'fake'] },
+      });
+    });
+
+    it('should discount verified and premium senders', async () => {
+      const result = await detectSpam(mockClient, message, { ...stranger, isVerified: true, isPremium: true });
+
+      expect(result.isSpam).toBe(false);
+      expect(result.score).toBe(0);
+      expect(result.reasons).toEqual([
+        { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+        { ruleId: 'verified_account', contribution: -0.5 },
+        { ruleId: 'premium_account', contribution: -0.1 },
+      ]);
+    });
+
+    it('should flag bot accounts', async () => {
+      const result = await detectSpam(mockClient, message, { ...stranger, accountType: 'bot' });
+
+      expect(ruleIds(result)).toEqual(['sender_not_in_contacts', 'bot_account']);
+    });
+
+    it('should flag content relayed through inline bots the owner never started', async () => {
+      const invoke = jest.fn().mockImplementation(async (request: { _: string }) => {
+        if (request._ === 'getUser') {
+          return { id: 8181, usernames: { editable_username: 'prize_inline_bot' } };
+        }
+        return { user_ids: [] };
+      });
+      const client = { invoke } as unknown as Client;
+      const relayed = messageOf({ ...message, via_bot_user_id: 8181 });
+
+      const result = await detectSpam(client, relayed, stranger);
+      chatActivity.recordOutgoing(8181);
+      const started = await detectSpam(client, relayed, stranger);
+      const fromContact = await detectSpam(client, messageOf({ ...message, via_bot_user_id: 5151 }), { ...stranger, isContact: true });
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'via_inline_bot',
+        contribution: 0.3,
+        details: { bots: ['@prize_inline_bot'] },
+      });
+      expect(ruleIds(started)).not.toContain('via_inline_bot');
+      expect(ruleIds(fromContact)).not.toContain('via_inline_bot');
+    });
+  });
+
+  describe('sender bio', () => {
+    const friend: UserProfile = {
+      userId: 123,
+      isContact: true,
+      isMutualContact: true,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const message = messageOf({ content: { text: { text: 'Hello' } } });
+    const bio = (overrides: Partial<SenderBio>): SenderBio => ({
+      text: '',
+      entityUrls: [],
+      personalChat: null,
+      businessText: '',
+      ...overrides,
+    });
+
+    it('should report bio links, mentions and phone numbers as separate reasons', async () => {
+      const result = await detectSpam(mockClient, message, {
+        ...friend,
+        bio: bio({ text: 'DM @signals_admin or +44 20 1234 5678', entityUrls: ['https://pump.example'] }),
+      });
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'bio_contains_link', contribution: 0.3, details: { urls: ['https://pump.example'] } },
+        { ruleId: 'bio_contains_mention', contribution: 0.2, details: { mentions: ['@signals_admin'] } },
+        { ruleId: 'bio_contains_phone_number', contribution: 0.2, details: { phoneNumbers: ['+44 20 1234 5678'] } },
+      ]);
+    });
+
+    it('should report personal channels and business contact details', async () => {
+      const result = await detectSpam(mockClient, message, {
+        ...friend,
+        bio: bio({
+          personalChat: { chatId: -1009, title: 'Crypto Signals' },
+          businessText: 'Open daily\nOrder at https://shop.example',
+        }),
+      });
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'has_personal_channel', contribution: 0.1, details: { chatId: -1009, title: 'Crypto Signals' } },
+        { ruleId: 'business_info_contact', contribution: 0.2, details: { urls: ['https://shop.example'] } },
+      ]);
+    });
+  });
+
+  describe('photos', () => {
+    const stranger: UserProfile = {
+      userId: 60,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const giveaway = (x: number, y: number) => 128 + 100 * Math.sin(6 * x) * Math.cos(4 * y);
+    const photoMessage = messageOf({
+      id: 10,
+      content: {
+        _: 'messagePhoto',
+        caption: { text: '', entities: [] },
+        photo: {
+          sizes: [
+            { type: 'x', width: 800, height: 600, photo: { id: 31, remote: { unique_id: 'big' } } },
+            { type: 'm', width: 320, height: 240, photo: { id: 32, remote: { unique_id: 'medium' } } },
+            { type: 's', width: 96, height: 72, photo: { id: 33, remote: { unique_id: 'small' } } },
+          ],
+        },
+      },
+    });
+    let dir: string;
+    let thumbnailPath: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'photo-test-'));
+      thumbnailPath = join(dir, 'thumb.jpg');
+      writeFileSync(thumbnailPath, patternJpeg(96, 72, giveaway));
+      mockClient.invoke = jest.fn().mockImplementation(async (request: any) => {
+        if (request._ === 'downloadFile') {
+          return { id: request.file_id, local: { path: thumbnailPath } };
+        }
+        if (request._ === 'deleteFile') {
+          rmSync(thumbnailPath, { force: true });
+          return {};
+        }
+        throw new Error(`Unexpected request ${request._}`);
+      });
+      clearPhotoHashCache();
+    });
+
+    afterEach(() => {
+      spamImageIndex.remove(1);
+      config.detection.checkPhotos = true;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should flag photos matching confirmed spam images', async () => {
+      spamImageIndex.add(1, hashJpeg(patternJpeg(320, 240, giveaway)));
+
+      const result = await detectSpam(mockClient, photoMessage, stranger);
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'similar_to_known_spam_image',
+        contribution: 0.6,
+        details: { distance: expect.any(Number), matchedEventId: 1 },
+      });
+      expect(result.imageHashes).toEqual([expect.stringMatching(/^[0-9a-f]{16}$/)]);
+    });
+
+    it('should download only the smallest usable thumbnail and delete it straight away', async () => {
+      await detectSpam(mockClient, photoMessage, stranger);
+
+      expect(mockClient.invoke).toHaveBeenCalledWith(expect.objectContaining({ _: 'downloadFile', file_id: 33 }));
+      expect(mockClient.invoke).toHaveBeenCalledWith({ _: 'deleteFile', file_id: 33 });
+      expect(existsSync(thumbnailPath)).toBe(false);
+    });
+
+    it('should hash each photo once', async () => {
+      await detectSpam(mockClient, photoMessage, stranger);
+      await detectSpam(mockClient, photoMessage, stranger);
+
+      expect((mockClient.invoke as jest.Mock).mock.calls.filter(([request]) => request._ === 'downloadFile')).toHaveLength(1);
+    });
+
+    it('should leave photos from contacts and with checkPhotos off alone', async () => {
+      const fromContact = await detectSpam(mockClient, photoMessage, { ...stranger, isContact: true });
+      config.detection.checkPhotos = false;
+      const disabled = await detectSpam(mockClient, photoMessage, stranger);
+
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'downloadFile' }));
+      expect(fromContact.imageHashes).toBeUndefined();
+      expect(disabled.imageHashes).toBeUndefined();
+    });
+
+    it('should keep scoring when the thumbnail cannot be downloaded', async () => {
+      mockClient.invoke = jest.fn().mockRejectedValue(new Error('File not found'));
+
+      const result = await detectSpam(mockClient, photoMessage, stranger);
+
+      expect(result.imageHashes).toBeUndefined();
+      expect(ruleIds(result)).toContain('sender_not_in_contacts');
+    });
+  });
+
+  describe('attachments', () => {
+    const stranger: UserProfile = {
+      userId: 70,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const documentMessage = (fileName: string, mimeType: string, caption = '') => messageOf({
+      id: 20,
+      content: {
+        _: 'messageDocument',
+        caption: { text: caption, entities: [] },
+        document: { file_name: fileName, mime_type: mimeType, document: { id: 41, size: 2048 } },
+      },
+    });
+
+    afterEach(() => {
+      config.actions.quarantineRiskyAttachments = false;
+      config.rules = {};
+    });
+
+    it('should flag risky files from their metadata alone', async () => {
+      mockClient.invoke = jest.fn();
+
+      const result = await detectSpam(mockClient, documentMessage('Invoice.pdf.exe', 'application/x-msdownload'), stranger);
+
+      const files = [{ fileName: 'Invoice.pdf.exe', mimeType: 'application/x-msdownload', size: 2048 }];
+      expect(result.reasons).toEqual([
+        { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+        { ruleId: 'attachment_executable', contribution: 0.6, details: { files } },
+        { ruleId: 'attachment_double_extension', contribution: 0.8, details: { files } },
+      ]);
+      expect(mockClient.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'downloadFile' }));
+    });
+
+    it('should flag archives sent with their password', async () => {
+      const result = await detectSpam(mockClient, documentMessage('docs.zip', 'application/zip', 'Password: 4321'), stranger);
+
+      expect(ruleIds(result)).toContain('attachment_protected_archive');
+    });
+
+    it('should leave files from contacts alone', async () => {
+      const result = await detectSpam(mockClient, documentMessage('app.apk', 'application/vnd.android.package-archive'), {
+        ...stranger,
+        isContact: true,
+      });
+
+      expect(result.reasons).toEqual([]);
+    });
+
+    it('should quarantine risky attachments below the threshold when enabled', async () => {
+      const mutual = { ...stranger, isMutualContact: true };
+      const message = documentMessage('budget.xlsm', 'application/vnd.ms-excel.sheet.macroEnabled.12');
+      config.rules = { attachment_macro_document: { weight: 0.2 } };
+
+      const scored = await detectSpam(mockClient, message, mutual);
+      config.actions.quarantineRiskyAttachments = true;
+      const quarantined = await detectSpam(mockClient, message, mutual);
+
+      expect(scored).toEqual(expect.objectContaining({ isSpam: false, score: 0.2 }));
+      expect(scored.quarantine).toBeUndefined();
+      expect(quarantined).toEqual(expect.objectContaining({ isSpam: true, score: 0.2, quarantine: true }));
+    });
+  });
+
+  describe('profile names', () => {
+    const stranger: UserProfile = {
+      userId: 80,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const hello = messageOf({ content: { _: 'messageText', text: { text: 'Hello', entities: [] } } });
+
+    beforeEach(() => {
+      clearContactNamesCache();
+      mockClient.invoke = jest.fn().mockImplementation(async (request: any) => {
+        if (request._ === 'getContacts') {
+          return { total_count: 2, user_ids: [5, 6] };
+        }
+        if (request._ === 'getUser' && request.user_id === 5) {
+          return { first_name: 'Anna', last_name: 'Smith', usernames: { active_usernames: ['anna_smith'] } };
+        }
+        if (request._ === 'getUser') {
+          return { first_name: 'Bob', usernames: { active_usernames: [] } };
+        }
+        throw new Error(`Unexpected request ${request._}`);
+      });
+    });
+
+    afterEach(() => {
+      config.detection.checkProfileNames = true;
+    });
+
+    it('should flag names posing as staff or a service', async () => {
+      const result = await detectSpam(mockClient, hello, {
+        ...stranger,
+        displayName: 'Telegram Supp\u043ert',
+        usernames: ['wallet_service_desk'],
+      });
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'impersonation_name',
+        contribution: 0.6,
+        details: { terms: ['telegram', 'support', 'service', 'wallet'] },
+      });
+    });
+
+    it('should flag links written into the name', async () => {
+      const result = await detectSpam(mockClient, hello, { ...stranger, displayName: 'Anna | profit-daily.io' });
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'link_in_name',
+        contribution: 0.5,
+        details: { links: ['profit-daily.io'] },
+      });
+    });
+
+    it('should flag strangers copying a contact\'s name and cache the contacts', async () => {
+      const copycat = { ...stranger, displayName: 'Smith Anna', usernames: ['anna_smlth'] };
+
+      const result = await detectSpam(mockClient, hello, copycat);
+      await detectSpam(mockClient, hello, copycat);
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'name_copies_contact',
+        contribution: 0.7,
+        details: { contactUserId: 5, field: 'name', similarity: 1 },
+      });
+      const contactCalls = (mockClient.invoke as jest.Mock).mock.calls.filter(([request]) => request._ === 'getContacts');
+      expect(contactCalls).toHaveLength(1);
+    });
+
+    it('should trust contacts, verified accounts and the checkProfileNames switch', async () => {
+      const support = { ...stranger, displayName: 'Telegram Support' };
+
+      const contact = await detectSpam(mockClient, hello, { ...support, isContact: true });
+      const verified = await detectSpam(mockClient, hello, { ...support, isVerified: true });
+      config.detection.checkProfileNames = false;
+      const disabled = await detectSpam(mockClient, hello, support);
+
+      for (const result of [contact, verified, disabled]) {
+        expect(ruleIds(result)).not.toContain('impersonation_name');
+      }
+    });
+  });
+
+  describe('campaigns', () => {
+    const contact: UserProfile = {
+      userId: 50,
+      isContact: true,
+      isMutualContact: true,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const pitch = 'Earn 500 USD a day with my crypto mentor, message me';
+    const message = (chatId: number, text = pitch) => messageOf({
+      chat_id: chatId,
+      content: { _: 'messageText', text: { text, entities: [] } },
+    });
+
+    afterEach(() => {
+      campaignTracker.clear();
+    });
+
+    it('should flag senders flooding the chat', async () => {
+      for (let i = 0; i < 5; i++) {
+        campaignTracker.record({ chatId: 1, userId: 50, messageId: i, text: 'hello?', newSender: false });
+      }
+
+      const result = await detectSpam(mockClient, message(1, 'hello?'), contact);
+
+      expect(result.reasons).toEqual([
+        { ruleId: 'sender_message_burst', contribution: 0.3, details: { messages: 5 } },
+      ]);
+    });
+
+    it('should flag text that several new senders sent', async () => {
+      [1, 2, 3].forEach(chatId => {
+        campaignTracker.record({ chatId, userId: chatId * 10, messageId: 1, text: pitch, newSender: true });
+      });
+
+      const result = await detectSpam(mockClient, message(1), contact);
+      const unrelated = await detectSpam(mockClient, message(1, 'Lunch tomorrow at noon, my treat?'), contact);
+
+      expect(result.reasons).toContainEqual({ ruleId: 'campaign_cluster', contribution: 0.5, details: { senders: 3 } });
+      expect(ruleIds(unrelated)).not.toContain('campaign_cluster');
+    });
+
+    it('should flag first contacts during a spike of new chats', async () => {
+      [1, 2, 3, 4, 5].forEach(chatId => {
+        campaignTracker.record({ chatId, userId: chatId * 10, messageId: 1, text: 'hi', newSender: true });
+      });
+      campaignTracker.record({ chatId: 6, userId: 60, messageId: 1, text: 'hi', newSender: false });
+
+      const newChat = await detectSpam(mockClient, message(5, 'hi'), contact);
+      const knownChat = await detectSpam(mockClient, message(6, 'hi'), contact);
+
+      expect(newChat.reasons).toEqual([
+        { ruleId: 'first_contact_spike', contribution: 0.2, details: { firstContacts: 5 } },
+      ]);
+      expect(knownChat.reasons).toEqual([]);
+    });
+  });
+
+  describe('sender reputation', () => {
+    const friend: UserProfile = {
+      userId: 321,
+      isContact: true,
+      isMutualContact: true,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    };
+    const link = messageOf({ content: { text: { text: 'New offer at https://deal.example' } } });
+
+    afterEach(() => {
+      senderReputation.purgeAll();
+      jest.useRealTimers();
+    });
+
+    it('should escalate senders that were acted on before', async () => {
+      senderReputation.recordMessage(321, 0.9, true);
+      senderReputation.recordAction(321, 'archive');
+      senderReputation.recordFeedback(321, 'spam');
+
+      const result = await detectSpam(mockClient, link, friend);
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'repeat_offender',
+        contribution: expect.closeTo(0.5 * 2 / 3, 5),
+        details: { offenses: 2, priorDetections: 1 },
+      });
+    });
+
+    it('should trust senders the user marked as not spam', async () => {
+      senderReputation.recordAction(321, 'archive');
+      senderReputation.recordFeedback(321, 'not_spam');
+
+      const result = await detectSpam(mockClient, link, friend);
+
+      expect(ruleIds(result)).not.toContain('repeat_offender');
+      expect(result.reasons).toContainEqual({
+        ruleId: 'established_sender',
+        contribution: -0.4,
+        details: { vouched: true },
+      });
+      expect(result.isSpam).toBe(false);
+    });
+
+    it('should build trust gradually from clean history', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      for (let i = 0; i < 20; i++) {
+        senderReputation.recordMessage(321, 0.1, false);
+      }
+
+      jest.setSystemTime(new Date('2026-01-16T00:00:00Z'));
+      const halfway = await detectSpam(mockClient, link, friend);
+      jest.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+      const established = await detectSpam(mockClient, link, friend);
+
+      expect(halfway.reasons).toContainEqual({
+        ruleId: 'established_sender',
+        contribution: -0.2,
+        details: { messages: 20, days: 15 },
+      });
+      expect(established.reasons).toContainEqual(expect.objectContaining({
+        ruleId: 'established_sender',
+        contribution: -0.4,
+      }));
+    });
+
+    it('should heavily discount chats the owner has replied in', async () => {
+      chatActivity.recordOutgoing(4242, 1700000000);
+      const stranger: UserProfile = { ...friend, isContact: false, isMutualContact: false };
+
+      const result = await detectSpam(mockClient, messageOf({ ...link, chat_id: 4242 }), stranger);
+
+      expect(result.reasons).toContainEqual({
+        ruleId: 'owner_replied_in_chat',
+        contribution: -1,
+        details: { outgoingMessages: 1 },
+      });
+      expect(result.isSpam).toBe(false);
+    });
+
+    it('should withhold trust while recent messages were flagged', async () => {
+      senderReputation.recordMessage(321, 0.1, false);
+      senderReputation.recordMessage(321, 0.5, true);
+
+      const result = await detectSpam(mockClient, link, friend);
+
+      expect(ruleIds(result)).not.toContain('established_sender');
+    });
+  });
+
+  describe('getUserProfile', () => {
+    const invokeWith = (user: Record<string, unknown>, fullInfo: Record<string, unknown> = {}) => {
+      const invoke = jest.fn(async (request: { _: string }) => {
+        switch (request._) {
+          case 'getUser':
+            return user;
+          case 'getUserFullInfo':
+            return fullInfo;
+          case 'getChat':
+            return { title: 'Crypto Signals' };
+          default:
+            return { total_count: 2 };
+        }
+      });
+      return { invoke } as unknown as Client;
+    };
+
+    beforeEach(() => {
+      clearSenderBioCache();
+    });
+
+    afterEach(() => {
+      config.detection.checkBio = true;
+    });
+
+    it('should map contact status, photo and account flags', async () => {
+      const client = invokeWith({
+        is_contact: true,
+        is_mutual_contact: false,
+        profile_photo: { id: 1 },
+        first_name: 'Alice',
+        last_name: 'Lee',
+        usernames: { editable_username: 'alice', active_usernames: ['alice', 'alice_shop'] },
+        phone_number: '15550001111',
+        is_premium: true,
+        verification_status: { is_scam: false, is_fake: true, is_verified: false },
+        type: { _: 'userTypeRegular' },
+      });
+
+      expect(await getUserProfile(client, 42, 42)).toEqual({
+        userId: 42,
+        isContact: true,
+        isMutualContact: false,
+        hasProfilePhoto: true,
+        username: 'alice',
+        displayName: 'Alice Lee',
+        usernames: ['alice', 'alice_shop'],
+        phoneNumber: '15550001111',
+        hasCommonGroups: true,
+        isScam: false,
+        isFake: true,
+        isVerified: false,
+        isPremium: true,
+        accountType: 'regular',
+        bio: { text: '', entityUrls: [], personalChat: null, businessText: '' },
+      });
+    });
+
+    it('should read the bio, personal channel and business info', async () => {
+      const client = invokeWith({}, {
+        bio: {
+          text: 'Trader. Signals here',
+          entities: [{ offset: 8, length: 12, type: { _: 'textEntityTypeTextUrl', url: 'https://t.me/+sig' } }],
+        },
+        personal_chat_id: -1009,
+        business_info: { start_page: { title: 'VIP', message: 'Call +1 555 123 4567' } },
+      });
+
+      const profile = await getUserProfile(client, 42, 42);
+
+      expect(profile.bio).toEqual({
+        text: 'Trader. Signals here',
+        entityUrls: ['https://t.me/+sig'],
+        personalChat: { chatId: -1009, title: 'Crypto Signals' },
+        businessText: 'VIP\nCall +1 555 123 4567',
+      });
+    });
+
+    it('should cache full info per user', async () => {
+      const client = invokeWith({}, { bio: 'Hi' });
+
+      await getUserProfile(client, 42, 42);
+      await getUserProfile(client, 42, 42);
+
+      const fullInfoCalls = (client.invoke as jest.Mock).mock.calls.filter(([request]) => request._ === 'getUserFullInfo');
+      expect(fullInfoCalls).toHaveLength(1);
+    });
+
+    it('should skip full info when checkBio is off or it cannot be read', async () => {
+      config.detection.checkBio = false;
+      const disabled = invokeWith({}, { bio: 'Hi' });
+      expect((await getUserProfile(disabled, 42, 42)).bio).toBeUndefined();
+      expect(disabled.invoke).not.toHaveBeenCalledWith(expect.objectContaining({ _: 'getUserFullInfo' }));
+
+      config.detection.checkBio = true;
+      const failing = invokeWith({});
+      (failing.invoke as jest.Mock).mockImplementation(async (request: { _: string }) => {
+        if (request._ === 'getUserFullInfo') throw new Error('USER_NOT_FOUND');
+        return request._ === 'getUser' ? {} : { total_count: 0 };
+      });
+      expect((await getUserProfile(failing, 43, 43)).bio).toBeUndefined();
+    });
+
+    it('should read flags from older TDLib user objects', async () => {
+      const client = invokeWith({ is_scam: true, is_verified: true, type: { _: 'userTypeBot' } });
+
+      const profile = await getUserProfile(client, 42, 42);
+
+      expect(profile).toMatchObject({ isScam: true, isFake: false, isVerified: true, accountType: 'bot' });
+    });
+
+    it('should default missing flags and unknown account types', async () => {
+      const client = invokeWith({ type: { _: 'userTypeSomethingNew' } });
+
+      const profile = await getUserProfile(client, 42, 42);
+
+      expect(profile).toMatchObject({
+        isScam: false,
+        isFake: false,
+        isVerified: false,
+        isPremium: false,
+        accountType: 'unknown',
+        hasProfilePhoto: false,
+      });
+    });
+  });
 });
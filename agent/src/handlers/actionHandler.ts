@@ -3,8 +3,18 @@ import { config } from '../config';
 import { logger } from '../utils/logger';
 import { RateLimiter } from '../utils/rateLimiter';
 import { metrics } from '../utils/metrics';
+import { actionJournal, ActionRecord } from '../utils/actionJournal';
 import { SpamDetectionResult } from './spamDetector';
 
+export type SpamAction = 'block' | 'archive' | 'log';
+
+export interface ActionOutcome {
+  /** What was actually done; a rate-limited block falls back to archive */
+  action: SpamAction;
+  /** Action journal id for undo, null when nothing was done */
+  actionId: number | null;
+}
+
 export class ActionHandler {
   private deleteRateLimiter: RateLimiter;
   private blockRateLimiter: RateLimiter;
@@ -19,7 +29,7 @@ export class ActionHandler {
     chatId: number,
     userId: number,
     detection: SpamDetectionResult
-  ): Promise<void> {
+  ): Promise<ActionOutcome> {
     const action = this.determineAction(detection);
 
     logger.info({
@@ -32,41 +42,98 @@ export class ActionHandler {
 
     switch (action) {
       case 'block':
-        await this.blockAndDelete(client, chatId, userId);
-        break;
+        return this.blockAndDelete(client, chatId, userId);
       case 'archive':
-        await this.archiveChat(client, chatId);
-        break;
+        return this.archiveChat(client, chatId, userId);
       case 'log':
         logger.info({ chatId, userId }, 'Logging spam (no action taken)');
-        break;
+        return { action: 'log', actionId: null };
     }
   }
 
-  private determineAction(detection: SpamDetectionResult): 'block' | 'archive' | 'log' {
+  /**
+   * Block a sender on the user's explicit request (review queue), regardless of enableBlocking
+   */
+  async blockSender(client: Client, chatId: number, userId: number): Promise<number> {
+    if (!this.blockRateLimiter.canPerformAction()) {
+      metrics.incrementRateLimitHits();
+      throw new Error('Block rate limit exceeded');
+    }
+
+    await client.invoke({
+      _: 'setMessageSenderBlockList',
+      sender_id: { _: 'messageSenderUser', user_id: userId },
+      block_list: { _: 'blockListMain' },
+    });
+    this.blockRateLimiter.recordAction();
+    metrics.incrementSpamBlocked();
+    logger.info({ userId }, 'User blocked on request');
+
+    return actionJournal.record({ chatId, userId, archived: false, blocked: true, historyDeleted: false }).id;
+  }
+
+  /**
+   * Reverse a recorded action: unblock the sender and move the chat back to the main list.
+   * Deleted history is gone for good.
+   */
+  async undoAction(client: Client, actionId: number): Promise<ActionRecord> {
+    const record = actionJournal.get(actionId);
+    if (!record) {
+      throw new Error(`Action ${actionId} not found`);
+    }
+    if (record.undoneAt) {
+      throw new Error(`Action ${actionId} was already undone`);
+    }
+
+    if (record.blocked) {
+      await client.invoke({
+        _: 'setMessageSenderBlockList',
+        sender_id: { _: 'messageSenderUser', user_id: record.userId },
+        block_list: null,
+      });
+      logger.info({ userId: record.userId }, 'User unblocked');
+    }
+
+    if (record.archived) {
+      await client.invoke({
+        _: 'addChatToList',
+        chat_id: record.chatId,
+        chat_list: { _: 'chatListMain' },
+      });
+      logger.info({ chatId: record.chatId }, 'Chat unarchived');
+    }
+
+    return actionJournal.markUndone(actionId) as ActionRecord;
+  }
+
+  private determineAction(detection: SpamDetectionResult): SpamAction {
+    if (detection.forceArchive) {
+      return 'archive';
+    }
     if (detection.score >= config.thresholds.actionThreshold) {
       return config.actions.enableDeletion ? 'block' : 'archive';
     }
     const defaultAction = config.actions.defaultAction;
     // Ensure defaultAction is compatible with our return type
-    if (defaultAction === 'delete') {
-      return 'block'; // Map 'delete' to 'block' for backwards compatibility
+    if (defaultAction === 'delete' || defaultAction === 'block') {
+      return 'block'; // 'delete' kept for backwards compatibility; 'block' comes from the bot's /settings
     }
-    return defaultAction;
+    // Quarantined chats leave the main list even when the user only logs spam
+    return detection.quarantine ? 'archive' : defaultAction;
   }
 
-  private async blockAndDelete(client: Client, chatId: number, userId: number): Promise<void> {
+  private async blockAndDelete(client: Client, chatId: number, userId: number): Promise<ActionOutcome> {
     try {
       // Check rate limits
       if (!this.blockRateLimiter.canPerformAction() || !this.deleteRateLimiter.canPerformAction()) {
         logger.warn({ chatId, userId }, 'Rate limit exceeded, archiving instead');
         metrics.incrementRateLimitHits();
-        await this.archiveChat(client, chatId);
-        return;
+        return await this.archiveChat(client, chatId, userId);
       }
 
       // Block user
-      if (config.actions.enableBlocking) {
+      const blocked = config.actions.enableBlocking;
+      if (blocked) {
         await client.invoke({
           _: 'setMessageSenderBlockList',
           sender_id: { _: 'messageSenderUser', user_id: userId },
@@ -87,13 +154,16 @@ export class ActionHandler {
       metrics.incrementSpamBlocked();
 
       logger.info({ chatId, userId }, 'Chat deleted and user blocked');
+
+      const record = actionJournal.record({ chatId, userId, archived: false, blocked, historyDeleted: true });
+      return { action: 'block', actionId: record.id };
     } catch (error) {
       logger.error({ chatId, userId, error }, 'Error blocking/deleting spam');
       throw error;
     }
   }
 
-  private async archiveChat(client: Client, chatId: number): Promise<void> {
+  private async archiveChat(client: Client, chatId: number, userId: number): Promise<ActionOutcome> {
     try {
       await client.invoke({
         _: 'addChatToList',
@@ -102,12 +172,23 @@ export class ActionHandler {
       });
       metrics.incrementSpamArchived();
       logger.info({ chatId }, 'Chat archived');
+
+      const record = actionJournal.record({ chatId, userId, archived: true, blocked: false, historyDeleted: false });
+      return { action: 'archive', actionId: record.id };
     } catch (error) {
       logger.error({ chatId, error }, 'Error archiving chat');
       throw error;
     }
   }
 
+  /**
+   * Re-read rate limits after a runtime config change; recorded actions are kept
+   */
+  updateRateLimits(): void {
+    this.deleteRateLimiter.setMaxActions(config.rateLimits.maxDeletesPerMinute);
+    this.blockRateLimiter.setMaxActions(config.rateLimits.maxBlocksPerMinute);
+  }
+
   getRemainingActions(): { deletes: number; blocks: number } {
     return {
       deletes: this.deleteRateLimiter.getRemainingActions(),
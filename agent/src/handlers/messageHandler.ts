@@ -1,11 +1,27 @@
 import { Client } from 'tdl';
 import { logger } from '../utils/logger';
 import { metrics } from '../utils/metrics';
-import { detectSpam, getUserProfile } from './spamDetector';
-import { ActionHandler } from './actionHandler';
+import { eventLog } from '../utils/eventLog';
+import { senderLists } from '../utils/senderLists';
+import { feedbackStore } from '../utils/feedbackStore';
+import { senderReputation, vouchedFor } from '../utils/senderReputation';
+import { chatActivity } from '../utils/chatActivity';
+import { observationWindows, ObservationCloseReason } from '../utils/observationWindow';
+import { campaignTracker, CampaignMember } from '../utils/campaignTracker';
+import { BotSenderPolicy, config } from '../config';
+import { TtlCache } from '../utils/ttlCache';
+import { redactSnippet } from '../utils/heuristics';
+import { extractMessageContent, TdMessage, TdObject } from '../utils/messageContent';
+import { detectSpam, getUserProfile, SpamDetectionResult, UserProfile } from './spamDetector';
+import { ActionHandler, ActionOutcome } from './actionHandler';
+import { actionJournal, ActionRecord } from '../utils/actionJournal';
+
+// Long enough to swallow the second update TDLib sends for the same edit
+const EDIT_DEDUP_TTL_MS = 10 * 60 * 1000;
 
 export class MessageHandler {
   private actionHandler: ActionHandler;
+  private scoredEdits = new TtlCache<string, true>(EDIT_DEDUP_TTL_MS);
 
   constructor() {
     this.actionHandler = new ActionHandler();
@@ -15,8 +31,9 @@ export class MessageHandler {
     try {
       const { message } = update;
 
-      // Ignore outgoing messages
+      // The owner's own messages are never scored, but they mark the chat as trusted
       if (message.is_outgoing) {
+        await this.handleOutgoingMessage(client, message);
         return;
       }
 
@@ -38,22 +55,524 @@ export class MessageHandler {
       // Get user profile information
       const userProfile = await getUserProfile(client, userId, message.chat_id);
 
-      // Detect spam using heuristics
-      const detection = await detectSpam(client, message, userProfile);
+      // Allow/deny lists take precedence over scoring
+      const listMatch = senderLists.match(userProfile);
+      if (listMatch) {
+        eventLog.record('list_hit', {
+          chatId: message.chat_id,
+          userId,
+          list: listMatch.list,
+          entryType: listMatch.entry.type,
+          entryValue: listMatch.entry.value,
+        });
+      }
+
+      if (listMatch?.list === 'allow') {
+        logger.debug({ chatId: message.chat_id, userId, entry: listMatch.entry }, 'Sender is allowlisted');
+        return;
+      }
+
+      const botPolicy = this.botSenderPolicy(message.chat_id, userProfile);
+      if (botPolicy === 'allow' && listMatch?.list !== 'deny') {
+        logger.debug({ chatId: message.chat_id, userId }, 'Bot sender is allowed');
+        return;
+      }
+
+      // Logged before scoring so the campaign rules count this message too
+      const campaignMembers = campaignTracker.record({
+        chatId: message.chat_id,
+        userId,
+        messageId: message.id,
+        text: extractMessageContent(message).text,
+        newSender: !senderReputation.get(userId),
+      });
+
+      if (listMatch?.list !== 'deny' && botPolicy === 'score' && this.shouldObserve(message.chat_id, userProfile)) {
+        await this.observeMessage(client, message, userProfile);
+      } else {
+        // Detect spam using heuristics
+        let detection: SpamDetectionResult;
+        if (listMatch?.list === 'deny') {
+          detection = { isSpam: true, score: 1, reasons: [{ ruleId: 'denylist_match', contribution: 1 }] };
+        } else if (botPolicy === 'archive') {
+          detection = {
+            isSpam: true,
+            score: 1,
+            reasons: [{ ruleId: 'bot_sender_policy', contribution: 1 }],
+            forceArchive: true,
+          };
+        } else {
+          detection = await detectSpam(client, message, userProfile);
+        }
+
+        this.rememberSender(() => senderReputation.recordMessage(userId, detection.score, detection.isSpam));
+
+        if (detection.isSpam) {
+          await this.actOnSpam(client, [message], userProfile, detection);
+        } else {
+          logger.debug({
+            chatId: message.chat_id,
+            userId,
+            score: detection.score,
+          }, 'Message is not spam');
+        }
+      }
+
+      await this.reviewCampaign(client, campaignMembers);
+    } catch (error) {
+      logger.error({ error, update }, 'Error handling message');
+    }
+  }
+
+  /**
+   * Re-score a message after its sender edited it. Spammers often send clean text and
+   * edit the link in afterwards, so an edit is scored as a new detection.
+   */
+  async handleEditedMessage(client: Client, update: TdObject & { chat_id: number; message_id: number }): Promise<void> {
+    try {
+      // Edits in groups and channels are never scored, so don't fetch their messages
+      const chat = await client.invoke({
+        _: 'getChat',
+        chat_id: update.chat_id,
+      });
+
+      if (chat.type._ !== 'chatTypePrivate') {
+        return;
+      }
+
+      const message = await client.invoke({
+        _: 'getMessage',
+        chat_id: update.chat_id,
+        message_id: update.message_id,
+      });
+
+      if (message.is_outgoing || !(message.edit_date > 0)) {
+        return;
+      }
+
+      // A text edit arrives both as updateMessageContent and as updateMessageEdited
+      const editKey = `${message.chat_id}:${message.id}:${message.edit_date}`;
+      if (this.scoredEdits.get(editKey)) {
+        return;
+      }
+      this.scoredEdits.set(editKey, true);
+
+      const userProfile = await getUserProfile(client, chat.type.user_id, message.chat_id);
+
+      // Listed senders and bots handled by policy were dealt with when the message first arrived
+      if (senderLists.match(userProfile) || this.botSenderPolicy(message.chat_id, userProfile) !== 'score') {
+        return;
+      }
+
+      // A chat that is already flagged waits for the user's verdict
+      if (feedbackStore.getPending().some(review => review.chatId === message.chat_id)) {
+        return;
+      }
+
+      const window = observationWindows.get(message.chat_id);
+      if (window?.messages.some(observed => observed.id === message.id)) {
+        const others = window.messages.filter(observed => observed.id !== message.id);
+        const detection = await detectSpam(client, message, userProfile, others);
+        observationWindows.replaceMessage(message.chat_id, message, detection);
+        if (this.isHardSignal(detection)) {
+          await this.closeObservation(client, message.chat_id, 'hard_signal', true);
+        }
+        return;
+      }
 
+      const detection = await detectSpam(client, message, userProfile);
       if (detection.isSpam) {
-        metrics.incrementSpamDetected();
-        await this.actionHandler.handleSpam(client, message.chat_id, userId, detection);
+        await this.actOnSpam(client, [message], userProfile, detection, true);
       } else {
         logger.debug({
           chatId: message.chat_id,
-          userId,
+          messageId: message.id,
           score: detection.score,
-        }, 'Message is not spam');
+        }, 'Edited message is not spam');
       }
     } catch (error) {
-      logger.error({ error, update }, 'Error handling message');
+      logger.error({ error, update }, 'Error handling edited message');
+    }
+  }
+
+  /**
+   * Re-score the earlier members of a campaign that was only recognized now. They were
+   * scored before their text started repeating, so most slipped under the threshold.
+   */
+  private async reviewCampaign(client: Client, members: CampaignMember[]): Promise<void> {
+    if (members.length === 0) {
+      return;
+    }
+
+    // Chats already waiting for review keep their detection; the user decides on those.
+    // Chats that were acted on or labeled are settled, even if the action was undone.
+    const settled = new Set([
+      ...feedbackStore.getPending().map(review => review.chatId),
+      ...feedbackStore.getLabeledExamples().map(example => example.chatId),
+    ]);
+    const latestPerChat = new Map(members.map(member => [member.chatId, member]));
+    logger.info({ chats: latestPerChat.size }, 'Campaign detected, re-scoring earlier senders');
+
+    for (const member of latestPerChat.values()) {
+      if (settled.has(member.chatId) || actionJournal.hasChat(member.chatId)) {
+        continue;
+      }
+      try {
+        await this.rescoreCampaignMember(client, member);
+      } catch (error) {
+        logger.warn({ error, chatId: member.chatId }, 'Could not re-score campaign member');
+      }
+    }
+  }
+
+  private async rescoreCampaignMember(client: Client, member: CampaignMember): Promise<void> {
+    const window = observationWindows.get(member.chatId);
+    const userProfile = window?.userProfile ?? await getUserProfile(client, member.userId, member.chatId);
+
+    // Senders listed, trusted as bots or vouched for by the user since their message
+    // arrived are left alone, as they would be if they wrote again
+    const reputation = senderReputation.get(member.userId);
+    if (
+      senderLists.match(userProfile) ||
+      this.botSenderPolicy(member.chatId, userProfile) !== 'score' ||
+      (reputation && vouchedFor(reputation))
+    ) {
+      return;
+    }
+
+    const message = await client.invoke({
+      _: 'getMessage',
+      chat_id: member.chatId,
+      message_id: member.messageId,
+    });
+
+    if (window) {
+      const others = window.messages.filter(observed => observed.id !== message.id);
+      const detection = await detectSpam(client, message, userProfile, others);
+      observationWindows.replaceMessage(member.chatId, message, detection);
+      await this.closeObservation(client, member.chatId, 'campaign');
+      return;
+    }
+
+    const detection = await detectSpam(client, message, userProfile);
+    if (detection.isSpam) {
+      await this.actOnSpam(client, [message], userProfile, detection);
+    }
+  }
+
+  /**
+   * How a message is handled by sender type. Bots the owner started (the owner wrote
+   * in the chat, if only /start) are allowed; other bots follow `actions.botSenderPolicy`,
+   * and people are always scored.
+   */
+  private botSenderPolicy(chatId: number, userProfile: UserProfile): BotSenderPolicy {
+    if (userProfile.accountType !== 'bot') {
+      return 'score';
+    }
+    return chatActivity.hasOwnerReplied(chatId) ? 'allow' : config.actions.botSenderPolicy;
+  }
+
+  /**
+   * Only chats nobody knows yet are observed: the sender is not a contact, has no
+   * history with the agent and the owner has not written there
+   */
+  private shouldObserve(chatId: number, userProfile: UserProfile): boolean {
+    if (observationWindows.has(chatId)) {
+      return true;
+    }
+    return config.observation.enabled &&
+      config.observation.maxMessages > 1 &&
+      !userProfile.isContact &&
+      !chatActivity.hasOwnerReplied(chatId) &&
+      !senderReputation.get(userProfile.userId);
+  }
+
+  /**
+   * Score a message together with the rest of the observed conversation. The verdict
+   * waits until the window is full or expires, unless the score is already high enough
+   * to act on.
+   */
+  private async observeMessage(client: Client, message: TdMessage, userProfile: UserProfile): Promise<void> {
+    const chatId = message.chat_id;
+    const window = observationWindows.get(chatId) || observationWindows.open(
+      chatId,
+      userProfile,
+      config.observation.windowSeconds,
+      () => {
+        this.closeObservation(client, chatId, 'timeout').catch(error => {
+          logger.error({ error, chatId }, 'Error closing observation window');
+        });
+      }
+    );
+
+    const detection = await detectSpam(client, message, userProfile, [...window.messages]);
+    observationWindows.append(chatId, message, detection);
+    this.rememberSender(() => senderReputation.recordMessage(userProfile.userId, detection.score, detection.isSpam));
+
+    if (this.isHardSignal(detection)) {
+      await this.closeObservation(client, chatId, 'hard_signal');
+    } else if (window.messages.length >= config.observation.maxMessages) {
+      await this.closeObservation(client, chatId, 'message_limit');
+    } else {
+      logger.debug({
+        chatId,
+        userId: userProfile.userId,
+        messageCount: window.messages.length,
+        score: detection.score,
+      }, 'Observing new chat before deciding');
+    }
+  }
+
+  /**
+   * Whether a detection is conclusive enough to end observation early
+   */
+  private isHardSignal(detection: SpamDetectionResult): boolean {
+    return detection.score >= config.thresholds.actionThreshold || detection.quarantine === true;
+  }
+
+  /**
+   * Decide every open observation window now. Windows are not persisted, so this runs
+   * on shutdown to keep held messages from going unscored.
+   */
+  async closeAllObservations(client: Client): Promise<void> {
+    for (const { chatId } of observationWindows.list()) {
+      try {
+        await this.closeObservation(client, chatId, 'shutdown');
+      } catch (error) {
+        logger.error({ error, chatId }, 'Error closing observation window');
+      }
+    }
+  }
+
+  /**
+   * Take the final decision on an observed chat from the conversation score so far
+   */
+  private async closeObservation(
+    client: Client,
+    chatId: number,
+    reason: ObservationCloseReason,
+    edited = false
+  ): Promise<void> {
+    const window = observationWindows.close(chatId);
+    if (!window?.detection) {
+      return;
+    }
+
+    const { detection, userProfile } = window;
+    logger.info({
+      chatId,
+      userId: userProfile.userId,
+      reason,
+      messageCount: window.messages.length,
+      score: detection.score,
+    }, 'Observation window closed');
+
+    if (detection.isSpam) {
+      await this.actOnSpam(client, window.messages, userProfile, detection, edited);
+    }
+  }
+
+  /**
+   * Act on a detection and queue it for review. `messages` is the conversation the
+   * score covers, oldest first. Detections caused by an edit are counted separately.
+   */
+  private async actOnSpam(
+    client: Client,
+    messages: TdMessage[],
+    userProfile: UserProfile,
+    detection: SpamDetectionResult,
+    edited = false
+  ): Promise<void> {
+    const userId = userProfile.userId;
+    const chatId = messages[messages.length - 1].chat_id;
+    if (edited) {
+      metrics.incrementEditedSpamDetected();
+    } else {
+      metrics.incrementSpamDetected();
+    }
+    const outcome = await this.actionHandler.handleSpam(client, chatId, userId, detection);
+    if (outcome.action === 'archive' || outcome.action === 'block') {
+      const action = outcome.action;
+      this.rememberSender(() => senderReputation.recordAction(userId, action));
+    }
+    this.queueForReview(messages, userProfile, detection, outcome);
+  }
+
+  /**
+   * Remember that the owner wrote in this chat. Replying after a detection counts as
+   * an implicit "not spam" verdict for every unanswered detection in the chat.
+   */
+  private async handleOutgoingMessage(client: Client, message: TdMessage): Promise<void> {
+    const chat = await client.invoke({
+      _: 'getChat',
+      chat_id: message.chat_id,
+    });
+
+    if (chat.type._ !== 'chatTypePrivate') {
+      return;
+    }
+
+    if (!chatActivity.hasOwnerReplied(message.chat_id)) {
+      logger.info({ chatId: message.chat_id }, 'Owner replied in chat, trusting it from now on');
+    }
+    chatActivity.recordOutgoing(message.chat_id, message.date || undefined);
+    if (observationWindows.close(message.chat_id)) {
+      logger.debug({ chatId: message.chat_id }, 'Owner replied during observation, dropping it');
+    }
+
+    const pending = feedbackStore.getPending().filter(review => review.chatId === message.chat_id);
+    if (pending.length === 0) {
+      return;
+    }
+
+    for (const review of pending) {
+      feedbackStore.recordLabel(review.eventId, 'not_spam');
+      this.rememberSender(() => senderReputation.recordFeedback(review.userId, 'not_spam'));
+    }
+
+    eventLog.record('owner_replied', {
+      chatId: message.chat_id,
+      userId: chat.type.user_id,
+      eventIds: pending.map(review => review.eventId),
+    });
+    logger.info({ chatId: message.chat_id, eventIds: pending.map(review => review.eventId) },
+      'Owner replied to flagged chat, treating detections as not spam');
+  }
+
+  /**
+   * Find private chats the owner already wrote in, from recent history. Run once
+   * authorization is ready so chats from before the agent existed are trusted too.
+   * Returns how many chats were newly trusted.
+   */
+  async scanOwnerActivity(client: Client, chatLimit = 100, historyLimit = 50): Promise<number> {
+    const chats = await client.invoke({
+      _: 'getChats',
+      chat_list: { _: 'chatListMain' },
+      limit: chatLimit,
+    });
+
+    let trusted = 0;
+    for (const chatId of chats.chat_ids || []) {
+      if (chatActivity.hasOwnerReplied(chatId)) {
+        continue;
+      }
+
+      try {
+        const chat = await client.invoke({ _: 'getChat', chat_id: chatId });
+        if (chat.type._ !== 'chatTypePrivate') {
+          continue;
+        }
+
+        const history = await client.invoke({
+          _: 'getChatHistory',
+          chat_id: chatId,
+          from_message_id: 0,
+          offset: 0,
+          limit: historyLimit,
+          only_local: false,
+        });
+        const messages: Array<{ is_outgoing?: boolean; date?: number } | null> = history.messages || [];
+        const outgoing = messages.filter(m => m?.is_outgoing);
+        if (outgoing.length > 0) {
+          const lastDate = Math.max(...outgoing.map(m => m?.date || 0));
+          chatActivity.recordOutgoing(chatId, lastDate, outgoing.length);
+          trusted++;
+        }
+      } catch (error) {
+        logger.debug({ chatId, error }, 'Could not scan chat history');
+      }
+    }
+
+    logger.info({ scanned: (chats.chat_ids || []).length, trusted }, 'Scanned chat history for owner replies');
+    return trusted;
+  }
+
+  // Reputation is best-effort; a failed write must not stop the message from being handled
+  private rememberSender(update: () => void): void {
+    try {
+      update();
+    } catch (error) {
+      logger.warn({ error }, 'Failed to persist sender reputation');
+    }
+  }
+
+  /**
+   * Publish a detection for the orchestrator's review queue and keep the full text locally
+   * so the user's verdict can become a labeled example
+   */
+  private queueForReview(
+    messages: TdMessage[],
+    userProfile: UserProfile,
+    detection: SpamDetectionResult,
+    outcome: ActionOutcome
+  ): void {
+    const chatId = messages[messages.length - 1].chat_id;
+    const text = messages.map(message => extractMessageContent(message).text).filter(Boolean).join('\n');
+
+    const event = eventLog.record('detection', {
+      chatId,
+      userId: userProfile.userId,
+      username: userProfile.username,
+      score: detection.score,
+      reasons: detection.reasons,
+      snippet: redactSnippet(text),
+      action: outcome.action,
+      actionId: outcome.actionId,
+    });
+
+    try {
+      feedbackStore.addPending({
+        eventId: event.id,
+        chatId,
+        userId: userProfile.userId,
+        text,
+        score: detection.score,
+        reasons: detection.reasons,
+        ...(detection.imageHashes ? { imageHashes: detection.imageHashes } : {}),
+      });
+    } catch (error) {
+      logger.warn({ error, eventId: event.id }, 'Failed to persist pending review');
+    }
+  }
+
+  /**
+   * Block a sender the user flagged from the review queue. Returns the action journal id.
+   */
+  async blockSender(client: Client, chatId: number, userId: number): Promise<number> {
+    const actionId = await this.actionHandler.blockSender(client, chatId, userId);
+    this.rememberSender(() => senderReputation.recordAction(userId, 'block'));
+    return actionId;
+  }
+
+  /**
+   * Reverse an action taken on a false positive and allowlist the sender so it does not happen again
+   */
+  async undoAction(client: Client, actionId: number): Promise<ActionRecord> {
+    const record = await this.actionHandler.undoAction(client, actionId);
+
+    try {
+      senderLists.addEntry({ list: 'allow', type: 'user_id', value: String(record.userId) });
+    } catch (error) {
+      logger.error({ error, userId: record.userId }, 'Failed to persist allowlist entry after undo');
     }
+
+    eventLog.record('action_undone', {
+      actionId: record.id,
+      chatId: record.chatId,
+      userId: record.userId,
+      archived: record.archived,
+      blocked: record.blocked,
+      historyDeleted: record.historyDeleted,
+    });
+
+    return record;
+  }
+
+  /**
+   * Apply a runtime config change to components that cache config values
+   */
+  refreshConfig(): void {
+    this.actionHandler.updateRateLimits();
   }
 
   getMetrics() {
@@ -1,12 +1,40 @@
 import { Client } from 'tdl';
+import { readFileSync } from 'fs';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { looksSpam } from '../utils/heuristics';
+import { DetectionReason, ruleEngine } from '../rules/ruleEngine';
+import { combineMessageContent, extractEntityUrls, extractMessageContent, TdMessage, TdMessageContent, TdPhotoSize } from '../utils/messageContent';
+import { TtlCache } from '../utils/ttlCache';
+import { hashJpeg } from '../utils/imageHash';
+import type { NamedUser } from '../utils/profileNames';
+import { senderReputation } from '../utils/senderReputation';
 
 export interface SpamDetectionResult {
   isSpam: boolean;
   score: number;
-  reasons: string[];
+  /** Rules that fired, with what each added to the score */
+  reasons: DetectionReason[];
+  /** Perceptual hashes of the photos scored, kept so confirmed spam can be matched later */
+  imageHashes?: string[];
+  /** A risky attachment was found and `actions.quarantineRiskyAttachments` is on */
+  quarantine?: boolean;
+  /** Archive whatever the score and default action; set by `actions.botSenderPolicy` */
+  forceArchive?: boolean;
+}
+
+export type AccountType = 'regular' | 'bot' | 'deleted' | 'unknown';
+
+/**
+ * What the sender says about themselves, from `getUserFullInfo`
+ */
+export interface SenderBio {
+  text: string;
+  /** Link targets from the bio's text entities */
+  entityUrls: string[];
+  /** Channel the sender pinned to their profile */
+  personalChat: { chatId: number; title?: string } | null;
+  /** Business start page and location text */
+  businessText: string;
 }
 
 export interface UserProfile {
@@ -15,54 +43,272 @@ export interface UserProfile {
   isMutualContact: boolean;
   hasProfilePhoto: boolean;
   username?: string;
+  /** First and last name joined */
+  displayName?: string;
+  /** Every active username, the editable one included */
+  usernames?: string[];
+  phoneNumber?: string;
   hasCommonGroups: boolean;
+  /** Telegram marks the account as a scam or impersonator */
+  isScam?: boolean;
+  isFake?: boolean;
+  isVerified?: boolean;
+  isPremium?: boolean;
+  accountType?: AccountType;
+  /** Only fetched when `detection.checkBio` is on; absent if it could not be read */
+  bio?: SenderBio;
 }
 
-export async function detectSpam(
-  client: Client,
-  message: any,
-  userProfile: UserProfile
-): Promise<SpamDetectionResult> {
-  const reasons: string[] = [];
-  let score = 0;
+const ACCOUNT_TYPES: Record<string, AccountType> = {
+  userTypeRegular: 'regular',
+  userTypeBot: 'bot',
+  userTypeDeleted: 'deleted',
+  userTypeUnknown: 'unknown',
+};
+
+// Bios change rarely; refetching on every message would hammer TDLib
+const BIO_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const bioCache = new TtlCache<number, SenderBio>(BIO_CACHE_TTL_MS);
+
+/**
+ * Fetch (or reuse) a sender's bio, personal channel and business info
+ */
+export async function getSenderBio(client: Client, userId: number): Promise<SenderBio> {
+  const cached = bioCache.get(userId);
+  if (cached) {
+    return cached;
+  }
+
+  const fullInfo = await client.invoke({
+    _: 'getUserFullInfo',
+    user_id: userId,
+  });
+
+  // Bio is formatted text in current TDLib, a plain string in older releases
+  const bio = typeof fullInfo.bio === 'string' ? { text: fullInfo.bio, entities: [] } : fullInfo.bio;
+
+  let personalChat: SenderBio['personalChat'] = null;
+  if (fullInfo.personal_chat_id) {
+    personalChat = { chatId: fullInfo.personal_chat_id };
+    try {
+      const chat = await client.invoke({ _: 'getChat', chat_id: fullInfo.personal_chat_id });
+      personalChat.title = chat.title;
+    } catch (err) {
+      logger.debug({ userId, error: err }, 'Could not read personal chat');
+    }
+  }
+
+  const business = fullInfo.business_info;
+  const businessText = [
+    business?.start_page?.title,
+    business?.start_page?.message,
+    business?.location?.address,
+  ].filter(Boolean).join('\n');
+
+  const result: SenderBio = {
+    text: bio?.text || '',
+    entityUrls: extractEntityUrls(bio).entityUrls,
+    personalChat,
+    businessText,
+  };
+  bioCache.set(userId, result);
+  return result;
+}
+
+/**
+ * Drop cached bios, e.g. in tests or after a config change
+ */
+export function clearSenderBioCache(): void {
+  bioCache.clear();
+}
+
+// The same photo is often forwarded to many chats; hash each file once
+const PHOTO_HASH_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const photoHashCache = new TtlCache<string, string | null>(PHOTO_HASH_CACHE_TTL_MS);
+// Smallest thumbnail worth hashing; smaller ones are too blurred to compare
+const MIN_THUMBNAIL_WIDTH = 64;
+
+/**
+ * Download the smallest usable thumbnail of a photo, hash it and delete the
+ * file again straight away. Null when there is no thumbnail or it cannot be read.
+ */
+export async function getPhotoHash(client: Client, photo: TdMessageContent['photo']): Promise<string | null> {
+  const sizes: TdPhotoSize[] = [...(photo?.sizes || [])].sort((a, b) => a.width - b.width);
+  const size = sizes.find(candidate => candidate.width >= MIN_THUMBNAIL_WIDTH) || sizes[sizes.length - 1];
+  const fileId = size?.photo?.id;
+  if (!fileId) {
+    return null;
+  }
+
+  const cacheKey = size.photo?.remote?.unique_id || String(fileId);
+  const cached = photoHashCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let hash: string | null = null;
+  try {
+    const file = await client.invoke({
+      _: 'downloadFile',
+      file_id: fileId,
+      priority: 1,
+      offset: 0,
+      limit: 0,
+      synchronous: true,
+    });
+    if (file.local?.path) {
+      hash = hashJpeg(readFileSync(file.local.path));
+    }
+  } finally {
+    try {
+      await client.invoke({ _: 'deleteFile', file_id: fileId });
+    } catch (err) {
+      logger.debug({ fileId, error: err }, 'Could not delete downloaded thumbnail');
+    }
+  }
 
-  // Check if sender is in contacts
-  if (config.detection.checkContacts && !userProfile.isContact && !userProfile.isMutualContact) {
-    score += 0.3;
-    reasons.push('sender_not_in_contacts');
+  if (hash === null) {
+    logger.debug({ fileId }, 'Could not hash photo thumbnail, skipping image matching for it');
   }
+  photoHashCache.set(cacheKey, hash);
+  return hash;
+}
+
+/**
+ * Drop cached photo hashes, e.g. in tests
+ */
+export function clearPhotoHashCache(): void {
+  photoHashCache.clear();
+}
+
+// Contacts come and go rarely; their names are reread once an hour
+const CONTACT_NAMES_TTL_MS = 60 * 60 * 1000;
+const contactNamesCache = new TtlCache<'contacts', NamedUser[]>(CONTACT_NAMES_TTL_MS, 1);
+
+function displayNameOf(user: { first_name?: string; last_name?: string }): string {
+  return [user?.first_name, user?.last_name].filter(Boolean).join(' ');
+}
+
+/**
+ * Names and usernames of the owner's contacts, fetched with `getContacts` and cached
+ */
+export async function getContactNames(client: Client): Promise<NamedUser[]> {
+  const cached = contactNamesCache.get('contacts');
+  if (cached) {
+    return cached;
+  }
+
+  const contacts = await client.invoke({ _: 'getContacts' });
+  const names: NamedUser[] = [];
+  for (const userId of contacts.user_ids || []) {
+    try {
+      const user = await client.invoke({ _: 'getUser', user_id: userId });
+      names.push({ userId, name: displayNameOf(user), usernames: user.usernames?.active_usernames || [] });
+    } catch (err) {
+      logger.debug({ userId, error: err }, 'Could not read contact');
+    }
+  }
+
+  contactNamesCache.set('contacts', names);
+  return names;
+}
+
+/**
+ * Drop cached contact names, e.g. in tests
+ */
+export function clearContactNamesCache(): void {
+  contactNamesCache.clear();
+}
 
-  // Check common groups
-  if (config.detection.checkCommonGroups && !userProfile.hasCommonGroups) {
-    score += 0.2;
-    reasons.push('no_common_groups');
+// Contact names to compare a stranger's name against; empty when names are not checked
+async function contactNamesFor(client: Client, userProfile: UserProfile): Promise<NamedUser[]> {
+  if (!config.detection.checkProfileNames || userProfile.isContact) {
+    return [];
   }
+  try {
+    return await getContactNames(client);
+  } catch (err) {
+    logger.debug({ error: err }, 'Could not read contacts');
+    return [];
+  }
+}
 
-  // Check profile photo
-  if (config.detection.checkProfilePhoto && !userProfile.hasProfilePhoto) {
-    score += 0.15;
-    reasons.push('no_profile_photo');
+// Hashes of the photos among the messages; only strangers' photos are downloaded
+async function hashPhotos(client: Client, messages: TdMessage[], userProfile: UserProfile): Promise<string[]> {
+  if (!config.detection.checkPhotos || userProfile.isContact) {
+    return [];
   }
 
-  // Check message content for spam patterns
-  const text = message.content?.text?.text || '';
-  if (text && config.detection.checkLinks && looksSpam(text)) {
-    score += 0.4;
-    reasons.push('suspicious_content_pattern');
+  const hashes: string[] = [];
+  for (const message of messages) {
+    if (message?.content?._ !== 'messagePhoto') {
+      continue;
+    }
+    try {
+      const hash = await getPhotoHash(client, message.content.photo);
+      if (hash && !hashes.includes(hash)) {
+        hashes.push(hash);
+      }
+    } catch (err) {
+      logger.debug({ messageId: message.id, error: err }, 'Could not hash photo');
+    }
   }
+  return hashes;
+}
 
-  const isSpam = score >= config.thresholds.lowThreshold;
+/**
+ * Score a message. Pass the sender's earlier messages in the same conversation to
+ * score everything said so far as one piece of content.
+ */
+export async function detectSpam(
+  client: Client,
+  message: TdMessage,
+  userProfile: UserProfile,
+  earlierMessages: TdMessage[] = []
+): Promise<SpamDetectionResult> {
+  const content = earlierMessages.length > 0
+    ? combineMessageContent([...earlierMessages, message].map(extractMessageContent))
+    : extractMessageContent(message);
+  const text = content.text;
+  const reputation = senderReputation.get(userProfile.userId);
+  const imageHashes = await hashPhotos(client, [...earlierMessages, message], userProfile);
+  const contactNames = await contactNamesFor(client, userProfile);
+  const { score, reasons } = await ruleEngine.evaluate({
+    client,
+    message,
+    userProfile,
+    text,
+    content,
+    reputation,
+    imageHashes,
+    contactNames,
+  });
+
+  // Attachment rules are named attachment_*; with quarantine on, any of them settles the verdict
+  const quarantine = config.actions.quarantineRiskyAttachments &&
+    reasons.some(reason => reason.ruleId.startsWith('attachment_') && reason.contribution > 0);
+  const isSpam = quarantine || score >= config.thresholds.lowThreshold;
 
   if (isSpam) {
     logger.info({
       userId: userProfile.userId,
       score,
       reasons,
+      quarantine,
+      mediaType: content.mediaType,
+      messageCount: earlierMessages.length + 1,
       text: text.substring(0, 100),
     }, 'Spam detected');
   }
 
-  return { isSpam, score, reasons };
+  const result: SpamDetectionResult = { isSpam, score, reasons };
+  if (imageHashes.length > 0) {
+    result.imageHashes = imageHashes;
+  }
+  if (quarantine) {
+    result.quarantine = true;
+  }
+  return result;
 }
 
 export async function getUserProfile(client: Client, userId: number, chatId: number): Promise<UserProfile> {
@@ -89,13 +335,34 @@ export async function getUserProfile(client: Client, userId: number, chatId: num
       logger.debug({ userId, error: err }, 'Could not check common groups');
     }
 
+    // Newer TDLib groups the flags under verification_status; older releases keep them on the user
+    const verification = user.verification_status || user;
+
+    let bio: SenderBio | undefined;
+    if (config.detection.checkBio) {
+      try {
+        bio = await getSenderBio(client, userId);
+      } catch (err) {
+        logger.debug({ userId, error: err }, 'Could not read sender bio');
+      }
+    }
+
     return {
       userId,
       isContact: user.is_contact || false,
       isMutualContact: user.is_mutual_contact || false,
       hasProfilePhoto,
       username: user.usernames?.editable_username,
+      displayName: displayNameOf(user) || undefined,
+      usernames: user.usernames?.active_usernames || [],
+      phoneNumber: user.phone_number || undefined,
       hasCommonGroups,
+      isScam: verification.is_scam || false,
+      isFake: verification.is_fake || false,
+      isVerified: verification.is_verified || false,
+      isPremium: user.is_premium || false,
+      accountType: ACCOUNT_TYPES[user.type?._] || 'unknown',
+      bio,
     };
   } catch (error) {
     logger.error({ userId, error }, 'Error fetching user profile');
@@ -1,21 +1,57 @@
 import { configure, createClient } from 'tdl';
+import { join } from 'path';
 import { getTdjson } from 'prebuilt-tdlib';
-import { config } from './config';
+import { config, getConfigSources, restoreRuntimeConfig } from './config';
 import { logger } from './utils/logger';
 import { MessageHandler } from './handlers/messageHandler';
 import { AuthHandler } from './handlers/authHandler';
 import { AuthServer } from './authServer';
+import { metrics } from './utils/metrics';
+import { eventLog } from './utils/eventLog';
+import { senderLists } from './utils/senderLists';
+import { feedbackStore } from './utils/feedbackStore';
+import { actionJournal } from './utils/actionJournal';
+import { spamSimilarityIndex } from './utils/spamSimilarity';
+import { senderReputation } from './utils/senderReputation';
+import { chatActivity } from './utils/chatActivity';
+import { domainLists } from './utils/domainLists';
+import { textClassifier } from './utils/textClassifier';
+import { spamImageIndex } from './utils/imageHash';
+import { lexiconPacks } from './utils/lexiconPacks';
+import { ruleEngine } from './rules/ruleEngine';
 
 // Configure TDLib with prebuilt binary
 configure({ tdjson: getTdjson() });
 
 async function main() {
   logger.info('Starting Spam Arrester Agent...');
+
+  // Settings pushed at runtime by the orchestrator take precedence over the container env,
+  // unless they were pushed to an earlier container
+  try {
+    const restored = restoreRuntimeConfig();
+    if (restored === 'restored') {
+      logger.info('Restored runtime config overrides');
+    } else if (restored === 'discarded') {
+      logger.info('Dropped runtime config overrides saved by an earlier container');
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Could not restore runtime config overrides, ignoring them');
+  }
+
   logger.info({
     enableBlocking: config.actions.enableBlocking,
     enableDeletion: config.actions.enableDeletion,
     defaultAction: config.actions.defaultAction,
+    lowThreshold: config.thresholds.lowThreshold,
+    actionThreshold: config.thresholds.actionThreshold,
   }, 'Configuration loaded');
+  logger.debug({ sources: getConfigSources() }, 'Configuration sources');
+
+  const unknownRules = ruleEngine.getUnknownConfiguredRules();
+  if (unknownRules.length > 0) {
+    logger.warn({ rules: unknownRules }, 'Config has overrides for detection rules that do not exist');
+  }
 
   // Initialize TDLib client
   const client = createClient({
@@ -33,9 +69,57 @@ async function main() {
     },
   });
 
+  // Restore state from the previous run before any message is processed. A store that
+  // cannot be read starts empty rather than keeping the agent from starting.
+  const stores: Array<[{ attachStore(filePath: string): void }, string, string]> = [
+    [metrics, 'metrics.json', 'Could not restore persisted metrics, starting from zero'],
+    [eventLog, 'events.json', 'Could not restore agent events, starting empty'],
+    [senderLists, 'sender-lists.json', 'Could not restore sender lists, waiting for orchestrator sync'],
+    [feedbackStore, 'feedback.json', 'Could not restore review feedback, starting empty'],
+    [actionJournal, 'actions.json', 'Could not restore action journal, earlier actions cannot be undone'],
+    [spamSimilarityIndex, 'known-spam.json', 'Could not restore known spam index, near-duplicate detection starts empty'],
+    [spamImageIndex, 'known-spam-images.json', 'Could not restore known spam images, photo matching starts empty'],
+    [textClassifier, 'classifier-model.json', 'Could not load classifier model, scoring without it until it is retrained'],
+    [senderReputation, 'reputation.json', 'Could not restore sender reputation, starting empty'],
+    [chatActivity, 'chat-activity.json', 'Could not restore chat activity, rescanning history'],
+  ];
+  for (const [store, fileName, failureMessage] of stores) {
+    const storePath = join(config.storage.dataDirectory, fileName);
+    try {
+      store.attachStore(storePath);
+    } catch (error) {
+      logger.warn({ error, storePath }, failureMessage);
+    }
+  }
+
+  if (spamSimilarityIndex.size() === 0) {
+    // Labels given before the index existed still count as confirmed spam
+    try {
+      feedbackStore.getLabeledExamples()
+        .filter(example => example.label === 'spam')
+        .forEach(example => spamSimilarityIndex.add(example.eventId, example.text));
+    } catch (error) {
+      logger.warn({ error }, 'Could not seed known spam index from earlier review labels');
+    }
+  }
+
+  const { domainListsPath } = config.storage;
+  try {
+    domainLists.attachFile(domainListsPath);
+  } catch (error) {
+    logger.warn({ error, domainListsPath }, 'Could not load domain lists, link rules run without them');
+  }
+
+  const { lexiconDirectory } = config.storage;
+  try {
+    lexiconPacks.attachDirectory(lexiconDirectory);
+  } catch (error) {
+    logger.warn({ error, lexiconDirectory }, 'Could not load lexicon packs, scoring without them');
+  }
+
   const messageHandler = new MessageHandler();
   const authHandler = new AuthHandler();
-  const authServer = new AuthServer(client, authHandler);
+  const authServer = new AuthServer(client, authHandler, messageHandler);
 
   // Set up auth handler
   authHandler.setupAuthHandler(client);
@@ -44,6 +128,13 @@ async function main() {
   client.on('update', async (update) => {
     if (update._ === 'updateNewMessage') {
       await messageHandler.handleNewMessage(client, update);
+    } else if (update._ === 'updateMessageContent' || update._ === 'updateMessageEdited') {
+      await messageHandler.handleEditedMessage(client, update);
+    } else if (update._ === 'updateAuthorizationState' && update.authorization_state._ === 'authorizationStateReady') {
+      // Backfill owner replies from history without holding up new messages
+      messageHandler.scanOwnerActivity(client).catch(error => {
+        logger.warn({ error }, 'Could not scan chat history for owner replies');
+      });
     }
   });
 
@@ -74,23 +165,20 @@ async function main() {
   }
 
   // Graceful shutdown
-  process.on('SIGINT', async () => {
+  const shutdown = async () => {
     logger.info('Shutting down...');
-    const metrics = messageHandler.getMetrics();
-    logger.info({ metrics }, 'Final metrics');
+    // Held messages are lost with the process unless they are decided now
+    await messageHandler.closeAllObservations(client);
+    logger.info({ metrics: messageHandler.getMetrics() }, 'Final metrics');
     await authServer.stop();
     await client.close();
+    // Stores written on every message debounce their saves
+    [metrics, eventLog, senderReputation].forEach(store => store.flush());
     process.exit(0);
-  });
+  };
 
-  process.on('SIGTERM', async () => {
-    logger.info('Shutting down...');
-    const metrics = messageHandler.getMetrics();
-    logger.info({ metrics }, 'Final metrics');
-    await authServer.stop();
-    await client.close();
-    process.exit(0);
-  });
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
 main().catch((error) => {
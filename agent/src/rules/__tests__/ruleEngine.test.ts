@@ -0,0 +1,171 @@
+import { DetectionRule, RuleContext, RuleEngine } from '../ruleEngine';
+import { Client } from 'tdl';
+
+jest.mock('../../config', () => ({
+  config: {
+    detection: {
+      checkLinks: true,
+    },
+    rules: {},
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    warn: jest.fn(),
+  },
+}));
+
+const { config } = require('../../config');
+const { logger } = require('../../utils/logger');
+
+describe('RuleEngine', () => {
+  const context: RuleContext = {
+    client: {} as Client,
+    message: { id: 1, chat_id: 1 },
+    userProfile: {
+      userId: 1,
+      isContact: false,
+      isMutualContact: false,
+      hasProfilePhoto: true,
+      hasCommonGroups: true,
+    },
+    text: 'hello',
+    content: {
+      mediaType: 'text',
+      text: 'hello',
+      entityUrls: [],
+      hiddenUrls: [],
+      buttonUrls: [],
+      forwardOrigin: null,
+      contact: null,
+      documents: [],
+    },
+  };
+
+  const rule = (id: string, overrides: Partial<DetectionRule> = {}): DetectionRule => ({
+    id,
+    description: id,
+    defaultWeight: 0.2,
+    evaluate: () => ({}),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.rules = {};
+    config.detection.checkLinks = true;
+  });
+
+  it('should sum the weights of matching rules', async () => {
+    const engine = new RuleEngine([
+      rule('a'),
+      rule('b', { defaultWeight: 0.3 }),
+      rule('c', { evaluate: () => null }),
+    ]);
+
+    const result = await engine.evaluate(context);
+
+    expect(result.score).toBeCloseTo(0.5);
+    expect(result.reasons).toEqual([
+      { ruleId: 'a', contribution: 0.2 },
+      { ruleId: 'b', contribution: 0.3 },
+    ]);
+  });
+
+  it('should scale contributions by match strength and keep details', async () => {
+    const engine = new RuleEngine([
+      rule('partial', { defaultWeight: 0.4, evaluate: () => ({ strength: 0.5, details: { links: ['x.io'] } }) }),
+      rule('clamped', { evaluate: () => ({ strength: 5 }) }),
+    ]);
+
+    const result = await engine.evaluate(context);
+
+    expect(result.reasons).toEqual([
+      { ruleId: 'partial', contribution: 0.2, details: { links: ['x.io'] } },
+      { ruleId: 'clamped', contribution: 0.2 },
+    ]);
+  });
+
+  it('should support async evaluators', async () => {
+    const engine = new RuleEngine([rule('async', { evaluate: async () => ({}) })]);
+
+    const result = await engine.evaluate(context);
+
+    expect(result.reasons.map(r => r.ruleId)).toEqual(['async']);
+  });
+
+  it('should subtract trust signals without going below zero', async () => {
+    const discounted = new RuleEngine([rule('signal', { defaultWeight: 0.6 }), rule('trusted', { trust: true })]);
+    const floored = new RuleEngine([rule('trusted', { trust: true })]);
+
+    const result = await discounted.evaluate(context);
+
+    expect(result.score).toBeCloseTo(0.4);
+    expect(result.reasons).toEqual([
+      { ruleId: 'signal', contribution: 0.6 },
+      { ruleId: 'trusted', contribution: -0.2 },
+    ]);
+    expect((await floored.evaluate(context)).score).toBe(0);
+  });
+
+  it('should skip rules that throw and log them', async () => {
+    const engine = new RuleEngine([
+      rule('broken', { evaluate: () => { throw new Error('boom'); } }),
+      rule('ok'),
+    ]);
+
+    const result = await engine.evaluate(context);
+
+    expect(result.reasons.map(r => r.ruleId)).toEqual(['ok']);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ ruleId: 'broken' }),
+      'Detection rule failed, skipping it'
+    );
+  });
+
+  it('should apply weight and enabled overrides from config', async () => {
+    config.rules = { a: { weight: 0.7 }, b: { enabled: false }, optin: { enabled: true } };
+    const engine = new RuleEngine([
+      rule('a'),
+      rule('b'),
+      rule('optin', { enabledByDefault: false }),
+      rule('off', { enabledByDefault: false }),
+    ]);
+
+    const result = await engine.evaluate(context);
+
+    expect(result.reasons).toEqual([
+      { ruleId: 'a', contribution: 0.7 },
+      { ruleId: 'optin', contribution: 0.2 },
+    ]);
+  });
+
+  it('should not run rules whose detection toggle is off', async () => {
+    config.detection.checkLinks = false;
+    const evaluate = jest.fn(() => ({}));
+    const engine = new RuleEngine([rule('links', { toggle: 'checkLinks', evaluate })]);
+
+    const result = await engine.evaluate(context);
+
+    expect(result.reasons).toEqual([]);
+    expect(evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should reject duplicate rule ids', () => {
+    const engine = new RuleEngine([rule('a')]);
+
+    expect(() => engine.register(rule('a'))).toThrow('Detection rule "a" is already registered');
+  });
+
+  it('should describe effective rule settings', () => {
+    config.rules = { a: { weight: 0.5 }, typo_rule: { enabled: false } };
+    const engine = new RuleEngine([rule('a'), rule('b', { enabledByDefault: false })]);
+
+    expect(engine.getStatus()).toEqual([
+      { id: 'a', description: 'a', trust: false, enabled: true, weight: 0.5 },
+      { id: 'b', description: 'b', trust: false, enabled: false, weight: 0.2 },
+    ]);
+    expect(engine.getUnknownConfiguredRules()).toEqual(['typo_rule']);
+  });
+});
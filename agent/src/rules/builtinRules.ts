@@ -0,0 +1,579 @@
+import { config } from '../config';
+import {
+  extractInviteLinks,
+  extractMentions,
+  extractPhoneNumbers,
+  extractUrls,
+  isInviteLink,
+} from '../utils/heuristics';
+import { spamSimilarityIndex } from '../utils/spamSimilarity';
+import { textClassifier } from '../utils/textClassifier';
+import { spamImageIndex } from '../utils/imageHash';
+import { SenderReputation, vouchedFor } from '../utils/senderReputation';
+import { chatActivity } from '../utils/chatActivity';
+import { campaignTracker } from '../utils/campaignTracker';
+import { extractMessageContent } from '../utils/messageContent';
+import { deobfuscate } from '../utils/textNormalization';
+import { analyzeUrls, UrlAnalysis, UrlClass } from '../utils/urlAnalysis';
+import { analyzeAttachment, AttachmentRisk } from '../utils/attachmentRisk';
+import { lexiconPacks } from '../utils/lexiconPacks';
+import { findLookalikeContact, impersonationTerms, NamedUser, nameLinks } from '../utils/profileNames';
+import type { DetectionRule, RuleContext, RuleMatch } from './ruleEngine';
+
+// Enough to show the user why a message was flagged without bloating events
+const MAX_REPORTED_ENTITIES = 5;
+
+function entityMatch<T>(key: string, entities: T[]): RuleMatch | null {
+  return entities.length > 0 ? { details: { [key]: entities.slice(0, MAX_REPORTED_ENTITIES) } } : null;
+}
+
+// Every link in a piece of profile text, visible or behind an entity
+function profileLinks(text: string, entityUrls: string[] = []): string[] {
+  return [...new Set([...extractUrls(text), ...extractInviteLinks(text), ...entityUrls])];
+}
+
+// Differing bits (of 64) up to which a photo counts as the same image; recompression flips a few
+const MAX_IMAGE_HASH_DISTANCE = 8;
+
+// Days of clean history and messages after which a sender counts as fully established
+const ESTABLISHED_AFTER_DAYS = 30;
+const ESTABLISHED_AFTER_MESSAGES = 20;
+
+function offensesOf(reputation: SenderReputation): number {
+  return reputation.feedback.spam + reputation.actions.archive + reputation.actions.block;
+}
+
+// Links outside the visible text: entity targets and inline button URLs
+function structuredLinks({ content }: RuleContext): string[] {
+  return [...content.entityUrls, ...content.buttonUrls];
+}
+
+// Every link in the message, from its text, entities and buttons
+function allLinks(context: RuleContext): string[] {
+  return [...extractUrls(context.text), ...extractInviteLinks(context.text), ...structuredLinks(context)];
+}
+
+function linksOfClass(context: RuleContext, urlClass: UrlClass): UrlAnalysis[] {
+  return analyzeUrls(allLinks(context)).filter(analysis => analysis.classes.includes(urlClass));
+}
+
+function urlClassMatch(context: RuleContext, urlClass: UrlClass): RuleMatch | null {
+  return entityMatch('urls', linksOfClass(context, urlClass).map(analysis => analysis.url));
+}
+
+// Links on operator-allowlisted domains are left out of the link rules
+function isAllowlisted(link: string): boolean {
+  return analyzeUrls([link])[0]?.classes.includes('allowlisted') ?? false;
+}
+
+// Files from contacts are expected; only strangers' attachments are judged
+function attachmentMatch({ userProfile, content, text }: RuleContext, risk: AttachmentRisk): RuleMatch | null {
+  if (userProfile.isContact) {
+    return null;
+  }
+  const files = content.documents
+    .map(document => analyzeAttachment(document, text, config.attachmentRisks))
+    .filter(analysis => analysis.risks.includes(risk))
+    .map(({ fileName, mimeType, size }) => ({ fileName, mimeType, size }));
+  return entityMatch('files', files);
+}
+
+// Names of a sender who is not a contact; verified accounts really are who their name says
+function strangerNames({ userProfile }: RuleContext): NamedUser | null {
+  if (userProfile.isContact || userProfile.isVerified) {
+    return null;
+  }
+  const usernames = userProfile.usernames?.length
+    ? userProfile.usernames
+    : userProfile.username ? [userProfile.username] : [];
+  return { userId: userProfile.userId, name: userProfile.displayName || '', usernames };
+}
+
+export const builtinRules: DetectionRule[] = [
+  {
+    id: 'sender_not_in_contacts',
+    description: 'Sender is neither a contact nor a mutual contact',
+    defaultWeight: 0.3,
+    toggle: 'checkContacts',
+    evaluate: ({ userProfile }) =>
+      !userProfile.isContact && !userProfile.isMutualContact ? {} : null,
+  },
+  {
+    id: 'no_common_groups',
+    description: 'Sender shares no groups with the user',
+    defaultWeight: 0.2,
+    toggle: 'checkCommonGroups',
+    evaluate: ({ userProfile }) => (!userProfile.hasCommonGroups ? {} : null),
+  },
+  {
+    id: 'no_profile_photo',
+    description: 'Sender has no profile photo',
+    defaultWeight: 0.15,
+    toggle: 'checkProfilePhoto',
+    evaluate: ({ userProfile }) => (!userProfile.hasProfilePhoto ? {} : null),
+  },
+  {
+    id: 'telegram_flagged_scam',
+    description: 'Telegram marks the sender as a scam or fake account',
+    defaultWeight: 1,
+    evaluate: ({ userProfile }) => {
+      const flags = [
+        ...(userProfile.isScam ? ['scam'] : []),
+        ...(userProfile.isFake ? ['fake'] : []),
+      ];
+      return flags.length > 0 ? { details: { flags } } : null;
+    },
+  },
+  {
+    id: 'verified_account',
+    description: 'Sender is verified by Telegram',
+    defaultWeight: 0.5,
+    trust: true,
+    evaluate: ({ userProfile }) => (userProfile.isVerified ? {} : null),
+  },
+  {
+    id: 'premium_account',
+    description: 'Sender has Telegram Premium',
+    defaultWeight: 0.1,
+    trust: true,
+    evaluate: ({ userProfile }) => (userProfile.isPremium ? {} : null),
+  },
+  {
+    id: 'bot_account',
+    description: 'Sender is a bot account',
+    defaultWeight: 0.2,
+    evaluate: ({ userProfile }) => (userProfile.accountType === 'bot' ? {} : null),
+  },
+  {
+    id: 'via_inline_bot',
+    description: 'Message was relayed through an inline bot the owner never started',
+    defaultWeight: 0.3,
+    evaluate: async ({ client, message, userProfile }) => {
+      const botUserId = message.via_bot_user_id;
+      // The private chat with a user has the user's id; writing there is how the owner starts a bot
+      if (!botUserId || userProfile.isContact || chatActivity.hasOwnerReplied(botUserId)) {
+        return null;
+      }
+      try {
+        const bot = await client.invoke({ _: 'getUser', user_id: botUserId });
+        const username = bot.usernames?.editable_username;
+        return { details: { bots: [username ? `@${username}` : String(botUserId)] } };
+      } catch {
+        return { details: { bots: [String(botUserId)] } };
+      }
+    },
+  },
+  {
+    id: 'contains_url',
+    description: 'Message contains a web or public t.me link',
+    defaultWeight: 0.4,
+    toggle: 'checkLinks',
+    evaluate: (context) => entityMatch('urls', [...new Set([
+      ...extractUrls(context.text),
+      ...structuredLinks(context).filter(link => !isInviteLink(link)),
+    ])].filter(link => !isAllowlisted(link))),
+  },
+  {
+    id: 'contains_invite_link',
+    description: 'Message contains a t.me invite link to a private group or channel',
+    defaultWeight: 0.4,
+    toggle: 'checkInviteLinks',
+    evaluate: (context) => entityMatch('inviteLinks', [...new Set([
+      ...extractInviteLinks(context.text),
+      ...structuredLinks(context).filter(isInviteLink),
+    ])]),
+  },
+  {
+    id: 'blocklisted_domain',
+    description: 'Message links to a domain on the operator blocklist',
+    defaultWeight: 0.8,
+    toggle: 'checkLinks',
+    evaluate: (context) => urlClassMatch(context, 'blocklisted'),
+  },
+  {
+    id: 'url_shortener',
+    description: 'Message links through a URL shortener that hides the destination',
+    defaultWeight: 0.3,
+    toggle: 'checkLinks',
+    evaluate: (context) => urlClassMatch(context, 'shortener'),
+  },
+  {
+    id: 'punycode_domain',
+    description: 'Message links to an internationalized (punycode) domain',
+    defaultWeight: 0.3,
+    toggle: 'checkLinks',
+    evaluate: (context) => urlClassMatch(context, 'punycode'),
+  },
+  {
+    id: 'lookalike_domain',
+    description: 'Message links to a domain imitating a well-known brand',
+    defaultWeight: 0.5,
+    toggle: 'checkLinks',
+    evaluate: (context) => {
+      const lookalikes = linksOfClass(context, 'lookalike');
+      return lookalikes.length > 0
+        ? {
+          details: {
+            urls: lookalikes.map(analysis => analysis.url).slice(0, MAX_REPORTED_ENTITIES),
+            brands: [...new Set(lookalikes.map(analysis => analysis.lookalikeOf))],
+          },
+        }
+        : null;
+    },
+  },
+  {
+    id: 'ip_address_url',
+    description: 'Message links to a raw IP address',
+    defaultWeight: 0.3,
+    toggle: 'checkLinks',
+    evaluate: (context) => urlClassMatch(context, 'ip_address'),
+  },
+  {
+    id: 'bot_start_link',
+    description: 'Message links to a bot with a start parameter',
+    defaultWeight: 0.3,
+    toggle: 'checkLinks',
+    evaluate: (context) => urlClassMatch(context, 'bot_start'),
+  },
+  {
+    id: 'contains_mention',
+    description: 'Message mentions an @username',
+    defaultWeight: 0.3,
+    toggle: 'checkMentions',
+    evaluate: ({ text }) => entityMatch('mentions', extractMentions(text)),
+  },
+  {
+    id: 'contains_phone_number',
+    description: 'Message contains a phone number',
+    defaultWeight: 0.3,
+    toggle: 'checkPhoneNumbers',
+    evaluate: ({ text }) => entityMatch('phoneNumbers', extractPhoneNumbers(text)),
+  },
+  {
+    id: 'hidden_link',
+    description: 'Message hides a link behind different text',
+    defaultWeight: 0.2,
+    toggle: 'checkLinks',
+    evaluate: ({ content }) => entityMatch('hiddenUrls', content.hiddenUrls),
+  },
+  {
+    id: 'obfuscated_text',
+    description: 'Message hides text from filters (look-alike letters, invisible characters, spaced-out links)',
+    defaultWeight: 0.3,
+    evaluate: ({ text }) => {
+      const { techniques } = deobfuscate(text);
+      return techniques.length > 0 ? { details: { techniques } } : null;
+    },
+  },
+  {
+    id: 'forwarded_from_channel',
+    description: 'Message is forwarded from a channel or group',
+    defaultWeight: 0.2,
+    evaluate: ({ content }) => {
+      const origin = content.forwardOrigin;
+      return origin && (origin.kind === 'channel' || origin.kind === 'chat')
+        ? { details: { chatId: origin.chatId } }
+        : null;
+    },
+  },
+  {
+    id: 'shares_contact_card',
+    description: 'Message is a shared contact card',
+    defaultWeight: 0.2,
+    evaluate: ({ content }) => {
+      if (!content.contact) {
+        return null;
+      }
+      return content.contact.phoneNumber ? { details: { phoneNumbers: [content.contact.phoneNumber] } } : {};
+    },
+  },
+  {
+    id: 'edited_after_send',
+    description: 'Message was edited after it was sent',
+    defaultWeight: 0.2,
+    evaluate: ({ message }) => {
+      // TDLib reports 0 for messages that were never edited
+      const editDate = message.edit_date ?? 0;
+      if (!(editDate > 0)) {
+        return null;
+      }
+      return message.date ? { details: { editDelaySeconds: editDate - message.date } } : {};
+    },
+  },
+  {
+    id: 'attachment_executable',
+    description: 'Stranger sent a program or script (.exe, .scr, .bat, .js…)',
+    defaultWeight: 0.6,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'executable'),
+  },
+  {
+    id: 'attachment_android_package',
+    description: 'Stranger sent an Android app package (.apk)',
+    defaultWeight: 0.6,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'android_package'),
+  },
+  {
+    id: 'attachment_double_extension',
+    description: 'File name hides its real type ("invoice.pdf.exe", right-to-left override)',
+    defaultWeight: 0.8,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'double_extension'),
+  },
+  {
+    id: 'attachment_protected_archive',
+    description: 'Stranger sent an archive with its password, which keeps scanners out',
+    defaultWeight: 0.5,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'protected_archive'),
+  },
+  {
+    id: 'attachment_macro_document',
+    description: 'Stranger sent an Office document with macros (.docm, .xlsm…)',
+    defaultWeight: 0.4,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'macro_document'),
+  },
+  {
+    id: 'attachment_disk_image',
+    description: 'Stranger sent a disk image (.iso, .img, .vhd)',
+    defaultWeight: 0.4,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'disk_image'),
+  },
+  {
+    id: 'attachment_mime_mismatch',
+    description: 'Declared file type contradicts the file name, e.g. an app package named like a video',
+    defaultWeight: 0.5,
+    toggle: 'checkAttachments',
+    evaluate: context => attachmentMatch(context, 'mime_mismatch'),
+  },
+  {
+    id: 'similar_to_known_spam',
+    description: 'Message is a near-duplicate of spam the user confirmed',
+    defaultWeight: 0.6,
+    evaluate: ({ text }) => {
+      const match = spamSimilarityIndex.findMatch(text, config.thresholds.vectorSimilarityCutoff);
+      return match
+        ? { details: { similarity: Math.round(match.similarity * 100) / 100, matchedEventId: match.eventId } }
+        : null;
+    },
+  },
+  {
+    id: 'similar_to_known_spam_image',
+    description: 'Photo is a near-duplicate of a spam image the user confirmed',
+    defaultWeight: 0.6,
+    toggle: 'checkPhotos',
+    evaluate: ({ imageHashes = [] }) => {
+      const matches = imageHashes
+        .map(hash => spamImageIndex.findMatch(hash, MAX_IMAGE_HASH_DISTANCE))
+        .filter((match): match is NonNullable<typeof match> => match !== null)
+        .sort((a, b) => a.distance - b.distance);
+      return matches.length > 0
+        ? { details: { distance: matches[0].distance, matchedEventId: matches[0].eventId } }
+        : null;
+    },
+  },
+  {
+    id: 'text_classifier',
+    description: 'Locally trained text classifier rates the message as likely spam',
+    defaultWeight: 0.5,
+    evaluate: ({ text }) => {
+      const probability = textClassifier.predict(text);
+      // The rule adds weight x probability; below even odds the text is no evidence of spam
+      return probability !== null && probability >= 0.5
+        ? { strength: probability, details: { probability: Math.round(probability * 100) / 100 } }
+        : null;
+    },
+  },
+  {
+    id: 'lexicon_match',
+    description: 'Message uses terms from the keyword packs enabled for the account',
+    defaultWeight: 0.5,
+    evaluate: ({ text }) => {
+      const matches = lexiconPacks.match(text, config.lexicons.enabledPacks);
+      if (matches.length === 0) {
+        return null;
+      }
+      const weight = matches.reduce((sum, match) => sum + match.weight, 0);
+      // Terms are listed with the reason; pack versions say which edition of each pack matched
+      return {
+        strength: Math.min(1, weight),
+        details: {
+          terms: matches.flatMap(match => match.terms).slice(0, MAX_REPORTED_ENTITIES),
+          packs: Object.fromEntries(matches.map(match => [match.pack, match.version])),
+        },
+      };
+    },
+  },
+  {
+    id: 'sender_message_burst',
+    description: 'Sender is flooding: many messages within a minute',
+    defaultWeight: 0.3,
+    evaluate: ({ userProfile }) => {
+      const messages = campaignTracker.senderBurst(userProfile.userId);
+      return messages >= config.campaign.burstMessages ? { details: { messages } } : null;
+    },
+  },
+  {
+    id: 'campaign_cluster',
+    description: 'Several new senders sent the same text within minutes',
+    defaultWeight: 0.5,
+    // The latest message only; an observed conversation's combined text never repeats verbatim
+    evaluate: ({ message }) => {
+      const senders = campaignTracker.clusterSize(extractMessageContent(message).text);
+      return senders >= config.campaign.clusterSenders ? { details: { senders } } : null;
+    },
+  },
+  {
+    id: 'first_contact_spike',
+    description: 'Chat is one of an unusual wave of new chats',
+    defaultWeight: 0.2,
+    evaluate: ({ message }) => {
+      if (!campaignTracker.isFirstContact(message.chat_id)) {
+        return null;
+      }
+      const firstContacts = campaignTracker.firstContacts();
+      return firstContacts >= config.campaign.firstContactSpike ? { details: { firstContacts } } : null;
+    },
+  },
+  {
+    id: 'bio_contains_link',
+    description: 'Sender bio contains a link',
+    defaultWeight: 0.3,
+    toggle: 'checkBio',
+    evaluate: ({ userProfile }) =>
+      userProfile.bio ? entityMatch('urls', profileLinks(userProfile.bio.text, userProfile.bio.entityUrls)) : null,
+  },
+  {
+    id: 'bio_contains_mention',
+    description: 'Sender bio mentions an @username',
+    defaultWeight: 0.2,
+    toggle: 'checkBio',
+    evaluate: ({ userProfile }) =>
+      userProfile.bio ? entityMatch('mentions', extractMentions(userProfile.bio.text)) : null,
+  },
+  {
+    id: 'bio_contains_phone_number',
+    description: 'Sender bio contains a phone number',
+    defaultWeight: 0.2,
+    toggle: 'checkBio',
+    evaluate: ({ userProfile }) =>
+      userProfile.bio ? entityMatch('phoneNumbers', extractPhoneNumbers(userProfile.bio.text)) : null,
+  },
+  {
+    id: 'has_personal_channel',
+    description: 'Sender promotes a personal channel on their profile',
+    defaultWeight: 0.1,
+    toggle: 'checkBio',
+    evaluate: ({ userProfile }) => {
+      const chat = userProfile.bio?.personalChat;
+      return chat ? { details: { chatId: chat.chatId, ...(chat.title ? { title: chat.title } : {}) } } : null;
+    },
+  },
+  {
+    id: 'business_info_contact',
+    description: 'Sender business profile contains links, handles or phone numbers',
+    defaultWeight: 0.2,
+    toggle: 'checkBio',
+    evaluate: ({ userProfile }) => {
+      const text = userProfile.bio?.businessText;
+      if (!text) {
+        return null;
+      }
+      const found: Record<string, string[]> = {
+        urls: profileLinks(text),
+        mentions: extractMentions(text),
+        phoneNumbers: extractPhoneNumbers(text),
+      };
+      const details = Object.fromEntries(Object.entries(found)
+        .filter(([, entities]) => entities.length > 0)
+        .map(([key, entities]) => [key, entities.slice(0, MAX_REPORTED_ENTITIES)]));
+      return Object.keys(details).length > 0 ? { details } : null;
+    },
+  },
+  {
+    id: 'impersonation_name',
+    description: 'Sender name poses as staff or a service ("Telegram Support", "Admin", "Wallet Service")',
+    defaultWeight: 0.6,
+    toggle: 'checkProfileNames',
+    evaluate: context => {
+      const sender = strangerNames(context);
+      return sender ? entityMatch('terms', impersonationTerms(sender.name, sender.usernames)) : null;
+    },
+  },
+  {
+    id: 'link_in_name',
+    description: 'Sender name carries a link, domain or @username',
+    defaultWeight: 0.5,
+    toggle: 'checkProfileNames',
+    evaluate: context => {
+      const sender = strangerNames(context);
+      return sender ? entityMatch('links', nameLinks(sender.name)) : null;
+    },
+  },
+  {
+    id: 'name_copies_contact',
+    description: 'Sender name or username is a copy or near-copy of one of the owner\'s contacts',
+    defaultWeight: 0.7,
+    toggle: 'checkProfileNames',
+    evaluate: context => {
+      const sender = strangerNames(context);
+      const match = sender ? findLookalikeContact(sender, context.contactNames || []) : null;
+      return match
+        ? { details: { contactUserId: match.userId, field: match.field, similarity: Math.round(match.similarity * 100) / 100 } }
+        : null;
+    },
+  },
+  {
+    id: 'repeat_offender',
+    description: 'Sender was acted on or confirmed as spam before',
+    defaultWeight: 0.5,
+    evaluate: ({ reputation }) => {
+      if (!reputation || vouchedFor(reputation)) {
+        return null;
+      }
+      const offenses = offensesOf(reputation);
+      return offenses > 0
+        ? { strength: offenses / 3, details: { offenses, priorDetections: reputation.detectionCount } }
+        : null;
+    },
+  },
+  {
+    id: 'established_sender',
+    description: 'Sender has a long history of clean messages or was marked not spam',
+    defaultWeight: 0.4,
+    trust: true,
+    evaluate: ({ reputation }) => {
+      if (!reputation) {
+        return null;
+      }
+      if (vouchedFor(reputation)) {
+        return { details: { vouched: true } };
+      }
+      // Old detections fade as recent clean messages push them out of the window
+      const recentlyFlagged = reputation.recentScores.slice(-5)
+        .some(score => score >= config.thresholds.lowThreshold);
+      if (offensesOf(reputation) > 0 || recentlyFlagged) {
+        return null;
+      }
+      const days = (Date.now() / 1000 - reputation.firstSeen) / 86400;
+      const cleanMessages = reputation.messageCount - reputation.detectionCount;
+      const strength = Math.min(1, cleanMessages / ESTABLISHED_AFTER_MESSAGES) * Math.min(1, days / ESTABLISHED_AFTER_DAYS);
+      return strength > 0
+        ? { strength, details: { messages: reputation.messageCount, days: Math.floor(days) } }
+        : null;
+    },
+  },
+  {
+    id: 'owner_replied_in_chat',
+    description: 'Account owner has written in this chat',
+    defaultWeight: 1,
+    trust: true,
+    evaluate: ({ message }) => {
+      const activity = chatActivity.get(message.chat_id);
+      return activity ? { details: { outgoingMessages: activity.outgoingCount } } : null;
+    },
+  },
+];
@@ -0,0 +1,145 @@
+import { Client } from 'tdl';
+import { config, TunableConfig } from '../config';
+import { logger } from '../utils/logger';
+import type { UserProfile } from '../handlers/spamDetector';
+import type { MessageContent, TdMessage } from '../utils/messageContent';
+import type { SenderReputation } from '../utils/senderReputation';
+import type { NamedUser } from '../utils/profileNames';
+import { builtinRules } from './builtinRules';
+
+/**
+ * Everything a rule may look at for one incoming message
+ */
+export interface RuleContext {
+  client: Client;
+  message: TdMessage;
+  userProfile: UserProfile;
+  /** Text or caption of the message; same as `content.text` */
+  text: string;
+  content: MessageContent;
+  /** What the agent remembers about the sender from earlier messages, if anything */
+  reputation?: SenderReputation;
+  /** Perceptual hashes of the photos, for senders who are not contacts */
+  imageHashes?: string[];
+  /** The owner's contacts, for senders who are not contacts themselves */
+  contactNames?: NamedUser[];
+}
+
+export interface RuleMatch {
+  /** Fraction of the rule's weight to apply, 0..1 (default 1) */
+  strength?: number;
+  /** Evidence to report with the reason, e.g. the matched link */
+  details?: Record<string, unknown>;
+}
+
+export interface DetectionRule {
+  id: string;
+  description: string;
+  defaultWeight: number;
+  /** Rules that are opt-in set this to false */
+  enabledByDefault?: boolean;
+  /** Trust signals subtract their weight from the score instead of adding it */
+  trust?: boolean;
+  /** Legacy `detection.*` switch that must also be on for the rule to run */
+  toggle?: keyof TunableConfig['detection'];
+  /** Return a match when the signal is present, null otherwise */
+  evaluate(context: RuleContext): RuleMatch | null | Promise<RuleMatch | null>;
+}
+
+export interface DetectionReason {
+  ruleId: string;
+  /** Negative for trust signals */
+  contribution: number;
+  details?: Record<string, unknown>;
+}
+
+export interface RuleStatus {
+  id: string;
+  description: string;
+  trust: boolean;
+  enabled: boolean;
+  weight: number;
+}
+
+/**
+ * Registry of detection rules. Weights and enabled flags come from `config.rules`
+ * (falling back to each rule's defaults), so they follow runtime config changes.
+ */
+export class RuleEngine {
+  private rules = new Map<string, DetectionRule>();
+
+  constructor(rules: DetectionRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  register(rule: DetectionRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Detection rule "${rule.id}" is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  getStatus(): RuleStatus[] {
+    return [...this.rules.values()].map(rule => ({
+      id: rule.id,
+      description: rule.description,
+      trust: rule.trust === true,
+      ...this.settingsFor(rule),
+    }));
+  }
+
+  /**
+   * Rule ids that have config overrides but no registered rule (likely typos)
+   */
+  getUnknownConfiguredRules(): string[] {
+    return Object.keys(config.rules).filter(ruleId => !this.rules.has(ruleId));
+  }
+
+  async evaluate(context: RuleContext): Promise<{ score: number; reasons: DetectionReason[] }> {
+    const reasons: DetectionReason[] = [];
+    let score = 0;
+
+    for (const rule of this.rules.values()) {
+      const { enabled, weight } = this.settingsFor(rule);
+      if (!enabled || weight === 0) {
+        continue;
+      }
+
+      let match: RuleMatch | null;
+      try {
+        match = await rule.evaluate(context);
+      } catch (error) {
+        // One broken rule must not stop the others from scoring
+        logger.warn({ ruleId: rule.id, error }, 'Detection rule failed, skipping it');
+        continue;
+      }
+
+      if (!match) {
+        continue;
+      }
+
+      const strength = Math.min(1, Math.max(0, match.strength ?? 1));
+      const contribution = (rule.trust ? -weight : weight) * strength;
+      if (contribution === 0) {
+        continue;
+      }
+
+      score += contribution;
+      reasons.push(match.details ? { ruleId: rule.id, contribution, details: match.details } : { ruleId: rule.id, contribution });
+    }
+
+    // Trust discounts can outweigh the signals, but a score never goes below zero
+    return { score: Math.max(0, score), reasons };
+  }
+
+  private settingsFor(rule: DetectionRule): { enabled: boolean; weight: number } {
+    const overrides = config.rules[rule.id] || {};
+    const toggledOn = !rule.toggle || config.detection[rule.toggle];
+    return {
+      enabled: toggledOn && (overrides.enabled ?? rule.enabledByDefault ?? true),
+      weight: overrides.weight ?? rule.defaultWeight,
+    };
+  }
+}
+
+export const ruleEngine = new RuleEngine(builtinRules);
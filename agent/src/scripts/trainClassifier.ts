@@ -0,0 +1,163 @@
+/**
+ * Train or evaluate the local text classifier, offline and on the CPU.
+ *
+ *   npm run train-classifier -- train corpus.jsonl [more.jsonl...] [--no-feedback] [--holdout 0.2] [--data-dir dir]
+ *   npm run train-classifier -- eval corpus.jsonl [--data-dir dir]
+ *
+ * The npm script runs the compiled file in dist/, so run `npm run build` first
+ * outside the agent image.
+ *
+ * Corpora are JSONL files of `{ "text": "...", "label": "spam" | "not_spam" }`.
+ * Training also uses the labels the user gave in the review queue (feedback.json
+ * in the data directory) unless --no-feedback is passed, reports metrics on a
+ * held-out slice, then fits the final model on everything and writes it to
+ * classifier-model.json in the data directory, where a running agent picks it up.
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { FeedbackStore } from '../utils/feedbackStore';
+import {
+  ClassifierEvaluation,
+  evaluateClassifier,
+  LabeledText,
+  loadModel,
+  parseLabeledCorpus,
+  saveModel,
+  splitExamples,
+  trainClassifier,
+} from '../utils/classifierTraining';
+
+interface Options {
+  command: 'train' | 'eval';
+  corpora: string[];
+  dataDirectory: string;
+  useFeedback: boolean;
+  holdout: number;
+}
+
+const USAGE = [
+  'Usage:',
+  '  train-classifier train <corpus.jsonl>... [--no-feedback] [--holdout <fraction>] [--data-dir <dir>]',
+  '  train-classifier eval <corpus.jsonl>... [--data-dir <dir>]',
+].join('\n');
+
+function parseArgs(args: string[]): Options {
+  const [command, ...rest] = args;
+  if (command !== 'train' && command !== 'eval') {
+    throw new Error(USAGE);
+  }
+
+  const options: Options = {
+    command,
+    corpora: [],
+    // Same default as the agent: next to the TDLib database
+    dataDirectory: process.env.DATA_DIR || join('./tdlib-data', 'agent-state'),
+    useFeedback: true,
+    holdout: 0.2,
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--no-feedback') {
+      options.useFeedback = false;
+    } else if (arg === '--holdout') {
+      options.holdout = Number(rest[++i]);
+      if (!(options.holdout >= 0 && options.holdout < 1)) {
+        throw new Error('--holdout must be a fraction between 0 and 1');
+      }
+    } else if (arg === '--data-dir') {
+      options.dataDirectory = rest[++i];
+      if (!options.dataDirectory) {
+        throw new Error('--data-dir needs a directory');
+      }
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else {
+      options.corpora.push(arg);
+    }
+  }
+
+  if (options.command === 'eval' && options.corpora.length === 0) {
+    throw new Error(`eval needs at least one corpus\n${USAGE}`);
+  }
+  return options;
+}
+
+function readCorpora(paths: string[]): LabeledText[] {
+  return paths.flatMap(path => {
+    try {
+      return parseLabeledCorpus(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+function readFeedback(dataDirectory: string): LabeledText[] {
+  const store = new FeedbackStore();
+  store.attachStore(join(dataDirectory, 'feedback.json'));
+  return store.getLabeledExamples().map(({ text, label }) => ({ text, label }));
+}
+
+function formatEvaluation(evaluation: ClassifierEvaluation): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  return [
+    `  examples:  ${evaluation.examples}${evaluation.skipped > 0 ? ` (${evaluation.skipped} without usable text skipped)` : ''}`,
+    `  accuracy:  ${percent(evaluation.accuracy)}`,
+    `  precision: ${percent(evaluation.precision)}`,
+    `  recall:    ${percent(evaluation.recall)}`,
+    `  f1:        ${percent(evaluation.f1)}`,
+    `  log loss:  ${evaluation.logLoss.toFixed(4)}`,
+    `  brier:     ${evaluation.brierScore.toFixed(4)}`,
+  ].join('\n');
+}
+
+function train(options: Options): void {
+  const corpus = readCorpora(options.corpora);
+  const feedback = options.useFeedback ? readFeedback(options.dataDirectory) : [];
+  const examples = [...corpus, ...feedback];
+  const spam = examples.filter(example => example.label === 'spam').length;
+  console.log(`Training on ${examples.length} examples (${spam} spam): ${corpus.length} from corpora, ${feedback.length} from feedback`);
+
+  if (options.holdout > 0) {
+    const { train: trainSet, test } = splitExamples(examples, options.holdout);
+    if (test.some(example => example.label === 'spam') && test.some(example => example.label === 'not_spam')) {
+      const evaluation = evaluateClassifier(trainClassifier(trainSet), test);
+      console.log(`Held-out evaluation (${Math.round(options.holdout * 100)}%):\n${formatEvaluation(evaluation)}`);
+    } else {
+      console.log('Too few examples to hold out both classes, skipping evaluation');
+    }
+  }
+
+  const model = trainClassifier(examples);
+  const modelPath = join(options.dataDirectory, 'classifier-model.json');
+  saveModel(modelPath, model);
+  console.log(`Model with ${model.weights.size} features written to ${modelPath}`);
+}
+
+function evaluate(options: Options): void {
+  const modelPath = join(options.dataDirectory, 'classifier-model.json');
+  const model = loadModel(modelPath);
+  const examples = readCorpora(options.corpora);
+  console.log(`Evaluating ${modelPath} (trained ${new Date(model.trainedAt * 1000).toISOString()}):`);
+  console.log(formatEvaluation(evaluateClassifier(model, examples)));
+}
+
+export function main(args: string[]): number {
+  try {
+    const options = parseArgs(args);
+    if (options.command === 'train') {
+      train(options);
+    } else {
+      evaluate(options);
+    }
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,101 @@
+import { ActionJournal } from '../actionJournal';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../logger', () => ({
+  logger: {
+    warn: jest.fn(),
+  },
+}));
+
+const { logger } = require('../logger');
+
+describe('ActionJournal', () => {
+  let dir: string;
+
+  const archive = { chatId: 1, userId: 2, archived: true, blocked: false, historyDeleted: false };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'actions-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record actions with increasing ids', () => {
+    const journal = new ActionJournal();
+
+    const first = journal.record(archive);
+    const second = journal.record({ ...archive, blocked: true });
+
+    expect(second.id).toBe(first.id + 1);
+    expect(first.undoneAt).toBeNull();
+    expect(journal.get(first.id)).toEqual(first);
+  });
+
+  it('should mark actions as undone', () => {
+    const journal = new ActionJournal();
+    const record = journal.record(archive);
+
+    const undone = journal.markUndone(record.id);
+
+    expect(undone?.undoneAt).not.toBeNull();
+    expect(journal.get(record.id)?.undoneAt).toBe(undone?.undoneAt);
+    expect(journal.markUndone(999)).toBeUndefined();
+  });
+
+  it('should know which chats were acted on, including undone actions', () => {
+    const journal = new ActionJournal();
+    journal.markUndone(journal.record(archive).id);
+
+    expect(journal.hasChat(1)).toBe(true);
+    expect(journal.hasChat(2)).toBe(false);
+  });
+
+  it('should list recent actions newest first', () => {
+    const journal = new ActionJournal();
+    journal.record(archive);
+    journal.record(archive);
+    journal.record(archive);
+
+    expect(journal.getRecent(2).map(r => r.id)).toEqual([3, 2]);
+  });
+
+  it('should drop the oldest records beyond capacity', () => {
+    const journal = new ActionJournal(2);
+    journal.record(archive);
+    journal.record(archive);
+    journal.record(archive);
+
+    expect(journal.get(1)).toBeUndefined();
+    expect(journal.get(3)).toBeDefined();
+  });
+
+  it('should keep the record undoable when the store cannot be written', () => {
+    const blocker = join(dir, 'not-a-directory');
+    writeFileSync(blocker, '');
+    const journal = new ActionJournal();
+    journal.attachStore(join(blocker, 'actions.json'));
+
+    const record = journal.record(archive);
+
+    expect(journal.markUndone(record.id)?.undoneAt).not.toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ error: expect.anything() }), 'Failed to persist action journal');
+  });
+
+  it('should keep records and ids across restarts', () => {
+    const storePath = join(dir, 'actions.json');
+    const journal = new ActionJournal();
+    journal.attachStore(storePath);
+    const record = journal.record(archive);
+    journal.markUndone(record.id);
+
+    const restarted = new ActionJournal();
+    restarted.attachStore(storePath);
+
+    expect(restarted.get(record.id)?.undoneAt).not.toBeNull();
+    expect(restarted.record(archive).id).toBe(record.id + 1);
+  });
+});
@@ -0,0 +1,59 @@
+import { analyzeAttachment } from '../attachmentRisk';
+import type { AttachmentRiskTable } from '../../config';
+
+const table: AttachmentRiskTable = {
+  executable: ['exe', 'scr', 'js', 'jar'],
+  androidPackage: ['apk'],
+  archive: ['zip', 'rar'],
+  macroDocument: ['docm'],
+  diskImage: ['iso'],
+  decoy: ['pdf', 'jpg', 'mp4'],
+};
+
+const risksOf = (fileName: string, mimeType = '', caption = '') =>
+  analyzeAttachment({ fileName, mimeType, size: 1024 }, caption, table).risks;
+
+describe('analyzeAttachment', () => {
+  it('should classify files by their last extension', () => {
+    expect(risksOf('Setup.EXE')).toEqual(['executable']);
+    expect(risksOf('bank-app.apk')).toEqual(['android_package']);
+    expect(risksOf('salary.docm')).toEqual(['macro_document']);
+    expect(risksOf('shipment.iso')).toEqual(['disk_image']);
+    expect(risksOf('holiday photos.jpg', 'image/jpeg')).toEqual([]);
+    expect(risksOf('README')).toEqual([]);
+  });
+
+  it('should report the metadata it judged', () => {
+    expect(analyzeAttachment({ fileName: 'tool.exe', mimeType: 'application/x-msdownload', size: 5000 }, '', table))
+      .toEqual({ fileName: 'tool.exe', mimeType: 'application/x-msdownload', size: 5000, extension: 'exe', risks: ['executable'] });
+  });
+
+  it('should see through disguised names', () => {
+    expect(risksOf('invoice.pdf.exe')).toEqual(['executable', 'double_extension']);
+    expect(risksOf('photo.jpg          .scr')).toEqual(['executable', 'double_extension']);
+    // Windows ignores trailing dots and spaces
+    expect(risksOf('video.mp4.apk. ')).toEqual(['android_package', 'double_extension']);
+    // Renders as "invoiceexe.pdf"
+    expect(risksOf('invoice\u202efdp.exe')).toEqual(['executable', 'double_extension']);
+  });
+
+  it('should not mistake compressed or versioned files for disguises', () => {
+    expect(risksOf('photo.jpg.zip')).toEqual([]);
+    expect(risksOf('report.v2.pdf')).toEqual([]);
+  });
+
+  it('should flag archives that come with a password', () => {
+    expect(risksOf('documents.zip', 'application/zip', 'Password: 4321')).toEqual(['protected_archive']);
+    expect(risksOf('docs_password_4321.rar')).toEqual(['protected_archive']);
+    expect(risksOf('docs.zip', '', 'пароль 1111')).toEqual(['protected_archive']);
+    expect(risksOf('docs.zip', '', 'Here is the bypass list')).toEqual([]);
+  });
+
+  it('should flag MIME types that contradict the name', () => {
+    expect(risksOf('video.mp4', 'application/vnd.android.package-archive')).toEqual(['mime_mismatch']);
+    expect(risksOf('update.exe', 'image/png')).toEqual(['executable', 'mime_mismatch']);
+    expect(risksOf('bank.apk', 'application/vnd.android.package-archive')).toEqual(['android_package']);
+    expect(risksOf('plugin.jar', 'application/java-archive')).toEqual(['executable']);
+    expect(risksOf('widget.js', 'text/javascript')).toEqual(['executable']);
+  });
+});
@@ -0,0 +1,74 @@
+import { CampaignTracker, fingerprintOf } from '../campaignTracker';
+
+jest.mock('../../config', () => ({
+  config: {
+    campaign: {
+      burstMessages: 5,
+      burstWindowSeconds: 60,
+      clusterSenders: 3,
+      clusterWindowSeconds: 600,
+      firstContactSpike: 5,
+      firstContactWindowSeconds: 600,
+    },
+  },
+}));
+
+describe('CampaignTracker', () => {
+  const pitch = 'Earn 500 USD a day with my crypto mentor, message me';
+  let tracker: CampaignTracker;
+
+  beforeEach(() => {
+    tracker = new CampaignTracker();
+  });
+
+  it('should count a sender\'s messages within the burst window', () => {
+    for (let i = 0; i < 4; i++) {
+      tracker.record({ chatId: 1, userId: 10, messageId: i, text: 'hey', newSender: false }, 1000 + i);
+    }
+    tracker.record({ chatId: 2, userId: 20, messageId: 9, text: 'hey', newSender: false }, 1004);
+
+    expect(tracker.senderBurst(10, 1005)).toBe(4);
+    expect(tracker.senderBurst(10, 1070)).toBe(0);
+  });
+
+  it('should return earlier members once, when the cluster becomes a campaign', () => {
+    const first = tracker.record({ chatId: 1, userId: 10, messageId: 100, text: pitch, newSender: true }, 1000);
+    const second = tracker.record({ chatId: 2, userId: 20, messageId: 200, text: pitch.toUpperCase(), newSender: true }, 1060);
+    const third = tracker.record({ chatId: 3, userId: 30, messageId: 300, text: `${pitch}!!`, newSender: true }, 1120);
+    const fourth = tracker.record({ chatId: 4, userId: 40, messageId: 400, text: pitch, newSender: true }, 1180);
+
+    expect(first).toEqual([]);
+    expect(second).toEqual([]);
+    expect(third).toEqual([
+      { chatId: 1, userId: 10, messageId: 100 },
+      { chatId: 2, userId: 20, messageId: 200 },
+    ]);
+    expect(fourth).toEqual([]);
+    expect(tracker.clusterSize(pitch, 1180)).toBe(4);
+  });
+
+  it('should only cluster texts from new senders within the window', () => {
+    tracker.record({ chatId: 1, userId: 10, messageId: 100, text: pitch, newSender: false }, 1000);
+    tracker.record({ chatId: 2, userId: 20, messageId: 200, text: pitch, newSender: true }, 1000);
+    tracker.record({ chatId: 3, userId: 30, messageId: 300, text: pitch, newSender: true }, 1700);
+
+    expect(tracker.clusterSize(pitch, 1700)).toBe(1);
+  });
+
+  it('should not fingerprint short greetings', () => {
+    expect(fingerprintOf('Hi there!')).toBeNull();
+    expect(fingerprintOf('Join https://a.example now, limited seats')).toBe(fingerprintOf('JOIN https://b.example NOW, limited seats'));
+  });
+
+  it('should count distinct first-contact chats', () => {
+    tracker.record({ chatId: 1, userId: 10, messageId: 1, text: 'hi', newSender: true }, 1000);
+    tracker.record({ chatId: 1, userId: 10, messageId: 2, text: 'hi', newSender: true }, 1001);
+    tracker.record({ chatId: 2, userId: 20, messageId: 3, text: 'hi', newSender: true }, 1002);
+    tracker.record({ chatId: 3, userId: 30, messageId: 4, text: 'hi', newSender: false }, 1003);
+
+    expect(tracker.firstContacts(1003)).toBe(2);
+    expect(tracker.isFirstContact(2, 1003)).toBe(true);
+    expect(tracker.isFirstContact(3, 1003)).toBe(false);
+    expect(tracker.firstContacts(1700)).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { ChatActivityStore } from '../chatActivity';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('ChatActivityStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'chat-activity-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should count outgoing messages and keep the latest date', () => {
+    const store = new ChatActivityStore();
+    store.recordOutgoing(1, 200);
+    store.recordOutgoing(1, 100, 3);
+
+    expect(store.get(1)).toEqual({ chatId: 1, outgoingCount: 4, lastOutgoingAt: 200 });
+    expect(store.hasOwnerReplied(1)).toBe(true);
+    expect(store.hasOwnerReplied(2)).toBe(false);
+  });
+
+  it('should forget the least recently active chat beyond capacity', () => {
+    const store = new ChatActivityStore(2);
+    store.recordOutgoing(1, 100);
+    store.recordOutgoing(2, 100);
+    store.recordOutgoing(1, 110);
+    store.recordOutgoing(3, 120);
+
+    expect(store.hasOwnerReplied(2)).toBe(false);
+    expect(store.hasOwnerReplied(1)).toBe(true);
+  });
+
+  it('should persist across restarts', () => {
+    const storePath = join(dir, 'chat-activity.json');
+    const store = new ChatActivityStore();
+    store.attachStore(storePath);
+    store.recordOutgoing(1, 100);
+
+    const restarted = new ChatActivityStore();
+    restarted.attachStore(storePath);
+
+    expect(restarted.get(1)).toEqual({ chatId: 1, outgoingCount: 1, lastOutgoingAt: 100 });
+  });
+});
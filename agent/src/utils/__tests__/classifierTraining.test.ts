@@ -0,0 +1,110 @@
+import {
+  evaluateClassifier,
+  featuresOf,
+  LabeledText,
+  parseLabeledCorpus,
+  predictProbability,
+  splitExamples,
+  trainClassifier,
+} from '../classifierTraining';
+
+const spamOpeners = ['Earn passive income', 'Guaranteed profit', 'Join my crypto signals', 'Double your bitcoin', 'Investment opportunity'];
+const spamClosers = ['message me now', 'limited spots left', 'contact my manager @fx_mentor', 'visit https://profit.example', 'act fast today'];
+const hamOpeners = ['Are we still meeting', 'Thanks for the photos', 'Can you pick up milk', 'Happy birthday', 'Did you see the game'];
+const hamClosers = ['tomorrow at noon', 'from the weekend', 'on your way home', 'hope you have a great day', 'last night'];
+
+function corpus(): LabeledText[] {
+  const examples: LabeledText[] = [];
+  spamOpeners.forEach(opener => spamClosers.forEach(closer => {
+    examples.push({ text: `${opener}, ${closer}`, label: 'spam' });
+    examples.push({ text: `${opener}!!! ${closer}`, label: 'spam' });
+  }));
+  hamOpeners.forEach(opener => hamClosers.forEach(closer => {
+    examples.push({ text: `${opener} ${closer}?`, label: 'not_spam' });
+    examples.push({ text: `${opener}, ${closer}`, label: 'not_spam' });
+  }));
+  return examples;
+}
+
+describe('featuresOf', () => {
+  it('should mark links, handles and phone numbers the normalized text drops', () => {
+    const plain = featuresOf('hello there');
+    const withLink = featuresOf('hello there https://x.example');
+
+    expect(withLink?.size).toBe((plain?.size ?? 0) + 1);
+  });
+
+  it('should return null when there is nothing to go on', () => {
+    expect(featuresOf('')).toBeNull();
+    expect(featuresOf('123 !!!')).toBeNull();
+  });
+});
+
+describe('trainClassifier', () => {
+  const examples = corpus();
+  const model = trainClassifier(examples);
+
+  it('should separate spam from ordinary messages', () => {
+    expect(predictProbability(model, 'Guaranteed profit with crypto signals, message me now')).toBeGreaterThan(0.7);
+    expect(predictProbability(model, 'Are we still meeting for lunch tomorrow?')).toBeLessThan(0.3);
+  });
+
+  it('should calibrate on a held-out slice when there are enough examples', () => {
+    expect(model.calibration).not.toEqual({ scale: 1, offset: 0 });
+    expect(model.examples).toEqual({ spam: 50, notSpam: 50 });
+  });
+
+  it('should skip calibration for small corpora', () => {
+    const small = trainClassifier(examples.filter((_, index) => index % 5 === 0));
+    expect(small.calibration).toEqual({ scale: 1, offset: 0 });
+  });
+
+  it('should be reproducible', () => {
+    expect(trainClassifier(examples).weights).toEqual(model.weights);
+  });
+
+  it('should refuse a corpus with only one class', () => {
+    expect(() => trainClassifier(examples.filter(example => example.label === 'spam')))
+      .toThrow('Training needs examples of both spam and not spam');
+  });
+});
+
+describe('evaluateClassifier', () => {
+  it('should report metrics on held-out examples', () => {
+    const { train, test } = splitExamples(corpus(), 0.2);
+    const evaluation = evaluateClassifier(trainClassifier(train), [...test, { text: '!!!', label: 'spam' }]);
+
+    expect(evaluation.examples).toBe(20);
+    expect(evaluation.skipped).toBe(1);
+    expect(evaluation.accuracy).toBeGreaterThan(0.9);
+    expect(evaluation.f1).toBeGreaterThan(0.9);
+    expect(evaluation.logLoss).toBeLessThan(0.5);
+  });
+});
+
+describe('splitExamples', () => {
+  it('should keep the share of each class on both sides', () => {
+    const { train, test } = splitExamples(corpus(), 0.2);
+
+    expect(test.filter(example => example.label === 'spam')).toHaveLength(10);
+    expect(test.filter(example => example.label === 'not_spam')).toHaveLength(10);
+    expect(train).toHaveLength(80);
+  });
+});
+
+describe('parseLabeledCorpus', () => {
+  it('should read JSONL and skip blank lines', () => {
+    const content = '{"text":"win now","label":"spam"}\n\n{"text":"hi mum","label":"not_spam"}\n';
+
+    expect(parseLabeledCorpus(content)).toEqual([
+      { text: 'win now', label: 'spam' },
+      { text: 'hi mum', label: 'not_spam' },
+    ]);
+  });
+
+  it('should report the lines it cannot use', () => {
+    expect(() => parseLabeledCorpus('{"text":"a","label":"ham"}\nnot json')).toThrow(
+      'Invalid corpus: line 1 needs a text and a label of spam or not_spam; line 2 is not valid JSON'
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { DomainLists, validateDomainLists } from '../domainLists';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn() },
+}));
+
+describe('validateDomainLists', () => {
+  it('should normalize wildcards, www prefixes, case and trailing dots', () => {
+    expect(validateDomainLists({ block: ['*.Bad.example', 'www.worse.example.'], allow: [] })).toEqual({
+      block: ['bad.example', 'worse.example'],
+      allow: [],
+    });
+  });
+
+  it('should treat a missing list as empty', () => {
+    expect(validateDomainLists({ block: ['bad.example'] })).toEqual({ block: ['bad.example'], allow: [] });
+  });
+
+  it('should report every problem at once', () => {
+    expect(() => validateDomainLists({ block: ['not a domain', 3], allow: 'x', extra: [] })).toThrow(
+      'Invalid domain lists: unknown list "extra"; block[0] must be a domain name; block[1] must be a domain name; "allow" must be an array'
+    );
+    expect(() => validateDomainLists([])).toThrow('expected an object');
+  });
+});
+
+describe('DomainLists', () => {
+  let lists: DomainLists;
+  let dir: string;
+
+  beforeEach(() => {
+    lists = new DomainLists();
+    dir = mkdtempSync(join(tmpdir(), 'domain-lists-test-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should match domains and their subdomains', () => {
+    lists.setLists({ block: ['bad.example'], allow: [] });
+
+    expect(lists.match('bad.example')).toBe('block');
+    expect(lists.match('login.bad.example')).toBe('block');
+    expect(lists.match('notbad.example')).toBeNull();
+  });
+
+  it('should let the allowlist win', () => {
+    lists.setLists({ block: ['example.com'], allow: ['docs.example.com'] });
+
+    expect(lists.match('docs.example.com')).toBe('allow');
+    expect(lists.match('www.example.com')).toBe('block');
+  });
+
+  it('should start empty when the file does not exist', () => {
+    lists.attachFile(join(dir, 'missing.json'));
+
+    expect(lists.getLists()).toEqual({ block: [], allow: [] });
+  });
+
+  it('should reload the file after it changes', () => {
+    jest.useFakeTimers();
+    const filePath = join(dir, 'domain-lists.json');
+    writeFileSync(filePath, JSON.stringify({ block: ['bad.example'], allow: [] }));
+    lists.attachFile(filePath);
+
+    writeFileSync(filePath, JSON.stringify({ block: ['worse.example'], allow: [] }));
+    utimesSync(filePath, new Date(), new Date(Date.now() + 5000));
+    expect(lists.match('worse.example')).toBeNull();
+
+    jest.advanceTimersByTime(61 * 1000);
+    expect(lists.match('worse.example')).toBe('block');
+    expect(lists.match('bad.example')).toBeNull();
+  });
+
+  it('should keep the previous lists when an edit is invalid', () => {
+    jest.useFakeTimers();
+    const filePath = join(dir, 'domain-lists.json');
+    writeFileSync(filePath, JSON.stringify({ block: ['bad.example'], allow: [] }));
+    lists.attachFile(filePath);
+
+    writeFileSync(filePath, '{ "block": [');
+    utimesSync(filePath, new Date(), new Date(Date.now() + 5000));
+    jest.advanceTimersByTime(61 * 1000);
+
+    expect(lists.match('bad.example')).toBe('block');
+  });
+
+  it('should refuse an invalid file on startup', () => {
+    const filePath = join(dir, 'domain-lists.json');
+    writeFileSync(filePath, JSON.stringify({ block: ['nope'] }));
+
+    expect(() => lists.attachFile(filePath)).toThrow('block[0] must be a domain name');
+  });
+});
@@ -0,0 +1,93 @@
+import { EventLog } from '../eventLog';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../logger', () => ({
+  logger: {
+    warn: jest.fn(),
+  },
+}));
+
+const { logger } = require('../logger');
+
+describe('EventLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'events-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should assign increasing ids to recorded events', () => {
+    const log = new EventLog();
+
+    const first = log.record('list_hit', { userId: 1 });
+    const second = log.record('list_hit', { userId: 2 });
+
+    expect(second.id).toBe(first.id + 1);
+    expect(first.type).toBe('list_hit');
+    expect(first.data).toEqual({ userId: 1 });
+  });
+
+  it('should keep serving events when the store cannot be written', () => {
+    const blocker = join(dir, 'not-a-directory');
+    writeFileSync(blocker, '');
+    const log = new EventLog();
+    log.attachStore(join(blocker, 'events.json'));
+
+    const event = log.record('list_hit', { userId: 1 });
+    log.flush();
+
+    expect(log.getEventsAfter(0)).toEqual([event]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ error: expect.anything() }), 'Failed to persist event log');
+  });
+
+  it('should return only events after the given id', () => {
+    const log = new EventLog();
+    log.record('a', {});
+    log.record('b', {});
+    log.record('c', {});
+
+    expect(log.getEventsAfter(1).map(e => e.type)).toEqual(['b', 'c']);
+    expect(log.getEventsAfter(3)).toEqual([]);
+  });
+
+  it('should respect the limit', () => {
+    const log = new EventLog();
+    for (let i = 0; i < 5; i++) {
+      log.record('e', { i });
+    }
+
+    expect(log.getEventsAfter(0, 2).map(e => e.data.i)).toEqual([0, 1]);
+  });
+
+  it('should drop the oldest events beyond capacity', () => {
+    const log = new EventLog(3);
+    for (let i = 0; i < 5; i++) {
+      log.record('e', { i });
+    }
+
+    expect(log.getEventsAfter(0).map(e => e.id)).toEqual([3, 4, 5]);
+  });
+
+  it('should keep ids increasing across restarts', () => {
+    const storePath = join(dir, 'events.json');
+    const log = new EventLog();
+    log.attachStore(storePath);
+    log.record('a', {});
+    log.record('b', {});
+    log.flush();
+
+    const restarted = new EventLog();
+    restarted.attachStore(storePath);
+    const next = restarted.record('c', {});
+
+    expect(next.id).toBe(3);
+    expect(restarted.getLastId()).toBe(3);
+    expect(restarted.getEventsAfter(0).map(e => e.type)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,79 @@
+import { FeedbackStore } from '../feedbackStore';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('FeedbackStore', () => {
+  let dir: string;
+
+  const review = (eventId: number) => ({
+    eventId,
+    chatId: 100 + eventId,
+    userId: 200 + eventId,
+    text: `message ${eventId}`,
+    score: 0.6,
+    reasons: [{ ruleId: 'no_profile_photo', contribution: 0.15 }],
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'feedback-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should turn a pending detection into a labeled example', () => {
+    const store = new FeedbackStore();
+    store.addPending(review(1));
+
+    const example = store.recordLabel(1, 'not_spam');
+
+    expect(example).toMatchObject({ eventId: 1, text: 'message 1', label: 'not_spam' });
+    expect(store.getPending()).toEqual([]);
+    expect(store.getLabeledExamples()).toHaveLength(1);
+  });
+
+  it('should return null for unknown detections', () => {
+    const store = new FeedbackStore();
+
+    expect(store.recordLabel(42, 'spam')).toBeNull();
+    expect(store.getLabeledExamples()).toEqual([]);
+  });
+
+  it('should replace the label when answered twice', () => {
+    const store = new FeedbackStore();
+    store.addPending(review(1));
+
+    store.recordLabel(1, 'spam');
+    const relabeled = store.recordLabel(1, 'not_spam');
+
+    expect(relabeled?.label).toBe('not_spam');
+    expect(store.getLabeledExamples()).toHaveLength(1);
+  });
+
+  it('should drop the oldest pending detections beyond capacity', () => {
+    const store = new FeedbackStore(2);
+    store.addPending(review(1));
+    store.addPending(review(2));
+    store.addPending(review(3));
+
+    expect(store.getPending().map(r => r.eventId)).toEqual([2, 3]);
+    expect(store.recordLabel(1, 'spam')).toBeNull();
+  });
+
+  it('should persist pending and labeled entries across restarts', () => {
+    const storePath = join(dir, 'feedback.json');
+    const store = new FeedbackStore();
+    store.attachStore(storePath);
+    store.addPending(review(1));
+    store.addPending(review(2));
+    store.recordLabel(1, 'spam');
+
+    const restarted = new FeedbackStore();
+    restarted.attachStore(storePath);
+
+    expect(restarted.getPending().map(r => r.eventId)).toEqual([2]);
+    expect(restarted.getLabeledExamples().map(e => [e.eventId, e.label])).toEqual([[1, 'spam']]);
+  });
+});
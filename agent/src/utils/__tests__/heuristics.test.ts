@@ -1,91 +1,77 @@
-import { looksSpam, normalizeText } from '../heuristics';
+import {
+  extractInviteLinks,
+  extractMentions,
+  extractPhoneNumbers,
+  extractUrls,
+  normalizeText,
+  redactSnippet,
+} from '../heuristics';
 
 describe('heuristics', () => {
-  describe('looksSpam', () => {
-    it('should return false for empty or null text', () => {
-      expect(looksSpam('')).toBe(false);
-      expect(looksSpam(null as any)).toBe(false);
-      expect(looksSpam(undefined as any)).toBe(false);
-    });
-
-    it('should return false for normal messages without spam patterns', () => {
-      expect(looksSpam('Hello, how are you?')).toBe(false);
-      expect(looksSpam('Just checking in')).toBe(false);
-      expect(looksSpam('Thanks for the help yesterday')).toBe(false);
-    });
-
-    describe('URL detection', () => {
-      it('should detect http URLs', () => {
-        expect(looksSpam('Check out http://example.com')).toBe(true);
-        expect(looksSpam('Visit http://spam-site.net for deals')).toBe(true);
-      });
-
-      it('should detect https URLs', () => {
-        expect(looksSpam('Click here: https://example.com')).toBe(true);
-        expect(looksSpam('HTTPS://EXAMPLE.COM in caps')).toBe(true);
-      });
-
-      it('should detect t.me links', () => {
-        expect(looksSpam('Join t.me/spamchannel')).toBe(true);
-        expect(looksSpam('Contact me at T.ME/username')).toBe(true);
-        expect(looksSpam('t.me/joinchat/abc123')).toBe(true);
-      });
-    });
-
-    describe('Handle detection', () => {
-      it('should detect @ mentions with valid usernames', () => {
-        expect(looksSpam('Contact @spammer for deals')).toBe(true);
-        expect(looksSpam('DM @user123 now')).toBe(true);
-        expect(looksSpam('@spam_channel has offers')).toBe(true);
-      });
-
-      it('should not detect short handles (less than 3 chars)', () => {
-        expect(looksSpam('Email is me at company')).toBe(false);
-        expect(looksSpam('at is too short')).toBe(false);
-      });
-
-      it('should detect handles with underscores and numbers', () => {
-        expect(looksSpam('Follow @user_name_123')).toBe(true);
-        expect(looksSpam('@test_user')).toBe(true);
-      });
-    });
-
-    describe('Phone number detection', () => {
-      it('should detect phone numbers with country codes', () => {
-        expect(looksSpam('Call me +1234567890')).toBe(true);
-        expect(looksSpam('+44 20 1234 5678')).toBe(true);
-        expect(looksSpam('+7 (999) 123-45-67')).toBe(true);
-      });
-
-      it('should detect phone numbers without country codes', () => {
-        expect(looksSpam('Call 123-456-7890')).toBe(true);
-        expect(looksSpam('Phone: (555) 123-4567')).toBe(true);
-        expect(looksSpam('Contact: 555.123.4567')).toBe(true);
-      });
-
-      it('should detect phone numbers with various formats', () => {
-        expect(looksSpam('123 456 7890')).toBe(true);
-        expect(looksSpam('(123)456-7890')).toBe(true);
-        expect(looksSpam('1-800-555-5555')).toBe(true);
-      });
-
-      it('should not detect short digit sequences', () => {
-        expect(looksSpam('I have 3 cats')).toBe(false);
-        expect(looksSpam('Room 42')).toBe(false);
-      });
-    });
-
-    describe('Combined patterns', () => {
-      it('should detect messages with multiple spam indicators', () => {
-        expect(looksSpam('Contact @spammer at +1234567890 or visit https://spam.com')).toBe(true);
-        expect(looksSpam('Join t.me/channel and call +44 123 456 7890')).toBe(true);
-      });
-
-      it('should detect messages with any single spam indicator', () => {
-        expect(looksSpam('Only has @username here')).toBe(true);
-        expect(looksSpam('Only has https://link.com')).toBe(true);
-        expect(looksSpam('Only has +1234567890')).toBe(true);
-      });
+  describe('extractUrls', () => {
+    it('should return web and public t.me links without trailing punctuation', () => {
+      expect(extractUrls('See https://spam.example/deal?id=1, or t.me/promo_channel.')).toEqual([
+        'https://spam.example/deal?id=1',
+        't.me/promo_channel',
+      ]);
+    });
+
+    it('should leave invite links to the invite extractor', () => {
+      expect(extractUrls('Join https://t.me/+AbCdEf123 now')).toEqual([]);
+    });
+
+    it('should return each link once', () => {
+      expect(extractUrls('http://a.io http://a.io')).toEqual(['http://a.io']);
+    });
+  });
+
+  describe('extractInviteLinks', () => {
+    it('should return private invite links', () => {
+      expect(extractInviteLinks('Join https://t.me/+AbCdEf123 or t.me/joinchat/xyz789')).toEqual([
+        'https://t.me/+AbCdEf123',
+        't.me/joinchat/xyz789',
+      ]);
+    });
+
+    it('should ignore public channel links', () => {
+      expect(extractInviteLinks('t.me/somechannel')).toEqual([]);
+    });
+  });
+
+  describe('extractMentions', () => {
+    it('should return lowercased mentions', () => {
+      expect(extractMentions('DM @Seller_Bot or @promo123 (ask @seller_bot)')).toEqual(['@seller_bot', '@promo123']);
+    });
+
+    it('should not treat email addresses as mentions', () => {
+      expect(extractMentions('mail me at john@example.com')).toEqual([]);
+    });
+  });
+
+  describe('extractPhoneNumbers', () => {
+    it('should return phone numbers in common formats', () => {
+      expect(extractPhoneNumbers('Call +7 (999) 123-45-67 or (555) 123-4567')).toEqual([
+        '+7 (999) 123-45-67',
+        '(555) 123-4567',
+      ]);
+    });
+
+    it('should ignore short number sequences', () => {
+      expect(extractPhoneNumbers('Room 42, call ext 123-45')).toEqual([]);
+    });
+  });
+
+  describe('obfuscated text', () => {
+    it('should find links, handles and numbers behind look-alike and fullwidth characters', () => {
+      expect(extractUrls('Join t\u0435l\u0435gram.me/freebies')).toEqual(['telegram.me/freebies']);
+      expect(extractMentions('DM @\uff43rypto_\uff47uru')).toEqual(['@crypto_guru']);
+      expect(extractPhoneNumbers('WhatsApp \uff0b\uff14\uff14 \uff17\uff17\uff10\uff10 \uff19\uff10\uff10\uff11\uff12\uff13'))
+        .toEqual(['+44 7700 900123']);
+    });
+
+    it('should find links split by emoji or spaces', () => {
+      expect(extractUrls('go to t\u{1F539}me/promo')).toEqual(['t.me/promo']);
+      expect(extractInviteLinks('t . me/+AbCdEf')).toEqual(['t.me/+AbCdEf']);
     });
   });
 
@@ -115,6 +101,11 @@ describe('heuristics', () => {
       expect(normalizeText('test@#$%^&*test')).toBe('test test');
     });
 
+    it('should fold look-alike letters and keep other scripts', () => {
+      expect(normalizeText('Fr\u0435\u0435 crypto')).toBe('free crypto');
+      expect(normalizeText('Привет, друг!')).toBe('привет друг');
+    });
+
     it('should normalize whitespace', () => {
       expect(normalizeText('too    many     spaces')).toBe('too many spaces');
       expect(normalizeText('  leading and trailing  ')).toBe('leading and trailing');
@@ -129,4 +120,25 @@ describe('heuristics', () => {
       expect(normalized).not.toContain('@');
     });
   });
+
+  describe('redactSnippet', () => {
+    it('should mask links, handles and phone numbers', () => {
+      expect(redactSnippet('Visit https://scam.com or t.me/deals, ask @seller_bot at +1 800 555 1234'))
+        .toBe('Visit [link] or [link] ask [handle] at [phone]');
+    });
+
+    it('should collapse whitespace', () => {
+      expect(redactSnippet('hello\n\n  world')).toBe('hello world');
+    });
+
+    it('should truncate long messages', () => {
+      const snippet = redactSnippet('a'.repeat(200), 20);
+      expect(snippet).toHaveLength(20);
+      expect(snippet.endsWith('…')).toBe(true);
+    });
+
+    it('should return empty string for empty input', () => {
+      expect(redactSnippet('')).toBe('');
+    });
+  });
 });
@@ -0,0 +1,174 @@
+import {
+  decodeJpegBlockAverages,
+  differenceHash,
+  hammingDistance,
+  hashJpeg,
+  SpamImageIndex,
+} from '../imageHash';
+import { encodeFlatJpeg, patternJpeg } from './jpegFixtures';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const giveaway = (x: number, y: number) => 128 + 100 * Math.sin(6 * x) * Math.cos(4 * y);
+const screenshot = (x: number, y: number) => (Math.floor(y * 5) % 2 === 0 ? 40 + 150 * x : 220 - 150 * x);
+
+describe('decodeJpegBlockAverages', () => {
+  it('should read the average brightness of every block', () => {
+    const image = decodeJpegBlockAverages(encodeFlatJpeg({
+      width: 64,
+      height: 48,
+      components: [{ h: 1, v: 1, block: (row, col) => 10 * row + col }],
+    }));
+
+    expect(image?.width).toBe(8);
+    expect(image?.height).toBe(6);
+    expect(image?.pixels[0]).toBe(0);
+    expect(image?.pixels[5 * 8 + 7]).toBe(57);
+  });
+
+  it('should read the luma of subsampled color images with restart markers and AC codes', () => {
+    const image = decodeJpegBlockAverages(encodeFlatJpeg({
+      width: 50,
+      height: 34,
+      restartInterval: 2,
+      acCodes: true,
+      components: [
+        { h: 2, v: 2, block: (row, col) => 100 + 3 * row - col },
+        { h: 1, v: 1, block: () => 90 },
+        { h: 1, v: 1, block: () => 160 },
+      ],
+    }));
+
+    // 50x34 pixels are 7x5 luma blocks; the padding of the last MCU is dropped
+    expect(image?.width).toBe(7);
+    expect(image?.height).toBe(5);
+    expect(image?.pixels[4 * 7 + 6]).toBe(106);
+  });
+
+  it('should read the first DC scan of progressive files and skip the others', () => {
+    const image = decodeJpegBlockAverages(encodeFlatJpeg({
+      width: 50,
+      height: 34,
+      restartInterval: 3,
+      progressive: true,
+      components: [
+        { h: 2, v: 2, block: (row, col) => 100 + 4 * row - 2 * col },
+        { h: 1, v: 1, block: () => 90 },
+        { h: 1, v: 1, block: () => 160 },
+      ],
+    }));
+
+    expect(image?.width).toBe(7);
+    expect(image?.height).toBe(5);
+    expect(image?.pixels[4 * 7 + 6]).toBe(104);
+    // Only the lowest bit is lost with the skipped refinement scan
+    expect(decodeJpegBlockAverages(encodeFlatJpeg({
+      width: 8,
+      height: 8,
+      progressive: true,
+      components: [{ h: 1, v: 1, block: () => 57 }],
+    }))?.pixels[0]).toBe(56);
+  });
+
+  it('should reject lossless files and data that is not a JPEG', () => {
+    const baseline = patternJpeg(64, 64, giveaway);
+    const lossless = Buffer.from(baseline);
+    lossless[lossless.indexOf(Buffer.from([0xff, 0xc0])) + 1] = 0xc3;
+
+    expect(decodeJpegBlockAverages(lossless)).toBeNull();
+    expect(decodeJpegBlockAverages(Buffer.from('GIF89a, not a jpeg'))).toBeNull();
+    expect(decodeJpegBlockAverages(baseline.subarray(0, 30))).toBeNull();
+  });
+});
+
+describe('differenceHash', () => {
+  it('should give rescaled copies nearly the same hash', () => {
+    const small = hashJpeg(patternJpeg(96, 72, giveaway)) as string;
+    const large = hashJpeg(patternJpeg(320, 240, giveaway)) as string;
+
+    expect(small).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(small, large)).toBeLessThanOrEqual(8);
+  });
+
+  it('should tell different images apart', () => {
+    const a = hashJpeg(patternJpeg(128, 96, giveaway)) as string;
+    const b = hashJpeg(patternJpeg(128, 96, screenshot)) as string;
+
+    expect(hammingDistance(a, b)).toBeGreaterThan(16);
+  });
+
+  it('should set a bit where brightness rises to the right', () => {
+    const rising = { width: 9, height: 8, pixels: Float64Array.from({ length: 72 }, (_, i) => i % 9) };
+    expect(differenceHash(rising)).toBe('ffffffffffffffff');
+  });
+});
+
+describe('hashJpeg', () => {
+  it('should skip images too small or too flat to compare', () => {
+    expect(hashJpeg(patternJpeg(40, 40, giveaway))).toBeNull();
+    expect(hashJpeg(patternJpeg(96, 96, () => 200))).toBeNull();
+    expect(hashJpeg(Buffer.from([0xff, 0xd8, 0xff, 0xd9]))).toBeNull();
+  });
+
+  it('should hash progressive copies like the baseline original', () => {
+    const baseline = hashJpeg(patternJpeg(128, 96, giveaway)) as string;
+    const progressive = hashJpeg(patternJpeg(128, 96, giveaway, true)) as string;
+
+    expect(progressive).not.toBeNull();
+    expect(hammingDistance(baseline, progressive)).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('should count differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('000000000000000f', '0000000000000001')).toBe(3);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('SpamImageIndex', () => {
+  let index: SpamImageIndex;
+  let dir: string;
+
+  beforeEach(() => {
+    index = new SpamImageIndex();
+    dir = mkdtempSync(join(tmpdir(), 'spam-images-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find the closest hash within the distance', () => {
+    index.add(1, 'ff00ff00ff00ff00');
+    index.add(2, 'ff00ff00ff00ff0f');
+
+    expect(index.findMatch('ff00ff00ff00ff07', 8)).toEqual({ eventId: 2, distance: 1 });
+    expect(index.findMatch('00ff00ff00ff00ff', 8)).toBeNull();
+  });
+
+  it('should ignore duplicates and forget relabeled detections', () => {
+    expect(index.add(1, 'ff00ff00ff00ff00')).toBe(true);
+    expect(index.add(1, 'ff00ff00ff00ff00')).toBe(false);
+    index.add(1, '00ff00ff00ff00ff');
+
+    expect(index.remove(1)).toBe(true);
+    expect(index.size()).toBe(0);
+    expect(index.remove(1)).toBe(false);
+  });
+
+  it('should persist hashes only and restore them', () => {
+    const storePath = join(dir, 'known-spam-images.json');
+    index.attachStore(storePath);
+    index.add(7, 'ff00ff00ff00ff00');
+
+    const stored = JSON.parse(readFileSync(storePath, 'utf-8'));
+    expect(stored.entries).toEqual([{ eventId: 7, hash: 'ff00ff00ff00ff00', addedAt: expect.any(Number) }]);
+
+    const restarted = new SpamImageIndex();
+    restarted.attachStore(storePath);
+    expect(restarted.findMatch('ff00ff00ff00ff00', 0)).toEqual({ eventId: 7, distance: 0 });
+  });
+});
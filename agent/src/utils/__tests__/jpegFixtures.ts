@@ -0,0 +1,175 @@
+/**
+ * Tiny JPEG encoder for tests: every 8×8 block is flat (DC only), which is all
+ * the block-average decoder reads. Optionally writes a few AC codes and restart
+ * markers so the decoder has to step over them, or progressive scans.
+ */
+export interface FixtureComponent {
+  h: number;
+  v: number;
+  /** Brightness (0..255) of the block at this block row and column */
+  block: (row: number, col: number) => number;
+}
+
+export interface FixtureOptions {
+  width: number;
+  height: number;
+  components: FixtureComponent[];
+  restartInterval?: number;
+  acCodes?: boolean;
+  /** DC in two scans (high bits, then the lowest bit) followed by an AC scan of the first component */
+  progressive?: boolean;
+}
+
+class BitWriter {
+  bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >> i) & 1);
+      this.count++;
+      if (this.count === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  flush(): void {
+    while (this.count !== 0) {
+      this.write(1, 1);
+    }
+  }
+
+  private pushByte(byte: number): void {
+    this.bytes.push(byte);
+    if (byte === 0xff) {
+      this.bytes.push(0x00);
+    }
+  }
+}
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+// Writes one block given its level-shifted value and the previous block's of the same component
+type BlockWriter = (writer: BitWriter, value: number, previous: number) => void;
+
+// DC categories 0..11 all have four-bit codes equal to the category
+function writeDc(writer: BitWriter, diff: number): void {
+  const category = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+  writer.write(category, 4);
+  if (category > 0) {
+    writer.write(diff > 0 ? diff : diff + (1 << category) - 1, category);
+  }
+}
+
+function encodeScan(options: FixtureOptions, writeBlock: BlockWriter): number[] {
+  const { width, height, components, restartInterval = 0 } = options;
+  const hMax = Math.max(...components.map(component => component.h));
+  const vMax = Math.max(...components.map(component => component.v));
+
+  const writer = new BitWriter();
+  const predictors = components.map(() => 0);
+  const visit = (index: number, row: number, col: number) => {
+    const value = Math.round(components[index].block(row, col) - 128);
+    writeBlock(writer, value, predictors[index]);
+    predictors[index] = value;
+  };
+
+  const single = components.length === 1;
+  const unitsX = single ? Math.ceil(width / 8) : Math.ceil(width / (8 * hMax));
+  const unitsY = single ? Math.ceil(height / 8) : Math.ceil(height / (8 * vMax));
+  for (let n = 0; n < unitsX * unitsY; n++) {
+    if (restartInterval > 0 && n > 0 && n % restartInterval === 0) {
+      writer.flush();
+      writer.bytes.push(0xff, 0xd0 + ((n / restartInterval - 1) % 8));
+      predictors.fill(0);
+    }
+    const row = Math.floor(n / unitsX);
+    const col = n % unitsX;
+    components.forEach((component, index) => {
+      const v = single ? 1 : component.v;
+      const h = single ? 1 : component.h;
+      for (let y = 0; y < v; y++) {
+        for (let x = 0; x < h; x++) {
+          visit(index, row * v + y, col * h + x);
+        }
+      }
+    });
+  }
+  writer.flush();
+  return writer.bytes;
+}
+
+export function encodeFlatJpeg(options: FixtureOptions): Buffer {
+  const { width, height, components, restartInterval = 0, acCodes = false, progressive = false } = options;
+
+  // DC: categories 0..11, all four-bit codes equal to the category.
+  // AC: EOB = 00, (run 0, size 1) = 01, ZRL = 10.
+  const dht = [
+    0x00, 0, 0, 0, 12, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, ...Array.from({ length: 12 }, (_, i) => i),
+    0x10, 0, 3, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x00, 0x01, 0xf0,
+  ];
+  const scanComponents = components.flatMap((_, index) => [index + 1, 0x00]);
+
+  const scans = progressive
+    ? [
+      // DC shifted right by one bit, then that bit as a refinement, then an all-zero AC band
+      ...segment(0xda, [components.length, ...scanComponents, 0, 0, 0x01]),
+      ...encodeScan(options, (writer, value, previous) => writeDc(writer, (value >> 1) - (previous >> 1))),
+      ...segment(0xda, [components.length, ...scanComponents, 0, 0, 0x10]),
+      ...encodeScan(options, (writer, value) => writer.write(value & 1, 1)),
+      ...segment(0xda, [1, 1, 0x00, 1, 63, 0x00]),
+      ...encodeScan({ ...options, components: [components[0]] }, writer => writer.write(0b00, 2)),
+    ]
+    : [
+      ...segment(0xda, [components.length, ...scanComponents, 0, 63, 0]),
+      ...encodeScan(options, (writer, value, previous) => {
+        writeDc(writer, value - previous);
+        if (acCodes) {
+          writer.write(0b01, 2);
+          writer.write(1, 1);
+          writer.write(0b10, 2);
+        }
+        writer.write(0b00, 2);
+      }),
+    ];
+
+  return Buffer.from([
+    0xff, 0xd8,
+    // Quantization: 8 everywhere, so a DC value is the block's mean minus 128
+    ...segment(0xdb, [0x00, ...new Array(64).fill(8)]),
+    ...segment(progressive ? 0xc2 : 0xc0, [
+      8, height >> 8, height & 0xff, width >> 8, width & 0xff, components.length,
+      ...components.flatMap((component, index) => [index + 1, (component.h << 4) | component.v, 0]),
+    ]),
+    ...segment(0xc4, dht),
+    ...(restartInterval > 0 ? segment(0xdd, [restartInterval >> 8, restartInterval & 0xff]) : []),
+    ...scans,
+    0xff, 0xd9,
+  ]);
+}
+
+/**
+ * Grayscale fixture whose brightness follows `pattern` over the unit square
+ */
+export function patternJpeg(
+  width: number,
+  height: number,
+  pattern: (x: number, y: number) => number,
+  progressive = false
+): Buffer {
+  const blocksX = Math.ceil(width / 8);
+  const blocksY = Math.ceil(height / 8);
+  return encodeFlatJpeg({
+    width,
+    height,
+    progressive,
+    components: [{ h: 1, v: 1, block: (row, col) => pattern((col + 0.5) / blocksX, (row + 0.5) / blocksY) }],
+  });
+}
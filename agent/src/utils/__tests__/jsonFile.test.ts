@@ -0,0 +1,64 @@
+import { DebouncedSave, readJsonIfExists, writeJsonAtomic } from '../jsonFile';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('jsonFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'json-file-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write into missing directories and read the value back', () => {
+    const filePath = join(dir, 'nested', 'store.json');
+
+    writeJsonAtomic(filePath, { entries: [1, 2] });
+
+    expect(readJsonIfExists<{ entries: number[] }>(filePath)).toEqual({ entries: [1, 2] });
+    expect(existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it('should return undefined when the file does not exist', () => {
+    expect(readJsonIfExists(join(dir, 'missing.json'))).toBeUndefined();
+  });
+
+  describe('DebouncedSave', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should coalesce scheduled saves into one write after the delay', () => {
+      const write = jest.fn();
+      const pendingSave = new DebouncedSave(write, 500);
+
+      pendingSave.schedule();
+      pendingSave.schedule();
+      jest.advanceTimersByTime(499);
+      expect(write).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write pending changes on flush and nothing when there are none', () => {
+      const write = jest.fn();
+      const pendingSave = new DebouncedSave(write, 500);
+
+      pendingSave.flush();
+      pendingSave.schedule();
+      pendingSave.flush();
+      jest.advanceTimersByTime(500);
+
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+  });
+});
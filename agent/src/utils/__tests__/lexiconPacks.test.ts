@@ -0,0 +1,125 @@
+import { LexiconPacks, lexiconWords, validateLexiconPack } from '../lexiconPacks';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn() },
+}));
+
+const { logger } = require('../logger');
+
+const cryptoPack = {
+  id: 'crypto_investment',
+  version: 3,
+  name: 'Crypto investment',
+  terms: {
+    en: { 'guaranteed profit': 0.5, 'signals': 0.2 },
+    ru: { 'пассивный доход': 0.5, 'заработ*': 0.3 },
+  },
+};
+
+describe('lexiconWords', () => {
+  it('should lowercase, see through stylized letters and split on punctuation', () => {
+    expect(lexiconWords('GUARANTEED-profit!!')).toEqual(['guaranteed', 'profit']);
+    expect(lexiconWords('𝐏𝐫𝐨𝐟𝐢𝐭 2x')).toEqual(['profit', '2x']);
+    expect(lexiconWords('Ещё')).toEqual(['еще']);
+  });
+});
+
+describe('validateLexiconPack', () => {
+  it('should accept a well-formed pack', () => {
+    expect(validateLexiconPack(cryptoPack)).toEqual(cryptoPack);
+  });
+
+  it('should report every problem at once', () => {
+    expect(() => validateLexiconPack({ id: 'Crypto', version: 0, name: '', terms: { english: {}, en: { '***': 0.5, win: 2 } } }))
+      .toThrow(
+        'Invalid lexicon pack: "id" must be lowercase letters, digits and underscores; "version" must be a positive integer; '
+        + '"name" must be a non-empty string; invalid language code "english"; "terms.en" has an empty term; '
+        + '"terms.en.win" must be a weight above 0 and at most 1'
+      );
+    expect(() => validateLexiconPack([])).toThrow('expected an object');
+  });
+});
+
+describe('LexiconPacks', () => {
+  let packs: LexiconPacks;
+  let dir: string;
+
+  beforeEach(() => {
+    packs = new LexiconPacks();
+    dir = mkdtempSync(join(tmpdir(), 'lexicon-packs-test-'));
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should match whole words, phrases and prefixes in any of the pack languages', () => {
+    packs.setPacks([cryptoPack]);
+
+    expect(packs.match('Guaranteed profit with my SIGNALS', ['crypto_investment'])).toEqual([
+      { pack: 'crypto_investment', version: 3, terms: ['guaranteed profit', 'signals'], weight: 0.7 },
+    ]);
+    expect(packs.match('Пассивный доход: заработок от 500$', ['crypto_investment'])[0].terms)
+      .toEqual(['пассивный доход', 'заработ*']);
+    expect(packs.match('Profit is guaranteed; no signalsmith here', ['crypto_investment'])).toEqual([]);
+  });
+
+  it('should only use the requested packs', () => {
+    packs.setPacks([cryptoPack]);
+
+    expect(packs.match('guaranteed profit', [])).toEqual([]);
+    expect(packs.match('guaranteed profit', ['unknown_pack'])).toEqual([]);
+  });
+
+  it('should load the pack files of a directory and skip broken ones', () => {
+    writeFileSync(join(dir, 'crypto.json'), JSON.stringify(cryptoPack));
+    writeFileSync(join(dir, 'broken.json'), '{ "id": ');
+    writeFileSync(join(dir, 'notes.txt'), 'not a pack');
+
+    packs.attachDirectory(dir);
+
+    expect(packs.list()).toEqual([
+      { id: 'crypto_investment', version: 3, name: 'Crypto investment', languages: ['en', 'ru'], termCount: 4 },
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ filePath: join(dir, 'broken.json') }),
+      'Skipping lexicon pack that could not be loaded'
+    );
+  });
+
+  it('should load every pack shipped in the config directory', () => {
+    packs.attachDirectory(join(__dirname, '../../../../config/lexicons'));
+
+    expect(packs.list().map(pack => pack.id).sort()).toEqual(['adult', 'crypto_investment', 'giveaway', 'job_offer', 'loan']);
+    expect(logger.warn).not.toHaveBeenCalled();
+    expect(packs.match('Вы выиграли iPhone! Оплатите только доставку', ['giveaway'])[0].terms)
+      .toEqual(['вы выиграли', 'оплати* только доставк*']);
+  });
+
+  it('should start empty when the directory does not exist', () => {
+    packs.attachDirectory(join(dir, 'missing'));
+
+    expect(packs.list()).toEqual([]);
+  });
+
+  it('should reload the directory after a pack changes', () => {
+    jest.useFakeTimers();
+    const filePath = join(dir, 'crypto.json');
+    writeFileSync(filePath, JSON.stringify(cryptoPack));
+    packs.attachDirectory(dir);
+
+    writeFileSync(filePath, JSON.stringify({ ...cryptoPack, version: 4, terms: { en: { airdrop: 0.4 } } }));
+    utimesSync(filePath, new Date(), new Date(Date.now() + 5000));
+    expect(packs.match('Free airdrop', ['crypto_investment'])).toEqual([]);
+
+    jest.advanceTimersByTime(61 * 1000);
+    expect(packs.match('Free airdrop', ['crypto_investment'])).toEqual([
+      { pack: 'crypto_investment', version: 4, terms: ['airdrop'], weight: 0.4 },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { combineMessageContent, extractMessageContent } from '../messageContent';
+
+describe('extractMessageContent', () => {
+  const formatted = (text: string, entities: any[] = []) => ({ _: 'formattedText', text, entities });
+
+  it('should read plain text messages', () => {
+    const content = extractMessageContent({ content: { _: 'messageText', text: formatted('Hello there') } });
+
+    expect(content).toEqual({
+      mediaType: 'text',
+      text: 'Hello there',
+      entityUrls: [],
+      hiddenUrls: [],
+      buttonUrls: [],
+      forwardOrigin: null,
+      contact: null,
+      documents: [],
+    });
+  });
+
+  it('should read captions of photos, videos, documents and voice notes', () => {
+    const cases: Array<[string, string]> = [
+      ['messagePhoto', 'photo'],
+      ['messageVideo', 'video'],
+      ['messageDocument', 'document'],
+      ['messageVoiceNote', 'voice_note'],
+      ['messageAnimation', 'animation'],
+    ];
+
+    for (const [type, mediaType] of cases) {
+      const content = extractMessageContent({ content: { _: type, caption: formatted('Earn $500 a day') } });
+
+      expect(content.mediaType).toBe(mediaType);
+      expect(content.text).toBe('Earn $500 a day');
+    }
+  });
+
+  it('should report media without a caption with empty text', () => {
+    const content = extractMessageContent({ content: { _: 'messageSticker', sticker: {} } });
+
+    expect(content.mediaType).toBe('sticker');
+    expect(content.text).toBe('');
+  });
+
+  it('should read poll questions in both TDLib formats', () => {
+    expect(extractMessageContent({ content: { _: 'messagePoll', poll: { question: 'Free crypto?' } } }).text)
+      .toBe('Free crypto?');
+    expect(extractMessageContent({ content: { _: 'messagePoll', poll: { question: formatted('Free crypto?') } } }).text)
+      .toBe('Free crypto?');
+  });
+
+  it('should collect visible and hidden entity links', () => {
+    const text = 'Visit example.com or click here';
+    const content = extractMessageContent({
+      content: {
+        _: 'messageText',
+        text: formatted(text, [
+          { offset: 6, length: 11, type: { _: 'textEntityTypeUrl' } },
+          { offset: 21, length: 10, type: { _: 'textEntityTypeTextUrl', url: 'https://phish.example/login' } },
+          { offset: 0, length: 5, type: { _: 'textEntityTypeBold' } },
+        ]),
+      },
+    });
+
+    expect(content.entityUrls).toEqual(['example.com', 'https://phish.example/login']);
+    expect(content.hiddenUrls).toEqual(['https://phish.example/login']);
+  });
+
+  it('should not treat a text link that shows its own URL as hidden', () => {
+    const text = 'https://example.com';
+    const content = extractMessageContent({
+      content: {
+        _: 'messageText',
+        text: formatted(text, [{ offset: 0, length: 19, type: { _: 'textEntityTypeTextUrl', url: text } }]),
+      },
+    });
+
+    expect(content.hiddenUrls).toEqual([]);
+  });
+
+  it('should collect inline keyboard button URLs', () => {
+    const content = extractMessageContent({
+      content: { _: 'messagePhoto', caption: formatted('') },
+      reply_markup: {
+        _: 'replyMarkupInlineKeyboard',
+        rows: [
+          [{ text: 'Claim', type: { _: 'inlineKeyboardButtonTypeUrl', url: 'https://t.me/+Invite123' } }],
+          [{ text: 'Vote', type: { _: 'inlineKeyboardButtonTypeCallback', data: 'eA==' } }],
+        ],
+      },
+    });
+
+    expect(content.buttonUrls).toEqual(['https://t.me/+Invite123']);
+  });
+
+  it('should describe forwarded channel posts and users', () => {
+    const channel = extractMessageContent({
+      content: { _: 'messageText', text: formatted('Big news') },
+      forward_info: { origin: { _: 'messageOriginChannel', chat_id: -1001, message_id: 5 } },
+    });
+    const legacyUser = extractMessageContent({
+      content: { _: 'messageText', text: formatted('Hi') },
+      forward_info: { origin: { _: 'messageForwardOriginHiddenUser', sender_name: 'Crypto Guru' } },
+    });
+
+    expect(channel.forwardOrigin).toEqual({ kind: 'channel', chatId: -1001 });
+    expect(legacyUser.forwardOrigin).toEqual({ kind: 'hidden_user', senderName: 'Crypto Guru' });
+  });
+
+  it('should read shared contact cards', () => {
+    const content = extractMessageContent({
+      content: { _: 'messageContact', contact: { phone_number: '+15551234567', first_name: 'Promo', user_id: 0 } },
+    });
+
+    expect(content.mediaType).toBe('contact');
+    expect(content.contact).toEqual({ phoneNumber: '+15551234567', userId: undefined });
+  });
+
+  it('should read document metadata without the file', () => {
+    const content = extractMessageContent({
+      content: {
+        _: 'messageDocument',
+        document: {
+          file_name: 'invoice.pdf.exe',
+          mime_type: 'application/x-msdownload',
+          document: { id: 12, size: 48128, local: { is_downloading_completed: false } },
+        },
+        caption: formatted('See attached'),
+      },
+    });
+
+    expect(content.mediaType).toBe('document');
+    expect(content.text).toBe('See attached');
+    expect(content.documents).toEqual([{ fileName: 'invoice.pdf.exe', mimeType: 'application/x-msdownload', size: 48128 }]);
+  });
+
+  it('should accept messages without a content type', () => {
+    expect(extractMessageContent({ content: { text: { text: 'legacy' } } }).mediaType).toBe('text');
+    expect(extractMessageContent({}).mediaType).toBe('other');
+  });
+});
+
+describe('combineMessageContent', () => {
+  it('should merge text and links from every message in order', () => {
+    const combined = combineMessageContent([
+      extractMessageContent({ content: { _: 'messageText', text: { text: 'Hi, is this Anna?', entities: [] } } }),
+      extractMessageContent({
+        content: { _: 'messageContact', contact: { phone_number: '+15551234567', user_id: 0 } },
+      }),
+      extractMessageContent({
+        content: { _: 'messagePhoto', caption: { text: 'Join https://spam.com', entities: [
+          { offset: 5, length: 17, type: { _: 'textEntityTypeUrl' } },
+        ] } },
+      }),
+    ]);
+
+    expect(combined).toEqual({
+      mediaType: 'photo',
+      text: 'Hi, is this Anna?\nJoin https://spam.com',
+      entityUrls: ['https://spam.com'],
+      hiddenUrls: [],
+      buttonUrls: [],
+      forwardOrigin: null,
+      contact: { phoneNumber: '+15551234567', userId: undefined },
+      documents: [],
+    });
+  });
+
+  it('should keep documents from earlier messages', () => {
+    const combined = combineMessageContent([
+      extractMessageContent({
+        content: { _: 'messageDocument', document: { file_name: 'app.apk', mime_type: '', document: { size: 10 } } },
+      }),
+      extractMessageContent({ content: { _: 'messageText', text: { text: 'Install it', entities: [] } } }),
+    ]);
+
+    expect(combined.mediaType).toBe('text');
+    expect(combined.documents).toEqual([{ fileName: 'app.apk', mimeType: '', size: 10 }]);
+  });
+});
@@ -0,0 +1,132 @@
+import { MetricsTracker } from '../metrics';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../logger', () => ({
+  logger: {
+    warn: jest.fn(),
+  },
+}));
+
+const { logger } = require('../logger');
+
+describe('MetricsTracker', () => {
+  let tracker: MetricsTracker;
+  let dir: string;
+
+  beforeEach(() => {
+    tracker = new MetricsTracker();
+    dir = mkdtempSync(join(tmpdir(), 'metrics-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start all counters at zero', () => {
+    expect(tracker.getMetrics()).toEqual({
+      msgProcessedTotal: 0,
+      spamDetectedTotal: 0,
+      editedSpamDetectedTotal: 0,
+      spamBlockedTotal: 0,
+      spamArchivedTotal: 0,
+      rateLimitHits: 0,
+    });
+    expect(tracker.getSpamRate()).toBe(0);
+  });
+
+  it('should calculate spam rate from counters', () => {
+    tracker.incrementMessagesProcessed();
+    tracker.incrementMessagesProcessed();
+    tracker.incrementMessagesProcessed();
+    tracker.incrementMessagesProcessed();
+    tracker.incrementSpamDetected();
+
+    expect(tracker.getSpamRate()).toBe(0.25);
+  });
+
+  it('should count detections from edits apart from other detections', () => {
+    tracker.incrementMessagesProcessed();
+    tracker.incrementSpamDetected();
+    tracker.incrementEditedSpamDetected();
+
+    expect(tracker.getMetrics()).toEqual(expect.objectContaining({ spamDetectedTotal: 1, editedSpamDetectedTotal: 1 }));
+    expect(tracker.getSpamRate()).toBe(1);
+  });
+
+  describe('persistence', () => {
+    it('should write counters to the attached store shortly after they change', () => {
+      jest.useFakeTimers();
+      try {
+        const storePath = join(dir, 'metrics.json');
+        tracker.attachStore(storePath);
+
+        tracker.incrementMessagesProcessed();
+        tracker.incrementSpamArchived();
+        expect(existsSync(storePath)).toBe(false);
+
+        jest.advanceTimersByTime(1000);
+
+        const stored = JSON.parse(readFileSync(storePath, 'utf-8'));
+        expect(stored.msgProcessedTotal).toBe(1);
+        expect(stored.spamArchivedTotal).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should restore counters from a previous run', () => {
+      const storePath = join(dir, 'metrics.json');
+      tracker.attachStore(storePath);
+      tracker.incrementMessagesProcessed();
+      tracker.incrementSpamDetected();
+      tracker.flush();
+
+      const restarted = new MetricsTracker();
+      restarted.attachStore(storePath);
+      restarted.incrementMessagesProcessed();
+
+      expect(restarted.getMetrics().msgProcessedTotal).toBe(2);
+      expect(restarted.getMetrics().spamDetectedTotal).toBe(1);
+    });
+
+    it('should create missing directories for the store', () => {
+      const storePath = join(dir, 'nested', 'state', 'metrics.json');
+      tracker.attachStore(storePath);
+
+      tracker.incrementSpamBlocked();
+      tracker.flush();
+
+      expect(JSON.parse(readFileSync(storePath, 'utf-8')).spamBlockedTotal).toBe(1);
+    });
+
+    it('should keep counting when the store cannot be written', () => {
+      const blocker = join(dir, 'not-a-directory');
+      writeFileSync(blocker, '');
+      tracker.attachStore(join(blocker, 'metrics.json'));
+
+      tracker.incrementMessagesProcessed();
+
+      expect(() => tracker.flush()).not.toThrow();
+      expect(tracker.getMetrics().msgProcessedTotal).toBe(1);
+      expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ error: expect.anything() }), 'Failed to persist metrics');
+    });
+
+    it('should ignore unknown or malformed fields in the store', () => {
+      const storePath = join(dir, 'metrics.json');
+      writeFileSync(storePath, JSON.stringify({ msgProcessedTotal: 7, spamDetectedTotal: 'x', other: 1 }));
+
+      tracker.attachStore(storePath);
+
+      expect(tracker.getMetrics()).toEqual({
+        msgProcessedTotal: 7,
+        spamDetectedTotal: 0,
+        editedSpamDetectedTotal: 0,
+        spamBlockedTotal: 0,
+        spamArchivedTotal: 0,
+        rateLimitHits: 0,
+      });
+    });
+  });
+});
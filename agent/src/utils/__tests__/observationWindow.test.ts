@@ -0,0 +1,61 @@
+import { ObservationWindowStore } from '../observationWindow';
+
+describe('ObservationWindowStore', () => {
+  const profile = { userId: 999, isContact: false, isMutualContact: false, hasProfilePhoto: false, hasCommonGroups: false };
+  const detection = { isSpam: false, score: 0.2, reasons: [{ ruleId: 'no_profile_photo', contribution: 0.15 }] };
+  let store: ObservationWindowStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new ObservationWindowStore();
+  });
+
+  afterEach(() => {
+    store.clear();
+    jest.useRealTimers();
+  });
+
+  it('should collect messages and summarize the interim score', () => {
+    jest.setSystemTime(1700000000 * 1000);
+    store.open(123, profile, 600, jest.fn());
+    store.append(123, { id: 1, chat_id: 123, content: { text: { text: 'Hi, is this Anna?' } } }, detection);
+
+    expect(store.list()).toEqual([{
+      chatId: 123,
+      userId: 999,
+      username: undefined,
+      openedAt: 1700000000,
+      closesAt: 1700000600,
+      messageCount: 1,
+      score: 0.2,
+      reasons: detection.reasons,
+    }]);
+  });
+
+  it('should call back when the window expires', () => {
+    const onExpire = jest.fn();
+    store.open(123, profile, 600, onExpire);
+
+    jest.advanceTimersByTime(599 * 1000);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call back once closed', () => {
+    const onExpire = jest.fn();
+    store.open(123, profile, 600, onExpire);
+
+    expect(store.close(123)?.chatId).toBe(123);
+    jest.advanceTimersByTime(600 * 1000);
+
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(store.has(123)).toBe(false);
+    expect(store.close(123)).toBeUndefined();
+  });
+
+  it('should ignore messages for chats that are not observed', () => {
+    expect(store.append(456, { id: 1, chat_id: 456 }, detection)).toBeUndefined();
+  });
+});
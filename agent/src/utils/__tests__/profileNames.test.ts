@@ -0,0 +1,80 @@
+import { findLookalikeContact, impersonationTerms, nameLinks, nameSimilarity } from '../profileNames';
+
+jest.mock('../logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('impersonationTerms', () => {
+  it('should find staff and service terms as whole words of the name', () => {
+    expect(impersonationTerms('Telegram Support')).toEqual(['telegram', 'support']);
+    expect(impersonationTerms('ADMIN')).toEqual(['admin']);
+    expect(impersonationTerms('Служба поддержки')).toEqual(['служба']);
+    expect(impersonationTerms('Customer Care 24/7')).toEqual(['customer care']);
+  });
+
+  it('should see through look-alike letters and stylized text', () => {
+    expect(impersonationTerms('\u0410dmin')).toEqual(['admin']);
+    expect(impersonationTerms('𝐒𝐮𝐩𝐩𝐨𝐫𝐭')).toEqual(['support']);
+  });
+
+  it('should find longer terms run together in usernames', () => {
+    expect(impersonationTerms('', ['TelegramSupportBot'])).toEqual(['telegram', 'support']);
+    expect(impersonationTerms('', ['wallet_admin2'])).toEqual(['admin', 'wallet']);
+  });
+
+  it('should leave ordinary names alone', () => {
+    expect(impersonationTerms('Anna Smith', ['badminton_anna'])).toEqual([]);
+    expect(impersonationTerms('Administrative Assistant')).toEqual([]);
+  });
+});
+
+describe('nameLinks', () => {
+  it('should find links, handles and bare domains', () => {
+    expect(nameLinks('Profit 👉 https://bit.ly/abc')).toEqual(['https://bit.ly/abc']);
+    expect(nameLinks('Crypto Signals t.me/+AbCd')).toEqual(['t.me/+AbCd']);
+    expect(nameLinks('Write @fx_manager')).toEqual(['@fx_manager']);
+    expect(nameLinks('Earn daily cryptoprofit.io')).toEqual(['cryptoprofit.io']);
+  });
+
+  it('should not take initials for domains', () => {
+    expect(nameLinks('J. R. Smith')).toEqual([]);
+    expect(nameLinks('Anna')).toEqual([]);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should rate identical strings 1 and count edits against the longer one', () => {
+    expect(nameSimilarity('anna smith', 'anna smith')).toBe(1);
+    expect(nameSimilarity('anna smith', 'anna smlth')).toBeCloseTo(0.9);
+    expect(nameSimilarity('', '')).toBe(0);
+  });
+});
+
+describe('findLookalikeContact', () => {
+  const contacts = [
+    { userId: 5, name: 'Anna Smith', usernames: ['anna_smith'] },
+    { userId: 6, name: 'Bob', usernames: [] },
+    { userId: 7, name: 'Mom', usernames: ['mother_dear'] },
+  ];
+
+  it('should match copied names in any word order and near-copies', () => {
+    expect(findLookalikeContact({ userId: 1, name: 'Smith Anna', usernames: [] }, contacts))
+      .toEqual({ userId: 5, field: 'name', similarity: 1 });
+    expect(findLookalikeContact({ userId: 1, name: 'Anna Smitth', usernames: [] }, contacts))
+      .toEqual({ userId: 5, field: 'name', similarity: expect.closeTo(0.91, 2) });
+  });
+
+  it('should match copied usernames', () => {
+    expect(findLookalikeContact({ userId: 1, name: 'Promo', usernames: ['mother_dear1'] }, contacts))
+      .toEqual({ userId: 7, field: 'username', similarity: expect.closeTo(0.92, 2) });
+  });
+
+  it('should ignore short names, different names and the contact itself', () => {
+    expect(findLookalikeContact({ userId: 1, name: 'Bob', usernames: [] }, contacts)).toBeNull();
+    expect(findLookalikeContact({ userId: 1, name: 'Anna Jones', usernames: [] }, contacts)).toBeNull();
+    expect(findLookalikeContact({ userId: 5, name: 'Anna Smith', usernames: [] }, contacts)).toBeNull();
+  });
+});
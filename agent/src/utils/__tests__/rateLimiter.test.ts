@@ -156,6 +156,20 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('setMaxActions', () => {
+    it('should apply a new limit while keeping recorded actions', () => {
+      const limiter = new RateLimiter(2, 60000);
+
+      limiter.recordAction();
+      limiter.recordAction();
+      expect(limiter.canPerformAction()).toBe(false);
+
+      limiter.setMaxActions(4);
+      expect(limiter.canPerformAction()).toBe(true);
+      expect(limiter.getRemainingActions()).toBe(2);
+    });
+  });
+
   describe('custom window sizes', () => {
     it('should work with short windows', () => {
       const limiter = new RateLimiter(2, 1000); // 1 second window
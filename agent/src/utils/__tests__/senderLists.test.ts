@@ -0,0 +1,108 @@
+import { SenderLists, validateEntries } from '../senderLists';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('SenderLists', () => {
+  let lists: SenderLists;
+
+  beforeEach(() => {
+    lists = new SenderLists();
+  });
+
+  describe('match', () => {
+    it('should return null when no entry matches', () => {
+      lists.setEntries([{ list: 'deny', type: 'user_id', value: '1' }]);
+      expect(lists.match({ userId: 2 })).toBeNull();
+    });
+
+    it('should match by user ID', () => {
+      lists.setEntries([{ list: 'deny', type: 'user_id', value: '42' }]);
+      expect(lists.match({ userId: 42 })).toEqual({
+        list: 'deny',
+        entry: { list: 'deny', type: 'user_id', value: '42' },
+      });
+    });
+
+    it('should match usernames with globs, case-insensitively', () => {
+      lists.setEntries([{ list: 'deny', type: 'username', value: '@crypto_*' }]);
+
+      expect(lists.match({ userId: 1, username: 'Crypto_Profits' })?.list).toBe('deny');
+      expect(lists.match({ userId: 1, username: 'mycrypto_x' })).toBeNull();
+      expect(lists.match({ userId: 1 })).toBeNull();
+    });
+
+    it('should support single-character wildcards', () => {
+      lists.setEntries([{ list: 'allow', type: 'username', value: 'bob?' }]);
+
+      expect(lists.match({ userId: 1, username: 'bob1' })?.list).toBe('allow');
+      expect(lists.match({ userId: 1, username: 'bob12' })).toBeNull();
+    });
+
+    it('should match phone country prefixes ignoring formatting', () => {
+      lists.setEntries([{ list: 'deny', type: 'phone_prefix', value: '+62' }]);
+
+      expect(lists.match({ userId: 1, phoneNumber: '6281234567' })?.list).toBe('deny');
+      expect(lists.match({ userId: 1, phoneNumber: '+1 555 0100' })).toBeNull();
+      expect(lists.match({ userId: 1 })).toBeNull();
+    });
+
+    it('should prefer allowlist over denylist matches', () => {
+      lists.setEntries([
+        { list: 'deny', type: 'phone_prefix', value: '44' },
+        { list: 'allow', type: 'user_id', value: '7' },
+      ]);
+
+      expect(lists.match({ userId: 7, phoneNumber: '447700900000' })?.list).toBe('allow');
+    });
+  });
+
+  describe('addEntry', () => {
+    it('should add an entry once', () => {
+      const entry = { list: 'allow' as const, type: 'user_id' as const, value: '42' };
+
+      expect(lists.addEntry(entry)).toBe(true);
+      expect(lists.addEntry(entry)).toBe(false);
+      expect(lists.getEntries()).toEqual([entry]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore entries from the store', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'lists-test-'));
+      const storePath = join(dir, 'sender-lists.json');
+
+      lists.attachStore(storePath);
+      lists.setEntries([{ list: 'allow', type: 'user_id', value: '5' }]);
+
+      const restored = new SenderLists();
+      restored.attachStore(storePath);
+      expect(restored.getEntries()).toEqual([{ list: 'allow', type: 'user_id', value: '5' }]);
+
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('validateEntries', () => {
+    it('should accept valid entries', () => {
+      const entries = [
+        { list: 'allow', type: 'user_id', value: '123' },
+        { list: 'deny', type: 'username', value: '@spam*' },
+        { list: 'deny', type: 'phone_prefix', value: '+7' },
+      ];
+      expect(validateEntries(entries)).toEqual(entries);
+    });
+
+    it('should reject non-arrays', () => {
+      expect(() => validateEntries({})).toThrow('entries must be an array');
+    });
+
+    it('should report every invalid entry', () => {
+      expect(() => validateEntries([
+        { list: 'maybe', type: 'user_id', value: '1' },
+        { list: 'deny', type: 'user_id', value: 'abc' },
+        { list: 'deny', type: 'email', value: 'a@b.c' },
+      ])).toThrow(/entry 0: list must be allow or deny; entry 1: user_id must be numeric; entry 2: type must be/);
+    });
+  });
+});
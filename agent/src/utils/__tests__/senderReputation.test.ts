@@ -0,0 +1,113 @@
+import { SenderReputationStore } from '../senderReputation';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('SenderReputationStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reputation-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should track messages, detections and recent scores', () => {
+    const store = new SenderReputationStore();
+    store.recordMessage(1, 0.1, false);
+    const reputation = store.recordMessage(1, 0.456, true);
+
+    expect(reputation).toMatchObject({
+      userId: 1,
+      messageCount: 2,
+      detectionCount: 1,
+      recentScores: [0.1, 0.46],
+    });
+    expect(reputation.firstSeen).toBeLessThanOrEqual(reputation.lastSeen);
+  });
+
+  it('should keep only the most recent scores', () => {
+    const store = new SenderReputationStore();
+    for (let i = 0; i < 25; i++) {
+      store.recordMessage(1, i / 100, false);
+    }
+
+    const scores = store.get(1)!.recentScores;
+    expect(scores).toHaveLength(20);
+    expect(scores[0]).toBe(0.05);
+  });
+
+  it('should count actions and feedback without double counting relabels', () => {
+    const store = new SenderReputationStore();
+    store.recordAction(1, 'archive');
+    store.recordFeedback(1, 'spam');
+    store.recordFeedback(1, 'not_spam', 'spam');
+    store.recordFeedback(1, 'not_spam', 'not_spam');
+
+    expect(store.get(1)).toMatchObject({
+      actions: { archive: 1, block: 0 },
+      feedback: { spam: 0, notSpam: 1 },
+    });
+  });
+
+  it('should not expose internal state to callers', () => {
+    const store = new SenderReputationStore();
+    store.recordMessage(1, 0.2, false);
+
+    store.get(1)!.recentScores.push(1);
+
+    expect(store.get(1)!.recentScores).toEqual([0.2]);
+  });
+
+  it('should forget the least recently seen sender beyond capacity', () => {
+    const store = new SenderReputationStore(2);
+    store.recordMessage(1, 0, false);
+    store.recordMessage(2, 0, false);
+    store.recordMessage(1, 0, false);
+    store.recordMessage(3, 0, false);
+
+    expect(store.get(2)).toBeUndefined();
+    expect(store.list().map(sender => sender.userId).sort()).toEqual([1, 3]);
+  });
+
+  it('should purge one sender or all of them', () => {
+    const store = new SenderReputationStore();
+    store.recordMessage(1, 0, false);
+    store.recordMessage(2, 0, false);
+
+    expect(store.purge(1)).toBe(true);
+    expect(store.purge(1)).toBe(false);
+    expect(store.purgeAll()).toBe(1);
+    expect(store.list()).toEqual([]);
+  });
+
+  it('should write a purge at once', () => {
+    const storePath = join(dir, 'reputation.json');
+    const store = new SenderReputationStore();
+    store.attachStore(storePath);
+    store.recordMessage(1, 0.7, true);
+    store.flush();
+
+    store.purge(1);
+
+    const restarted = new SenderReputationStore();
+    restarted.attachStore(storePath);
+    expect(restarted.get(1)).toBeUndefined();
+  });
+
+  it('should persist across restarts', () => {
+    const storePath = join(dir, 'reputation.json');
+    const store = new SenderReputationStore();
+    store.attachStore(storePath);
+    store.recordMessage(1, 0.7, true);
+    store.recordAction(1, 'block');
+    store.flush();
+
+    const restarted = new SenderReputationStore();
+    restarted.attachStore(storePath);
+
+    expect(restarted.get(1)).toMatchObject({ messageCount: 1, detectionCount: 1, actions: { block: 1 } });
+  });
+});
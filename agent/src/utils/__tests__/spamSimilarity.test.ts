@@ -0,0 +1,90 @@
+import { cosineSimilarity, SpamSimilarityIndex, vectorize } from '../spamSimilarity';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('spamSimilarity', () => {
+  const spam = 'Get 10k real followers for your channel today, cheap prices and instant delivery';
+
+  describe('vectorize', () => {
+    it('should ignore rotated links, handles and phone numbers', () => {
+      const a = vectorize(`${spam} https://promo.example/a +1 555 123 4567`)!;
+      const b = vectorize(`${spam} t.me/other_promo`)!;
+
+      expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+    });
+
+    it('should return null for text too short to compare', () => {
+      expect(vectorize('hi there')).toBeNull();
+      expect(vectorize('https://example.com/a-very-long-link')).toBeNull();
+    });
+
+    it('should score unrelated messages far apart', () => {
+      const a = vectorize(spam)!;
+      const b = vectorize('Are we still meeting for lunch on Thursday near the office?')!;
+
+      expect(cosineSimilarity(a, b)).toBeLessThan(0.5);
+    });
+  });
+
+  describe('SpamSimilarityIndex', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'similarity-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should match near-duplicates above the cutoff', () => {
+      const index = new SpamSimilarityIndex();
+      index.add(1, spam);
+
+      const match = index.findMatch('Get 10K REAL followers for your channel today!! Cheap prices, instant delivery', 0.9);
+
+      expect(match?.eventId).toBe(1);
+      expect(match?.similarity).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('should not match below the cutoff', () => {
+      const index = new SpamSimilarityIndex();
+      index.add(1, spam);
+
+      expect(index.findMatch('Get followers for your channel, message me for prices', 0.9)).toBeNull();
+    });
+
+    it('should skip duplicates and forget removed detections', () => {
+      const index = new SpamSimilarityIndex();
+
+      expect(index.add(1, spam)).toBe(true);
+      expect(index.add(1, spam)).toBe(false);
+      expect(index.remove(1)).toBe(true);
+      expect(index.findMatch(spam, 0.9)).toBeNull();
+    });
+
+    it('should drop the oldest entries beyond capacity', () => {
+      const index = new SpamSimilarityIndex(1);
+      index.add(1, spam);
+      index.add(2, 'Invest in our exclusive crypto mining pool and double your money every week');
+
+      expect(index.size()).toBe(1);
+      expect(index.findMatch(spam, 0.9)).toBeNull();
+    });
+
+    it('should persist vectors without the message text', () => {
+      const storePath = join(dir, 'known-spam.json');
+      const index = new SpamSimilarityIndex();
+      index.attachStore(storePath);
+      index.add(1, spam);
+
+      expect(readFileSync(storePath, 'utf-8')).not.toContain('followers');
+
+      const restarted = new SpamSimilarityIndex();
+      restarted.attachStore(storePath);
+
+      expect(restarted.findMatch(spam, 0.9)?.eventId).toBe(1);
+    });
+  });
+});
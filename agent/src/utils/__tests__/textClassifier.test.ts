@@ -0,0 +1,72 @@
+import { TextClassifier } from '../textClassifier';
+import { LabeledText, loadModel, predictProbability, saveModel, trainClassifier } from '../classifierTraining';
+import { mkdtempSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn() },
+}));
+
+const spamOpeners = ['Earn passive income', 'Guaranteed profit', 'Join my crypto signals', 'Double your bitcoin', 'Investment opportunity'];
+const spamClosers = ['message me now', 'limited spots left', 'contact my manager @fx_mentor', 'visit https://profit.example', 'act fast today'];
+const hamOpeners = ['Are we still meeting', 'Thanks for the photos', 'Can you pick up milk', 'Happy birthday', 'Did you see the game'];
+const hamClosers = ['tomorrow at noon', 'from the weekend', 'on your way home', 'hope you have a great day', 'last night'];
+
+function corpus(): LabeledText[] {
+  const examples: LabeledText[] = [];
+  spamOpeners.forEach(opener => spamClosers.forEach(closer => {
+    examples.push({ text: `${opener}, ${closer}`, label: 'spam' });
+    examples.push({ text: `${opener}!!! ${closer}`, label: 'spam' });
+  }));
+  hamOpeners.forEach(opener => hamClosers.forEach(closer => {
+    examples.push({ text: `${opener} ${closer}?`, label: 'not_spam' });
+    examples.push({ text: `${opener}, ${closer}`, label: 'not_spam' });
+  }));
+  return examples;
+}
+
+describe('TextClassifier', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'classifier-test-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should not score without a model', () => {
+    const classifier = new TextClassifier();
+    classifier.attachStore(join(dir, 'classifier-model.json'));
+
+    expect(classifier.predict('Guaranteed profit, message me now')).toBeNull();
+    expect(classifier.getInfo()).toBeNull();
+  });
+
+  it('should round-trip a saved model', () => {
+    const modelPath = join(dir, 'classifier-model.json');
+    const model = trainClassifier(corpus());
+    saveModel(modelPath, model);
+
+    const loaded = loadModel(modelPath);
+    const text = 'Double your bitcoin, limited spots left';
+    expect(predictProbability(loaded, text)).toBeCloseTo(predictProbability(model, text) as number, 3);
+  });
+
+  it('should pick up a model written while running', () => {
+    jest.useFakeTimers();
+    const modelPath = join(dir, 'classifier-model.json');
+    const classifier = new TextClassifier();
+    classifier.attachStore(modelPath);
+
+    saveModel(modelPath, trainClassifier(corpus()));
+    utimesSync(modelPath, new Date(), new Date(Date.now() + 5000));
+    jest.advanceTimersByTime(61 * 1000);
+
+    expect(classifier.predict('Double your bitcoin, act fast today')).toBeGreaterThan(0.5);
+    expect(classifier.getInfo()).toEqual(expect.objectContaining({ examples: { spam: 50, notSpam: 50 } }));
+  });
+});
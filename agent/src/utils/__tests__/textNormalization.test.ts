@@ -0,0 +1,62 @@
+import { deobfuscate } from '../textNormalization';
+
+describe('deobfuscate', () => {
+  it('should leave plain text alone', () => {
+    expect(deobfuscate('Are we still on for lunch at 12:30?')).toEqual({
+      text: 'Are we still on for lunch at 12:30?',
+      techniques: [],
+    });
+  });
+
+  it('should remove zero-width characters hidden inside words', () => {
+    expect(deobfuscate('t\u200B.\u200Dme/cheap\u2060deals')).toEqual({
+      text: 't.me/cheapdeals',
+      techniques: ['invisible_characters'],
+    });
+  });
+
+  it('should not flag zero-width joiners inside emoji sequences', () => {
+    expect(deobfuscate('Family 👨‍👩‍👧 photo').techniques).toEqual([]);
+  });
+
+  it('should fold fullwidth and stylized characters', () => {
+    expect(deobfuscate('Call ＋１ ５５５ ０１２ ３４５６ or visit 𝐭.𝐦𝐞/𝐩𝐫𝐨𝐦𝐨')).toEqual({
+      text: 'Call +1 555 012 3456 or visit t.me/promo',
+      techniques: ['stylized_characters'],
+    });
+  });
+
+  it('should fold digits from other scripts without flagging them', () => {
+    expect(deobfuscate('٠١٢٣٤٥٦٧٨٩')).toEqual({ text: '0123456789', techniques: [] });
+  });
+
+  it('should fold look-alike letters in words that mix scripts', () => {
+    // Cyrillic е and о in an otherwise Latin word and link
+    expect(deobfuscate('Join t\u0435l\u0435gram channel t.me/fr\u0435\u0435_crypto n\u043ew')).toEqual({
+      text: 'Join telegram channel t.me/free_crypto now',
+      techniques: ['mixed_scripts'],
+    });
+  });
+
+  it('should leave Cyrillic and Greek prose alone', () => {
+    expect(deobfuscate('Привет, как дела? Καλημέρα.')).toEqual({
+      text: 'Привет, как дела? Καλημέρα.',
+      techniques: [],
+    });
+  });
+
+  it('should replace emoji standing in for dots', () => {
+    expect(deobfuscate('Go to t🔹me/promo or win🔥now')).toEqual({
+      text: 'Go to t.me/promo or winnow',
+      techniques: ['emoji_separators'],
+    });
+  });
+
+  it('should collapse spaced-out letters and domains', () => {
+    expect(deobfuscate('join t . m e / p r o m o')).toEqual({
+      text: 'join t.me/promo',
+      techniques: ['spaced_letters'],
+    });
+    expect(deobfuscate('join t (dot) me/promo').text).toBe('join t.me/promo');
+  });
+});
@@ -0,0 +1,46 @@
+import { TtlCache } from '../ttlCache';
+
+describe('TtlCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return values until they expire', () => {
+    const cache = new TtlCache<number, string>(1000);
+    cache.set(1, 'a');
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get(1)).toBe('a');
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get(1)).toBeUndefined();
+  });
+
+  it('should evict the oldest entry when full', () => {
+    const cache = new TtlCache<number, string>(1000, 2);
+    cache.set(1, 'a');
+    cache.set(2, 'b');
+    cache.set(1, 'a2');
+    cache.set(3, 'c');
+
+    expect(cache.get(2)).toBeUndefined();
+    expect(cache.get(1)).toBe('a2');
+    expect(cache.get(3)).toBe('c');
+  });
+
+  it('should delete and clear entries', () => {
+    const cache = new TtlCache<number, string>(1000);
+    cache.set(1, 'a');
+    cache.set(2, 'b');
+
+    cache.delete(1);
+    expect(cache.get(1)).toBeUndefined();
+
+    cache.clear();
+    expect(cache.get(2)).toBeUndefined();
+  });
+});
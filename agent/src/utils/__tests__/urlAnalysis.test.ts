@@ -0,0 +1,99 @@
+import { analyzeUrl, analyzeUrls } from '../urlAnalysis';
+import { domainLists } from '../domainLists';
+
+jest.mock('../logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('analyzeUrl', () => {
+  afterEach(() => {
+    domainLists.setLists({ block: [], allow: [] });
+  });
+
+  it('should leave ordinary links unclassified', () => {
+    expect(analyzeUrl('https://www.example.com/page')).toEqual({
+      url: 'https://www.example.com/page',
+      host: 'example.com',
+      classes: [],
+    });
+  });
+
+  it('should parse links without a scheme', () => {
+    expect(analyzeUrl('bit.ly/3xYz')?.classes).toEqual(['shortener']);
+  });
+
+  it('should flag punycode and raw IP hosts', () => {
+    expect(analyzeUrl('https://xn--pypal-4ve.com')?.classes).toContain('punycode');
+    expect(analyzeUrl('http://198.51.100.4:8080/x')?.classes).toEqual(['ip_address']);
+  });
+
+  it('should recognize Telegram invites and bot start links', () => {
+    expect(analyzeUrl('https://t.me/+AbCdEf123')?.classes).toEqual(['telegram_invite']);
+    expect(analyzeUrl('https://t.me/SomeBot?start=promo')?.classes).toEqual(['bot_start']);
+    expect(analyzeUrl('tg://resolve?domain=SomeBot&startapp=x')?.classes).toEqual(['bot_start']);
+    expect(analyzeUrl('https://t.me/somechannel')?.classes).toEqual([]);
+  });
+
+  it('should flag domains imitating a brand', () => {
+    expect(analyzeUrl('https://teleqram.org')).toEqual(expect.objectContaining({
+      classes: ['lookalike'],
+      lookalikeOf: 'telegram',
+    }));
+    expect(analyzeUrl('https://paypal-secure-login.xyz')?.lookalikeOf).toBe('paypal');
+    expect(analyzeUrl('https://binance.account-verify.com')?.lookalikeOf).toBe('binance');
+  });
+
+  it('should not flag the brands own domains or unrelated words', () => {
+    expect(analyzeUrl('https://web.telegram.org')?.classes).toEqual([]);
+    expect(analyzeUrl('https://www.paypal.com/signin')?.classes).toEqual([]);
+    expect(analyzeUrl('https://pineapple.com')?.classes).toEqual([]);
+    expect(analyzeUrl('https://telegraph.co.uk')?.classes).toEqual([]);
+  });
+
+  it('should not mistake real sites an edit away from a brand for lookalikes', () => {
+    expect(analyzeUrl('https://finance.yahoo.com/quote/BTC-USD')?.classes).toEqual([]);
+    expect(analyzeUrl('https://paypay.ne.jp')?.classes).toEqual([]);
+    expect(analyzeUrl('https://blockchair.com/bitcoin')?.classes).toEqual([]);
+  });
+
+  it('should only compare the registered name by edit distance', () => {
+    expect(analyzeUrl('https://teleqram.example.com')?.classes).toEqual([]);
+    expect(analyzeUrl('https://login.teleqram.net')?.lookalikeOf).toBe('telegram');
+  });
+
+  it('should not flag the brands country sites', () => {
+    expect(analyzeUrl('https://www.google.de')?.classes).toEqual([]);
+    expect(analyzeUrl('https://www.amazon.co.uk/gp/cart')?.classes).toEqual([]);
+    expect(analyzeUrl('https://www.paypal.de')?.classes).toEqual([]);
+    expect(analyzeUrl('https://www.apple.com.cn')?.classes).toEqual([]);
+    expect(analyzeUrl('https://accounts.google.co.jp')?.classes).toEqual([]);
+  });
+
+  it('should still flag lookalikes under country suffixes', () => {
+    expect(analyzeUrl('https://amazon-refunds.co.uk')?.lookalikeOf).toBe('amazon');
+    expect(analyzeUrl('https://paypal.login-check.de')?.lookalikeOf).toBe('paypal');
+    expect(analyzeUrl('https://teleqram.com.cn')?.lookalikeOf).toBe('telegram');
+  });
+
+  it('should apply the operator domain lists', () => {
+    domainLists.setLists({ block: ['bad.example'], allow: ['bit.ly'] });
+
+    expect(analyzeUrl('https://cdn.bad.example/x')?.classes).toEqual(['blocklisted']);
+    expect(analyzeUrl('https://bit.ly/abc')?.classes).toEqual(['allowlisted']);
+  });
+
+  it('should return null for text that is not a URL', () => {
+    expect(analyzeUrl('http://')).toBeNull();
+  });
+});
+
+describe('analyzeUrls', () => {
+  it('should analyze each distinct link once and skip unparseable ones', () => {
+    const analyses = analyzeUrls(['bit.ly/a', 'bit.ly/a', 'http://', 'example.com']);
+
+    expect(analyses.map(analysis => analysis.url)).toEqual(['bit.ly/a', 'example.com']);
+  });
+});
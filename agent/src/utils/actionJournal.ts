@@ -0,0 +1,100 @@
+import { readJsonIfExists, writeJsonAtomic } from './jsonFile';
+import { logger } from './logger';
+
+export interface ActionRecord {
+  id: number;
+  chatId: number;
+  userId: number;
+  archived: boolean;
+  blocked: boolean;
+  historyDeleted: boolean;
+  timestamp: number;
+  undoneAt: number | null;
+}
+
+/**
+ * Every archive/block the agent performs, with what is needed to reverse it.
+ * Deleted history cannot be restored; it is recorded so callers can say so.
+ */
+export class ActionJournal {
+  private records: ActionRecord[] = [];
+  private nextId = 1;
+  private storePath: string | null = null;
+  private maxRecords: number;
+
+  constructor(maxRecords = 1000) {
+    this.maxRecords = maxRecords;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{ nextId?: number; records?: ActionRecord[] }>(filePath);
+    if (!stored) {
+      return;
+    }
+    this.records = Array.isArray(stored.records) ? stored.records.slice(-this.maxRecords) : [];
+    const lastId = this.records.length > 0 ? this.records[this.records.length - 1].id : 0;
+    this.nextId = Math.max(stored.nextId || 1, lastId + 1);
+  }
+
+  record(entry: Pick<ActionRecord, 'chatId' | 'userId' | 'archived' | 'blocked' | 'historyDeleted'>): ActionRecord {
+    const record: ActionRecord = {
+      ...entry,
+      id: this.nextId++,
+      timestamp: Math.floor(Date.now() / 1000),
+      undoneAt: null,
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records = this.records.slice(-this.maxRecords);
+    }
+
+    this.save();
+    return { ...record };
+  }
+
+  get(id: number): ActionRecord | undefined {
+    const record = this.records.find(r => r.id === id);
+    return record ? { ...record } : undefined;
+  }
+
+  markUndone(id: number): ActionRecord | undefined {
+    const record = this.records.find(r => r.id === id);
+    if (!record) {
+      return undefined;
+    }
+
+    record.undoneAt = Math.floor(Date.now() / 1000);
+    this.save();
+    return { ...record };
+  }
+
+  /** Whether an action was ever taken on the chat, including undone ones */
+  hasChat(chatId: number): boolean {
+    return this.records.some(record => record.chatId === chatId);
+  }
+
+  getRecent(limit = 50): ActionRecord[] {
+    return this.records.slice(-limit).reverse().map(record => ({ ...record }));
+  }
+
+  /**
+   * Best effort: the action already happened in Telegram, so a failed write is logged
+   * and the record stays in memory, where it can still be undone until a restart
+   */
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      writeJsonAtomic(this.storePath, { nextId: this.nextId, records: this.records });
+    } catch (error) {
+      logger.warn({ error, storePath: this.storePath }, 'Failed to persist action journal');
+    }
+  }
+}
+
+export const actionJournal = new ActionJournal();
@@ -0,0 +1,102 @@
+import type { AttachmentRiskTable } from '../config';
+import type { DocumentInfo } from './messageContent';
+
+export type AttachmentRisk =
+  | 'executable'
+  | 'android_package'
+  | 'macro_document'
+  | 'disk_image'
+  | 'double_extension'
+  | 'protected_archive'
+  | 'mime_mismatch';
+
+export interface AttachmentAnalysis {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  /** Last extension of the name, lowercase and without the dot; empty when there is none */
+  extension: string;
+  risks: AttachmentRisk[];
+}
+
+// Table categories that are risky on their own; archives only count with a password hint
+const CATEGORY_RISKS: Array<[keyof AttachmentRiskTable, AttachmentRisk]> = [
+  ['executable', 'executable'],
+  ['androidPackage', 'android_package'],
+  ['macroDocument', 'macro_document'],
+  ['diskImage', 'disk_image'],
+];
+
+// Declared types that mean the file runs when opened, whatever it is called
+const RUNNABLE_MIME_TYPES: Record<string, 'executable' | 'androidPackage'> = {
+  'application/x-msdownload': 'executable',
+  'application/x-dosexec': 'executable',
+  'application/x-msdos-program': 'executable',
+  'application/vnd.microsoft.portable-executable': 'executable',
+  'application/x-ms-installer': 'executable',
+  'application/x-msi': 'executable',
+  'application/x-executable': 'executable',
+  'application/java-archive': 'executable',
+  'application/hta': 'executable',
+  'application/vnd.android.package-archive': 'androidPackage',
+};
+
+// Bidi controls flip how the name renders: "invoice<U+202E>fdp.exe" shows as "invoiceexe.pdf"
+const BIDI_CONTROLS = /[\u202a-\u202e\u2066-\u2069]/;
+
+// The archive password usually comes in the caption ("pass: 1234") or the name itself
+const PASSWORD_HINT = /\bpass(?:word|wd|code)?\b|\bpwd\b|\bpw\s*[:=]|парол/i;
+
+function isMediaMimeType(mimeType: string): boolean {
+  return /^(image|video|audio)\//.test(mimeType) || mimeType === 'application/pdf';
+}
+
+/**
+ * Extensions after the first dot, lowercase. Trailing dots and spaces are dropped
+ * because Windows drops them too, and padding before the extension is trimmed.
+ */
+function extensionsOf(fileName: string): string[] {
+  const name = fileName.toLowerCase().replace(/[\s.]+$/, '');
+  return name.split('.').slice(1).map(part => part.trim());
+}
+
+/**
+ * Judge a sent file by its name, declared MIME type and size alone. `caption` is
+ * searched for an archive password.
+ */
+export function analyzeAttachment(
+  document: DocumentInfo,
+  caption: string,
+  table: AttachmentRiskTable
+): AttachmentAnalysis {
+  const extensions = extensionsOf(document.fileName);
+  const extension = extensions[extensions.length - 1] || '';
+  const mimeType = document.mimeType.toLowerCase();
+  const risks: AttachmentRisk[] = [];
+
+  for (const [category, risk] of CATEGORY_RISKS) {
+    if (table[category].includes(extension)) {
+      risks.push(risk);
+    }
+  }
+
+  // Archives are left out: zipping "photo.jpg" gives "photo.jpg.zip" honestly
+  const decoy = extensions[extensions.length - 2];
+  if ((decoy !== undefined && table.decoy.includes(decoy) && risks.length > 0) || BIDI_CONTROLS.test(document.fileName)) {
+    risks.push('double_extension');
+  }
+
+  // Word boundaries around "pass" also need to hold in names like "docs_password.zip"
+  const spacedName = document.fileName.replace(/[_\-.]+/g, ' ');
+  if (table.archive.includes(extension) && (PASSWORD_HINT.test(caption) || PASSWORD_HINT.test(spacedName))) {
+    risks.push('protected_archive');
+  }
+
+  const declared = RUNNABLE_MIME_TYPES[mimeType];
+  const runnableName = table.executable.includes(extension) || table.androidPackage.includes(extension);
+  if ((declared && !table[declared].includes(extension)) || (runnableName && isMediaMimeType(mimeType))) {
+    risks.push('mime_mismatch');
+  }
+
+  return { fileName: document.fileName, mimeType: document.mimeType, size: document.size, extension, risks };
+}
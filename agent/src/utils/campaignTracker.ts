@@ -0,0 +1,136 @@
+import { config } from '../config';
+import { normalizeText } from './heuristics';
+
+export interface CampaignMember {
+  chatId: number;
+  userId: number;
+  messageId: number;
+}
+
+interface TrackedMessage extends CampaignMember {
+  /** Seconds since epoch, when the agent saw the message */
+  seenAt: number;
+  /** Normalized text, null when too short to compare */
+  fingerprint: string | null;
+  /** Sender had no history with the agent when the message arrived */
+  newSender: boolean;
+}
+
+// Greetings like "hi" or "hello there" are identical across unrelated chats
+const MIN_FINGERPRINT_LENGTH = 15;
+
+export function fingerprintOf(text: string): string | null {
+  const normalized = normalizeText(text);
+  return normalized.length >= MIN_FINGERPRINT_LENGTH ? normalized : null;
+}
+
+/**
+ * Sliding log of recent incoming messages across all private chats, for patterns no
+ * single message shows: floods from one sender, the same text from many new senders,
+ * and sudden waves of first contacts. Windows and thresholds come from `config.campaign`.
+ */
+export class CampaignTracker {
+  private messages: TrackedMessage[] = [];
+  private maxMessages: number;
+
+  constructor(maxMessages = 5000) {
+    this.maxMessages = maxMessages;
+  }
+
+  /**
+   * Log a message. When it is the one that makes a cluster of identical texts big
+   * enough to count as a campaign, the earlier members are returned so they can be
+   * re-scored; otherwise the result is empty.
+   */
+  record(
+    member: CampaignMember & { text: string; newSender: boolean },
+    seenAt = Math.floor(Date.now() / 1000)
+  ): CampaignMember[] {
+    this.prune(seenAt);
+
+    const fingerprint = fingerprintOf(member.text);
+    const before = fingerprint ? this.clusterSenders(fingerprint, seenAt).size : 0;
+
+    this.messages.push({
+      chatId: member.chatId,
+      userId: member.userId,
+      messageId: member.messageId,
+      seenAt,
+      fingerprint,
+      newSender: member.newSender,
+    });
+    if (this.messages.length > this.maxMessages) {
+      this.messages.shift();
+    }
+
+    if (!fingerprint) {
+      return [];
+    }
+    const senders = this.clusterSenders(fingerprint, seenAt);
+    if (before >= config.campaign.clusterSenders || senders.size < config.campaign.clusterSenders) {
+      return [];
+    }
+
+    return this.inWindow(config.campaign.clusterWindowSeconds, seenAt)
+      .filter(tracked => tracked.fingerprint === fingerprint && tracked.newSender && tracked.chatId !== member.chatId)
+      .map(({ chatId, userId, messageId }) => ({ chatId, userId, messageId }));
+  }
+
+  /**
+   * Messages from the sender within the burst window
+   */
+  senderBurst(userId: number, now = Math.floor(Date.now() / 1000)): number {
+    return this.inWindow(config.campaign.burstWindowSeconds, now).filter(tracked => tracked.userId === userId).length;
+  }
+
+  /**
+   * Distinct new senders who sent this text within the cluster window
+   */
+  clusterSize(text: string, now = Math.floor(Date.now() / 1000)): number {
+    const fingerprint = fingerprintOf(text);
+    return fingerprint ? this.clusterSenders(fingerprint, now).size : 0;
+  }
+
+  /**
+   * Distinct chats that started with a new sender within the first-contact window
+   */
+  firstContacts(now = Math.floor(Date.now() / 1000)): number {
+    return new Set(
+      this.inWindow(config.campaign.firstContactWindowSeconds, now)
+        .filter(tracked => tracked.newSender)
+        .map(tracked => tracked.chatId)
+    ).size;
+  }
+
+  isFirstContact(chatId: number, now = Math.floor(Date.now() / 1000)): boolean {
+    return this.inWindow(config.campaign.firstContactWindowSeconds, now)
+      .some(tracked => tracked.chatId === chatId && tracked.newSender);
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+
+  private clusterSenders(fingerprint: string, now: number): Set<number> {
+    return new Set(
+      this.inWindow(config.campaign.clusterWindowSeconds, now)
+        .filter(tracked => tracked.fingerprint === fingerprint && tracked.newSender)
+        .map(tracked => tracked.userId)
+    );
+  }
+
+  private inWindow(windowSeconds: number, now: number): TrackedMessage[] {
+    return this.messages.filter(tracked => tracked.seenAt > now - windowSeconds);
+  }
+
+  private prune(now: number): void {
+    const longest = Math.max(
+      config.campaign.burstWindowSeconds,
+      config.campaign.clusterWindowSeconds,
+      config.campaign.firstContactWindowSeconds
+    );
+    this.messages = this.messages.filter(tracked => tracked.seenAt > now - longest);
+  }
+}
+
+export const campaignTracker = new CampaignTracker();
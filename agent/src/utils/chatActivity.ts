@@ -0,0 +1,80 @@
+import { readJsonIfExists, writeJsonAtomic } from './jsonFile';
+
+export interface ChatActivity {
+  chatId: number;
+  /** Messages the account owner sent in this private chat */
+  outgoingCount: number;
+  lastOutgoingAt: number;
+}
+
+/**
+ * Private chats where the account owner has written. A chat the owner has
+ * replied in is almost never spam.
+ */
+export class ChatActivityStore {
+  private chats = new Map<number, ChatActivity>();
+  private storePath: string | null = null;
+  private maxChats: number;
+
+  constructor(maxChats = 5000) {
+    this.maxChats = maxChats;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{ chats?: ChatActivity[] }>(filePath);
+    if (!stored) {
+      return;
+    }
+    const chats = Array.isArray(stored.chats) ? stored.chats : [];
+    this.chats = new Map(
+      chats
+        .sort((a, b) => a.lastOutgoingAt - b.lastOutgoingAt)
+        .slice(-this.maxChats)
+        .map(chat => [chat.chatId, chat])
+    );
+  }
+
+  /**
+   * Count outgoing messages in a chat. `timestamp` is the message date in seconds.
+   */
+  recordOutgoing(chatId: number, timestamp = Math.floor(Date.now() / 1000), count = 1): ChatActivity {
+    const existing = this.chats.get(chatId);
+    const activity: ChatActivity = {
+      chatId,
+      outgoingCount: (existing?.outgoingCount || 0) + count,
+      lastOutgoingAt: Math.max(existing?.lastOutgoingAt || 0, timestamp),
+    };
+
+    // Re-insert so the map stays ordered by activity for eviction
+    this.chats.delete(chatId);
+    this.chats.set(chatId, activity);
+    if (this.chats.size > this.maxChats) {
+      const oldest = this.chats.keys().next().value as number;
+      this.chats.delete(oldest);
+    }
+
+    this.save();
+    return { ...activity };
+  }
+
+  get(chatId: number): ChatActivity | undefined {
+    const activity = this.chats.get(chatId);
+    return activity ? { ...activity } : undefined;
+  }
+
+  hasOwnerReplied(chatId: number): boolean {
+    return this.chats.has(chatId);
+  }
+
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonAtomic(this.storePath, { chats: [...this.chats.values()] });
+  }
+}
+
+export const chatActivity = new ChatActivityStore();
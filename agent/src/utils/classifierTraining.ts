@@ -0,0 +1,365 @@
+import { readFileSync } from 'fs';
+import type { FeedbackLabel } from './feedbackStore';
+import { extractInviteLinks, extractMentions, extractPhoneNumbers, extractUrls, normalizeText } from './heuristics';
+import { writeJsonAtomic } from './jsonFile';
+import { hashFeature, TextVector } from './spamSimilarity';
+
+export interface LabeledText {
+  text: string;
+  label: FeedbackLabel;
+}
+
+export interface ClassifierModel {
+  version: number;
+  /** Seconds since epoch */
+  trainedAt: number;
+  examples: { spam: number; notSpam: number };
+  bias: number;
+  /** Hashed feature index -> weight; only hashes are kept, never words */
+  weights: Map<number, number>;
+  /** Platt scaling applied to the raw score so outputs read as probabilities */
+  calibration: { scale: number; offset: number };
+}
+
+export interface TrainingOptions {
+  epochs?: number;
+  learningRate?: number;
+  /** L2 penalty on the weights */
+  regularization?: number;
+  /** Seed for shuffling, so the same corpus gives the same model */
+  seed?: number;
+}
+
+export interface ClassifierEvaluation {
+  /** Examples scored; ones without usable text are skipped */
+  examples: number;
+  skipped: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Mean cross-entropy of the predicted probabilities, lower is better */
+  logLoss: number;
+  /** Mean squared error of the predicted probabilities, lower is better */
+  brierScore: number;
+}
+
+interface StoredModel {
+  version: number;
+  trainedAt: number;
+  examples: { spam: number; notSpam: number };
+  bias: number;
+  weights: Array<[number, number]>;
+  calibration: { scale: number; offset: number };
+}
+
+interface Sample {
+  vector: TextVector;
+  target: number;
+}
+
+const MODEL_VERSION = 1;
+
+// Calibrating on a handful of held-out examples would fit noise; below this the raw score is used
+const MIN_CALIBRATION_EXAMPLES_PER_CLASS = 10;
+const CALIBRATION_FRACTION = 0.2;
+
+/**
+ * Words and word pairs of the normalized text, plus markers for the links,
+ * handles and phone numbers `normalizeText` strips. Returns null when the
+ * message has nothing to go on.
+ */
+export function featuresOf(text: string): TextVector | null {
+  const normalized = normalizeText(text);
+  const words = normalized ? normalized.split(' ') : [];
+
+  const features = new Set<string>(words.map(word => `w:${word}`));
+  for (let i = 0; i + 1 < words.length; i++) {
+    features.add(`b:${words[i]} ${words[i + 1]}`);
+  }
+  if (extractUrls(text).length > 0) features.add('s:url');
+  if (extractInviteLinks(text).length > 0) features.add('s:invite');
+  if (extractMentions(text).length > 0) features.add('s:mention');
+  if (extractPhoneNumbers(text).length > 0) features.add('s:phone');
+
+  if (features.size === 0) {
+    return null;
+  }
+
+  const vector: TextVector = new Map();
+  const weight = 1 / Math.sqrt(features.size);
+  features.forEach(feature => vector.set(hashFeature(feature), weight));
+  return vector;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function rawScore(bias: number, weights: Map<number, number>, vector: TextVector): number {
+  let z = bias;
+  vector.forEach((value, index) => {
+    z += (weights.get(index) || 0) * value;
+  });
+  return z;
+}
+
+// mulberry32: small seeded generator so shuffles are reproducible
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Shuffle and split examples, keeping the share of spam the same on both sides
+ */
+export function splitExamples<T extends LabeledText>(
+  examples: T[],
+  holdoutFraction: number,
+  seed = 1
+): { train: T[]; test: T[] } {
+  const random = seededRandom(seed);
+  const train: T[] = [];
+  const test: T[] = [];
+
+  for (const label of ['spam', 'not_spam'] as const) {
+    const ofLabel = shuffle(examples.filter(example => example.label === label), random);
+    const holdout = Math.round(ofLabel.length * holdoutFraction);
+    test.push(...ofLabel.slice(0, holdout));
+    train.push(...ofLabel.slice(holdout));
+  }
+
+  return { train: shuffle(train, random), test: shuffle(test, random) };
+}
+
+function toSamples(examples: LabeledText[]): Sample[] {
+  const samples: Sample[] = [];
+  for (const example of examples) {
+    const vector = featuresOf(example.text);
+    if (vector) {
+      samples.push({ vector, target: example.label === 'spam' ? 1 : 0 });
+    }
+  }
+  return samples;
+}
+
+// Logistic regression by stochastic gradient descent
+function fitLogistic(samples: Sample[], options: Required<TrainingOptions>): { bias: number; weights: Map<number, number> } {
+  const random = seededRandom(options.seed);
+  const weights = new Map<number, number>();
+  let bias = 0;
+
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    const rate = options.learningRate / (1 + epoch * 0.1);
+    for (const { vector, target } of shuffle(samples, random)) {
+      const gradient = sigmoid(rawScore(bias, weights, vector)) - target;
+      bias -= rate * gradient;
+      vector.forEach((value, index) => {
+        const weight = weights.get(index) || 0;
+        weights.set(index, weight - rate * (gradient * value + options.regularization * weight));
+      });
+    }
+  }
+
+  // Features that never mattered only bloat the stored model
+  weights.forEach((weight, index) => {
+    if (Math.abs(weight) < 1e-4) {
+      weights.delete(index);
+    }
+  });
+  return { bias, weights };
+}
+
+// Platt scaling, with Platt's smoothed targets so a small calibration set does not overfit
+function fitCalibration(scores: number[], targets: number[]): { scale: number; offset: number } {
+  const positives = targets.filter(target => target === 1).length;
+  const negatives = targets.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+
+  let scale = 1;
+  let offset = 0;
+  for (let iteration = 0; iteration < 1000; iteration++) {
+    let scaleGradient = 0;
+    let offsetGradient = 0;
+    scores.forEach((score, i) => {
+      const error = sigmoid(scale * score + offset) - (targets[i] === 1 ? high : low);
+      scaleGradient += error * score;
+      offsetGradient += error;
+    });
+    scale -= 0.5 * scaleGradient / scores.length;
+    offset -= 0.5 * offsetGradient / scores.length;
+  }
+  return { scale, offset };
+}
+
+/**
+ * Train a model on labeled texts. When there are enough examples of both classes,
+ * a held-out slice is used to calibrate the output before the final model is fit
+ * on everything. Throws when either class is missing.
+ */
+export function trainClassifier(examples: LabeledText[], options: TrainingOptions = {}): ClassifierModel {
+  const settings: Required<TrainingOptions> = {
+    epochs: options.epochs ?? 20,
+    learningRate: options.learningRate ?? 0.5,
+    regularization: options.regularization ?? 1e-4,
+    seed: options.seed ?? 1,
+  };
+
+  const spam = examples.filter(example => example.label === 'spam').length;
+  const notSpam = examples.length - spam;
+  if (spam === 0 || notSpam === 0) {
+    throw new Error('Training needs examples of both spam and not spam');
+  }
+
+  let calibration = { scale: 1, offset: 0 };
+  if (Math.round(Math.min(spam, notSpam) * CALIBRATION_FRACTION) >= MIN_CALIBRATION_EXAMPLES_PER_CLASS) {
+    const { train, test } = splitExamples(examples, CALIBRATION_FRACTION, settings.seed);
+    const partial = fitLogistic(toSamples(train), settings);
+    const held = toSamples(test);
+    calibration = fitCalibration(
+      held.map(sample => rawScore(partial.bias, partial.weights, sample.vector)),
+      held.map(sample => sample.target)
+    );
+  }
+
+  const { bias, weights } = fitLogistic(toSamples(examples), settings);
+  return {
+    version: MODEL_VERSION,
+    trainedAt: Math.floor(Date.now() / 1000),
+    examples: { spam, notSpam },
+    bias,
+    weights,
+    calibration,
+  };
+}
+
+/**
+ * Probability the text is spam, or null when it has no usable features
+ */
+export function predictProbability(model: ClassifierModel, text: string): number | null {
+  const vector = featuresOf(text);
+  if (!vector) {
+    return null;
+  }
+  const { scale, offset } = model.calibration;
+  return sigmoid(scale * rawScore(model.bias, model.weights, vector) + offset);
+}
+
+/**
+ * Score a model against labeled texts, counting probabilities of 0.5 and up as spam
+ */
+export function evaluateClassifier(model: ClassifierModel, examples: LabeledText[]): ClassifierEvaluation {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correct = 0;
+  let logLoss = 0;
+  let brierScore = 0;
+  let scored = 0;
+
+  for (const example of examples) {
+    const probability = predictProbability(model, example.text);
+    if (probability === null) {
+      continue;
+    }
+    scored++;
+
+    const isSpam = example.label === 'spam';
+    const predictedSpam = probability >= 0.5;
+    if (predictedSpam === isSpam) correct++;
+    if (predictedSpam && isSpam) truePositives++;
+    if (predictedSpam && !isSpam) falsePositives++;
+    if (!predictedSpam && isSpam) falseNegatives++;
+
+    const clamped = Math.min(1 - 1e-7, Math.max(1e-7, probability));
+    logLoss -= isSpam ? Math.log(clamped) : Math.log(1 - clamped);
+    brierScore += (probability - (isSpam ? 1 : 0)) ** 2;
+  }
+
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  return {
+    examples: scored,
+    skipped: examples.length - scored,
+    accuracy: scored > 0 ? correct / scored : 0,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    logLoss: scored > 0 ? logLoss / scored : 0,
+    brierScore: scored > 0 ? brierScore / scored : 0,
+  };
+}
+
+/**
+ * Parse a JSONL corpus of `{ "text": "...", "label": "spam" | "not_spam" }` lines.
+ * Blank lines are skipped; throws listing the first problems found.
+ */
+export function parseLabeledCorpus(content: string): LabeledText[] {
+  const examples: LabeledText[] = [];
+  const errors: string[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      errors.push(`line ${index + 1} is not valid JSON`);
+      return;
+    }
+
+    const { text, label } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof text !== 'string' || (label !== 'spam' && label !== 'not_spam')) {
+      errors.push(`line ${index + 1} needs a text and a label of spam or not_spam`);
+      return;
+    }
+    examples.push({ text, label });
+  });
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 10).join('; ');
+    const more = errors.length > 10 ? ` (and ${errors.length - 10} more)` : '';
+    throw new Error(`Invalid corpus: ${shown}${more}`);
+  }
+  return examples;
+}
+
+export function saveModel(filePath: string, model: ClassifierModel): void {
+  const stored: StoredModel = {
+    version: model.version,
+    trainedAt: model.trainedAt,
+    examples: model.examples,
+    bias: model.bias,
+    weights: [...model.weights].map(([index, weight]) => [index, Math.round(weight * 1e5) / 1e5]),
+    calibration: model.calibration,
+  };
+
+  writeJsonAtomic(filePath, stored);
+}
+
+export function loadModel(filePath: string): ClassifierModel {
+  const stored = JSON.parse(readFileSync(filePath, 'utf-8')) as StoredModel;
+  if (stored.version !== MODEL_VERSION || !Array.isArray(stored.weights) || !stored.calibration) {
+    throw new Error(`Unsupported classifier model (version ${stored.version}), retrain it`);
+  }
+  return { ...stored, weights: new Map(stored.weights) };
+}
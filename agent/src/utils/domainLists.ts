@@ -0,0 +1,128 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { logger } from './logger';
+
+export interface DomainListFile {
+  /** Domains whose links are always suspicious */
+  block: string[];
+  /** Domains whose links are ignored by the link rules */
+  allow: string[];
+}
+
+export type DomainListMatch = 'block' | 'allow';
+
+// How often to look for operator edits to the file
+const RELOAD_CHECK_INTERVAL_MS = 60 * 1000;
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*\./, '').replace(/^www\./, '').replace(/\.$/, '');
+}
+
+/**
+ * Validate the contents of a domain list file. Throws listing every problem found.
+ */
+export function validateDomainLists(raw: unknown): DomainListFile {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid domain lists: expected an object with block and allow arrays');
+  }
+
+  const errors: string[] = [];
+  const input = raw as Record<string, unknown>;
+  const lists: DomainListFile = { block: [], allow: [] };
+
+  for (const key of Object.keys(input)) {
+    if (key !== 'block' && key !== 'allow') {
+      errors.push(`unknown list "${key}"`);
+    }
+  }
+
+  for (const key of ['block', 'allow'] as const) {
+    const values = input[key] ?? [];
+    if (!Array.isArray(values)) {
+      errors.push(`"${key}" must be an array`);
+      continue;
+    }
+    values.forEach((value, index) => {
+      const domain = typeof value === 'string' ? normalizeDomain(value) : '';
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+        errors.push(`${key}[${index}] must be a domain name`);
+      } else {
+        lists[key].push(domain);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid domain lists: ${errors.join('; ')}`);
+  }
+  return lists;
+}
+
+/**
+ * Operator-maintained domain blocklist and allowlist, read from a JSON file and
+ * reloaded when the file changes. An entry covers the domain and its subdomains;
+ * the allowlist wins when both match.
+ */
+export class DomainLists {
+  private lists: DomainListFile = { block: [], allow: [] };
+  private filePath: string | null = null;
+  private loadedMtimeMs = 0;
+  private lastCheckAt = 0;
+
+  attachFile(filePath: string): void {
+    this.filePath = filePath;
+    this.lastCheckAt = Date.now();
+    this.load();
+  }
+
+  setLists(lists: DomainListFile): void {
+    this.lists = validateDomainLists(lists);
+  }
+
+  getLists(): DomainListFile {
+    this.reloadIfChanged();
+    return { block: [...this.lists.block], allow: [...this.lists.allow] };
+  }
+
+  match(host: string): DomainListMatch | null {
+    this.reloadIfChanged();
+
+    const domain = normalizeDomain(host);
+    const covers = (entry: string) => domain === entry || domain.endsWith(`.${entry}`);
+    if (this.lists.allow.some(covers)) {
+      return 'allow';
+    }
+    return this.lists.block.some(covers) ? 'block' : null;
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      this.lists = { block: [], allow: [] };
+      this.loadedMtimeMs = 0;
+      return;
+    }
+
+    this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+    this.lists = validateDomainLists(JSON.parse(readFileSync(this.filePath, 'utf-8')));
+  }
+
+  private reloadIfChanged(): void {
+    if (!this.filePath || Date.now() - this.lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheckAt = Date.now();
+
+    const mtimeMs = existsSync(this.filePath) ? statSync(this.filePath).mtimeMs : 0;
+    if (mtimeMs !== this.loadedMtimeMs) {
+      // A broken edit keeps the previous lists until the file is fixed
+      try {
+        this.load();
+        logger.info({ filePath: this.filePath }, 'Domain lists reloaded');
+      } catch (error) {
+        this.loadedMtimeMs = mtimeMs;
+        logger.warn({ error, filePath: this.filePath }, 'Could not reload domain lists, keeping the previous ones');
+      }
+    }
+  }
+}
+
+export const domainLists = new DomainLists();
@@ -0,0 +1,87 @@
+import { DebouncedSave, readJsonIfExists, writeJsonAtomic } from './jsonFile';
+import { logger } from './logger';
+
+export interface AgentEvent {
+  id: number;
+  type: string;
+  timestamp: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Outbox of agent events (list hits, detections, actions) for the orchestrator to poll.
+ * Ids increase monotonically across restarts so the orchestrator can resume from its cursor.
+ */
+export class EventLog {
+  private events: AgentEvent[] = [];
+  private nextId = 1;
+  private storePath: string | null = null;
+  private pendingSave = new DebouncedSave(() => this.save());
+  private maxEvents: number;
+
+  constructor(maxEvents = 1000) {
+    this.maxEvents = maxEvents;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{ nextId?: number; events?: AgentEvent[] }>(filePath);
+    if (!stored) {
+      return;
+    }
+    this.events = Array.isArray(stored.events) ? stored.events.slice(-this.maxEvents) : [];
+    const lastId = this.events.length > 0 ? this.events[this.events.length - 1].id : 0;
+    this.nextId = Math.max(stored.nextId || 1, lastId + 1);
+  }
+
+  record(type: string, data: Record<string, unknown>): AgentEvent {
+    const event: AgentEvent = {
+      id: this.nextId++,
+      type,
+      timestamp: Math.floor(Date.now() / 1000),
+      data,
+    };
+
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events = this.events.slice(-this.maxEvents);
+    }
+
+    this.pendingSave.schedule();
+    return event;
+  }
+
+  getEventsAfter(afterId: number, limit = 100): AgentEvent[] {
+    return this.events.filter(event => event.id > afterId).slice(0, limit);
+  }
+
+  getLastId(): number {
+    return this.nextId - 1;
+  }
+
+  /**
+   * Write changes still waiting for the debounced save, e.g. on shutdown
+   */
+  flush(): void {
+    this.pendingSave.flush();
+  }
+
+  /**
+   * Best effort: a failed write is logged and the events are still served from memory
+   * until the next save
+   */
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      writeJsonAtomic(this.storePath, { nextId: this.nextId, events: this.events });
+    } catch (error) {
+      logger.warn({ error, storePath: this.storePath }, 'Failed to persist event log');
+    }
+  }
+}
+
+export const eventLog = new EventLog();
@@ -0,0 +1,109 @@
+import type { DetectionReason } from '../rules/ruleEngine';
+import { readJsonIfExists, writeJsonAtomic } from './jsonFile';
+
+export type FeedbackLabel = 'spam' | 'not_spam';
+
+export interface PendingReview {
+  eventId: number;
+  chatId: number;
+  userId: number;
+  text: string;
+  score: number;
+  reasons: DetectionReason[];
+  /** Perceptual hashes of the photos in the detection, if any */
+  imageHashes?: string[];
+  timestamp: number;
+}
+
+export interface LabeledExample extends PendingReview {
+  label: FeedbackLabel;
+  labeledAt: number;
+}
+
+/**
+ * Detections awaiting the user's verdict and the labeled examples they turn into.
+ * Full message text stays here in the agent's volume; the orchestrator only sees a redacted snippet.
+ */
+export class FeedbackStore {
+  private pending: PendingReview[] = [];
+  private labeled: LabeledExample[] = [];
+  private storePath: string | null = null;
+  private maxPending: number;
+  private maxLabeled: number;
+
+  constructor(maxPending = 500, maxLabeled = 5000) {
+    this.maxPending = maxPending;
+    this.maxLabeled = maxLabeled;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{
+      pending?: PendingReview[];
+      labeled?: LabeledExample[];
+    }>(filePath);
+    if (!stored) {
+      return;
+    }
+    this.pending = Array.isArray(stored.pending) ? stored.pending.slice(-this.maxPending) : [];
+    this.labeled = Array.isArray(stored.labeled) ? stored.labeled.slice(-this.maxLabeled) : [];
+  }
+
+  addPending(review: Omit<PendingReview, 'timestamp'>): void {
+    this.pending.push({ ...review, timestamp: Math.floor(Date.now() / 1000) });
+    if (this.pending.length > this.maxPending) {
+      this.pending = this.pending.slice(-this.maxPending);
+    }
+    this.save();
+  }
+
+  /**
+   * Label a detection by its event id. A second answer for the same event replaces the first.
+   * Returns null when the detection is unknown or has aged out of the pending queue.
+   */
+  recordLabel(eventId: number, label: FeedbackLabel): LabeledExample | null {
+    const labeledAt = Math.floor(Date.now() / 1000);
+
+    const existing = this.labeled.find(example => example.eventId === eventId);
+    if (existing) {
+      existing.label = label;
+      existing.labeledAt = labeledAt;
+      this.save();
+      return { ...existing };
+    }
+
+    const index = this.pending.findIndex(review => review.eventId === eventId);
+    if (index === -1) {
+      return null;
+    }
+
+    const [review] = this.pending.splice(index, 1);
+    const example: LabeledExample = { ...review, label, labeledAt };
+    this.labeled.push(example);
+    if (this.labeled.length > this.maxLabeled) {
+      this.labeled = this.labeled.slice(-this.maxLabeled);
+    }
+
+    this.save();
+    return { ...example };
+  }
+
+  getPending(): PendingReview[] {
+    return [...this.pending];
+  }
+
+  getLabeledExamples(): LabeledExample[] {
+    return [...this.labeled];
+  }
+
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonAtomic(this.storePath, { pending: this.pending, labeled: this.labeled });
+  }
+}
+
+export const feedbackStore = new FeedbackStore();
@@ -1,21 +1,83 @@
-export function looksSpam(text: string): boolean {
-  if (!text) return false;
-  // URL or t.me link
-  const hasLink = /\bhttps?:\/\/|t\.me\//i.test(text);
-  // Mention or handle
-  const hasHandle = /@[a-z0-9_]{3,}/i.test(text);
-  // Phone patterns
-  const hasPhone = /\+?\d[\d\s().-]{7,}/.test(text);
-  return hasLink || hasHandle || hasPhone;
+import { deobfuscate } from './textNormalization';
+
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"']+|\b(?:t|telegram)\.me\/[^\s<>"']+/gi;
+const INVITE_PATTERN = /(?:t|telegram)\.me\/(?:\+|joinchat\/)/i;
+// Not preceded by a word character, so email addresses are not mentions
+const MENTION_PATTERN = /(?<![\w.])@([a-z0-9_]{3,32})\b/gi;
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{6,}\d/g;
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// Extractors match against the deobfuscated text, so they report what the reader sees
+function extractLinks(text: string): string[] {
+  if (!text) return [];
+  // Trailing punctuation usually ends the sentence, not the link
+  return (deobfuscate(text).text.match(LINK_PATTERN) || []).map(link => link.replace(/[.,!?;:)\]]+$/, ''));
+}
+
+/**
+ * Whether a link is a t.me invite to a private group or channel (t.me/+..., t.me/joinchat/...)
+ */
+export function isInviteLink(link: string): boolean {
+  return INVITE_PATTERN.test(link);
+}
+
+/**
+ * Web links, including public t.me links; invite links are reported by `extractInviteLinks`
+ */
+export function extractUrls(text: string): string[] {
+  return unique(extractLinks(text).filter(link => !isInviteLink(link)));
+}
+
+export function extractInviteLinks(text: string): string[] {
+  return unique(extractLinks(text).filter(isInviteLink));
+}
+
+export function extractMentions(text: string): string[] {
+  if (!text) return [];
+  return unique([...deobfuscate(text).text.matchAll(MENTION_PATTERN)].map(match => `@${match[1].toLowerCase()}`));
+}
+
+export function extractPhoneNumbers(text: string): string[] {
+  if (!text) return [];
+  return unique((deobfuscate(text).text.match(PHONE_PATTERN) || [])
+    .map(phone => phone.trim())
+    .filter(phone => {
+      const digits = phone.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15;
+    }));
 }
 
+/**
+ * Lowercased words only, for comparing messages: look-alike letters are folded,
+ * links, numbers and punctuation dropped. Letters of any script are kept.
+ */
 export function normalizeText(text: string): string {
-  return text
+  return deobfuscate(text).text
     .toLowerCase()
     .replace(/https?:\/\/[\w./%-]+/gi, '')
     .replace(/t\.me\/[\w_/.-]+/gi, '')
     .replace(/\+?\d[\d\s().-]{7,}/g, '')
-    .replace(/[^a-z\s]/g, ' ')
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Short preview of a message for the review queue, with links, handles and
+ * phone numbers masked so the orchestrator never stores them
+ */
+export function redactSnippet(text: string, maxLength = 80): string {
+  if (!text) return '';
+  // Mask obfuscated links and numbers too
+  const redacted = deobfuscate(text).text
+    .replace(/\bhttps?:\/\/\S+/gi, '[link]')
+    .replace(/\bt\.me\/\S+/gi, '[link]')
+    .replace(/@[a-z0-9_]{3,}/gi, '[handle]')
+    .replace(/\+?\d[\d\s().-]{7,}\d/g, '[phone]')
     .replace(/\s+/g, ' ')
     .trim();
+  return redacted.length > maxLength ? `${redacted.slice(0, maxLength - 1)}…` : redacted;
 }
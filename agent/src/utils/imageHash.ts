@@ -0,0 +1,531 @@
+import { readJsonIfExists, writeJsonAtomic } from './jsonFile';
+
+/** Grayscale image, row-major, one brightness value (0..255) per pixel */
+export interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Float64Array;
+}
+
+interface HuffmanTable {
+  /** (code length << 16 | code) -> symbol */
+  codes: Map<number, number>;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantId: number;
+  /** Blocks per line and column of the full MCU grid */
+  blocksX: number;
+  blocksY: number;
+  /** DC coefficient of every block */
+  dc: Float64Array;
+}
+
+interface Frame {
+  /** Progressive (SOF2) rather than sequential */
+  progressive: boolean;
+  width: number;
+  height: number;
+  hMax: number;
+  vMax: number;
+  mcusX: number;
+  mcusY: number;
+  components: FrameComponent[];
+}
+
+// Thumbnails smaller than this many blocks a side carry too little detail to compare
+const MIN_BLOCKS = 6;
+// A near-uniform image hashes to all zeros and would match every other one
+const MIN_BRIGHTNESS_SPREAD = 2;
+
+class BitReader {
+  private buffer = 0;
+  private bits = 0;
+
+  constructor(private data: Uint8Array, public pos: number) {}
+
+  readBit(): number {
+    if (this.bits === 0) {
+      let byte = 0;
+      if (this.pos < this.data.length) {
+        byte = this.data[this.pos];
+        if (byte === 0xff && this.data[this.pos + 1] === 0x00) {
+          this.pos += 2;
+        } else if (byte === 0xff) {
+          // A marker ends the data; pad with zeros rather than read into it
+          byte = 0;
+        } else {
+          this.pos++;
+        }
+      }
+      this.buffer = byte;
+      this.bits = 8;
+    }
+    this.bits--;
+    return (this.buffer >> this.bits) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      const symbol = table.codes.get((length << 16) | code);
+      if (symbol !== undefined) {
+        return symbol;
+      }
+    }
+    throw new Error('Invalid Huffman code');
+  }
+
+  /** Skip to just past the next restart marker */
+  restart(): void {
+    this.bits = 0;
+    while (this.pos + 1 < this.data.length
+      && !(this.data[this.pos] === 0xff && this.data[this.pos + 1] >= 0xd0 && this.data[this.pos + 1] <= 0xd7)) {
+      this.pos++;
+    }
+    this.pos += 2;
+  }
+}
+
+function extend(value: number, length: number): number {
+  return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+function parseFrame(segment: Uint8Array, progressive: boolean): Frame {
+  const height = (segment[1] << 8) | segment[2];
+  const width = (segment[3] << 8) | segment[4];
+  const count = segment[5];
+  if (width === 0 || height === 0 || count === 0) {
+    throw new Error('Invalid frame');
+  }
+
+  const specs = Array.from({ length: count }, (_, i) => ({
+    id: segment[6 + i * 3],
+    h: segment[7 + i * 3] >> 4,
+    v: segment[7 + i * 3] & 0x0f,
+    quantId: segment[8 + i * 3],
+  }));
+  const hMax = Math.max(...specs.map(spec => spec.h));
+  const vMax = Math.max(...specs.map(spec => spec.v));
+  const mcusX = Math.ceil(width / (8 * hMax));
+  const mcusY = Math.ceil(height / (8 * vMax));
+
+  return {
+    progressive,
+    width,
+    height,
+    hMax,
+    vMax,
+    mcusX,
+    mcusY,
+    components: specs.map(spec => ({
+      ...spec,
+      blocksX: mcusX * spec.h,
+      blocksY: mcusY * spec.v,
+      dc: new Float64Array(mcusX * spec.h * mcusY * spec.v),
+    })),
+  };
+}
+
+function parseHuffmanTables(segment: Uint8Array, dcTables: Map<number, HuffmanTable>, acTables: Map<number, HuffmanTable>): void {
+  let offset = 0;
+  while (offset < segment.length) {
+    const tableClass = segment[offset] >> 4;
+    const tableId = segment[offset] & 0x0f;
+    const counts = segment.subarray(offset + 1, offset + 17);
+    offset += 17;
+
+    const codes = new Map<number, number>();
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      for (let i = 0; i < counts[length - 1]; i++) {
+        codes.set((length << 16) | code, segment[offset++]);
+        code++;
+      }
+      code <<= 1;
+    }
+    (tableClass === 0 ? dcTables : acTables).set(tableId, { codes });
+  }
+}
+
+function parseQuantTables(segment: Uint8Array, dcQuant: Map<number, number>): void {
+  let offset = 0;
+  while (offset < segment.length) {
+    const wide = segment[offset] >> 4 === 1;
+    const tableId = segment[offset] & 0x0f;
+    // Only the first (DC) entry matters here
+    dcQuant.set(tableId, wide ? (segment[offset + 1] << 8) | segment[offset + 2] : segment[offset + 1]);
+    offset += 1 + (wide ? 128 : 64);
+  }
+}
+
+function componentBlocks(frame: Frame, component: FrameComponent): { blocksX: number; blocksY: number } {
+  return {
+    blocksX: Math.ceil(Math.ceil((frame.width * component.h) / frame.hMax) / 8),
+    blocksY: Math.ceil(Math.ceil((frame.height * component.v) / frame.vMax) / 8),
+  };
+}
+
+/**
+ * Whether a scan carries the DC coefficients: every scan of a sequential file, and the
+ * first DC scan of a progressive one. Later progressive scans add AC coefficients or
+ * the low bits of the DC, which block averages do without.
+ */
+function carriesDc(frame: Frame, header: Uint8Array): boolean {
+  const spectral = 1 + header[0] * 2;
+  return !frame.progressive || (header[spectral] === 0 && header[spectral + 2] >> 4 === 0);
+}
+
+// Where the entropy-coded data starting at `pos` ends: the first marker that is not a restart
+function scanEnd(data: Uint8Array, pos: number): number {
+  while (pos + 1 < data.length && !(data[pos] === 0xff && data[pos + 1] !== 0x00 && (data[pos + 1] < 0xd0 || data[pos + 1] > 0xd7))) {
+    pos++;
+  }
+  return pos;
+}
+
+// Decodes one scan, keeping only DC coefficients; returns where the scan data ends
+function decodeScan(
+  data: Uint8Array,
+  start: number,
+  header: Uint8Array,
+  frame: Frame,
+  dcTables: Map<number, HuffmanTable>,
+  acTables: Map<number, HuffmanTable>,
+  restartInterval: number
+): number {
+  const scanComponents = Array.from({ length: header[0] }, (_, i) => {
+    const component = frame.components.find(candidate => candidate.id === header[1 + i * 2]);
+    const dcTable = dcTables.get(header[2 + i * 2] >> 4);
+    const acTable = acTables.get(header[2 + i * 2] & 0x0f);
+    // Progressive DC scans carry no AC coefficients and need no AC table
+    if (!component || !dcTable || (!acTable && !frame.progressive)) {
+      throw new Error('Scan refers to an unknown component or table');
+    }
+    return { component, dcTable, acTable, predictor: 0 };
+  });
+  // A progressive DC scan holds the coefficients shifted right by this many bits
+  const pointTransform = header[1 + header[0] * 2 + 2] & 0x0f;
+
+  const reader = new BitReader(data, start);
+  const decodeBlock = (scanComponent: typeof scanComponents[number], row: number, col: number) => {
+    const length = reader.decode(scanComponent.dcTable);
+    scanComponent.predictor += length === 0 ? 0 : extend(reader.receive(length), length);
+    const { component } = scanComponent;
+    if (row < component.blocksY && col < component.blocksX) {
+      component.dc[row * component.blocksX + col] = scanComponent.predictor * (1 << pointTransform);
+    }
+    if (!scanComponent.acTable || frame.progressive) {
+      return;
+    }
+
+    // AC coefficients are skipped, but must be read to stay in step with the bitstream
+    for (let k = 1; k < 64; k++) {
+      const symbol = reader.decode(scanComponent.acTable);
+      const run = symbol >> 4;
+      const size = symbol & 0x0f;
+      if (size === 0) {
+        if (run !== 15) {
+          break;
+        }
+        k += 15;
+      } else {
+        k += run;
+        reader.receive(size);
+      }
+    }
+  };
+
+  const single = scanComponents.length === 1;
+  const { blocksX, blocksY } = single
+    ? componentBlocks(frame, scanComponents[0].component)
+    : { blocksX: frame.mcusX, blocksY: frame.mcusY };
+  const units = blocksX * blocksY;
+
+  for (let n = 0; n < units; n++) {
+    if (restartInterval > 0 && n > 0 && n % restartInterval === 0) {
+      reader.restart();
+      scanComponents.forEach(scanComponent => { scanComponent.predictor = 0; });
+    }
+
+    const row = Math.floor(n / blocksX);
+    const col = n % blocksX;
+    if (single) {
+      decodeBlock(scanComponents[0], row, col);
+      continue;
+    }
+    for (const scanComponent of scanComponents) {
+      for (let v = 0; v < scanComponent.component.v; v++) {
+        for (let h = 0; h < scanComponent.component.h; h++) {
+          decodeBlock(scanComponent, row * scanComponent.component.v + v, col * scanComponent.component.h + h);
+        }
+      }
+    }
+  }
+
+  return scanEnd(data, reader.pos);
+}
+
+/**
+ * Average brightness of each 8×8 block of a baseline or progressive JPEG, read
+ * from the DC coefficients of its first (luma) component. That is all a perceptual
+ * hash needs, so the full inverse DCT and color conversion are skipped. Returns
+ * null for lossless, hierarchical or arithmetic-coded files and for broken data.
+ */
+export function decodeJpegBlockAverages(data: Uint8Array): GrayImage | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  const dcTables = new Map<number, HuffmanTable>();
+  const acTables = new Map<number, HuffmanTable>();
+  const dcQuant = new Map<number, number>();
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let scanned = false;
+
+  try {
+    let pos = 2;
+    while (pos + 4 <= data.length) {
+      if (data[pos] !== 0xff) {
+        pos++;
+        continue;
+      }
+      const marker = data[pos + 1];
+      if (marker === 0xd9) {
+        break;
+      }
+      if (marker === 0xff || marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+        pos += marker === 0xff ? 1 : 2;
+        continue;
+      }
+
+      const length = (data[pos + 2] << 8) | data[pos + 3];
+      const segment = data.subarray(pos + 4, pos + 2 + length);
+      const next = pos + 2 + length;
+
+      if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+        frame = parseFrame(segment, marker === 0xc2);
+      } else if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return null;
+      } else if (marker === 0xc4) {
+        parseHuffmanTables(segment, dcTables, acTables);
+      } else if (marker === 0xdb) {
+        parseQuantTables(segment, dcQuant);
+      } else if (marker === 0xdd) {
+        restartInterval = (segment[0] << 8) | segment[1];
+      } else if (marker === 0xda) {
+        if (!frame) {
+          return null;
+        }
+        if (carriesDc(frame, segment)) {
+          pos = decodeScan(data, next, segment, frame, dcTables, acTables, restartInterval);
+          scanned = true;
+        } else {
+          pos = scanEnd(data, next);
+        }
+        continue;
+      }
+      pos = next;
+    }
+  } catch {
+    return null;
+  }
+
+  if (!frame || !scanned) {
+    return null;
+  }
+
+  const luma = frame.components[0];
+  const { blocksX, blocksY } = componentBlocks(frame, luma);
+  const quant = dcQuant.get(luma.quantId) ?? 1;
+  const pixels = new Float64Array(blocksX * blocksY);
+  for (let row = 0; row < blocksY; row++) {
+    for (let col = 0; col < blocksX; col++) {
+      // The DC coefficient is eight times the block's mean, level-shifted by 128
+      pixels[row * blocksX + col] = (luma.dc[row * luma.blocksX + col] * quant) / 8 + 128;
+    }
+  }
+  return { width: blocksX, height: blocksY, pixels };
+}
+
+// Mean of the source pixels under each target cell
+function resize(image: GrayImage, width: number, height: number): Float64Array {
+  const result = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const left = (x * image.width) / width;
+      const right = ((x + 1) * image.width) / width;
+      const top = (y * image.height) / height;
+      const bottom = ((y + 1) * image.height) / height;
+
+      let sum = 0;
+      let area = 0;
+      for (let sy = Math.floor(top); sy < Math.ceil(bottom); sy++) {
+        const overlapY = Math.min(bottom, sy + 1) - Math.max(top, sy);
+        for (let sx = Math.floor(left); sx < Math.ceil(right); sx++) {
+          const overlap = overlapY * (Math.min(right, sx + 1) - Math.max(left, sx));
+          sum += image.pixels[sy * image.width + sx] * overlap;
+          area += overlap;
+        }
+      }
+      result[y * width + x] = sum / area;
+    }
+  }
+  return result;
+}
+
+/**
+ * 64-bit difference hash as 16 hex digits: each bit says whether brightness
+ * rises from one cell to the next in a 9×8 shrink of the image. Robust to
+ * rescaling, recompression and small brightness changes.
+ */
+export function differenceHash(image: GrayImage): string {
+  const grid = resize(image, 9, 8);
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (grid[y * 9 + x] < grid[y * 9 + x + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let bits = parseInt(a[i] || '0', 16) ^ parseInt(b[i] || '0', 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Perceptual hash of a JPEG, or null when it cannot be read or has too little
+ * detail to tell apart from other images
+ */
+export function hashJpeg(data: Uint8Array): string | null {
+  const image = decodeJpegBlockAverages(data);
+  if (!image || image.width < MIN_BLOCKS || image.height < MIN_BLOCKS) {
+    return null;
+  }
+
+  const values = [...image.pixels];
+  if (Math.max(...values) - Math.min(...values) < MIN_BRIGHTNESS_SPREAD) {
+    return null;
+  }
+  return differenceHash(image);
+}
+
+export interface ImageMatch {
+  /** Event id of the confirmed spam detection that matched */
+  eventId: number;
+  /** Differing hash bits, out of 64 */
+  distance: number;
+}
+
+interface StoredImage {
+  eventId: number;
+  hash: string;
+  addedAt: number;
+}
+
+/**
+ * Perceptual hashes of photos the user confirmed as spam. Only hashes are
+ * persisted, never the images.
+ */
+export class SpamImageIndex {
+  private entries: StoredImage[] = [];
+  private storePath: string | null = null;
+  private maxEntries: number;
+
+  constructor(maxEntries = 2000) {
+    this.maxEntries = maxEntries;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{ entries?: StoredImage[] }>(filePath);
+    if (!stored) {
+      return;
+    }
+    this.entries = (Array.isArray(stored.entries) ? stored.entries : [])
+      .filter(entry => typeof entry.hash === 'string' && /^[0-9a-f]{16}$/.test(entry.hash))
+      .slice(-this.maxEntries);
+  }
+
+  /**
+   * Add a hash from a confirmed spam detection. Returns false when it is already indexed.
+   */
+  add(eventId: number, hash: string): boolean {
+    if (this.entries.some(entry => entry.eventId === eventId && entry.hash === hash)) {
+      return false;
+    }
+
+    this.entries.push({ eventId, hash, addedAt: Math.floor(Date.now() / 1000) });
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Forget a detection's images, e.g. after the user relabels it as not spam
+   */
+  remove(eventId: number): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.eventId !== eventId);
+    if (this.entries.length === before) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Closest confirmed spam image within the distance, or null
+   */
+  findMatch(hash: string, maxDistance: number): ImageMatch | null {
+    let best: ImageMatch | null = null;
+    for (const entry of this.entries) {
+      const distance = hammingDistance(hash, entry.hash);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { eventId: entry.eventId, distance };
+      }
+    }
+    return best;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonAtomic(this.storePath, { entries: this.entries });
+  }
+}
+
+export const spamImageIndex = new SpamImageIndex();
@@ -0,0 +1,60 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Write a value as JSON, creating missing directories. The data goes to a temp file
+ * that is renamed into place, so a crash never leaves a truncated file.
+ */
+export function writeJsonAtomic(filePath: string, value: unknown): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(value), 'utf-8');
+  renameSync(tmpPath, filePath);
+}
+
+/**
+ * Parsed contents of a JSON file, or undefined when there is no file yet
+ */
+export function readJsonIfExists<T>(filePath: string): T | undefined {
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Coalesces the saves of a store that changes on every message into one write per
+ * `delayMs`. Changes made since the last write are pending until the timer fires or
+ * `flush` is called, which the agent does on shutdown.
+ */
+export class DebouncedSave {
+  private timer: NodeJS.Timeout | null = null;
+  private write: () => void;
+  private delayMs: number;
+
+  constructor(write: () => void, delayMs = 1000) {
+    this.write = write;
+    this.delayMs = delayMs;
+  }
+
+  schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => this.flush(), this.delayMs);
+    // A pending save must not keep the process alive; shutdown flushes it
+    this.timer.unref();
+  }
+
+  /**
+   * Write pending changes now, if there are any
+   */
+  flush(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.write();
+  }
+}
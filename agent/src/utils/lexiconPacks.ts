@@ -0,0 +1,264 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { logger } from './logger';
+import { deobfuscate } from './textNormalization';
+
+/**
+ * A lexicon pack file: weighted terms and phrases per language. A word ending in
+ * `*` matches any word it starts, for inflected languages ("заработ*").
+ */
+export interface LexiconPackFile {
+  id: string;
+  /** Bumped whenever the terms change, so detections say which edition matched */
+  version: number;
+  name: string;
+  /** Language code → term or phrase → weight (0..1] */
+  terms: Record<string, Record<string, number>>;
+}
+
+export interface LexiconPackInfo {
+  id: string;
+  version: number;
+  name: string;
+  languages: string[];
+  termCount: number;
+}
+
+export interface LexiconMatch {
+  pack: string;
+  version: number;
+  /** Matched terms as written in the pack */
+  terms: string[];
+  /** Sum of the matched terms' weights */
+  weight: number;
+}
+
+interface CompiledTerm {
+  term: string;
+  weight: number;
+  words: Array<{ text: string; prefix: boolean }>;
+}
+
+interface CompiledPack {
+  info: LexiconPackInfo;
+  terms: CompiledTerm[];
+}
+
+// How often to look for added, removed or edited pack files
+const RELOAD_CHECK_INTERVAL_MS = 60 * 1000;
+
+const NON_WORD = /[^\p{L}\p{N}]+/u;
+
+function normalize(text: string): string {
+  return deobfuscate(text).text.toLowerCase().replace(/ё/g, 'е');
+}
+
+/**
+ * Words of a text as the packs see them: deobfuscated, lowercase, split on
+ * anything that is not a letter or digit
+ */
+export function lexiconWords(text: string): string[] {
+  return normalize(text).split(NON_WORD).filter(Boolean);
+}
+
+// A trailing "*" turns the last word of a token into a prefix
+function patternOf(term: string): CompiledTerm['words'] {
+  return normalize(term).split(/\s+/).flatMap(token => {
+    const words = token.split(NON_WORD).filter(Boolean);
+    return words.map((text, index) => ({ text, prefix: token.endsWith('*') && index === words.length - 1 }));
+  });
+}
+
+/**
+ * Validate the contents of a lexicon pack file. Throws listing every problem found.
+ */
+export function validateLexiconPack(raw: unknown): LexiconPackFile {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid lexicon pack: expected an object');
+  }
+
+  const errors: string[] = [];
+  const input = raw as Record<string, unknown>;
+
+  if (typeof input.id !== 'string' || !/^[a-z][a-z0-9_]*$/.test(input.id)) {
+    errors.push('"id" must be lowercase letters, digits and underscores');
+  }
+  if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 1) {
+    errors.push('"version" must be a positive integer');
+  }
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push('"name" must be a non-empty string');
+  }
+
+  const terms = input.terms;
+  if (typeof terms !== 'object' || terms === null || Array.isArray(terms)) {
+    errors.push('"terms" must be an object keyed by language');
+  } else {
+    for (const [language, entries] of Object.entries(terms)) {
+      if (!/^[a-z]{2,3}$/.test(language)) {
+        errors.push(`invalid language code "${language}"`);
+        continue;
+      }
+      if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+        errors.push(`"terms.${language}" must map terms to weights`);
+        continue;
+      }
+      for (const [term, weight] of Object.entries(entries)) {
+        if (patternOf(term).length === 0) {
+          errors.push(`"terms.${language}" has an empty term`);
+        } else if (typeof weight !== 'number' || !(weight > 0 && weight <= 1)) {
+          errors.push(`"terms.${language}.${term}" must be a weight above 0 and at most 1`);
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid lexicon pack: ${errors.join('; ')}`);
+  }
+  return input as unknown as LexiconPackFile;
+}
+
+function compilePack(pack: LexiconPackFile): CompiledPack {
+  const terms: CompiledTerm[] = [];
+  for (const entries of Object.values(pack.terms)) {
+    for (const [term, weight] of Object.entries(entries)) {
+      terms.push({ term, weight, words: patternOf(term) });
+    }
+  }
+
+  return {
+    info: {
+      id: pack.id,
+      version: pack.version,
+      name: pack.name,
+      languages: Object.keys(pack.terms),
+      termCount: terms.length,
+    },
+    terms,
+  };
+}
+
+function occursIn(words: string[], term: CompiledTerm): boolean {
+  for (let start = 0; start + term.words.length <= words.length; start++) {
+    const matches = term.words.every((pattern, offset) => {
+      const word = words[start + offset];
+      return pattern.prefix ? word.startsWith(pattern.text) : word === pattern.text;
+    });
+    if (matches) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Keyword lexicon packs read from the JSON files of a directory, one pack per
+ * file, and reloaded when files are added, removed or edited. A broken file is
+ * skipped without taking the other packs down.
+ */
+export class LexiconPacks {
+  private packs = new Map<string, CompiledPack>();
+  private directory: string | null = null;
+  private loadedSignature = '';
+  private lastCheckAt = 0;
+
+  attachDirectory(directory: string): void {
+    this.directory = directory;
+    this.lastCheckAt = Date.now();
+    this.load();
+  }
+
+  setPacks(packs: LexiconPackFile[]): void {
+    this.packs = new Map(packs.map(pack => {
+      const compiled = compilePack(validateLexiconPack(pack));
+      return [compiled.info.id, compiled];
+    }));
+  }
+
+  list(): LexiconPackInfo[] {
+    this.reloadIfChanged();
+    return [...this.packs.values()].map(pack => ({ ...pack.info, languages: [...pack.info.languages] }));
+  }
+
+  /**
+   * Terms of the given packs that occur in the text, per pack. Unknown pack ids are ignored.
+   */
+  match(text: string, packIds: string[]): LexiconMatch[] {
+    this.reloadIfChanged();
+
+    const words = lexiconWords(text);
+    if (words.length === 0) {
+      return [];
+    }
+
+    const matches: LexiconMatch[] = [];
+    for (const id of packIds) {
+      const pack = this.packs.get(id);
+      if (!pack) {
+        continue;
+      }
+      const found = pack.terms.filter(term => occursIn(words, term));
+      if (found.length > 0) {
+        matches.push({
+          pack: id,
+          version: pack.info.version,
+          terms: found.map(term => term.term),
+          weight: found.reduce((sum, term) => sum + term.weight, 0),
+        });
+      }
+    }
+    return matches;
+  }
+
+  private packFiles(): string[] {
+    if (!this.directory || !existsSync(this.directory)) {
+      return [];
+    }
+    return readdirSync(this.directory).filter(name => name.endsWith('.json')).sort();
+  }
+
+  // File names with their modification times; any difference means something changed
+  private signature(files: string[]): string {
+    return files.map(name => `${name}:${statSync(join(this.directory as string, name)).mtimeMs}`).join('|');
+  }
+
+  private load(): void {
+    const files = this.packFiles();
+    const packs = new Map<string, CompiledPack>();
+
+    for (const name of files) {
+      const filePath = join(this.directory as string, name);
+      try {
+        const pack = compilePack(validateLexiconPack(JSON.parse(readFileSync(filePath, 'utf-8'))));
+        if (packs.has(pack.info.id)) {
+          throw new Error(`Duplicate lexicon pack id "${pack.info.id}"`);
+        }
+        packs.set(pack.info.id, pack);
+      } catch (error) {
+        logger.warn({ error, filePath }, 'Skipping lexicon pack that could not be loaded');
+      }
+    }
+
+    this.packs = packs;
+    this.loadedSignature = this.signature(files);
+  }
+
+  private reloadIfChanged(): void {
+    if (!this.directory || Date.now() - this.lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheckAt = Date.now();
+
+    try {
+      if (this.signature(this.packFiles()) !== this.loadedSignature) {
+        this.load();
+        logger.info({ directory: this.directory, packs: [...this.packs.keys()] }, 'Lexicon packs reloaded');
+      }
+    } catch (error) {
+      logger.warn({ error, directory: this.directory }, 'Could not reload lexicon packs, keeping the previous ones');
+    }
+  }
+}
+
+export const lexiconPacks = new LexiconPacks();
@@ -0,0 +1,271 @@
+/*
+ * TDLib objects arrive untyped. The interfaces below name only the fields the agent
+ * reads, optional where older TDLib releases or other object types lack them; every
+ * other field stays unknown, so reads stay defensive.
+ */
+
+export interface TdObject {
+  _?: string;
+  [field: string]: unknown;
+}
+
+export interface TdFormattedText extends TdObject {
+  text?: string;
+  entities?: TdTextEntity[];
+}
+
+export interface TdTextEntity extends TdObject {
+  offset: number;
+  length: number;
+  type?: TdObject & { _: string; url?: string };
+}
+
+export interface TdFile extends TdObject {
+  id?: number;
+  /** Bytes, when known */
+  size?: number;
+  expected_size?: number;
+  remote?: TdObject & { unique_id?: string };
+}
+
+export interface TdPhotoSize extends TdObject {
+  width: number;
+  height?: number;
+  photo?: TdFile;
+}
+
+export interface TdMessageContent extends TdObject {
+  text?: TdFormattedText;
+  caption?: TdFormattedText;
+  /** The question is a plain string in older TDLib releases */
+  poll?: TdObject & { question?: string | TdFormattedText };
+  contact?: TdObject & { phone_number?: string; user_id?: number };
+  document?: TdObject & { file_name?: string; mime_type?: string; document?: TdFile };
+  photo?: TdObject & { sizes?: TdPhotoSize[] };
+}
+
+export interface TdReplyMarkup extends TdObject {
+  rows?: Array<Array<TdObject & { type?: TdObject & { _: string; url?: string } }>>;
+}
+
+export interface TdMessageOrigin extends TdObject {
+  sender_user_id?: number;
+  sender_name?: string;
+  sender_chat_id?: number;
+  chat_id?: number;
+}
+
+export interface TdMessage extends TdObject {
+  id: number;
+  chat_id: number;
+  date?: number;
+  edit_date?: number;
+  is_outgoing?: boolean;
+  via_bot_user_id?: number;
+  content?: TdMessageContent;
+  reply_markup?: TdReplyMarkup;
+  forward_info?: TdObject & { origin?: TdMessageOrigin };
+}
+
+export type MediaType =
+  | 'text'
+  | 'photo'
+  | 'video'
+  | 'animation'
+  | 'document'
+  | 'audio'
+  | 'voice_note'
+  | 'video_note'
+  | 'sticker'
+  | 'contact'
+  | 'location'
+  | 'poll'
+  | 'other';
+
+/**
+ * Metadata of a sent file; the file itself is never downloaded
+ */
+export interface DocumentInfo {
+  fileName: string;
+  mimeType: string;
+  /** Bytes, 0 when TDLib does not know */
+  size: number;
+}
+
+export interface ForwardOrigin {
+  /** Who the original message came from */
+  kind: 'user' | 'hidden_user' | 'chat' | 'channel';
+  userId?: number;
+  chatId?: number;
+  senderName?: string;
+}
+
+/**
+ * Detector features pulled from a TDLib message, whatever its content type
+ */
+export interface MessageContent {
+  mediaType: MediaType;
+  /** Message text, media caption or poll question */
+  text: string;
+  /** Link targets from text entities, including links hidden behind other text */
+  entityUrls: string[];
+  /** Targets of text links whose visible text is not the link itself */
+  hiddenUrls: string[];
+  /** URLs behind inline keyboard buttons */
+  buttonUrls: string[];
+  forwardOrigin: ForwardOrigin | null;
+  /** Shared contact card, if the message is one */
+  contact: { phoneNumber?: string; userId?: number } | null;
+  /** Files sent as documents */
+  documents: DocumentInfo[];
+}
+
+const MEDIA_TYPES: Record<string, MediaType> = {
+  messageText: 'text',
+  messagePhoto: 'photo',
+  messageVideo: 'video',
+  messageAnimation: 'animation',
+  messageDocument: 'document',
+  messageAudio: 'audio',
+  messageVoiceNote: 'voice_note',
+  messageVideoNote: 'video_note',
+  messageSticker: 'sticker',
+  messageContact: 'contact',
+  messageLocation: 'location',
+  messageVenue: 'location',
+  messagePoll: 'poll',
+};
+
+function formattedTextOf(content: TdMessageContent | undefined): TdFormattedText | null {
+  if (content?.text?.text !== undefined) return content.text;
+  if (content?.caption?.text !== undefined) return content.caption;
+  // Poll questions became formatted text in newer TDLib versions
+  const question = content?.poll?.question;
+  if (typeof question === 'string') return { text: question, entities: [] };
+  if (question?.text !== undefined) return question;
+  return null;
+}
+
+function mediaTypeOf(content: TdMessageContent | undefined): MediaType {
+  if (!content?._) {
+    return formattedTextOf(content) ? 'text' : 'other';
+  }
+  return MEDIA_TYPES[content._] || 'other';
+}
+
+/**
+ * Link targets of a TDLib formattedText's entities; hidden ones are text links
+ * whose visible text is not the URL
+ */
+export function extractEntityUrls(formatted: TdFormattedText | null | undefined): { entityUrls: string[]; hiddenUrls: string[] } {
+  const entityUrls: string[] = [];
+  const hiddenUrls: string[] = [];
+  const text: string = formatted?.text || '';
+
+  for (const entity of formatted?.entities || []) {
+    const visible = text.slice(entity.offset, entity.offset + entity.length);
+    if (entity.type?._ === 'textEntityTypeUrl') {
+      entityUrls.push(visible);
+    } else if (entity.type?._ === 'textEntityTypeTextUrl' && entity.type.url) {
+      entityUrls.push(entity.type.url);
+      if (visible.trim() !== entity.type.url) {
+        hiddenUrls.push(entity.type.url);
+      }
+    }
+  }
+
+  return { entityUrls: [...new Set(entityUrls)], hiddenUrls: [...new Set(hiddenUrls)] };
+}
+
+function buttonUrlsOf(replyMarkup: TdReplyMarkup | undefined): string[] {
+  if (replyMarkup?._ !== 'replyMarkupInlineKeyboard') {
+    return [];
+  }
+
+  const urls: string[] = [];
+  for (const row of replyMarkup.rows || []) {
+    for (const button of row) {
+      const type = button.type;
+      if ((type?._ === 'inlineKeyboardButtonTypeUrl' || type?._ === 'inlineKeyboardButtonTypeLoginUrl') && type.url) {
+        urls.push(type.url);
+      }
+    }
+  }
+  return [...new Set(urls)];
+}
+
+function forwardOriginOf(forwardInfo: TdMessage['forward_info']): ForwardOrigin | null {
+  const origin = forwardInfo?.origin;
+  if (!origin?._) {
+    return null;
+  }
+
+  // messageOrigin* in current TDLib, messageForwardOrigin* in older releases
+  switch (origin._.replace('messageForwardOrigin', 'messageOrigin')) {
+    case 'messageOriginUser':
+      return { kind: 'user', userId: origin.sender_user_id };
+    case 'messageOriginHiddenUser':
+      return { kind: 'hidden_user', senderName: origin.sender_name };
+    case 'messageOriginChat':
+      return { kind: 'chat', chatId: origin.sender_chat_id };
+    case 'messageOriginChannel':
+      return { kind: 'channel', chatId: origin.chat_id };
+    default:
+      return null;
+  }
+}
+
+function documentOf(content: TdMessageContent | undefined): DocumentInfo | null {
+  const document = content?._ === 'messageDocument' ? content.document : null;
+  if (!document) {
+    return null;
+  }
+  return {
+    fileName: document.file_name || '',
+    mimeType: document.mime_type || '',
+    size: document.document?.size || document.document?.expected_size || 0,
+  };
+}
+
+export function extractMessageContent(message: Pick<TdMessage, 'content' | 'reply_markup' | 'forward_info'>): MessageContent {
+  const content = message?.content;
+  const formatted = formattedTextOf(content);
+  const contact = content?._ === 'messageContact' && content.contact
+    ? {
+      phoneNumber: content.contact.phone_number || undefined,
+      userId: content.contact.user_id || undefined,
+    }
+    : null;
+  const document = documentOf(content);
+
+  return {
+    mediaType: mediaTypeOf(content),
+    text: formatted?.text || '',
+    ...extractEntityUrls(formatted),
+    buttonUrls: buttonUrlsOf(message?.reply_markup),
+    forwardOrigin: forwardOriginOf(message?.forward_info),
+    contact,
+    documents: document ? [document] : [],
+  };
+}
+
+/**
+ * Merge several messages from one conversation into a single set of features,
+ * so signals spread over messages are scored together. Media type comes from
+ * the latest message.
+ */
+export function combineMessageContent(contents: MessageContent[]): MessageContent {
+  const latest = contents[contents.length - 1];
+  const unique = (pick: (content: MessageContent) => string[]) => [...new Set(contents.flatMap(pick))];
+
+  return {
+    mediaType: latest?.mediaType || 'other',
+    text: contents.map(content => content.text).filter(Boolean).join('\n'),
+    entityUrls: unique(content => content.entityUrls),
+    hiddenUrls: unique(content => content.hiddenUrls),
+    buttonUrls: unique(content => content.buttonUrls),
+    forwardOrigin: [...contents].reverse().find(content => content.forwardOrigin)?.forwardOrigin || null,
+    contact: [...contents].reverse().find(content => content.contact)?.contact || null,
+    documents: contents.flatMap(content => content.documents),
+  };
+}
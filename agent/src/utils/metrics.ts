@@ -1,30 +1,74 @@
+import { DebouncedSave, readJsonIfExists, writeJsonAtomic } from './jsonFile';
+import { logger } from './logger';
+
+type Counters = {
+  msgProcessedTotal: number;
+  spamDetectedTotal: number;
+  /** Detections triggered by an edit; not part of spamDetectedTotal */
+  editedSpamDetectedTotal: number;
+  spamBlockedTotal: number;
+  spamArchivedTotal: number;
+  rateLimitHits: number;
+};
+
 export class MetricsTracker {
-  private metrics = {
+  private metrics: Counters = {
     msgProcessedTotal: 0,
     spamDetectedTotal: 0,
+    editedSpamDetectedTotal: 0,
     spamBlockedTotal: 0,
     spamArchivedTotal: 0,
     rateLimitHits: 0,
   };
+  private storePath: string | null = null;
+  private pendingSave = new DebouncedSave(() => this.save());
+
+  /**
+   * Persist counters to a JSON file so they survive agent restarts.
+   * Existing counters in the file are loaded and become the new baseline.
+   */
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<Partial<Counters>>(filePath);
+    if (!stored) {
+      return;
+    }
+    for (const key of Object.keys(this.metrics) as (keyof Counters)[]) {
+      if (typeof stored[key] === 'number') {
+        this.metrics[key] = stored[key] as number;
+      }
+    }
+  }
 
   incrementMessagesProcessed(): void {
     this.metrics.msgProcessedTotal++;
+    this.pendingSave.schedule();
   }
 
   incrementSpamDetected(): void {
     this.metrics.spamDetectedTotal++;
+    this.pendingSave.schedule();
+  }
+
+  incrementEditedSpamDetected(): void {
+    this.metrics.editedSpamDetectedTotal++;
+    this.pendingSave.schedule();
   }
 
   incrementSpamBlocked(): void {
     this.metrics.spamBlockedTotal++;
+    this.pendingSave.schedule();
   }
 
   incrementSpamArchived(): void {
     this.metrics.spamArchivedTotal++;
+    this.pendingSave.schedule();
   }
 
   incrementRateLimitHits(): void {
     this.metrics.rateLimitHits++;
+    this.pendingSave.schedule();
   }
 
   getMetrics() {
@@ -36,6 +80,29 @@ export class MetricsTracker {
       ? this.metrics.spamDetectedTotal / this.metrics.msgProcessedTotal
       : 0;
   }
+
+  /**
+   * Write changes still waiting for the debounced save, e.g. on shutdown
+   */
+  flush(): void {
+    this.pendingSave.flush();
+  }
+
+  /**
+   * Best effort: counters are informational, so a failed write is logged and counting
+   * goes on in memory
+   */
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      writeJsonAtomic(this.storePath, this.metrics);
+    } catch (error) {
+      logger.warn({ error, storePath: this.storePath }, 'Failed to persist metrics');
+    }
+  }
 }
 
 export const metrics = new MetricsTracker();
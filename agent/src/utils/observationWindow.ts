@@ -0,0 +1,140 @@
+import type { SpamDetectionResult, UserProfile } from '../handlers/spamDetector';
+import type { TdMessage } from './messageContent';
+
+export type ObservationCloseReason = 'hard_signal' | 'message_limit' | 'timeout' | 'campaign' | 'shutdown';
+
+export interface ObservationWindow {
+  chatId: number;
+  userProfile: UserProfile;
+  /** Seconds since epoch */
+  openedAt: number;
+  closesAt: number;
+  /** Messages received so far, oldest first */
+  messages: TdMessage[];
+  /** Score of the whole conversation so far */
+  detection: SpamDetectionResult | null;
+}
+
+/**
+ * What the API shows about an open window; message text stays local
+ */
+export interface ObservationSummary {
+  chatId: number;
+  userId: number;
+  username?: string;
+  openedAt: number;
+  closesAt: number;
+  messageCount: number;
+  score: number;
+  reasons: SpamDetectionResult['reasons'];
+}
+
+/**
+ * Conversations with new senders whose verdict is held back until a few messages
+ * are in. Windows only live in memory: a clean shutdown decides every open window from
+ * what it holds, but after a crash the held messages are never scored and the chat is
+ * scored per message from then on.
+ */
+export class ObservationWindowStore {
+  private windows = new Map<number, ObservationWindow>();
+  private timers = new Map<number, NodeJS.Timeout>();
+
+  /**
+   * Start watching a chat. `onExpire` runs if the window is still open after `windowSeconds`.
+   */
+  open(chatId: number, userProfile: UserProfile, windowSeconds: number, onExpire: () => void): ObservationWindow {
+    this.close(chatId);
+
+    const openedAt = Math.floor(Date.now() / 1000);
+    const window: ObservationWindow = {
+      chatId,
+      userProfile,
+      openedAt,
+      closesAt: openedAt + windowSeconds,
+      messages: [],
+      detection: null,
+    };
+    this.windows.set(chatId, window);
+
+    const timer = setTimeout(onExpire, windowSeconds * 1000);
+    // An open window must not keep the process alive on shutdown
+    timer.unref();
+    this.timers.set(chatId, timer);
+
+    return window;
+  }
+
+  get(chatId: number): ObservationWindow | undefined {
+    return this.windows.get(chatId);
+  }
+
+  has(chatId: number): boolean {
+    return this.windows.has(chatId);
+  }
+
+  /**
+   * Add a message and the conversation score that includes it
+   */
+  append(chatId: number, message: TdMessage, detection: SpamDetectionResult): ObservationWindow | undefined {
+    const window = this.windows.get(chatId);
+    if (!window) {
+      return undefined;
+    }
+    window.messages.push(message);
+    window.detection = detection;
+    return window;
+  }
+
+  /**
+   * Swap in the edited version of a message in the window, with the conversation score
+   * that includes the edit. Returns false when the message is not in an open window.
+   */
+  replaceMessage(chatId: number, message: TdMessage, detection: SpamDetectionResult): boolean {
+    const window = this.windows.get(chatId);
+    const index = window ? window.messages.findIndex(existing => existing.id === message.id) : -1;
+    if (!window || index === -1) {
+      return false;
+    }
+    window.messages[index] = message;
+    window.detection = detection;
+    return true;
+  }
+
+  /**
+   * Stop watching a chat and return its final state, if it was open
+   */
+  close(chatId: number): ObservationWindow | undefined {
+    const timer = this.timers.get(chatId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(chatId);
+    }
+
+    const window = this.windows.get(chatId);
+    this.windows.delete(chatId);
+    return window;
+  }
+
+  list(): ObservationSummary[] {
+    return [...this.windows.values()].map(window => this.summarize(window));
+  }
+
+  summarize(window: ObservationWindow): ObservationSummary {
+    return {
+      chatId: window.chatId,
+      userId: window.userProfile.userId,
+      username: window.userProfile.username,
+      openedAt: window.openedAt,
+      closesAt: window.closesAt,
+      messageCount: window.messages.length,
+      score: window.detection?.score ?? 0,
+      reasons: window.detection?.reasons ?? [],
+    };
+  }
+
+  clear(): void {
+    [...this.windows.keys()].forEach(chatId => this.close(chatId));
+  }
+}
+
+export const observationWindows = new ObservationWindowStore();
@@ -0,0 +1,138 @@
+import { deobfuscate } from './textNormalization';
+import { extractInviteLinks, extractMentions, extractUrls } from './heuristics';
+import { editDistance } from './urlAnalysis';
+
+/**
+ * A Telegram user as far as names go
+ */
+export interface NamedUser {
+  userId: number;
+  /** First and last name joined */
+  name: string;
+  usernames: string[];
+}
+
+export interface ContactLookalike {
+  /** Contact whose name or username the sender copies */
+  userId: number;
+  field: 'name' | 'username';
+  /** 1 for an exact copy */
+  similarity: number;
+}
+
+// Roles and services scammers pose as; nobody writing privately has a reason to call themselves that
+const IMPERSONATION_TERMS = [
+  'telegram', 'durov', 'support', 'admin', 'administrator', 'administration', 'moderator', 'official',
+  'service', 'security', 'helpdesk', 'help desk', 'customer care', 'verification', 'notification',
+  'notifications', 'wallet',
+  'телеграм', 'поддержка', 'админ', 'администратор', 'администрация', 'модератор', 'служба', 'безопасность',
+];
+
+// Usernames run words together ("telegramsupport"); only longer terms are safe to find inside them
+const MIN_EMBEDDED_TERM_LENGTH = 7;
+
+// Names have no room for a scheme, so links in them are usually bare domains
+const BARE_DOMAIN = /\b[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|me|ru|xyz|top|app|site|online|ly|gg|cc|co|info|biz|pro|link|club|shop|store|live|vip)\b(?:\/\S*)?/gi;
+
+// Below this many letters names are too common to count a match as copying
+const MIN_COMPARED_NAME_LENGTH = 6;
+
+export const CONTACT_NAME_SIMILARITY = 0.85;
+
+// Words of a name or username, lowercase and deobfuscated; digits and separators split words
+function wordsOf(text: string): string[] {
+  return deobfuscate(text).text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+}
+
+/**
+ * Impersonation terms in a display name or any of the usernames
+ */
+export function impersonationTerms(name: string, usernames: string[] = []): string[] {
+  const found = new Set<string>();
+  const spaced = (text: string) => ` ${wordsOf(text).join(' ')} `;
+
+  const nameWords = spaced(name);
+  for (const term of IMPERSONATION_TERMS) {
+    if (nameWords.includes(` ${term} `)) {
+      found.add(term);
+    }
+  }
+
+  for (const username of usernames) {
+    const usernameWords = spaced(username);
+    const compact = username.toLowerCase();
+    for (const term of IMPERSONATION_TERMS) {
+      const embedded = term.length >= MIN_EMBEDDED_TERM_LENGTH && !term.includes(' ') && compact.includes(term);
+      if (embedded || usernameWords.includes(` ${term} `)) {
+        found.add(term);
+      }
+    }
+  }
+
+  return [...found];
+}
+
+/**
+ * Links, invite links, @mentions and bare domains written into a name
+ */
+export function nameLinks(name: string): string[] {
+  const text = deobfuscate(name).text;
+  const links = [...extractUrls(text), ...extractInviteLinks(text), ...extractMentions(text)];
+  // "bit.ly/x" is already part of "https://bit.ly/x"
+  const domains = (text.match(BARE_DOMAIN) || []).filter(domain => !links.some(link => link.includes(domain)));
+  return [...new Set([...links, ...domains])];
+}
+
+/**
+ * 1 minus the edit distance relative to the longer string
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+}
+
+// Word order is ignored, so "Smith Anna" still copies "Anna Smith"
+function comparableName(name: string): string {
+  return wordsOf(name).sort().join(' ');
+}
+
+/**
+ * The contact whose display name or username the sender's is closest to, if any
+ * reaches `minSimilarity`
+ */
+export function findLookalikeContact(
+  sender: NamedUser,
+  contacts: NamedUser[],
+  minSimilarity = CONTACT_NAME_SIMILARITY
+): ContactLookalike | null {
+  const senderName = comparableName(sender.name);
+  const senderUsernames = sender.usernames.map(username => username.toLowerCase());
+  let best: ContactLookalike | null = null;
+
+  const consider = (candidate: ContactLookalike) => {
+    if (candidate.similarity >= minSimilarity && (!best || candidate.similarity > best.similarity)) {
+      best = candidate;
+    }
+  };
+
+  for (const contact of contacts) {
+    if (contact.userId === sender.userId) {
+      continue;
+    }
+
+    const contactName = comparableName(contact.name);
+    if (senderName.length >= MIN_COMPARED_NAME_LENGTH && contactName.length >= MIN_COMPARED_NAME_LENGTH) {
+      consider({ userId: contact.userId, field: 'name', similarity: nameSimilarity(senderName, contactName) });
+    }
+
+    for (const username of contact.usernames.map(value => value.toLowerCase())) {
+      for (const senderUsername of senderUsernames) {
+        if (username.length >= MIN_COMPARED_NAME_LENGTH && senderUsername.length >= MIN_COMPARED_NAME_LENGTH) {
+          consider({ userId: contact.userId, field: 'username', similarity: nameSimilarity(senderUsername, username) });
+        }
+      }
+    }
+  }
+
+  return best;
+}
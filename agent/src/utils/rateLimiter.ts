@@ -15,6 +15,10 @@ export class RateLimiter {
     return this.actions.length < this.maxActions;
   }
 
+  setMaxActions(maxActions: number): void {
+    this.maxActions = maxActions;
+  }
+
   recordAction(): void {
     this.actions.push(Date.now());
   }
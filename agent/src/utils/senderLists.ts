@@ -0,0 +1,154 @@
+import { readJsonIfExists, writeJsonAtomic } from './jsonFile';
+
+export type ListType = 'allow' | 'deny';
+export type ListEntryType = 'user_id' | 'username' | 'phone_prefix';
+
+export interface SenderListEntry {
+  list: ListType;
+  type: ListEntryType;
+  value: string;
+}
+
+export interface SenderInfo {
+  userId: number;
+  username?: string;
+  phoneNumber?: string;
+}
+
+export interface ListMatch {
+  list: ListType;
+  entry: SenderListEntry;
+}
+
+function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .replace(/^@/, '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Validate raw entries (e.g. from the orchestrator). Throws listing every invalid entry.
+ */
+export function validateEntries(raw: unknown): SenderListEntry[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('entries must be an array');
+  }
+
+  const errors: string[] = [];
+  raw.forEach((entry, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`entry ${index} must be an object`);
+      return;
+    }
+    const { list, type, value } = entry as Record<string, unknown>;
+    if (list !== 'allow' && list !== 'deny') {
+      errors.push(`entry ${index}: list must be allow or deny`);
+    }
+    if (typeof value !== 'string' || value.length === 0) {
+      errors.push(`entry ${index}: value must be a non-empty string`);
+      return;
+    }
+    if (type === 'user_id') {
+      if (!/^\d+$/.test(value)) errors.push(`entry ${index}: user_id must be numeric`);
+    } else if (type === 'username') {
+      if (!/^@?[a-z0-9_*?]+$/i.test(value)) errors.push(`entry ${index}: invalid username pattern`);
+    } else if (type === 'phone_prefix') {
+      if (!/^\+?\d{1,15}$/.test(value)) errors.push(`entry ${index}: phone_prefix must be digits`);
+    } else {
+      errors.push(`entry ${index}: type must be user_id, username or phone_prefix`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid sender list: ${errors.join('; ')}`);
+  }
+
+  return raw as SenderListEntry[];
+}
+
+/**
+ * Per-user allowlist/denylist of senders, checked before spam scoring.
+ * An allowlist match wins over a denylist match for the same sender.
+ */
+export class SenderLists {
+  private entries: SenderListEntry[] = [];
+  private storePath: string | null = null;
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<unknown>(filePath);
+    if (stored === undefined) {
+      return;
+    }
+
+    this.entries = validateEntries(stored);
+  }
+
+  setEntries(entries: SenderListEntry[]): void {
+    this.entries = [...entries];
+    this.save();
+  }
+
+  /**
+   * Add a single entry unless an identical one exists. Returns false if it was already there.
+   */
+  addEntry(entry: SenderListEntry): boolean {
+    const exists = this.entries.some(e => e.list === entry.list && e.type === entry.type && e.value === entry.value);
+    if (exists) {
+      return false;
+    }
+
+    this.entries.push({ ...entry });
+    this.save();
+    return true;
+  }
+
+  getEntries(): SenderListEntry[] {
+    return [...this.entries];
+  }
+
+  match(sender: SenderInfo): ListMatch | null {
+    let denyMatch: ListMatch | null = null;
+
+    for (const entry of this.entries) {
+      if (!this.entryMatches(entry, sender)) {
+        continue;
+      }
+      if (entry.list === 'allow') {
+        return { list: 'allow', entry };
+      }
+      denyMatch = denyMatch || { list: 'deny', entry };
+    }
+
+    return denyMatch;
+  }
+
+  private entryMatches(entry: SenderListEntry, sender: SenderInfo): boolean {
+    switch (entry.type) {
+      case 'user_id':
+        return entry.value === String(sender.userId);
+      case 'username':
+        return !!sender.username && globToRegExp(entry.value).test(sender.username);
+      case 'phone_prefix':
+        return !!sender.phoneNumber && digitsOnly(sender.phoneNumber).startsWith(digitsOnly(entry.value));
+    }
+  }
+
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonAtomic(this.storePath, this.entries);
+  }
+}
+
+export const senderLists = new SenderLists();
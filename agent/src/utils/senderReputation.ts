@@ -0,0 +1,187 @@
+import type { FeedbackLabel } from './feedbackStore';
+import { DebouncedSave, readJsonIfExists, writeJsonAtomic } from './jsonFile';
+import { logger } from './logger';
+
+export interface SenderReputation {
+  userId: number;
+  firstSeen: number;
+  lastSeen: number;
+  messageCount: number;
+  /** Messages that scored at or above the low threshold */
+  detectionCount: number;
+  /** Most recent scores, oldest first */
+  recentScores: number[];
+  actions: { archive: number; block: number };
+  feedback: { spam: number; notSpam: number };
+}
+
+const RECENT_SCORES = 20;
+
+/**
+ * The user's "not spam" verdicts outweigh earlier actions against the sender
+ */
+export function vouchedFor(reputation: SenderReputation): boolean {
+  return reputation.feedback.notSpam > 0 && reputation.feedback.notSpam >= reputation.feedback.spam;
+}
+
+/**
+ * What the agent remembers about each sender across messages and restarts.
+ * The least recently seen senders are forgotten first when the store is full.
+ */
+export class SenderReputationStore {
+  private senders = new Map<number, SenderReputation>();
+  private storePath: string | null = null;
+  private pendingSave = new DebouncedSave(() => this.save());
+  private maxSenders: number;
+
+  constructor(maxSenders = 5000) {
+    this.maxSenders = maxSenders;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{ senders?: SenderReputation[] }>(filePath);
+    if (!stored) {
+      return;
+    }
+    const senders = Array.isArray(stored.senders) ? stored.senders : [];
+    this.senders = new Map(
+      senders
+        .sort((a, b) => a.lastSeen - b.lastSeen)
+        .slice(-this.maxSenders)
+        .map(sender => [sender.userId, sender])
+    );
+  }
+
+  get(userId: number): SenderReputation | undefined {
+    const sender = this.senders.get(userId);
+    return sender ? this.copy(sender) : undefined;
+  }
+
+  /**
+   * Most recently seen senders first
+   */
+  list(limit = 100): SenderReputation[] {
+    return [...this.senders.values()]
+      .sort((a, b) => b.lastSeen - a.lastSeen)
+      .slice(0, limit)
+      .map(sender => this.copy(sender));
+  }
+
+  recordMessage(userId: number, score: number, detected: boolean): SenderReputation {
+    const sender = this.touch(userId);
+    sender.messageCount++;
+    if (detected) {
+      sender.detectionCount++;
+    }
+    sender.recentScores = [...sender.recentScores, Math.round(score * 100) / 100].slice(-RECENT_SCORES);
+    this.pendingSave.schedule();
+    return this.copy(sender);
+  }
+
+  recordAction(userId: number, action: 'archive' | 'block'): void {
+    this.touch(userId).actions[action]++;
+    this.pendingSave.schedule();
+  }
+
+  /**
+   * Count the user's verdict. Pass the previous label when a verdict is changed
+   * so it is not counted twice.
+   */
+  recordFeedback(userId: number, label: FeedbackLabel, previous?: FeedbackLabel): void {
+    const sender = this.touch(userId, false);
+    if (previous === label) {
+      return;
+    }
+    if (previous) {
+      const key = previous === 'spam' ? 'spam' : 'notSpam';
+      sender.feedback[key] = Math.max(0, sender.feedback[key] - 1);
+    }
+    sender.feedback[label === 'spam' ? 'spam' : 'notSpam']++;
+    this.pendingSave.schedule();
+  }
+
+  /**
+   * Forget one sender. Returns false when nothing was stored for them. Purges are
+   * written at once rather than debounced, since the user asked for the data to go.
+   */
+  purge(userId: number): boolean {
+    const existed = this.senders.delete(userId);
+    if (existed) {
+      this.save();
+    }
+    return existed;
+  }
+
+  purgeAll(): number {
+    const count = this.senders.size;
+    this.senders.clear();
+    this.save();
+    return count;
+  }
+
+  private touch(userId: number, seen = true): SenderReputation {
+    const now = Math.floor(Date.now() / 1000);
+    let sender = this.senders.get(userId);
+
+    if (!sender) {
+      sender = {
+        userId,
+        firstSeen: now,
+        lastSeen: now,
+        messageCount: 0,
+        detectionCount: 0,
+        recentScores: [],
+        actions: { archive: 0, block: 0 },
+        feedback: { spam: 0, notSpam: 0 },
+      };
+    } else if (seen) {
+      sender.lastSeen = now;
+    }
+
+    // Re-insert so the map stays ordered by last activity for eviction
+    this.senders.delete(userId);
+    this.senders.set(userId, sender);
+    if (this.senders.size > this.maxSenders) {
+      const oldest = this.senders.keys().next().value as number;
+      this.senders.delete(oldest);
+    }
+
+    return sender;
+  }
+
+  private copy(sender: SenderReputation): SenderReputation {
+    return {
+      ...sender,
+      recentScores: [...sender.recentScores],
+      actions: { ...sender.actions },
+      feedback: { ...sender.feedback },
+    };
+  }
+
+  /**
+   * Write changes still waiting for the debounced save, e.g. on shutdown
+   */
+  flush(): void {
+    this.pendingSave.flush();
+  }
+
+  /**
+   * Best effort: the save runs from a timer after the message was handled, so a failed
+   * write is logged and the reputation stays in memory until the next save
+   */
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    try {
+      writeJsonAtomic(this.storePath, { senders: [...this.senders.values()] });
+    } catch (error) {
+      logger.warn({ error, storePath: this.storePath }, 'Failed to persist sender reputation');
+    }
+  }
+}
+
+export const senderReputation = new SenderReputationStore();
@@ -0,0 +1,181 @@
+import { normalizeText } from './heuristics';
+import { readJsonIfExists, writeJsonAtomic } from './jsonFile';
+
+/** Sparse vector: hashed feature index -> weight, L2-normalized */
+export type TextVector = Map<number, number>;
+
+const VECTOR_DIMENSIONS = 1 << 18;
+
+// Below this, normalized text is too generic ("hi there") to call a near-duplicate
+const MIN_NORMALIZED_LENGTH = 20;
+
+export function hashFeature(feature: string): number {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % VECTOR_DIMENSIONS;
+}
+
+/**
+ * Hashed bag of words plus character trigrams over the normalized text.
+ * Links, handles and phone numbers are stripped by `normalizeText`, so spam
+ * templates that only rotate those still land on the same vector.
+ * Returns null when there is too little text to compare.
+ */
+export function vectorize(text: string): TextVector | null {
+  const normalized = normalizeText(text);
+  if (normalized.length < MIN_NORMALIZED_LENGTH) {
+    return null;
+  }
+
+  const vector: TextVector = new Map();
+  const add = (feature: string) => {
+    const index = hashFeature(feature);
+    vector.set(index, (vector.get(index) || 0) + 1);
+  };
+
+  for (const word of normalized.split(' ')) {
+    add(`w:${word}`);
+  }
+  const padded = ` ${normalized} `;
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    add(`c:${padded.slice(i, i + 3)}`);
+  }
+
+  let norm = 0;
+  vector.forEach(weight => { norm += weight * weight; });
+  norm = Math.sqrt(norm);
+  vector.forEach((weight, index) => vector.set(index, weight / norm));
+  return vector;
+}
+
+export function cosineSimilarity(a: TextVector, b: TextVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, index) => {
+    const other = large.get(index);
+    if (other !== undefined) {
+      dot += weight * other;
+    }
+  });
+  return dot;
+}
+
+export interface SimilarityMatch {
+  /** Event id of the confirmed spam detection that matched */
+  eventId: number;
+  similarity: number;
+}
+
+interface StoredEntry {
+  eventId: number;
+  vector: Array<[number, number]>;
+  addedAt: number;
+}
+
+/**
+ * Vectors of messages the user confirmed as spam, used to catch near-duplicates.
+ * Only vectors are persisted, never the message text.
+ */
+export class SpamSimilarityIndex {
+  private entries: Array<{ eventId: number; vector: TextVector; addedAt: number }> = [];
+  private storePath: string | null = null;
+  private maxEntries: number;
+
+  constructor(maxEntries = 2000) {
+    this.maxEntries = maxEntries;
+  }
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+
+    const stored = readJsonIfExists<{ entries?: StoredEntry[] }>(filePath);
+    if (!stored) {
+      return;
+    }
+    this.entries = (Array.isArray(stored.entries) ? stored.entries : [])
+      .slice(-this.maxEntries)
+      .map(entry => ({ eventId: entry.eventId, vector: new Map(entry.vector), addedAt: entry.addedAt }));
+  }
+
+  /**
+   * Add a confirmed spam message. Returns false when the text is too short to
+   * fingerprint or the detection is already indexed.
+   */
+  add(eventId: number, text: string): boolean {
+    if (this.entries.some(entry => entry.eventId === eventId)) {
+      return false;
+    }
+
+    const vector = vectorize(text);
+    if (!vector) {
+      return false;
+    }
+
+    this.entries.push({ eventId, vector, addedAt: Math.floor(Date.now() / 1000) });
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Forget a detection, e.g. after the user relabels it as not spam
+   */
+  remove(eventId: number): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.eventId !== eventId);
+    if (this.entries.length === before) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Closest confirmed spam at or above the cutoff, or null
+   */
+  findMatch(text: string, cutoff: number): SimilarityMatch | null {
+    if (this.entries.length === 0) {
+      return null;
+    }
+
+    const vector = vectorize(text);
+    if (!vector) {
+      return null;
+    }
+
+    let best: SimilarityMatch | null = null;
+    for (const entry of this.entries) {
+      const similarity = cosineSimilarity(vector, entry.vector);
+      if (similarity >= cutoff && (!best || similarity > best.similarity)) {
+        best = { eventId: entry.eventId, similarity };
+      }
+    }
+    return best;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  private save(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    const entries: StoredEntry[] = this.entries.map(entry => ({
+      eventId: entry.eventId,
+      vector: [...entry.vector].map(([index, weight]) => [index, Math.round(weight * 1e4) / 1e4]),
+      addedAt: entry.addedAt,
+    }));
+
+    writeJsonAtomic(this.storePath, { entries });
+  }
+}
+
+export const spamSimilarityIndex = new SpamSimilarityIndex();
@@ -0,0 +1,74 @@
+import { existsSync, statSync } from 'fs';
+import { ClassifierModel, loadModel, predictProbability } from './classifierTraining';
+import { logger } from './logger';
+
+// How often to look for a model the training script replaced
+const RELOAD_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The model the agent scores messages with. It is trained offline by the
+ * train-classifier script, which writes it to the data volume; a model written
+ * while the agent runs is picked up within a minute.
+ */
+export class TextClassifier {
+  private model: ClassifierModel | null = null;
+  private storePath: string | null = null;
+  private loadedMtimeMs = 0;
+  private lastCheckAt = 0;
+
+  attachStore(filePath: string): void {
+    this.storePath = filePath;
+    this.lastCheckAt = Date.now();
+    this.load();
+  }
+
+  setModel(model: ClassifierModel | null): void {
+    this.model = model;
+  }
+
+  getInfo(): { trainedAt: number; examples: { spam: number; notSpam: number }; features: number } | null {
+    this.reloadIfChanged();
+    return this.model
+      ? { trainedAt: this.model.trainedAt, examples: { ...this.model.examples }, features: this.model.weights.size }
+      : null;
+  }
+
+  /**
+   * Probability the text is spam; null without a model or usable text
+   */
+  predict(text: string): number | null {
+    this.reloadIfChanged();
+    return this.model ? predictProbability(this.model, text) : null;
+  }
+
+  private load(): void {
+    if (!this.storePath || !existsSync(this.storePath)) {
+      this.model = null;
+      this.loadedMtimeMs = 0;
+      return;
+    }
+
+    this.loadedMtimeMs = statSync(this.storePath).mtimeMs;
+    this.model = loadModel(this.storePath);
+  }
+
+  private reloadIfChanged(): void {
+    if (!this.storePath || Date.now() - this.lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheckAt = Date.now();
+
+    const mtimeMs = existsSync(this.storePath) ? statSync(this.storePath).mtimeMs : 0;
+    if (mtimeMs !== this.loadedMtimeMs) {
+      try {
+        this.load();
+        logger.info({ filePath: this.storePath, trainedAt: this.model?.trainedAt }, 'Classifier model reloaded');
+      } catch (error) {
+        this.loadedMtimeMs = mtimeMs;
+        logger.warn({ error, filePath: this.storePath }, 'Could not reload classifier model, keeping the previous one');
+      }
+    }
+  }
+}
+
+export const textClassifier = new TextClassifier();
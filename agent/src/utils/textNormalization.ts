@@ -0,0 +1,137 @@
+export type ObfuscationTechnique =
+  | 'invisible_characters'
+  | 'stylized_characters'
+  | 'mixed_scripts'
+  | 'emoji_separators'
+  | 'spaced_letters';
+
+export interface DeobfuscatedText {
+  text: string;
+  /** Tricks that were undone, in the order they were found */
+  techniques: ObfuscationTechnique[];
+}
+
+// Zero-width space/joiners, direction marks, word joiner, BOM, soft hyphen and friends
+const INVISIBLE = /[\u00AD\u034F\u180E\u200B-\u200F\u2060-\u2064\uFEFF]/g;
+// Emoji use zero-width joiners legitimately; only those hidden inside a word are a trick
+const INVISIBLE_IN_WORD = /[\p{L}\p{N}][\u00AD\u034F\u180E\u200B-\u200F\u2060-\u2064\uFEFF]+[\p{L}\p{N}]/u;
+
+// First code point of each decimal digit block NFKC leaves alone (Arabic-Indic, Devanagari, Thai, ...)
+const DIGIT_ZEROS = [0x0660, 0x06f0, 0x07c0, 0x0966, 0x09e6, 0x0a66, 0x0ae6, 0x0b66, 0x0be6, 0x0c66, 0x0ce6, 0x0d66, 0x0e50, 0x0ed0, 0x1040];
+
+// Cyrillic and Greek letters that render like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'і': 'i', 'ї': 'i', 'ј': 'j', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o',
+  'р': 'p', 'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'ѕ': 's', 'ԁ': 'd', 'һ': 'h', 'ӏ': 'l', 'ԛ': 'q', 'ԝ': 'w',
+  'ү': 'y', 'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T',
+  'У': 'Y', 'Х': 'X', 'І': 'I', 'Ј': 'J', 'Ѕ': 'S',
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O',
+  'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X', 'ı': 'i',
+};
+
+const EMOJI_IN_WORD = /(?<=[\p{L}\p{N}])[\p{Extended_Pictographic}\u{FE0F}\u{20E3}\u{1F3FB}-\u{1F3FF}]+(?=[\p{L}\p{N}/])/gu;
+// What usually follows an emoji that stands in for a dot
+const DOMAIN_TAIL = /^(?:me\/|com\b|net\b|org\b|io\b|ru\b|xyz\b|info\b|biz\b|site\b|online\b|top\b|link\b|ly\b)/i;
+
+// Four or more single characters separated by spaces or spaced punctuation ("t . m e / x")
+const SPACED_LETTERS = /(?<![\p{L}\p{N}])[\p{L}\p{N}](?:(?:[ \t]+|[ \t]*[./:@][ \t]*)[\p{L}\p{N}](?![\p{L}\p{N}])){3,}/gu;
+// "t . me/", "t (dot) me/", "telegram [.] me/"
+const SPACED_TELEGRAM_DOMAIN = /\b(t|telegram)(?:[ \t]*(?:\.|\(dot\)|\[dot\]|\[\.\]|\(\.\))[ \t]*|[ \t]+)me[ \t]*\/[ \t]*/gi;
+
+function foldDigits(text: string): string {
+  return text.replace(/\p{Nd}/gu, digit => {
+    const codePoint = digit.codePointAt(0) as number;
+    const zero = DIGIT_ZEROS.find(start => codePoint >= start && codePoint < start + 10);
+    return zero === undefined ? digit : String(codePoint - zero);
+  });
+}
+
+function hasStylizedCharacters(text: string): boolean {
+  // Fullwidth letters and digits, math alphanumerics, circled letters...
+  return [...text].some(char => char.charCodeAt(0) > 0x7f && /^[a-z0-9]+$/i.test(char.normalize('NFKC')));
+}
+
+// Only words that mix in Latin letters or look like links are folded, so Russian or Greek prose is left alone
+function foldConfusables(text: string): { text: string; folded: boolean } {
+  let folded = false;
+  const result = text.replace(/\S+/g, word => {
+    const letters = [...word].filter(char => /\p{L}/u.test(char));
+    if (!letters.some(char => CONFUSABLES[char])) {
+      return word;
+    }
+
+    const hasLatin = letters.some(char => /[a-z]/i.test(char));
+    const linkLike = /[./@]/.test(word) && letters.every(char => /[a-z]/i.test(char) || CONFUSABLES[char]);
+    if (!hasLatin && !linkLike) {
+      return word;
+    }
+
+    folded = true;
+    return [...word].map(char => CONFUSABLES[char] || char).join('');
+  });
+  return { text: result, folded };
+}
+
+let lastInput: string | null = null;
+let lastResult: DeobfuscatedText = { text: '', techniques: [] };
+
+/**
+ * Undo the tricks spammers use to slip links, handles and phone numbers past
+ * pattern matching: invisible characters, fullwidth and stylized letters,
+ * look-alike Cyrillic/Greek letters, emoji in place of dots and spaced-out letters.
+ */
+export function deobfuscate(text: string): DeobfuscatedText {
+  // Every rule normalizes the same message text; remember the last one
+  if (text === lastInput) {
+    return { text: lastResult.text, techniques: [...lastResult.techniques] };
+  }
+
+  const techniques: ObfuscationTechnique[] = [];
+  let result = text || '';
+
+  if (INVISIBLE_IN_WORD.test(result)) {
+    techniques.push('invisible_characters');
+  }
+  result = result.replace(INVISIBLE, '');
+
+  if (hasStylizedCharacters(result)) {
+    techniques.push('stylized_characters');
+  }
+  result = foldDigits(result.normalize('NFKC'));
+
+  const confusables = foldConfusables(result);
+  if (confusables.folded) {
+    techniques.push('mixed_scripts');
+  }
+  result = confusables.text;
+
+  let emojiSeparated = false;
+  result = result.replace(EMOJI_IN_WORD, (emoji, offset: number, whole: string) => {
+    emojiSeparated = true;
+    return DOMAIN_TAIL.test(whole.slice(offset + emoji.length)) ? '.' : '';
+  });
+  if (emojiSeparated) {
+    techniques.push('emoji_separators');
+  }
+
+  let spaced = false;
+  result = result
+    .replace(SPACED_LETTERS, run => {
+      const collapsed = run.replace(/[ \t]+/g, '');
+      spaced = spaced || collapsed !== run;
+      return collapsed;
+    })
+    .replace(SPACED_TELEGRAM_DOMAIN, (match, domain: string) => {
+      const collapsed = `${domain}.me/`;
+      spaced = spaced || collapsed !== match;
+      return collapsed;
+    });
+  if (spaced) {
+    techniques.push('spaced_letters');
+  }
+
+  lastInput = text;
+  lastResult = { text: result, techniques };
+  return { text: result, techniques: [...techniques] };
+}
@@ -0,0 +1,200 @@
+import { isInviteLink } from './heuristics';
+import { domainLists } from './domainLists';
+
+export type UrlClass =
+  | 'shortener'
+  | 'punycode'
+  | 'lookalike'
+  | 'ip_address'
+  | 'telegram_invite'
+  | 'bot_start'
+  | 'blocklisted'
+  | 'allowlisted';
+
+export interface UrlAnalysis {
+  url: string;
+  /** Lowercased host without "www."; IDN hosts in punycode */
+  host: string;
+  classes: UrlClass[];
+  /** Brand the host imitates, for lookalikes */
+  lookalikeOf?: string;
+}
+
+const SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly', 'cutt.ly',
+  'rebrand.ly', 'shorturl.at', 'rb.gy', 'tiny.cc', 's.id', 't.ly', 'clck.ru', 'lnkd.in', 'adf.ly',
+  'shorte.st', 'bl.ink', 'surl.li', 'u.to', 'qps.ru', 'linktr.ee',
+]);
+
+// Brands scammers imitate, with the domains that really belong to them
+const BRANDS: Array<{ name: string; domains: string[] }> = [
+  { name: 'telegram', domains: ['telegram.org', 'telegram.me', 't.me', 'telegra.ph', 'telegram.dog'] },
+  { name: 'paypal', domains: ['paypal.com', 'paypal.me'] },
+  { name: 'google', domains: ['google.com', 'goo.gl', 'youtube.com'] },
+  { name: 'apple', domains: ['apple.com', 'icloud.com'] },
+  { name: 'microsoft', domains: ['microsoft.com', 'live.com', 'outlook.com'] },
+  { name: 'amazon', domains: ['amazon.com'] },
+  { name: 'binance', domains: ['binance.com'] },
+  { name: 'coinbase', domains: ['coinbase.com'] },
+  { name: 'metamask', domains: ['metamask.io'] },
+  { name: 'trustwallet', domains: ['trustwallet.com'] },
+  { name: 'blockchain', domains: ['blockchain.com'] },
+  { name: 'facebook', domains: ['facebook.com', 'fb.com'] },
+  { name: 'instagram', domains: ['instagram.com'] },
+  { name: 'whatsapp', domains: ['whatsapp.com', 'wa.me'] },
+  { name: 'netflix', domains: ['netflix.com'] },
+  { name: 'steamcommunity', domains: ['steamcommunity.com', 'steampowered.com'] },
+];
+
+// Shorter brand names are too close to ordinary words to compare by edit distance
+const MIN_FUZZY_BRAND_LENGTH = 6;
+// Only long names stay recognizable two edits away ("telegraph" is not "telegram")
+const TWO_EDIT_BRAND_LENGTH = 10;
+// Real names and words within a brand's edit distance ("finance" is one edit from "binance")
+const NEAR_BRAND_NAMES = new Set([
+  'finance', 'paypay', 'blockchair', 'blockchains', 'goggle', 'googly', 'telegraf', 'telegrams',
+]);
+
+/**
+ * Levenshtein distance: insertions, deletions and substitutions needed to turn `a` into `b`
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function belongsTo(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// Second-level labels country registries sell domains under ("amazon.co.uk", "apple.com.cn")
+const COUNTRY_SECOND_LEVELS = new Set(['co', 'com', 'net', 'org', 'gov', 'edu', 'ac', 'ne', 'or', 'gob', 'gv']);
+
+/**
+ * Host labels without the public suffix: "login.amazon.co.uk" gives ["login", "amazon"],
+ * so the last label is the name the domain was registered under
+ */
+function labelsBeforeSuffix(host: string): string[] {
+  const labels = host.split('.');
+  const tld = labels.pop() ?? '';
+  if (tld.length === 2 && labels.length > 1 && COUNTRY_SECOND_LEVELS.has(labels[labels.length - 1])) {
+    labels.pop();
+  }
+  return labels;
+}
+
+// Whether a registered name is an edit or two away from a brand, but not the brand itself
+function fuzzyMatches(name: string | undefined, brand: string): boolean {
+  if (!name || brand.length < MIN_FUZZY_BRAND_LENGTH || NEAR_BRAND_NAMES.has(name)) {
+    return false;
+  }
+  const distance = editDistance(name, brand);
+  return distance > 0 && distance <= (brand.length >= TWO_EDIT_BRAND_LENGTH ? 2 : 1);
+}
+
+/**
+ * Brand a host imitates: its name inside another domain ("telegram-premium.xyz",
+ * "paypal.secure-login.com") or a registered name an edit or two away from it
+ * ("teleqram.org"). Subdomains are only searched for the exact name, so
+ * "finance.yahoo.com" is no "binance".
+ */
+function lookalikeBrand(host: string): string | undefined {
+  // The public suffix is not part of the name being imitated
+  const labels = labelsBeforeSuffix(host);
+  const registeredName = labels[labels.length - 1];
+
+  for (const brand of BRANDS) {
+    // Brands run their country sites under their own name ("google.de", "amazon.co.uk")
+    if (registeredName === brand.name || brand.domains.some(domain => belongsTo(host, domain))) {
+      continue;
+    }
+    if (labels.some(label => label.split('-').includes(brand.name)) || fuzzyMatches(registeredName, brand.name)) {
+      return brand.name;
+    }
+  }
+  return undefined;
+}
+
+function isIpAddress(hostname: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.startsWith('[');
+}
+
+function isBotStart(url: URL, host: string): boolean {
+  const startParams = ['start', 'startgroup', 'startapp', 'startchannel'];
+  const hasStart = startParams.some(param => url.searchParams.has(param));
+  if (url.protocol === 'tg:') {
+    return url.hostname === 'resolve' && hasStart;
+  }
+  return (host === 't.me' || host === 'telegram.me' || host === 'telegram.dog') && hasStart;
+}
+
+/**
+ * Parse a link as found in a message ("t.me/x", "https://example.com/a") and
+ * classify it. Returns null when it is not a parseable URL.
+ */
+export function analyzeUrl(raw: string): UrlAnalysis | null {
+  const trimmed = raw.trim();
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  if (!host) {
+    return null;
+  }
+
+  const classes: UrlClass[] = [];
+  const listMatch = url.protocol === 'tg:' ? null : domainLists.match(host);
+  if (listMatch === 'allow') {
+    return { url: trimmed, host, classes: ['allowlisted'] };
+  }
+  if (listMatch === 'block') {
+    classes.push('blocklisted');
+  }
+
+  if (SHORTENERS.has(host)) {
+    classes.push('shortener');
+  }
+  if (host.split('.').some(label => label.startsWith('xn--'))) {
+    classes.push('punycode');
+  }
+  if (isIpAddress(host)) {
+    classes.push('ip_address');
+  }
+  if (isInviteLink(trimmed)) {
+    classes.push('telegram_invite');
+  }
+  if (isBotStart(url, host)) {
+    classes.push('bot_start');
+  }
+
+  const lookalikeOf = isIpAddress(host) || url.protocol === 'tg:' ? undefined : lookalikeBrand(host);
+  if (lookalikeOf) {
+    classes.push('lookalike');
+  }
+
+  return lookalikeOf ? { url: trimmed, host, classes, lookalikeOf } : { url: trimmed, host, classes };
+}
+
+/**
+ * Analyze each distinct link once, skipping ones that do not parse
+ */
+export function analyzeUrls(links: string[]): UrlAnalysis[] {
+  return [...new Set(links)]
+    .map(analyzeUrl)
+    .filter((analysis): analysis is UrlAnalysis => analysis !== null);
+}
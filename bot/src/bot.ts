@@ -4,13 +4,15 @@ import { ContainerManager } from './services/containerManager';
 import { startCommand } from './commands/start';
 import { statusCommand } from './commands/status';
 import { statsCommand, displayStats } from './commands/stats';
-import { settingsCommand, displaySettingsMenu, handleActionSetting, handleThresholdsSetting, updateSetting, toggleSetting } from './commands/settings';
+import { settingsCommand, displaySettingsMenu, handleActionSetting, handleThresholdsSetting, updateSetting, toggleSetting, handleLexiconSetting, toggleLexiconPack } from './commands/settings';
 import { pauseCommand } from './commands/pause';
 import { resumeCommand } from './commands/resume';
 import { stopCommand, confirmStop, cancelStop } from './commands/stop';
 import { resetCommand, confirmReset1, confirmReset2, cancelReset } from './commands/reset';
 import { loginCommand } from './commands/login';
 import { logsCommand } from './commands/logs';
+import { allowCommand, denyCommand, listsCommand, removeListEntry } from './commands/lists';
+import { handleReviewUndo, handleReviewVerdict } from './commands/review';
 import { logger } from './utils/logger';
 
 export function createBot(
@@ -76,6 +78,21 @@ export function createBot(
     await logsCommand(ctx, db, containerMgr);
   });
 
+  // Command: /allow
+  bot.command('allow', async (ctx) => {
+    await allowCommand(ctx, db, containerMgr);
+  });
+
+  // Command: /deny
+  bot.command('deny', async (ctx) => {
+    await denyCommand(ctx, db, containerMgr);
+  });
+
+  // Command: /lists
+  bot.command('lists', async (ctx) => {
+    await listsCommand(ctx, db);
+  });
+
   // Command: /help
   bot.command('help', async (ctx) => {
     await ctx.reply(
@@ -90,6 +107,9 @@ export function createBot(
       `/stop - Stop and remove agent (keeps session)\n` +
       `/reset - Delete session and start over\n` +
       `/logs - View container logs\n` +
+      `/allow - Never flag a sender (ID, @username glob or +prefix)\n` +
+      `/deny - Always treat a sender as spam\n` +
+      `/lists - View and edit allow/deny lists\n` +
       `/help - Show this message\n\n` +
       `Need help? Contact @your_support_channel`,
       { parse_mode: 'Markdown' }
@@ -122,6 +142,10 @@ export function createBot(
       await toggleSetting(ctx, db, containerMgr, 'enable_deletion');
     } else if (action === 'settings_blocking') {
       await toggleSetting(ctx, db, containerMgr, 'enable_blocking');
+    } else if (action === 'settings_lexicons') {
+      await handleLexiconSetting(ctx, db, containerMgr);
+    } else if (action.startsWith('lexicon_toggle_')) {
+      await toggleLexiconPack(ctx, db, containerMgr, action.replace('lexicon_toggle_', ''));
     } else if (action === 'settings_close') {
       await ctx.answerCbQuery();
       await ctx.deleteMessage();
@@ -145,6 +169,27 @@ export function createBot(
       await updateSetting(ctx, db, containerMgr, setting, value);
     }
 
+    // Sender list callbacks
+    else if (action.startsWith('list_remove_')) {
+      const entryId = parseInt(action.replace('list_remove_', ''), 10);
+      await removeListEntry(ctx, db, containerMgr, entryId);
+    }
+
+    // Review queue callbacks
+    else if (action.startsWith('review_')) {
+      const [, answer, id] = action.split('_');
+      const reviewId = parseInt(id, 10);
+      if (answer === 'notspam') {
+        await handleReviewVerdict(ctx, db, containerMgr, reviewId, 'not_spam');
+      } else if (answer === 'spam') {
+        await handleReviewVerdict(ctx, db, containerMgr, reviewId, 'spam');
+      } else if (answer === 'block') {
+        await handleReviewVerdict(ctx, db, containerMgr, reviewId, 'block');
+      } else if (answer === 'undo') {
+        await handleReviewUndo(ctx, db, containerMgr, reviewId);
+      }
+    }
+
     // Stop callbacks
     else if (action === 'stop_confirm') {
       await confirmStop(ctx, db, containerMgr);
@@ -0,0 +1,145 @@
+import { allowCommand, denyCommand, parseListEntry, removeListEntry } from '../lists';
+import { Context } from 'telegraf';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock DatabaseManager
+const mockDb = {
+  getUser: jest.fn(),
+  updateUserActivity: jest.fn(),
+  addSenderListEntry: jest.fn(),
+  removeSenderListEntry: jest.fn(),
+  getSenderListEntries: jest.fn(),
+  getActiveContainer: jest.fn(),
+  addAuditLog: jest.fn(),
+};
+
+// Mock ContainerManager
+const mockContainerMgr = {
+  syncSenderLists: jest.fn(),
+};
+
+// Mock Context
+const createMockContext = (telegramId: number, text = '') => ({
+  from: { id: telegramId },
+  message: { text },
+  reply: jest.fn().mockResolvedValue(undefined),
+  answerCbQuery: jest.fn().mockResolvedValue(undefined),
+  editMessageText: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('sender list commands', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.getUser.mockReturnValue({ telegram_id: 12345 });
+    mockDb.getSenderListEntries.mockReturnValue([]);
+    mockDb.addSenderListEntry.mockImplementation((_id, list_type, entry_type, value) => ({
+      id: 1, telegram_id: 12345, list_type, entry_type, value, created_at: 0,
+    }));
+  });
+
+  describe('parseListEntry', () => {
+    it('should recognize user IDs', () => {
+      expect(parseListEntry('123456')).toEqual({ entry_type: 'user_id', value: '123456' });
+    });
+
+    it('should recognize phone prefixes', () => {
+      expect(parseListEntry('+62')).toEqual({ entry_type: 'phone_prefix', value: '+62' });
+    });
+
+    it('should recognize usernames and globs, adding a leading @', () => {
+      expect(parseListEntry('@alice')).toEqual({ entry_type: 'username', value: '@alice' });
+      expect(parseListEntry('crypto_*')).toEqual({ entry_type: 'username', value: '@crypto_*' });
+    });
+
+    it('should reject anything else', () => {
+      expect(parseListEntry('not valid!')).toBeNull();
+      expect(parseListEntry('+12abc')).toBeNull();
+    });
+  });
+
+  describe('allowCommand / denyCommand', () => {
+    it('should show usage when no entry is given', async () => {
+      const ctx = createMockContext(12345, '/allow');
+
+      await allowCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('Usage: /allow <entry>'), expect.any(Object));
+      expect(mockDb.addSenderListEntry).not.toHaveBeenCalled();
+    });
+
+    it('should store the entry, audit it and sync to the running agent', async () => {
+      const ctx = createMockContext(12345, '/deny @promo_*');
+      mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc' });
+      mockContainerMgr.syncSenderLists.mockResolvedValue(undefined);
+
+      await denyCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+      expect(mockDb.addSenderListEntry).toHaveBeenCalledWith(12345, 'deny', 'username', '@promo_*');
+      expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'sender_list_added', {
+        list: 'deny',
+        entry_type: 'username',
+        entry_value: '@promo_*',
+      });
+      expect(mockContainerMgr.syncSenderLists).toHaveBeenCalledWith('agent-12345', []);
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('already using it'), expect.any(Object));
+    });
+
+    it('should warn when the agent could not be updated', async () => {
+      const ctx = createMockContext(12345, '/allow 42');
+      mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc' });
+      mockContainerMgr.syncSenderLists.mockRejectedValue(new Error('unreachable'));
+
+      await allowCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+      expect(mockDb.addSenderListEntry).toHaveBeenCalledWith(12345, 'allow', 'user_id', '42');
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('could not be updated'), expect.any(Object));
+    });
+
+    it('should require registration', async () => {
+      const ctx = createMockContext(12345, '/allow 42');
+      mockDb.getUser.mockReturnValue(undefined);
+
+      await allowCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+      expect(ctx.reply).toHaveBeenCalledWith('You are not registered. Send /start first.');
+    });
+  });
+
+  describe('removeListEntry', () => {
+    it('should remove the entry and audit it', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.removeSenderListEntry.mockReturnValue({
+        id: 3, telegram_id: 12345, list_type: 'allow', entry_type: 'user_id', value: '42', created_at: 0,
+      });
+      mockDb.getActiveContainer.mockReturnValue(undefined);
+
+      await removeListEntry(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3);
+
+      expect(mockDb.removeSenderListEntry).toHaveBeenCalledWith(12345, 3);
+      expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'sender_list_removed', {
+        list: 'allow',
+        entry_type: 'user_id',
+        entry_value: '42',
+      });
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith('✅ Removed');
+    });
+
+    it('should handle unknown entries', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.removeSenderListEntry.mockReturnValue(undefined);
+
+      await removeListEntry(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 99);
+
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith('Entry not found');
+    });
+  });
+});
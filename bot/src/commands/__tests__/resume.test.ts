@@ -0,0 +1,108 @@
+import { resumeCommand } from '../resume';
+import { Context } from 'telegraf';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const settings = {
+  telegram_id: 12345,
+  low_threshold: 0.4,
+  action_threshold: 0.9,
+  default_action: 'block',
+  enable_deletion: 0,
+  enable_blocking: 1,
+};
+
+// Mock DatabaseManager
+const mockDb = {
+  updateUserActivity: jest.fn(),
+  getUser: jest.fn(),
+  getActiveContainer: jest.fn(),
+  getUserSettings: jest.fn(),
+  getLexiconPacks: jest.fn(),
+  getSenderListEntries: jest.fn(),
+  updateContainerStatus: jest.fn(),
+  updateUserStatus: jest.fn(),
+  addAuditLog: jest.fn(),
+};
+
+// Mock ContainerManager
+const mockContainerMgr = {
+  restartContainer: jest.fn(),
+  applyAgentSettings: jest.fn(),
+  syncSenderLists: jest.fn(),
+};
+
+const createMockContext = (telegramId: number) => ({
+  from: { id: telegramId },
+  reply: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('resumeCommand', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.getUser.mockReturnValue({ telegram_id: 12345, status: 'paused' });
+    mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc', status: 'stopped' });
+    mockDb.getUserSettings.mockReturnValue(settings);
+    mockDb.getLexiconPacks.mockReturnValue(['loan']);
+    mockDb.getSenderListEntries.mockReturnValue([]);
+    mockContainerMgr.restartContainer.mockResolvedValue(undefined);
+    mockContainerMgr.syncSenderLists.mockResolvedValue(undefined);
+  });
+
+  it('should push settings changed while paused after restarting the agent', async () => {
+    const ctx = createMockContext(12345);
+    mockContainerMgr.applyAgentSettings.mockResolvedValue(true);
+
+    await resumeCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+    expect(mockContainerMgr.restartContainer).toHaveBeenCalledWith('agent-12345');
+    expect(mockContainerMgr.applyAgentSettings).toHaveBeenCalledWith('agent-12345', settings, ['loan'], 5);
+    expect(mockContainerMgr.restartContainer.mock.invocationCallOrder[0])
+      .toBeLessThan(mockContainerMgr.applyAgentSettings.mock.invocationCallOrder[0]);
+    expect(mockDb.updateUserStatus).toHaveBeenCalledWith(12345, 'active');
+    expect(ctx.reply).toHaveBeenCalledWith(expect.not.stringContaining('did not confirm'), expect.anything());
+  });
+
+  it('should push sender list entries added while paused after restarting the agent', async () => {
+    const ctx = createMockContext(12345);
+    const entry = { id: 1, telegram_id: 12345, list_type: 'deny', entry_type: 'username', value: 'promo_bot' };
+    mockDb.getSenderListEntries.mockReturnValue([entry]);
+    mockContainerMgr.applyAgentSettings.mockResolvedValue(true);
+
+    await resumeCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+    expect(mockContainerMgr.syncSenderLists).toHaveBeenCalledWith('agent-12345', [entry]);
+    expect(mockContainerMgr.restartContainer.mock.invocationCallOrder[0])
+      .toBeLessThan(mockContainerMgr.syncSenderLists.mock.invocationCallOrder[0]);
+  });
+
+  it('should still resume but warn when the agent does not confirm the settings', async () => {
+    const ctx = createMockContext(12345);
+    mockContainerMgr.applyAgentSettings.mockRejectedValue(new Error('Cannot reach agent container'));
+
+    await resumeCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+    expect(mockDb.updateUserStatus).toHaveBeenCalledWith(12345, 'active');
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'settings_push_failed', expect.anything());
+    expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('did not confirm'), expect.anything());
+  });
+
+  it('should not restart an agent that is not paused', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getUser.mockReturnValue({ telegram_id: 12345, status: 'active' });
+
+    await resumeCommand(ctx as unknown as Context, mockDb as any, mockContainerMgr as any);
+
+    expect(mockContainerMgr.restartContainer).not.toHaveBeenCalled();
+    expect(mockContainerMgr.applyAgentSettings).not.toHaveBeenCalled();
+    expect(mockContainerMgr.syncSenderLists).not.toHaveBeenCalled();
+  });
+});
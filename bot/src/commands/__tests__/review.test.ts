@@ -0,0 +1,286 @@
+import { formatReview, handleReviewUndo, handleReviewVerdict, notifyReview, reviewKeyboard } from '../review';
+import { Context } from 'telegraf';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock DatabaseManager
+const mockDb = {
+  updateUserActivity: jest.fn(),
+  getReviewItem: jest.fn(),
+  setReviewVerdict: jest.fn(),
+  markActionUndone: jest.fn(),
+  addSenderListEntry: jest.fn(),
+  getActiveContainer: jest.fn(),
+  addAuditLog: jest.fn(),
+};
+
+// Mock ContainerManager
+const mockContainerMgr = {
+  sendReviewFeedback: jest.fn(),
+  blockSender: jest.fn(),
+  undoAction: jest.fn(),
+};
+
+// Mock Context
+const createMockContext = (telegramId: number) => ({
+  from: { id: telegramId },
+  answerCbQuery: jest.fn().mockResolvedValue(undefined),
+  editMessageText: jest.fn().mockResolvedValue(undefined),
+});
+
+const reviewItem = {
+  id: 3,
+  telegram_id: 12345,
+  agent_event_id: 9,
+  chat_id: 555,
+  sender_id: 999,
+  sender_username: 'promo_seller',
+  score: 0.7,
+  reasons: JSON.stringify([
+    { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+    { ruleId: 'no_profile_photo', contribution: 0.15 },
+  ]),
+  snippet: 'Cheap <followers> at [link]',
+  action: 'archive',
+  action_id: 4,
+  verdict: null,
+  created_at: 0,
+  reviewed_at: null,
+  undone_at: null,
+};
+
+const callbackData = (markup: any) =>
+  markup.reply_markup.inline_keyboard.map((row: any[]) => row.map(button => button.callback_data));
+
+describe('review queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.getReviewItem.mockReturnValue({ ...reviewItem });
+    mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc', status: 'running' });
+    mockContainerMgr.sendReviewFeedback.mockResolvedValue(undefined);
+    mockContainerMgr.blockSender.mockResolvedValue(5);
+    mockContainerMgr.undoAction.mockResolvedValue(undefined);
+  });
+
+  describe('formatReview', () => {
+    it('should include sender, score, reasons and an escaped snippet', () => {
+      const text = formatReview(reviewItem);
+
+      expect(text).toContain('@promo_seller (<code>999</code>)');
+      expect(text).toContain('Score: 0.70');
+      expect(text).toContain('sender_not_in_contacts (+0.30), no_profile_photo (+0.15)');
+      expect(text).toContain('Cheap &lt;followers&gt; at [link]');
+      expect(text).toContain('Action taken: archive');
+      expect(text).toContain('Is this spam?');
+    });
+
+    it('should list the entities a rule matched', () => {
+      const text = formatReview({
+        ...reviewItem,
+        reasons: JSON.stringify([
+          { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['https://a.io/<x>'] } },
+          { ruleId: 'similar_to_known_spam', contribution: 0.6, details: { similarity: 0.95 } },
+        ]),
+      });
+
+      expect(text).toContain('contains_url (+0.40): <code>https://a.io/&lt;x&gt;</code>');
+      expect(text).toContain('similar_to_known_spam (+0.60)');
+      expect(text).not.toContain('0.95');
+    });
+
+    it('should show trust discounts as negative contributions', () => {
+      const text = formatReview({
+        ...reviewItem,
+        reasons: JSON.stringify([{ ruleId: 'verified_account', contribution: -0.5 }]),
+      });
+
+      expect(text).toContain('verified_account (-0.50)');
+    });
+
+    it('should still render reasons stored as bare rule ids', () => {
+      const text = formatReview({ ...reviewItem, reasons: JSON.stringify(['no_profile_photo']) });
+
+      expect(text).toContain('Reasons: no_profile_photo');
+    });
+
+    it('should show the verdict and undo state', () => {
+      const text = formatReview({ ...reviewItem, verdict: 'not_spam', undone_at: 10 });
+
+      expect(text).toContain('not spam');
+      expect(text).toContain('Undone');
+      expect(text).not.toContain('Is this spam?');
+    });
+  });
+
+  describe('reviewKeyboard', () => {
+    it('should offer verdicts and undo for unanswered reviews', () => {
+      expect(callbackData(reviewKeyboard(reviewItem))).toEqual([
+        ['review_notspam_3', 'review_spam_3', 'review_block_3'],
+        ['review_undo_3'],
+      ]);
+    });
+
+    it('should keep undo after a not spam verdict only', () => {
+      expect(callbackData(reviewKeyboard({ ...reviewItem, verdict: 'not_spam' }))).toEqual([['review_undo_3']]);
+      expect(callbackData(reviewKeyboard({ ...reviewItem, verdict: 'spam' }))).toEqual([]);
+    });
+
+    it('should not offer undo when there is no reversible action', () => {
+      expect(callbackData(reviewKeyboard({ ...reviewItem, action: 'log', action_id: null }))).toHaveLength(1);
+      expect(callbackData(reviewKeyboard({ ...reviewItem, undone_at: 10 }))).toHaveLength(1);
+    });
+  });
+
+  describe('notifyReview', () => {
+    it('should send the detection with verdict buttons', async () => {
+      const telegram = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+
+      await notifyReview(telegram as any, reviewItem);
+
+      const [chatId, , extra] = telegram.sendMessage.mock.calls[0];
+      expect(chatId).toBe(12345);
+      expect(extra.parse_mode).toBe('HTML');
+      expect(callbackData(extra)[0]).toEqual(['review_notspam_3', 'review_spam_3', 'review_block_3']);
+    });
+  });
+
+  describe('handleReviewVerdict', () => {
+    it('should store a not spam verdict and relay it to the agent', async () => {
+      const ctx = createMockContext(12345);
+
+      await handleReviewVerdict(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3, 'not_spam');
+
+      expect(mockDb.setReviewVerdict).toHaveBeenCalledWith(12345, 3, 'not_spam');
+      expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'review_verdict', expect.objectContaining({
+        review_id: 3,
+        verdict: 'not_spam',
+      }));
+      expect(mockContainerMgr.sendReviewFeedback).toHaveBeenCalledWith('agent-12345', 9, 'not_spam');
+      expect(mockContainerMgr.blockSender).not.toHaveBeenCalled();
+      expect(ctx.editMessageText).toHaveBeenCalledWith(
+        expect.stringContaining('Possible spam'),
+        expect.objectContaining({ parse_mode: 'HTML' })
+      );
+    });
+
+    it('should block the sender and label the detection as spam', async () => {
+      const ctx = createMockContext(12345);
+
+      await handleReviewVerdict(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3, 'block');
+
+      expect(mockContainerMgr.blockSender).toHaveBeenCalledWith('agent-12345', 555, 999);
+      expect(mockDb.setReviewVerdict).toHaveBeenCalledWith(12345, 3, 'block');
+      expect(mockContainerMgr.sendReviewFeedback).toHaveBeenCalledWith('agent-12345', 9, 'spam');
+    });
+
+    it('should leave the review open when blocking fails', async () => {
+      const ctx = createMockContext(12345);
+      mockContainerMgr.blockSender.mockRejectedValue(new Error('Block rate limit exceeded'));
+
+      await handleReviewVerdict(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3, 'block');
+
+      expect(mockDb.setReviewVerdict).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith(expect.stringContaining('Could not block'));
+      expect(ctx.editMessageText).not.toHaveBeenCalled();
+    });
+
+    it('should keep the verdict when the agent cannot be reached', async () => {
+      const ctx = createMockContext(12345);
+      mockContainerMgr.sendReviewFeedback.mockRejectedValue(new Error('Cannot reach agent'));
+
+      await handleReviewVerdict(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3, 'spam');
+
+      expect(mockDb.setReviewVerdict).toHaveBeenCalledWith(12345, 3, 'spam');
+      expect(ctx.editMessageText).toHaveBeenCalled();
+    });
+
+    it('should ignore a second answer', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.getReviewItem.mockReturnValue({ ...reviewItem, verdict: 'spam' });
+
+      await handleReviewVerdict(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3, 'not_spam');
+
+      expect(mockDb.setReviewVerdict).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith('Already answered');
+    });
+
+    it('should report reviews that no longer exist', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.getReviewItem.mockReturnValue(undefined);
+
+      await handleReviewVerdict(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3, 'spam');
+
+      expect(mockDb.setReviewVerdict).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith(expect.stringContaining('no longer'));
+    });
+  });
+
+  describe('handleReviewUndo', () => {
+    it('should undo the action, allowlist the sender and label it not spam', async () => {
+      const ctx = createMockContext(12345);
+
+      await handleReviewUndo(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3);
+
+      expect(mockContainerMgr.undoAction).toHaveBeenCalledWith('agent-12345', 4);
+      expect(mockDb.markActionUndone).toHaveBeenCalledWith(12345, 4);
+      expect(mockDb.addSenderListEntry).toHaveBeenCalledWith(12345, 'allow', 'user_id', '999');
+      expect(mockDb.setReviewVerdict).toHaveBeenCalledWith(12345, 3, 'not_spam');
+      expect(mockContainerMgr.sendReviewFeedback).toHaveBeenCalledWith('agent-12345', 9, 'not_spam');
+      expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'action_undone', {
+        review_id: 3,
+        action: 'archive',
+        sender_id: 999,
+      });
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith('↩️ Undone');
+    });
+
+    it('should keep an existing verdict', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.getReviewItem.mockReturnValue({ ...reviewItem, verdict: 'not_spam' });
+
+      await handleReviewUndo(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3);
+
+      expect(mockContainerMgr.undoAction).toHaveBeenCalled();
+      expect(mockDb.setReviewVerdict).not.toHaveBeenCalled();
+    });
+
+    it('should change nothing when the agent cannot undo', async () => {
+      const ctx = createMockContext(12345);
+      mockContainerMgr.undoAction.mockRejectedValue(new Error('Cannot reach agent'));
+
+      await handleReviewUndo(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3);
+
+      expect(mockDb.markActionUndone).not.toHaveBeenCalled();
+      expect(mockDb.addSenderListEntry).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith(expect.stringContaining('Could not undo'));
+    });
+
+    it('should refuse when there is nothing to undo', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.getReviewItem.mockReturnValue({ ...reviewItem, action: 'log', action_id: null });
+
+      await handleReviewUndo(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3);
+
+      expect(mockContainerMgr.undoAction).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith('Nothing to undo');
+    });
+
+    it('should refuse a second undo', async () => {
+      const ctx = createMockContext(12345);
+      mockDb.getReviewItem.mockReturnValue({ ...reviewItem, undone_at: 10 });
+
+      await handleReviewUndo(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 3);
+
+      expect(mockContainerMgr.undoAction).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith('Already undone');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { toggleLexiconPack, updateSetting } from '../settings';
+import { Context } from 'telegraf';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const settings = {
+  telegram_id: 12345,
+  low_threshold: 0.3,
+  action_threshold: 0.85,
+  default_action: 'archive',
+  enable_deletion: 0,
+  enable_blocking: 0,
+};
+
+// Mock DatabaseManager
+const mockDb = {
+  updateUserSettings: jest.fn(),
+  addAuditLog: jest.fn(),
+  getUserSettings: jest.fn(),
+  getActiveContainer: jest.fn(),
+  getLexiconPacks: jest.fn(),
+  setLexiconPack: jest.fn(),
+};
+
+// Mock ContainerManager
+const mockContainerMgr = {
+  applyAgentSettings: jest.fn(),
+  listLexiconPacks: jest.fn(),
+};
+
+// Mock Context
+const createMockContext = (telegramId: number) => ({
+  from: { id: telegramId },
+  callbackQuery: { data: 'action_block' },
+  reply: jest.fn().mockResolvedValue(undefined),
+  answerCbQuery: jest.fn().mockResolvedValue(undefined),
+  editMessageText: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('updateSetting', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.getUserSettings.mockReturnValue(settings);
+    mockDb.getLexiconPacks.mockReturnValue([]);
+  });
+
+  it('should save the setting and push it to the running agent', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc', status: 'running' });
+    mockContainerMgr.applyAgentSettings.mockResolvedValue(true);
+
+    await updateSetting(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'default_action', 'block');
+
+    expect(mockDb.updateUserSettings).toHaveBeenCalledWith(12345, { default_action: 'block' });
+    expect(mockContainerMgr.applyAgentSettings).toHaveBeenCalledWith('agent-12345', settings, [], 1);
+    expect(ctx.answerCbQuery).toHaveBeenCalledWith('✅ Updated default_action (applied to agent)');
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'settings_applied');
+    expect(ctx.reply).not.toHaveBeenCalled();
+  });
+
+  it('should only save the setting when no agent is running', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getActiveContainer.mockReturnValue(undefined);
+
+    await updateSetting(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'low_threshold', 0.4);
+
+    expect(mockDb.updateUserSettings).toHaveBeenCalledWith(12345, { low_threshold: 0.4 });
+    expect(mockContainerMgr.applyAgentSettings).not.toHaveBeenCalled();
+    expect(ctx.answerCbQuery).toHaveBeenCalledWith('✅ Updated low_threshold');
+  });
+
+  it('should tell the user when the agent did not confirm the change', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc', status: 'running' });
+    mockContainerMgr.applyAgentSettings.mockResolvedValue(false);
+
+    await updateSetting(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'default_action', 'block');
+
+    expect(ctx.answerCbQuery).toHaveBeenCalledWith('⚠️ Saved default_action, but agent did not apply it');
+    expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('did not confirm the change'));
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'settings_push_failed', { reason: 'mismatch' });
+  });
+
+  it('should tell the user when the agent is unreachable', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc', status: 'running' });
+    mockContainerMgr.applyAgentSettings.mockRejectedValue(new Error('Cannot reach agent container'));
+
+    await updateSetting(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'enable_blocking', 1);
+
+    expect(mockDb.updateUserSettings).toHaveBeenCalledWith(12345, { enable_blocking: 1 });
+    expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('did not confirm the change'));
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'settings_push_failed', {
+      reason: 'Cannot reach agent container',
+    });
+  });
+});
+
+describe('toggleLexiconPack', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.getUserSettings.mockReturnValue(settings);
+    mockDb.getActiveContainer.mockReturnValue({ container_id: 'abc', status: 'running' });
+    mockContainerMgr.listLexiconPacks.mockReturnValue([
+      { id: 'loan', name: 'Loan scams', version: 1 },
+      { id: 'adult', name: 'Adult', version: 1 },
+    ]);
+    mockContainerMgr.applyAgentSettings.mockResolvedValue(true);
+  });
+
+  it('should enable the pack and push the pack list to the agent', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getLexiconPacks.mockReturnValueOnce([]).mockReturnValue(['loan']);
+
+    await toggleLexiconPack(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'loan');
+
+    expect(mockDb.setLexiconPack).toHaveBeenCalledWith(12345, 'loan', true);
+    expect(mockContainerMgr.applyAgentSettings).toHaveBeenCalledWith('agent-12345', settings, ['loan'], 1);
+    expect(ctx.answerCbQuery).toHaveBeenCalledWith('✅ Updated loan (applied to agent)');
+    expect(ctx.editMessageText).toHaveBeenCalledWith(expect.stringContaining('Keyword Packs'), expect.anything());
+  });
+
+  it('should disable an enabled pack even after its file was removed', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getLexiconPacks.mockReturnValue(['retired_pack']);
+
+    await toggleLexiconPack(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'retired_pack');
+
+    expect(mockDb.setLexiconPack).toHaveBeenCalledWith(12345, 'retired_pack', false);
+  });
+
+  it('should refuse packs that are not installed', async () => {
+    const ctx = createMockContext(12345);
+    mockDb.getLexiconPacks.mockReturnValue([]);
+
+    await toggleLexiconPack(ctx as unknown as Context, mockDb as any, mockContainerMgr as any, 'unknown');
+
+    expect(mockDb.setLexiconPack).not.toHaveBeenCalled();
+    expect(ctx.answerCbQuery).toHaveBeenCalledWith('❌ Unknown keyword pack');
+  });
+});
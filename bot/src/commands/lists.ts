@@ -0,0 +1,213 @@
+import { Context } from 'telegraf';
+import { Markup } from 'telegraf';
+import type { DatabaseManager, SenderListEntry } from '../db/database';
+import type { ContainerManager } from '../services/containerManager';
+import { logger } from '../utils/logger';
+
+const ENTRY_HELP =
+  'Entries can be:\n' +
+  '• a user ID, e.g. `123456789`\n' +
+  '• a username or glob, e.g. `@alice` or `@crypto_*`\n' +
+  '• a phone country prefix, e.g. `+62`';
+
+export function parseListEntry(input: string): Pick<SenderListEntry, 'entry_type' | 'value'> | null {
+  const value = input.trim();
+
+  if (/^\d+$/.test(value)) {
+    return { entry_type: 'user_id', value };
+  }
+  if (/^\+\d{1,15}$/.test(value)) {
+    return { entry_type: 'phone_prefix', value };
+  }
+  if (/^@?[a-z0-9_*?]+$/i.test(value)) {
+    return { entry_type: 'username', value: value.startsWith('@') ? value : `@${value}` };
+  }
+  return null;
+}
+
+export async function allowCommand(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager
+): Promise<void> {
+  await addEntry(ctx, db, containerMgr, 'allow');
+}
+
+export async function denyCommand(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager
+): Promise<void> {
+  await addEntry(ctx, db, containerMgr, 'deny');
+}
+
+async function addEntry(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager,
+  listType: SenderListEntry['list_type']
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) {
+    await ctx.reply('Error: Could not identify user.');
+    return;
+  }
+
+  db.updateUserActivity(telegramId);
+
+  const user = db.getUser(telegramId);
+  if (!user) {
+    await ctx.reply('You are not registered. Send /start first.');
+    return;
+  }
+
+  const message = ctx.message as any;
+  const argument = message?.text?.split(' ').slice(1).join(' ').trim() || '';
+  const parsed = argument ? parseListEntry(argument) : null;
+
+  if (!parsed) {
+    await ctx.reply(
+      `Usage: /${listType} <entry>\n\n` + ENTRY_HELP,
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+
+  const entry = db.addSenderListEntry(telegramId, listType, parsed.entry_type, parsed.value);
+  db.addAuditLog(telegramId, 'sender_list_added', {
+    list: listType,
+    entry_type: entry.entry_type,
+    entry_value: entry.value,
+  });
+
+  logger.info({ telegramId, listType, entryType: entry.entry_type }, 'User added sender list entry');
+
+  const synced = await syncListsToAgent(telegramId, db, containerMgr);
+  const listLabel = listType === 'allow' ? 'allowlist' : 'denylist';
+
+  await ctx.reply(
+    `✅ Added \`${entry.value}\` to your ${listLabel}.` + syncNote(synced),
+    { parse_mode: 'Markdown' }
+  );
+}
+
+export async function listsCommand(
+  ctx: Context,
+  db: DatabaseManager
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) {
+    await ctx.reply('Error: Could not identify user.');
+    return;
+  }
+
+  db.updateUserActivity(telegramId);
+
+  const user = db.getUser(telegramId);
+  if (!user) {
+    await ctx.reply('You are not registered. Send /start first.');
+    return;
+  }
+
+  await displayLists(ctx, db);
+}
+
+export async function displayLists(
+  ctx: Context,
+  db: DatabaseManager
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) return;
+
+  const entries = db.getSenderListEntries(telegramId);
+  const allow = entries.filter(entry => entry.list_type === 'allow');
+  const deny = entries.filter(entry => entry.list_type === 'deny');
+
+  const format = (items: SenderListEntry[]) =>
+    items.length > 0
+      ? items.map(entry => `• \`${entry.value}\` (${entry.entry_type.replace('_', ' ')})`).join('\n')
+      : '_empty_';
+
+  const message =
+    '📋 *Sender Lists*\n\n' +
+    `✅ *Allowlist* (never flagged):\n${format(allow)}\n\n` +
+    `🚫 *Denylist* (always treated as spam):\n${format(deny)}\n\n` +
+    'Add entries with /allow or /deny. Tap an entry below to remove it.';
+
+  const keyboard = Markup.inlineKeyboard(
+    entries.map(entry => [
+      Markup.button.callback(
+        `🗑️ ${entry.list_type === 'allow' ? '✅' : '🚫'} ${entry.value}`,
+        `list_remove_${entry.id}`
+      ),
+    ])
+  );
+
+  if (ctx.callbackQuery) {
+    await ctx.editMessageText(message, { parse_mode: 'Markdown', ...keyboard });
+  } else {
+    await ctx.reply(message, { parse_mode: 'Markdown', ...keyboard });
+  }
+}
+
+export async function removeListEntry(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager,
+  entryId: number
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) {
+    await ctx.answerCbQuery('Error: Could not identify user.');
+    return;
+  }
+
+  const entry = db.removeSenderListEntry(telegramId, entryId);
+  if (!entry) {
+    await ctx.answerCbQuery('Entry not found');
+    await displayLists(ctx, db);
+    return;
+  }
+
+  db.addAuditLog(telegramId, 'sender_list_removed', {
+    list: entry.list_type,
+    entry_type: entry.entry_type,
+    entry_value: entry.value,
+  });
+
+  logger.info({ telegramId, listType: entry.list_type, entryType: entry.entry_type }, 'User removed sender list entry');
+
+  const synced = await syncListsToAgent(telegramId, db, containerMgr);
+  await ctx.answerCbQuery(synced === 'failed' ? '⚠️ Removed, but agent not updated' : '✅ Removed');
+  await displayLists(ctx, db);
+}
+
+function syncNote(synced: 'synced' | 'failed' | 'no_agent'): string {
+  if (synced === 'synced') {
+    return '\nYour agent is already using it.';
+  }
+  if (synced === 'failed') {
+    return '\n⚠️ Your agent could not be updated right now; it will get the new lists the next time it is resumed (/pause then /resume).';
+  }
+  return '';
+}
+
+export async function syncListsToAgent(
+  telegramId: number,
+  db: DatabaseManager,
+  containerMgr: ContainerManager
+): Promise<'synced' | 'failed' | 'no_agent'> {
+  const container = db.getActiveContainer(telegramId);
+  if (!container) {
+    return 'no_agent';
+  }
+
+  const containerName = `agent-${telegramId}`;
+  try {
+    await containerMgr.syncSenderLists(containerName, db.getSenderListEntries(telegramId));
+    return 'synced';
+  } catch (error) {
+    logger.warn({ telegramId, containerName, error }, 'Failed to sync sender lists to agent');
+    return 'failed';
+  }
+}
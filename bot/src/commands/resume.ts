@@ -2,6 +2,11 @@ import { Context } from 'telegraf';
 import type { DatabaseManager } from '../db/database';
 import type { ContainerManager } from '../services/containerManager';
 import { logger } from '../utils/logger';
+import { pushSettingsToAgent } from './settings';
+import { syncListsToAgent } from './lists';
+
+// The agent needs a few seconds after a restart before its HTTP server answers
+const AGENT_STARTUP_ATTEMPTS = 5;
 
 export async function resumeCommand(
   ctx: Context,
@@ -49,10 +54,18 @@ export async function resumeCommand(
 
     logger.info({ telegramId, containerId: container.container_id }, 'Agent resumed by user');
 
+    // The restarted agent still has the env it was created with, so bring it up to date
+    // with any settings and sender lists changed while it was paused
+    const applied = await pushSettingsToAgent(telegramId, db, containerMgr, AGENT_STARTUP_ATTEMPTS);
+    const synced = await syncListsToAgent(telegramId, db, containerMgr);
+
     await ctx.reply(
       '▶️ **Agent Resumed**\n\n' +
       'Your spam-arrester agent is now running again.\n' +
       'It will continue monitoring your private chats.\n\n' +
+      (applied === 'failed' || synced === 'failed'
+        ? '⚠️ It did not confirm your current settings and lists. Try /pause then /resume again.\n\n'
+        : '') +
       'Use /status to check statistics.',
       { parse_mode: 'Markdown' }
     );
@@ -0,0 +1,249 @@
+import { Context, Markup } from 'telegraf';
+import type { Telegram } from 'telegraf';
+import type { DatabaseManager, ReviewItem, ReviewReason } from '../db/database';
+import type { ContainerManager } from '../services/containerManager';
+import { logger } from '../utils/logger';
+
+export type ReviewVerdict = NonNullable<ReviewItem['verdict']>;
+
+const VERDICT_TEXT: Record<ReviewVerdict, string> = {
+  not_spam: '✅ You marked this as not spam.',
+  spam: '🚨 You confirmed this as spam.',
+  block: '🚫 You confirmed this as spam and blocked the sender.',
+};
+
+const UNDONE_TEXT: Record<string, string> = {
+  archive: '↩️ Undone: the chat is back in your main list and the sender is on your allowlist.',
+  block: '↩️ Undone: the sender is unblocked and on your allowlist. Deleted messages cannot be restored.',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function canUndo(item: ReviewItem): boolean {
+  return item.action_id !== null && item.undone_at === null && item.verdict !== 'spam' && item.verdict !== 'block';
+}
+
+function formatReasons(stored: string): string {
+  // Rows queued before rule contributions were reported hold bare rule ids
+  const reasons = JSON.parse(stored) as Array<ReviewReason | string>;
+  return reasons
+    .map(reason => {
+      if (typeof reason === 'string') {
+        return escapeHtml(reason);
+      }
+      // Trust signals lower the score and carry a negative contribution
+      const sign = reason.contribution < 0 ? '' : '+';
+      const label = `${escapeHtml(reason.ruleId)} (${sign}${reason.contribution.toFixed(2)})`;
+      // Matched entities (links, mentions, phone numbers) show why the rule fired
+      const entities = Object.values(reason.details || {})
+        .filter((value): value is unknown[] => Array.isArray(value))
+        .flat()
+        .map(value => `<code>${escapeHtml(String(value))}</code>`);
+      return entities.length > 0 ? `${label}: ${entities.join(' ')}` : label;
+    })
+    .join(', ') || 'none';
+}
+
+export function formatReview(item: ReviewItem): string {
+  const sender = item.sender_username
+    ? `@${escapeHtml(item.sender_username)} (<code>${item.sender_id}</code>)`
+    : `<code>${item.sender_id}</code>`;
+  const reasons = formatReasons(item.reasons);
+
+  let message =
+    '🔍 <b>Possible spam</b>\n\n' +
+    `👤 From: ${sender}\n` +
+    `📊 Score: ${item.score.toFixed(2)}\n` +
+    `🔎 Reasons: ${reasons}\n`;
+
+  if (item.snippet) {
+    message += `💬 <i>${escapeHtml(item.snippet)}</i>\n`;
+  }
+  if (item.action) {
+    message += `⚙️ Action taken: ${escapeHtml(item.action)}\n`;
+  }
+
+  if (!item.verdict) {
+    message += '\nIs this spam?';
+  } else {
+    message += '\n' + VERDICT_TEXT[item.verdict];
+  }
+  if (item.undone_at !== null && item.action) {
+    message += '\n' + (UNDONE_TEXT[item.action] || '↩️ Undone.');
+  }
+
+  return message;
+}
+
+/**
+ * Verdict buttons while unanswered, plus Undo while the agent's action can still be reversed
+ */
+export function reviewKeyboard(item: ReviewItem) {
+  const rows = [];
+
+  if (!item.verdict) {
+    rows.push([
+      Markup.button.callback('✅ Not spam', `review_notspam_${item.id}`),
+      Markup.button.callback('🚨 Spam', `review_spam_${item.id}`),
+      Markup.button.callback('🚫 Block', `review_block_${item.id}`),
+    ]);
+  }
+  if (canUndo(item)) {
+    rows.push([Markup.button.callback(`↩️ Undo ${item.action}`, `review_undo_${item.id}`)]);
+  }
+
+  return Markup.inlineKeyboard(rows);
+}
+
+/**
+ * Send a queued detection to its owner with one-tap verdict buttons
+ */
+export async function notifyReview(telegram: Telegram, item: ReviewItem): Promise<void> {
+  await telegram.sendMessage(item.telegram_id, formatReview(item), {
+    parse_mode: 'HTML',
+    ...reviewKeyboard(item),
+  });
+}
+
+export async function handleReviewVerdict(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager,
+  reviewId: number,
+  verdict: ReviewVerdict
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) {
+    await ctx.answerCbQuery('Error: Could not identify user.');
+    return;
+  }
+
+  db.updateUserActivity(telegramId);
+
+  const item = db.getReviewItem(telegramId, reviewId);
+  if (!item) {
+    await ctx.answerCbQuery('This detection is no longer in your review queue');
+    return;
+  }
+
+  if (item.verdict) {
+    await ctx.answerCbQuery('Already answered');
+    return;
+  }
+
+  const container = db.getActiveContainer(telegramId);
+  const containerName = `agent-${telegramId}`;
+
+  if (verdict === 'block') {
+    if (!container) {
+      await ctx.answerCbQuery('⚠️ Your agent is not running, so the sender cannot be blocked');
+      return;
+    }
+    try {
+      await containerMgr.blockSender(containerName, item.chat_id, item.sender_id);
+    } catch (error) {
+      logger.warn({ telegramId, reviewId, error }, 'Failed to block sender from review');
+      await ctx.answerCbQuery('⚠️ Could not block the sender right now, please try again');
+      return;
+    }
+  }
+
+  db.setReviewVerdict(telegramId, reviewId, verdict);
+  db.addAuditLog(telegramId, 'review_verdict', {
+    review_id: reviewId,
+    verdict,
+    sender_id: item.sender_id,
+    score: item.score,
+  });
+
+  logger.info({ telegramId, reviewId, verdict }, 'User reviewed detection');
+
+  if (container) {
+    await relayVerdict(containerMgr, containerName, item, verdict === 'not_spam' ? 'not_spam' : 'spam');
+  }
+
+  const updated = db.getReviewItem(telegramId, reviewId) as ReviewItem;
+  await ctx.answerCbQuery('Thanks for the feedback');
+  await ctx.editMessageText(formatReview(updated), { parse_mode: 'HTML', ...reviewKeyboard(updated) });
+}
+
+/**
+ * Reverse the agent's action on a false positive. The agent allowlists the sender;
+ * the entry is mirrored here so /lists shows it and later syncs keep it.
+ */
+export async function handleReviewUndo(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager,
+  reviewId: number
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) {
+    await ctx.answerCbQuery('Error: Could not identify user.');
+    return;
+  }
+
+  db.updateUserActivity(telegramId);
+
+  const item = db.getReviewItem(telegramId, reviewId);
+  if (!item || item.action_id === null) {
+    await ctx.answerCbQuery('Nothing to undo');
+    return;
+  }
+
+  if (item.undone_at !== null) {
+    await ctx.answerCbQuery('Already undone');
+    return;
+  }
+
+  if (!db.getActiveContainer(telegramId)) {
+    await ctx.answerCbQuery('⚠️ Your agent is not running, so nothing can be undone right now');
+    return;
+  }
+
+  const containerName = `agent-${telegramId}`;
+  try {
+    await containerMgr.undoAction(containerName, item.action_id);
+  } catch (error) {
+    logger.warn({ telegramId, reviewId, actionId: item.action_id, error }, 'Failed to undo agent action');
+    await ctx.answerCbQuery('⚠️ Could not undo right now, please try again');
+    return;
+  }
+
+  db.markActionUndone(telegramId, item.action_id);
+  db.addSenderListEntry(telegramId, 'allow', 'user_id', String(item.sender_id));
+
+  // Undoing is an implicit "not spam" unless the user already said otherwise
+  if (!item.verdict) {
+    db.setReviewVerdict(telegramId, reviewId, 'not_spam');
+    await relayVerdict(containerMgr, containerName, item, 'not_spam');
+  }
+
+  db.addAuditLog(telegramId, 'action_undone', {
+    review_id: reviewId,
+    action: item.action,
+    sender_id: item.sender_id,
+  });
+
+  logger.info({ telegramId, reviewId, actionId: item.action_id }, 'User undid agent action');
+
+  const updated = db.getReviewItem(telegramId, reviewId) as ReviewItem;
+  await ctx.answerCbQuery('↩️ Undone');
+  await ctx.editMessageText(formatReview(updated), { parse_mode: 'HTML', ...reviewKeyboard(updated) });
+}
+
+async function relayVerdict(
+  containerMgr: ContainerManager,
+  containerName: string,
+  item: ReviewItem,
+  label: 'spam' | 'not_spam'
+): Promise<void> {
+  try {
+    await containerMgr.sendReviewFeedback(containerName, item.agent_event_id, label);
+  } catch (error) {
+    // The verdict is kept here either way; the agent only loses this training example
+    logger.warn({ telegramId: item.telegram_id, reviewId: item.id, error }, 'Failed to send review feedback to agent');
+  }
+}
@@ -43,6 +43,7 @@ export async function displaySettingsMenu(
 
   const deletionIcon = settings.enable_deletion ? '✅' : '❌';
   const blockingIcon = settings.enable_blocking ? '✅' : '❌';
+  const lexiconPacks = db.getLexiconPacks(telegramId);
 
   const message = 
     '⚙️ *Settings*\n\n' +
@@ -50,7 +51,8 @@ export async function displaySettingsMenu(
     `📊 *Low Threshold:* ${settings.low_threshold}\n` +
     `📊 *Action Threshold:* ${settings.action_threshold}\n` +
     `🗑️ *Deletion:* ${deletionIcon} ${settings.enable_deletion ? 'Enabled' : 'Disabled'}\n` +
-    `🚫 *Blocking:* ${blockingIcon} ${settings.enable_blocking ? 'Enabled' : 'Disabled'}\n\n` +
+    `🚫 *Blocking:* ${blockingIcon} ${settings.enable_blocking ? 'Enabled' : 'Disabled'}\n` +
+    `📚 *Keyword Packs:* ${lexiconPacks.length > 0 ? lexiconPacks.join(', ').replace(/_/g, ' ') : 'None'}\n\n` +
     'Choose what to configure:';
 
   const keyboard = Markup.inlineKeyboard([
@@ -62,6 +64,7 @@ export async function displaySettingsMenu(
       Markup.button.callback(`🗑️ Deletion (${settings.enable_deletion ? 'ON' : 'OFF'})`, 'settings_deletion'),
       Markup.button.callback(`🚫 Blocking (${settings.enable_blocking ? 'ON' : 'OFF'})`, 'settings_blocking'),
     ],
+    [Markup.button.callback('📚 Keyword Packs', 'settings_lexicons')],
     [Markup.button.callback('🔙 Close', 'settings_close')],
   ]);
 
@@ -136,10 +139,37 @@ export async function handleThresholdsSetting(
   await ctx.editMessageText(message, { parse_mode: 'Markdown', ...keyboard });
 }
 
+export async function handleLexiconSetting(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) return;
+
+  const enabled = new Set(db.getLexiconPacks(telegramId));
+  const packs = containerMgr.listLexiconPacks();
+
+  const message =
+    '📚 *Keyword Packs*\n\n' +
+    'Terms from enabled packs raise the spam score and are listed in detection reasons.\n\n' +
+    (packs.length > 0 ? 'Tap a pack to turn it on or off:' : 'No keyword packs are installed.');
+
+  const keyboard = Markup.inlineKeyboard([
+    ...packs.map(pack => [Markup.button.callback(
+      `${enabled.has(pack.id) ? '✅' : '❌'} ${pack.name} (v${pack.version})`,
+      `lexicon_toggle_${pack.id}`
+    )]),
+    [Markup.button.callback('🔙 Back', 'settings_menu')],
+  ]);
+
+  await ctx.editMessageText(message, { parse_mode: 'Markdown', ...keyboard });
+}
+
 export async function updateSetting(
   ctx: Context,
   db: DatabaseManager,
-  _containerMgr: ContainerManager,
+  containerMgr: ContainerManager,
   setting: string,
   value: any
 ): Promise<void> {
@@ -153,15 +183,12 @@ export async function updateSetting(
     db.updateUserSettings(telegramId, updates);
     db.addAuditLog(telegramId, 'settings_changed', { setting, value });
 
-    // If there's an active container, it will pick up new settings on restart
-    // For immediate effect, user would need to restart the container
-
     logger.info({ telegramId, setting, value }, 'User updated settings');
 
-    await ctx.answerCbQuery(`✅ Updated ${setting}`);
-    
-    // Refresh the settings menu
-    await displaySettingsMenu(ctx, db);
+    // Hot-reload the running agent so the change applies without a restart
+    const applied = await pushSettingsToAgent(telegramId, db, containerMgr);
+
+    await reportSettingSaved(ctx, applied, setting, () => displaySettingsMenu(ctx, db));
   } catch (error) {
     logger.error({ telegramId, error }, 'Failed to update settings');
     await ctx.answerCbQuery('❌ Failed to update settings');
@@ -185,3 +212,99 @@ export async function toggleSetting(
 
   await updateSetting(ctx, db, containerMgr, setting, newValue);
 }
+
+export async function toggleLexiconPack(
+  ctx: Context,
+  db: DatabaseManager,
+  containerMgr: ContainerManager,
+  packId: string
+): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) return;
+
+  const enabled = db.getLexiconPacks(telegramId).includes(packId);
+  // Packs removed from the config directory can still be turned off
+  if (!enabled && !containerMgr.listLexiconPacks().some(pack => pack.id === packId)) {
+    await ctx.answerCbQuery('❌ Unknown keyword pack');
+    return;
+  }
+
+  try {
+    db.setLexiconPack(telegramId, packId, !enabled);
+    db.addAuditLog(telegramId, 'settings_changed', { setting: 'lexicon_pack', value: packId, enabled: !enabled });
+
+    logger.info({ telegramId, packId, enabled: !enabled }, 'User toggled keyword pack');
+
+    const applied = await pushSettingsToAgent(telegramId, db, containerMgr);
+
+    await reportSettingSaved(ctx, applied, packId, () => handleLexiconSetting(ctx, db, containerMgr));
+  } catch (error) {
+    logger.error({ telegramId, packId, error }, 'Failed to toggle keyword pack');
+    await ctx.answerCbQuery('❌ Failed to update settings');
+  }
+}
+
+async function reportSettingSaved(
+  ctx: Context,
+  applied: 'applied' | 'failed' | 'no_agent',
+  label: string,
+  refresh: () => Promise<void>
+): Promise<void> {
+  if (applied === 'applied') {
+    await ctx.answerCbQuery(`✅ Updated ${label} (applied to agent)`);
+  } else if (applied === 'no_agent') {
+    await ctx.answerCbQuery(`✅ Updated ${label}`);
+  } else {
+    await ctx.answerCbQuery(`⚠️ Saved ${label}, but agent did not apply it`);
+  }
+
+  // Refresh the screen the button was on
+  await refresh();
+
+  if (applied === 'failed') {
+    await ctx.reply(
+      '⚠️ Your setting was saved, but your running agent did not confirm the change.\n' +
+      'It will pick up your saved settings the next time it is resumed (use /pause then /resume).'
+    );
+  }
+}
+
+/**
+ * Push the user's stored settings to their agent, if they have one.
+ * Pass more attempts when the agent was just (re)started.
+ */
+export async function pushSettingsToAgent(
+  telegramId: number,
+  db: DatabaseManager,
+  containerMgr: ContainerManager,
+  attempts = 1
+): Promise<'applied' | 'failed' | 'no_agent'> {
+  const container = db.getActiveContainer(telegramId);
+  const settings = db.getUserSettings(telegramId);
+  if (!container || !settings) {
+    return 'no_agent';
+  }
+
+  const containerName = `agent-${telegramId}`;
+  try {
+    const confirmed = await containerMgr.applyAgentSettings(
+      containerName,
+      settings,
+      db.getLexiconPacks(telegramId),
+      attempts
+    );
+    if (!confirmed) {
+      logger.warn({ telegramId, containerName }, 'Agent config does not match pushed settings');
+      db.addAuditLog(telegramId, 'settings_push_failed', { reason: 'mismatch' });
+      return 'failed';
+    }
+    db.addAuditLog(telegramId, 'settings_applied');
+    return 'applied';
+  } catch (error) {
+    logger.warn({ telegramId, containerName, error }, 'Failed to push settings to agent');
+    db.addAuditLog(telegramId, 'settings_push_failed', {
+      reason: error instanceof Error ? error.message : 'unknown',
+    });
+    return 'failed';
+  }
+}
@@ -85,10 +85,11 @@ export async function displayStats(
   const latest = metrics[0]; // Most recent
   const oldest = metrics[metrics.length - 1]; // Oldest in period
 
-  const totalMessages = latest.messages_processed - (oldest.messages_processed || 0);
-  const totalSpam = latest.spam_detected - (oldest.spam_detected || 0);
-  const totalArchived = latest.spam_archived - (oldest.spam_archived || 0);
-  const totalBlocked = latest.spam_blocked - (oldest.spam_blocked || 0);
+  // Counters are cumulative; clamp at zero in case an agent lost its persisted state
+  const totalMessages = Math.max(0, latest.messages_processed - (oldest.messages_processed || 0));
+  const totalSpam = Math.max(0, latest.spam_detected - (oldest.spam_detected || 0));
+  const totalArchived = Math.max(0, latest.spam_archived - (oldest.spam_archived || 0));
+  const totalBlocked = Math.max(0, latest.spam_blocked - (oldest.spam_blocked || 0));
   
   const avgSpamRate = totalMessages > 0 
     ? (totalSpam / totalMessages * 100).toFixed(1) 
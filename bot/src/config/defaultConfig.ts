@@ -13,7 +13,29 @@ export const defaultConfigTemplate = {
     checkCommonGroups: true,
     checkProfilePhoto: true,
     checkLinks: true,
+    checkInviteLinks: true,
+    checkMentions: true,
     checkPhoneNumbers: true,
+    checkBio: true,
+    checkPhotos: true,
+    checkAttachments: true,
+    checkProfileNames: true,
+  },
+  observation: {
+    enabled: true,
+    maxMessages: 3,
+    windowSeconds: 600,
+  },
+  campaign: {
+    burstMessages: 5,
+    burstWindowSeconds: 60,
+    clusterSenders: 3,
+    clusterWindowSeconds: 600,
+    firstContactSpike: 5,
+    firstContactWindowSeconds: 600,
+  },
+  lexicons: {
+    enabledPacks: [],
   },
   actions: {
     defaultAction: 'log',
@@ -21,6 +43,8 @@ export const defaultConfigTemplate = {
     enableDeletion: false,
     removeFromChatList: true,
     revokeMessages: true,
+    quarantineRiskyAttachments: false,
+    botSenderPolicy: 'score',
   },
   tdlib: {
     databaseDirectory: './tdlib-data',
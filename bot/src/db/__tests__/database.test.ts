@@ -797,4 +797,200 @@ describe('DatabaseManager', () => {
       });
     });
   });
+
+  describe('Sender list operations', () => {
+    beforeEach(() => {
+      db.createUser(12345, 'testuser');
+      db.createUser(67890, 'otheruser');
+    });
+
+    describe('addSenderListEntry', () => {
+      it('should add an entry and return it', () => {
+        const entry = db.addSenderListEntry(12345, 'deny', 'username', '@spam_*');
+
+        expect(entry.id).toBeGreaterThan(0);
+        expect(entry.list_type).toBe('deny');
+        expect(entry.entry_type).toBe('username');
+        expect(entry.value).toBe('@spam_*');
+      });
+
+      it('should not duplicate identical entries', () => {
+        const first = db.addSenderListEntry(12345, 'allow', 'user_id', '42');
+        const second = db.addSenderListEntry(12345, 'allow', 'user_id', '42');
+
+        expect(second.id).toBe(first.id);
+        expect(db.getSenderListEntries(12345)).toHaveLength(1);
+      });
+    });
+
+    describe('getSenderListEntries', () => {
+      it('should only return entries for the given user', () => {
+        db.addSenderListEntry(12345, 'allow', 'user_id', '1');
+        db.addSenderListEntry(67890, 'deny', 'phone_prefix', '+62');
+
+        const entries = db.getSenderListEntries(12345);
+        expect(entries).toHaveLength(1);
+        expect(entries[0].value).toBe('1');
+      });
+    });
+
+    describe('removeSenderListEntry', () => {
+      it('should remove and return the entry', () => {
+        const entry = db.addSenderListEntry(12345, 'deny', 'user_id', '99');
+
+        const removed = db.removeSenderListEntry(12345, entry.id);
+
+        expect(removed?.value).toBe('99');
+        expect(db.getSenderListEntries(12345)).toHaveLength(0);
+      });
+
+      it('should not remove entries belonging to another user', () => {
+        const entry = db.addSenderListEntry(67890, 'deny', 'user_id', '99');
+
+        expect(db.removeSenderListEntry(12345, entry.id)).toBeUndefined();
+        expect(db.getSenderListEntries(67890)).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('Lexicon pack operations', () => {
+    beforeEach(() => {
+      db.createUser(12345, 'testuser');
+      db.createUser(67890, 'otheruser');
+    });
+
+    it('should start with no packs enabled', () => {
+      expect(db.getLexiconPacks(12345)).toEqual([]);
+    });
+
+    it('should enable and disable packs per user', () => {
+      db.setLexiconPack(12345, 'loan', true);
+      db.setLexiconPack(12345, 'crypto_investment', true);
+      db.setLexiconPack(12345, 'loan', true);
+      db.setLexiconPack(67890, 'adult', true);
+
+      expect(db.getLexiconPacks(12345)).toEqual(['crypto_investment', 'loan']);
+
+      db.setLexiconPack(12345, 'loan', false);
+
+      expect(db.getLexiconPacks(12345)).toEqual(['crypto_investment']);
+      expect(db.getLexiconPacks(67890)).toEqual(['adult']);
+    });
+  });
+
+  describe('Agent event cursor operations', () => {
+    beforeEach(() => {
+      db.createUser(12345, 'testuser');
+    });
+
+    it('should default to zero', () => {
+      expect(db.getAgentEventCursor(12345)).toBe(0);
+    });
+
+    it('should store and update the cursor', () => {
+      db.setAgentEventCursor(12345, 10);
+      db.setAgentEventCursor(12345, 15);
+
+      expect(db.getAgentEventCursor(12345)).toBe(15);
+    });
+  });
+
+  describe('Review queue operations', () => {
+    const detection = {
+      agent_event_id: 7,
+      chat_id: 555,
+      sender_id: 999,
+      sender_username: 'promo_seller',
+      score: 0.7,
+      reasons: [
+        { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+        { ruleId: 'no_profile_photo', contribution: 0.15 },
+      ],
+      snippet: 'Cheap followers at [link]',
+      action: 'archive',
+      action_id: 4,
+    };
+
+    beforeEach(() => {
+      db.createUser(12345, 'testuser');
+      db.createUser(67890, 'otheruser');
+    });
+
+    it('should add a pending review item', () => {
+      const item = db.addReviewItem(12345, detection);
+
+      expect(item.id).toBeGreaterThan(0);
+      expect(item.verdict).toBeNull();
+      expect(JSON.parse(item.reasons)).toEqual(detection.reasons);
+      expect(item.sender_username).toBe('promo_seller');
+    });
+
+    it('should not return review items belonging to another user', () => {
+      const item = db.addReviewItem(67890, detection);
+
+      expect(db.getReviewItem(12345, item.id)).toBeUndefined();
+    });
+
+    it('should record verdicts as labeled reviews', () => {
+      const first = db.addReviewItem(12345, detection);
+      db.addReviewItem(12345, { ...detection, agent_event_id: 8 });
+
+      db.setReviewVerdict(12345, first.id, 'not_spam');
+
+      const labeled = db.getLabeledReviews(12345);
+      expect(labeled).toHaveLength(1);
+      expect(labeled[0].verdict).toBe('not_spam');
+      expect(labeled[0].reviewed_at).not.toBeNull();
+    });
+
+    it('should find the unanswered review queued for an agent event', () => {
+      const answered = db.addReviewItem(12345, detection);
+      db.setReviewVerdict(12345, answered.id, 'spam');
+      const pending = db.addReviewItem(12345, { ...detection, agent_event_id: 8 });
+
+      expect(db.getPendingReviewByEvent(12345, 8)?.id).toBe(pending.id);
+      expect(db.getPendingReviewByEvent(12345, 7)).toBeUndefined();
+      expect(db.getPendingReviewByEvent(67890, 8)).toBeUndefined();
+    });
+
+    it('should discard only unanswered reviews', () => {
+      const answered = db.addReviewItem(12345, detection);
+      const pending = db.addReviewItem(12345, { ...detection, agent_event_id: 8 });
+      db.setReviewVerdict(12345, answered.id, 'block');
+
+      expect(db.discardPendingReviews(12345)).toBe(1);
+      expect(db.getReviewItem(12345, pending.id)).toBeUndefined();
+      expect(db.getReviewItem(12345, answered.id)?.verdict).toBe('block');
+    });
+
+    it('should mark reviews for an undone action', () => {
+      const item = db.addReviewItem(12345, detection);
+
+      db.markActionUndone(12345, 4);
+      db.markActionUndone(67890, 4);
+
+      expect(db.getReviewItem(12345, item.id)?.undone_at).not.toBeNull();
+    });
+
+    it('should resolve unanswered reviews as not spam by agent event id', () => {
+      const pending = db.addReviewItem(12345, detection);
+      const answered = db.addReviewItem(12345, { ...detection, agent_event_id: detection.agent_event_id + 1 });
+      db.setReviewVerdict(12345, answered.id, 'spam');
+
+      const resolved = db.resolveReviewsAsNotSpam(12345, [pending.agent_event_id, answered.agent_event_id]);
+
+      expect(resolved).toBe(1);
+      expect(db.getReviewItem(12345, pending.id)?.verdict).toBe('not_spam');
+      expect(db.getReviewItem(12345, answered.id)?.verdict).toBe('spam');
+      expect(db.resolveReviewsAsNotSpam(12345, [])).toBe(0);
+    });
+
+    it('should forget agent action ids', () => {
+      const item = db.addReviewItem(12345, detection);
+
+      db.clearReviewActions(12345);
+
+      expect(db.getReviewItem(12345, item.id)?.action_id).toBeNull();
+    });
+  });
 });
@@ -55,6 +55,41 @@ export interface MetricsSnapshot {
   spam_rate: number;
 }
 
+export interface SenderListEntry {
+  id: number;
+  telegram_id: number;
+  list_type: 'allow' | 'deny';
+  entry_type: 'user_id' | 'username' | 'phone_prefix';
+  value: string;
+  created_at: number;
+}
+
+/** A detection rule that fired, with what it added to the score */
+export interface ReviewReason {
+  ruleId: string;
+  contribution: number;
+  /** Evidence reported by the rule, e.g. `{ urls: [...] }` */
+  details?: Record<string, unknown>;
+}
+
+export interface ReviewItem {
+  id: number;
+  telegram_id: number;
+  agent_event_id: number;
+  chat_id: number;
+  sender_id: number;
+  sender_username: string | null;
+  score: number;
+  reasons: string;
+  snippet: string | null;
+  action: string | null;
+  action_id: number | null;
+  verdict: 'not_spam' | 'spam' | 'block' | null;
+  created_at: number;
+  reviewed_at: number | null;
+  undone_at: number | null;
+}
+
 export class DatabaseManager {
   private db: Database.Database;
 
@@ -261,6 +296,184 @@ export class DatabaseManager {
     return stmt.all(telegramId, cutoff) as MetricsSnapshot[];
   }
 
+  // Sender list operations
+  addSenderListEntry(
+    telegramId: number,
+    listType: SenderListEntry['list_type'],
+    entryType: SenderListEntry['entry_type'],
+    value: string
+  ): SenderListEntry {
+    const stmt = this.db.prepare(`
+      INSERT INTO sender_lists (telegram_id, list_type, entry_type, value, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(telegram_id, list_type, entry_type, value) DO NOTHING
+    `);
+    stmt.run(telegramId, listType, entryType, value, Math.floor(Date.now() / 1000));
+
+    const select = this.db.prepare(`
+      SELECT * FROM sender_lists
+      WHERE telegram_id = ? AND list_type = ? AND entry_type = ? AND value = ?
+    `);
+    return select.get(telegramId, listType, entryType, value) as SenderListEntry;
+  }
+
+  removeSenderListEntry(telegramId: number, entryId: number): SenderListEntry | undefined {
+    const select = this.db.prepare('SELECT * FROM sender_lists WHERE id = ? AND telegram_id = ?');
+    const entry = select.get(entryId, telegramId) as SenderListEntry | undefined;
+    if (entry) {
+      const stmt = this.db.prepare('DELETE FROM sender_lists WHERE id = ?');
+      stmt.run(entryId);
+    }
+    return entry;
+  }
+
+  getSenderListEntries(telegramId: number): SenderListEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sender_lists
+      WHERE telegram_id = ?
+      ORDER BY list_type, created_at
+    `);
+    return stmt.all(telegramId) as SenderListEntry[];
+  }
+
+  // Lexicon pack operations
+  getLexiconPacks(telegramId: number): string[] {
+    const stmt = this.db.prepare('SELECT pack_id FROM user_lexicon_packs WHERE telegram_id = ? ORDER BY pack_id');
+    return (stmt.all(telegramId) as Array<{ pack_id: string }>).map(row => row.pack_id);
+  }
+
+  setLexiconPack(telegramId: number, packId: string, enabled: boolean): void {
+    const stmt = enabled
+      ? this.db.prepare(`
+        INSERT INTO user_lexicon_packs (telegram_id, pack_id)
+        VALUES (?, ?)
+        ON CONFLICT(telegram_id, pack_id) DO NOTHING
+      `)
+      : this.db.prepare('DELETE FROM user_lexicon_packs WHERE telegram_id = ? AND pack_id = ?');
+    stmt.run(telegramId, packId);
+  }
+
+  // Agent event cursor operations
+  getAgentEventCursor(telegramId: number): number {
+    const stmt = this.db.prepare('SELECT last_event_id FROM agent_event_cursors WHERE telegram_id = ?');
+    const row = stmt.get(telegramId) as { last_event_id: number } | undefined;
+    return row?.last_event_id ?? 0;
+  }
+
+  setAgentEventCursor(telegramId: number, lastEventId: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO agent_event_cursors (telegram_id, last_event_id)
+      VALUES (?, ?)
+      ON CONFLICT(telegram_id) DO UPDATE SET last_event_id = excluded.last_event_id
+    `);
+    stmt.run(telegramId, lastEventId);
+  }
+
+  // Review queue operations
+  addReviewItem(
+    telegramId: number,
+    item: Omit<ReviewItem, 'id' | 'telegram_id' | 'reasons' | 'verdict' | 'created_at' | 'reviewed_at' | 'undone_at'> & {
+      reasons: ReviewReason[];
+    }
+  ): ReviewItem {
+    const stmt = this.db.prepare(`
+      INSERT INTO review_queue
+        (telegram_id, agent_event_id, chat_id, sender_id, sender_username, score, reasons, snippet, action, action_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      telegramId,
+      item.agent_event_id,
+      item.chat_id,
+      item.sender_id,
+      item.sender_username,
+      item.score,
+      JSON.stringify(item.reasons),
+      item.snippet,
+      item.action,
+      item.action_id,
+      Math.floor(Date.now() / 1000)
+    );
+    return this.getReviewItem(telegramId, Number(result.lastInsertRowid)) as ReviewItem;
+  }
+
+  /**
+   * The unanswered review queued for an agent event, if it was queued already
+   */
+  getPendingReviewByEvent(telegramId: number, agentEventId: number): ReviewItem | undefined {
+    const stmt = this.db.prepare(`
+      SELECT * FROM review_queue
+      WHERE telegram_id = ? AND agent_event_id = ? AND verdict IS NULL
+      ORDER BY id DESC
+      LIMIT 1
+    `);
+    return stmt.get(telegramId, agentEventId) as ReviewItem | undefined;
+  }
+
+  getReviewItem(telegramId: number, reviewId: number): ReviewItem | undefined {
+    const stmt = this.db.prepare('SELECT * FROM review_queue WHERE id = ? AND telegram_id = ?');
+    return stmt.get(reviewId, telegramId) as ReviewItem | undefined;
+  }
+
+  setReviewVerdict(telegramId: number, reviewId: number, verdict: NonNullable<ReviewItem['verdict']>): void {
+    const stmt = this.db.prepare(`
+      UPDATE review_queue
+      SET verdict = ?, reviewed_at = ?
+      WHERE id = ? AND telegram_id = ?
+    `);
+    stmt.run(verdict, Math.floor(Date.now() / 1000), reviewId, telegramId);
+  }
+
+  getLabeledReviews(telegramId: number): ReviewItem[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM review_queue
+      WHERE telegram_id = ? AND verdict IS NOT NULL
+      ORDER BY reviewed_at
+    `);
+    return stmt.all(telegramId) as ReviewItem[];
+  }
+
+  /**
+   * Answer unreviewed detections as not spam on the user's behalf (e.g. they replied in the chat).
+   * Returns how many reviews were resolved.
+   */
+  resolveReviewsAsNotSpam(telegramId: number, agentEventIds: number[]): number {
+    if (agentEventIds.length === 0) {
+      return 0;
+    }
+    const stmt = this.db.prepare(`
+      UPDATE review_queue
+      SET verdict = 'not_spam', reviewed_at = ?
+      WHERE telegram_id = ? AND verdict IS NULL AND agent_event_id IN (${agentEventIds.map(() => '?').join(', ')})
+    `);
+    return stmt.run(Math.floor(Date.now() / 1000), telegramId, ...agentEventIds).changes;
+  }
+
+  markActionUndone(telegramId: number, actionId: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE review_queue
+      SET undone_at = ?
+      WHERE telegram_id = ? AND action_id = ? AND undone_at IS NULL
+    `);
+    stmt.run(Math.floor(Date.now() / 1000), telegramId, actionId);
+  }
+
+  /**
+   * Forget agent action ids (agent state wiped); those actions can no longer be undone
+   */
+  clearReviewActions(telegramId: number): void {
+    const stmt = this.db.prepare('UPDATE review_queue SET action_id = NULL WHERE telegram_id = ?');
+    stmt.run(telegramId);
+  }
+
+  /**
+   * Drop unanswered reviews whose agent event ids no longer mean anything (agent state wiped)
+   */
+  discardPendingReviews(telegramId: number): number {
+    const stmt = this.db.prepare('DELETE FROM review_queue WHERE telegram_id = ? AND verdict IS NULL');
+    return stmt.run(telegramId).changes;
+  }
+
   // Cleanup operations
   cleanOldAuditLogs(days = 30): void {
     const cutoff = Math.floor(Date.now() / 1000) - (days * 86400);
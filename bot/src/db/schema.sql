@@ -61,6 +61,53 @@ CREATE TABLE IF NOT EXISTS metrics (
   FOREIGN KEY (telegram_id) REFERENCES users(telegram_id)
 );
 
+-- Per-user allow/deny lists of senders (synced to the agent)
+CREATE TABLE IF NOT EXISTS sender_lists (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  telegram_id INTEGER NOT NULL,
+  list_type TEXT CHECK(list_type IN ('allow', 'deny')) NOT NULL,
+  entry_type TEXT CHECK(entry_type IN ('user_id', 'username', 'phone_prefix')) NOT NULL,
+  value TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  UNIQUE(telegram_id, list_type, entry_type, value),
+  FOREIGN KEY (telegram_id) REFERENCES users(telegram_id)
+);
+
+-- Keyword lexicon packs each user turned on (ids of the pack files in config/lexicons)
+CREATE TABLE IF NOT EXISTS user_lexicon_packs (
+  telegram_id INTEGER NOT NULL,
+  pack_id TEXT NOT NULL,
+  PRIMARY KEY (telegram_id, pack_id),
+  FOREIGN KEY (telegram_id) REFERENCES users(telegram_id)
+);
+
+-- Last processed event from each user's agent event outbox
+CREATE TABLE IF NOT EXISTS agent_event_cursors (
+  telegram_id INTEGER PRIMARY KEY,
+  last_event_id INTEGER NOT NULL DEFAULT 0,
+  FOREIGN KEY (telegram_id) REFERENCES users(telegram_id)
+);
+
+-- Agent detections awaiting (or labeled with) the user's verdict; labeled rows are training data
+CREATE TABLE IF NOT EXISTS review_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  telegram_id INTEGER NOT NULL,
+  agent_event_id INTEGER NOT NULL,
+  chat_id INTEGER NOT NULL,
+  sender_id INTEGER NOT NULL,
+  sender_username TEXT,
+  score REAL NOT NULL,
+  reasons TEXT NOT NULL,
+  snippet TEXT,
+  action TEXT,
+  action_id INTEGER,
+  verdict TEXT CHECK(verdict IN ('not_spam', 'spam', 'block')),
+  created_at INTEGER NOT NULL,
+  reviewed_at INTEGER,
+  undone_at INTEGER,
+  FOREIGN KEY (telegram_id) REFERENCES users(telegram_id)
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_containers_telegram_id ON containers(telegram_id);
 CREATE INDEX IF NOT EXISTS idx_containers_status ON containers(status);
@@ -68,3 +115,5 @@ CREATE INDEX IF NOT EXISTS idx_audit_log_telegram_id ON audit_log(telegram_id);
 CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(timestamp);
 CREATE INDEX IF NOT EXISTS idx_metrics_telegram_id ON metrics(telegram_id);
 CREATE INDEX IF NOT EXISTS idx_metrics_timestamp ON metrics(timestamp);
+CREATE INDEX IF NOT EXISTS idx_sender_lists_telegram_id ON sender_lists(telegram_id);
+CREATE INDEX IF NOT EXISTS idx_review_queue_telegram_id ON review_queue(telegram_id);
@@ -4,6 +4,7 @@ import { promises as fs } from 'fs';
 import { createBot } from './bot';
 import { DatabaseManager } from './db/database';
 import { ContainerManager } from './services/containerManager';
+import { AgentEventProcessor } from './services/agentEvents';
 import { WebApiServer } from './webApi';
 import { setWebApiRef } from './commands/start';
 import { logger } from './utils/logger';
@@ -83,6 +84,27 @@ async function main() {
     }
   }, 60000); // Every minute
 
+  // Start periodic metrics collection from running agents
+  const metricsInterval = parseInt(process.env.METRICS_POLL_INTERVAL_MS || '300000', 10);
+  setInterval(async () => {
+    try {
+      await containerMgr.collectMetrics(db);
+    } catch (error) {
+      logger.error({ error }, 'Metrics collection failed');
+    }
+  }, metricsInterval); // Every 5 minutes by default
+
+  // Start periodic agent event collection (list hits, detections)
+  const eventProcessor = new AgentEventProcessor(db, containerMgr, bot.telegram);
+  const eventsInterval = parseInt(process.env.EVENTS_POLL_INTERVAL_MS || '30000', 10);
+  setInterval(async () => {
+    try {
+      await eventProcessor.collect();
+    } catch (error) {
+      logger.error({ error }, 'Agent event collection failed');
+    }
+  }, eventsInterval); // Every 30 seconds by default
+
   // Start periodic cleanup
   setInterval(() => {
     try {
@@ -0,0 +1,302 @@
+import { AgentEventProcessor } from '../agentEvents';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('AgentEventProcessor', () => {
+  let processor: AgentEventProcessor;
+  let cursors: Map<number, number>;
+
+  const mockDb = {
+    getAllActiveContainers: jest.fn(),
+    getAgentEventCursor: jest.fn(),
+    setAgentEventCursor: jest.fn(),
+    getSenderListEntries: jest.fn(),
+    addAuditLog: jest.fn(),
+    addReviewItem: jest.fn(),
+    getPendingReviewByEvent: jest.fn(),
+    discardPendingReviews: jest.fn(),
+    clearReviewActions: jest.fn(),
+    markActionUndone: jest.fn(),
+    addSenderListEntry: jest.fn(),
+    resolveReviewsAsNotSpam: jest.fn(),
+  };
+
+  const mockTelegram = {
+    sendMessage: jest.fn(),
+  };
+
+  const mockContainerMgr = {
+    getAgentEvents: jest.fn(),
+    syncSenderLists: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cursors = new Map();
+    mockDb.getAgentEventCursor.mockImplementation((id: number) => cursors.get(id) ?? 0);
+    mockDb.setAgentEventCursor.mockImplementation((id: number, value: number) => cursors.set(id, value));
+    mockDb.getAllActiveContainers.mockReturnValue([
+      { telegram_id: 12345, container_id: 'c1', status: 'running' },
+    ]);
+    processor = new AgentEventProcessor(mockDb as any, mockContainerMgr as any, mockTelegram as any);
+  });
+
+  it('should fetch events after the stored cursor and advance it', async () => {
+    cursors.set(12345, 4);
+    mockContainerMgr.getAgentEvents.mockResolvedValue({
+      events: [
+        { id: 5, type: 'unknown', timestamp: 1, data: {} },
+        { id: 6, type: 'unknown', timestamp: 2, data: {} },
+      ],
+      lastId: 6,
+    });
+
+    await processor.collect();
+
+    expect(mockContainerMgr.getAgentEvents).toHaveBeenCalledWith('agent-12345', 4);
+    expect(cursors.get(12345)).toBe(6);
+  });
+
+  it('should record list hits in the audit log', async () => {
+    mockContainerMgr.getAgentEvents.mockResolvedValue({
+      events: [{
+        id: 1,
+        type: 'list_hit',
+        timestamp: 1,
+        data: { chatId: 1, userId: 999, list: 'deny', entryType: 'username', entryValue: '@spam_*' },
+      }],
+      lastId: 1,
+    });
+
+    await processor.collect();
+
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'sender_list_hit', {
+      list: 'deny',
+      entry_type: 'username',
+      entry_value: '@spam_*',
+      sender_id: 999,
+    });
+  });
+
+  it('should queue detections for review and notify the user', async () => {
+    mockDb.addReviewItem.mockImplementation((telegramId: number, item: any) => ({
+      ...item,
+      id: 3,
+      telegram_id: telegramId,
+      reasons: JSON.stringify(item.reasons),
+      verdict: null,
+    }));
+    mockContainerMgr.getAgentEvents.mockResolvedValue({
+      events: [{
+        id: 9,
+        type: 'detection',
+        timestamp: 1,
+        data: {
+          chatId: 555,
+          userId: 999,
+          username: 'promo_seller',
+          score: 0.7,
+          reasons: [
+            { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+            { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['https://a.io'] } },
+            'legacy_rule',
+          ],
+          snippet: 'Cheap followers at [link]',
+          action: 'archive',
+          actionId: 4,
+        },
+      }],
+      lastId: 9,
+    });
+
+    await processor.collect();
+
+    expect(mockDb.addReviewItem).toHaveBeenCalledWith(12345, {
+      agent_event_id: 9,
+      chat_id: 555,
+      sender_id: 999,
+      sender_username: 'promo_seller',
+      score: 0.7,
+      reasons: [
+        { ruleId: 'sender_not_in_contacts', contribution: 0.3 },
+        { ruleId: 'contains_url', contribution: 0.4, details: { urls: ['https://a.io'] } },
+        { ruleId: 'legacy_rule', contribution: 0 },
+      ],
+      snippet: 'Cheap followers at [link]',
+      action: 'archive',
+      action_id: 4,
+    });
+    expect(mockTelegram.sendMessage).toHaveBeenCalledWith(
+      12345,
+      expect.stringContaining('Cheap followers at [link]'),
+      expect.objectContaining({ parse_mode: 'HTML' })
+    );
+    expect(cursors.get(12345)).toBe(9);
+  });
+
+  it('should mirror undo allowlisting into the orchestrator lists', async () => {
+    mockDb.getSenderListEntries.mockReturnValue([]);
+    mockContainerMgr.getAgentEvents.mockResolvedValue({
+      events: [{
+        id: 10,
+        type: 'action_undone',
+        timestamp: 1,
+        data: { actionId: 4, chatId: 555, userId: 999, archived: true, blocked: false, historyDeleted: false },
+      }],
+      lastId: 10,
+    });
+
+    await processor.collect();
+
+    expect(mockDb.markActionUndone).toHaveBeenCalledWith(12345, 4);
+    expect(mockDb.addSenderListEntry).toHaveBeenCalledWith(12345, 'allow', 'user_id', '999');
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'sender_list_added', expect.objectContaining({
+      source: 'undo',
+    }));
+  });
+
+  it('should not re-add senders the orchestrator already allowlisted', async () => {
+    mockDb.getSenderListEntries.mockReturnValue([
+      { id: 1, list_type: 'allow', entry_type: 'user_id', value: '999' },
+    ]);
+    mockContainerMgr.getAgentEvents.mockResolvedValue({
+      events: [{ id: 10, type: 'action_undone', timestamp: 1, data: { actionId: 4, userId: 999 } }],
+      lastId: 10,
+    });
+
+    await processor.collect();
+
+    expect(mockDb.addSenderListEntry).not.toHaveBeenCalled();
+    expect(mockDb.addAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('should resolve reviews the owner answered by replying in the chat', async () => {
+    mockDb.resolveReviewsAsNotSpam.mockReturnValue(2);
+    mockContainerMgr.getAgentEvents.mockResolvedValue({
+      events: [{ id: 11, type: 'owner_replied', timestamp: 1, data: { chatId: 555, userId: 999, eventIds: [7, 9] } }],
+      lastId: 11,
+    });
+
+    await processor.collect();
+
+    expect(mockDb.resolveReviewsAsNotSpam).toHaveBeenCalledWith(12345, [7, 9]);
+    expect(mockDb.addAuditLog).toHaveBeenCalledWith(12345, 'review_verdict', {
+      verdict: 'not_spam',
+      source: 'owner_reply',
+      sender_id: 999,
+      agent_event_ids: [7, 9],
+    });
+  });
+
+  it('should skip containers that are not running', async () => {
+    mockDb.getAllActiveContainers.mockReturnValue([
+      { telegram_id: 12345, container_id: 'c1', status: 'starting' },
+    ]);
+
+    await processor.collect();
+
+    expect(mockContainerMgr.getAgentEvents).not.toHaveBeenCalled();
+  });
+
+  it('should reset the cursor and resync lists when the agent state was wiped', async () => {
+    cursors.set(12345, 50);
+    const entries = [{ id: 1, list_type: 'allow', entry_type: 'user_id', value: '1' }];
+    mockDb.getSenderListEntries.mockReturnValue(entries);
+    mockContainerMgr.getAgentEvents.mockResolvedValue({ events: [], lastId: 2 });
+
+    await processor.collect();
+
+    expect(cursors.get(12345)).toBe(0);
+    expect(mockContainerMgr.syncSenderLists).toHaveBeenCalledWith('agent-12345', entries);
+    expect(mockDb.discardPendingReviews).toHaveBeenCalledWith(12345);
+    expect(mockDb.clearReviewActions).toHaveBeenCalledWith(12345);
+  });
+
+  it('should keep going when an agent is unreachable', async () => {
+    mockDb.getAllActiveContainers.mockReturnValue([
+      { telegram_id: 111, container_id: 'c1', status: 'running' },
+      { telegram_id: 222, container_id: 'c2', status: 'running' },
+    ]);
+    mockContainerMgr.getAgentEvents
+      .mockRejectedValueOnce(new Error('Cannot reach agent'))
+      .mockResolvedValueOnce({ events: [{ id: 1, type: 'unknown', timestamp: 1, data: {} }], lastId: 1 });
+
+    await processor.collect();
+
+    expect(cursors.get(222)).toBe(1);
+  });
+
+  describe('failed events', () => {
+    const detection = (id: number) => ({
+      id,
+      type: 'detection',
+      timestamp: 1,
+      data: { chatId: 555, userId: 999, score: 0.7, reasons: [], snippet: 'Cheap followers', action: 'archive' },
+    });
+    const queued = { id: 3, telegram_id: 12345, chat_id: 555, sender_id: 999, score: 0.7, reasons: '[]', snippet: 'Cheap followers', verdict: null };
+
+    beforeEach(() => {
+      mockDb.addReviewItem.mockReturnValue(queued);
+      mockDb.getPendingReviewByEvent.mockReset();
+      mockTelegram.sendMessage.mockReset();
+    });
+
+    it('should not move the cursor past a review that could not be delivered', async () => {
+      cursors.set(12345, 8);
+      mockContainerMgr.getAgentEvents.mockResolvedValue({ events: [detection(9), detection(10)], lastId: 10 });
+      mockTelegram.sendMessage.mockRejectedValueOnce(new Error('Telegram is down'));
+
+      await processor.collect();
+
+      expect(cursors.get(12345)).toBe(8);
+      expect(mockDb.addReviewItem).toHaveBeenCalledTimes(1);
+
+      // The next poll delivers the review already queued instead of queueing it again
+      mockDb.getPendingReviewByEvent.mockImplementation((_id: number, eventId: number) => (eventId === 9 ? queued : undefined));
+      await processor.collect();
+
+      expect(mockDb.addReviewItem).toHaveBeenCalledTimes(2);
+      expect(mockDb.addReviewItem).toHaveBeenLastCalledWith(12345, expect.objectContaining({ agent_event_id: 10 }));
+      expect(mockTelegram.sendMessage).toHaveBeenCalledTimes(3);
+      expect(cursors.get(12345)).toBe(10);
+    });
+
+    it('should skip an event that keeps failing so later ones get through', async () => {
+      mockContainerMgr.getAgentEvents.mockResolvedValue({ events: [detection(9), detection(10)], lastId: 10 });
+      mockTelegram.sendMessage.mockImplementation(async (_chatId: number, text: string) => {
+        if (mockTelegram.sendMessage.mock.calls.length <= 5) {
+          throw new Error(`Cannot send ${text.length} characters`);
+        }
+      });
+
+      for (let poll = 0; poll < 5; poll++) {
+        await processor.collect();
+      }
+
+      expect(cursors.get(12345)).toBe(10);
+    });
+
+    it('should not start a poll while the previous one is still running', async () => {
+      let release: () => void = () => undefined;
+      mockContainerMgr.getAgentEvents.mockReturnValueOnce(new Promise(resolve => {
+        release = () => resolve({ events: [detection(9)], lastId: 9 });
+      }));
+
+      const slow = processor.collect();
+      await processor.collect();
+      release();
+      await slow;
+
+      expect(mockContainerMgr.getAgentEvents).toHaveBeenCalledTimes(1);
+      expect(mockDb.addReviewItem).toHaveBeenCalledTimes(1);
+    });
+  });
+});
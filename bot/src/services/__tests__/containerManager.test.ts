@@ -1,5 +1,8 @@
 import { ContainerManager, ContainerConfig } from '../containerManager';
 import { UserSettings } from '../../db/database';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock logger
 jest.mock('../../utils/logger', () => ({
@@ -197,6 +200,7 @@ describe('ContainerManager', () => {
       apiId: 'test-api-id',
       apiHash: 'test-api-hash',
       settings: mockSettings,
+      lexiconPacks: ['loan', 'giveaway'],
     };
 
     beforeEach(() => {
@@ -226,8 +230,10 @@ describe('ContainerManager', () => {
             'DEFAULT_ACTION=archive',
             'ENABLE_DELETION=false',
             'ENABLE_BLOCKING=false',
+            'LEXICON_PACKS=loan,giveaway',
             'LOG_LEVEL=info',
             'CONFIG_PATH=/app/config/default.json',
+            expect.stringMatching(/^CONFIG_GENERATION=\d+$/),
           ],
           HostConfig: {
             Binds: [
@@ -375,6 +381,7 @@ describe('ContainerManager', () => {
           apiId: '', // Empty string
           apiHash: 'test-api-hash',
           settings: mockSettings,
+          lexiconPacks: [],
         };
 
         mockDockerGetContainer.mockReturnValueOnce({
@@ -400,6 +407,7 @@ describe('ContainerManager', () => {
           apiId: 'test-api-id',
           apiHash: null as any, // null value
           settings: mockSettings,
+          lexiconPacks: [],
         };
 
         mockDockerGetContainer.mockReturnValueOnce({
@@ -425,6 +433,7 @@ describe('ContainerManager', () => {
           apiId: undefined as any,
           apiHash: undefined as any,
           settings: mockSettings,
+          lexiconPacks: [],
         };
 
         mockDockerGetContainer.mockReturnValueOnce({
@@ -640,6 +649,7 @@ describe('ContainerManager', () => {
           enable_deletion: 0,
           enable_blocking: 0,
         },
+        lexiconPacks: [],
       };
 
       await containerManager.createContainer(mockConfig);
@@ -654,4 +664,279 @@ describe('ContainerManager', () => {
       );
     });
   });
+
+  describe('listLexiconPacks', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'container-config-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should summarize the pack files of the config directory', () => {
+      mkdirSync(join(dir, 'lexicons'));
+      writeFileSync(join(dir, 'lexicons', 'loan.json'), JSON.stringify({ id: 'loan', version: 2, name: 'Loan scams', terms: {} }));
+      writeFileSync(join(dir, 'lexicons', 'adult.json'), JSON.stringify({ id: 'adult', version: 1, name: 'Adult', terms: {} }));
+      writeFileSync(join(dir, 'lexicons', 'broken.json'), '{');
+      const manager = new ContainerManager(dockerSocket, sessionsDir, dir, agentImage, networkName);
+
+      expect(manager.listLexiconPacks()).toEqual([
+        { id: 'adult', name: 'Adult', version: 1 },
+        { id: 'loan', name: 'Loan scams', version: 2 },
+      ]);
+    });
+
+    it('should return no packs when the directory is missing', () => {
+      const manager = new ContainerManager(dockerSocket, sessionsDir, dir, agentImage, networkName);
+
+      expect(manager.listLexiconPacks()).toEqual([]);
+    });
+  });
+
+  describe('Agent metrics collection', () => {
+    const agentMetrics = {
+      msgProcessedTotal: 40,
+      spamDetectedTotal: 10,
+      spamBlockedTotal: 2,
+      spamArchivedTotal: 8,
+      rateLimitHits: 0,
+      spamRate: 0.25,
+    };
+
+    let mockFetch: jest.Mock;
+    let mockDb: {
+      getAllActiveContainers: jest.Mock;
+      addMetricsSnapshot: jest.Mock;
+    };
+
+    beforeEach(() => {
+      mockFetch = jest.fn();
+      global.fetch = mockFetch as any;
+      mockDb = {
+        getAllActiveContainers: jest.fn(),
+        addMetricsSnapshot: jest.fn(),
+      };
+    });
+
+    describe('getAgentMetrics', () => {
+      it('should fetch metrics from the agent HTTP port', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => agentMetrics });
+
+        const result = await containerManager.getAgentMetrics('agent-12345');
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'http://agent-12345:3100/metrics',
+          expect.objectContaining({ method: 'GET' })
+        );
+        expect(result).toEqual(agentMetrics);
+      });
+
+      it('should throw when the agent responds with an error', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: false, json: async () => ({}) });
+
+        await expect(
+          containerManager.getAgentMetrics('agent-12345')
+        ).rejects.toThrow('Failed to get agent metrics');
+      });
+    });
+
+    describe('applyAgentSettings', () => {
+      const settings: UserSettings = {
+        telegram_id: 12345,
+        low_threshold: 0.4,
+        action_threshold: 0.9,
+        default_action: 'block',
+        enable_deletion: 1,
+        enable_blocking: 0,
+      };
+      const agentConfig = {
+        thresholds: { lowThreshold: 0.4, actionThreshold: 0.9, vectorSimilarityCutoff: 0.9 },
+        actions: { defaultAction: 'block', enableDeletion: true, enableBlocking: false },
+        lexicons: { enabledPacks: ['adult', 'loan'] },
+      };
+
+      it('should PUT settings in agent config format', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ config: agentConfig }) });
+
+        await containerManager.applyAgentSettings('agent-12345', settings, ['loan', 'adult']);
+
+        expect(mockFetch).toHaveBeenCalledWith('http://agent-12345:3100/config', expect.objectContaining({
+          method: 'PUT',
+        }));
+        const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+        expect(body).toEqual({
+          thresholds: { lowThreshold: 0.4, actionThreshold: 0.9 },
+          actions: { defaultAction: 'block', enableDeletion: true, enableBlocking: false },
+          lexicons: { enabledPacks: ['adult', 'loan'] },
+        });
+      });
+
+      it('should confirm when the agent reports the pushed values', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ config: agentConfig }) });
+
+        await expect(containerManager.applyAgentSettings('agent-12345', settings, ['loan', 'adult'])).resolves.toBe(true);
+      });
+
+      it('should not confirm when the agent reports different values', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ config: { ...agentConfig, actions: { ...agentConfig.actions, defaultAction: 'log' } } }),
+        });
+
+        await expect(containerManager.applyAgentSettings('agent-12345', settings, ['loan', 'adult'])).resolves.toBe(false);
+      });
+
+      it('should not confirm when the agent enabled other keyword packs', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ config: { ...agentConfig, lexicons: { enabledPacks: ['adult'] } } }),
+        });
+
+        await expect(containerManager.applyAgentSettings('agent-12345', settings, ['loan', 'adult'])).resolves.toBe(false);
+      });
+
+      it('should surface validation errors from the agent', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          json: async () => ({ error: 'Invalid configuration', details: 'Invalid runtime config: bad' }),
+        });
+
+        await expect(
+          containerManager.applyAgentSettings('agent-12345', settings, ['loan', 'adult'])
+        ).rejects.toThrow('Invalid runtime config: bad');
+      });
+    });
+
+    describe('syncSenderLists', () => {
+      it('should PUT entries in agent list format', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+
+        await containerManager.syncSenderLists('agent-12345', [
+          { id: 1, telegram_id: 12345, list_type: 'deny', entry_type: 'phone_prefix', value: '+62', created_at: 0 },
+        ]);
+
+        expect(mockFetch).toHaveBeenCalledWith('http://agent-12345:3100/lists', expect.objectContaining({
+          method: 'PUT',
+        }));
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+          entries: [{ list: 'deny', type: 'phone_prefix', value: '+62' }],
+        });
+      });
+    });
+
+    describe('getAgentEvents', () => {
+      it('should request events after the cursor', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ events: [], lastId: 7 }) });
+
+        const result = await containerManager.getAgentEvents('agent-12345', 7);
+
+        expect(mockFetch).toHaveBeenCalledWith('http://agent-12345:3100/events?after=7', expect.objectContaining({
+          signal: expect.any(AbortSignal),
+        }));
+        expect(result).toEqual({ events: [], lastId: 7 });
+      });
+    });
+
+    describe('sendReviewFeedback', () => {
+      it('should POST the verdict for the agent event', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+
+        await containerManager.sendReviewFeedback('agent-12345', 7, 'not_spam');
+
+        expect(mockFetch).toHaveBeenCalledWith('http://agent-12345:3100/feedback', expect.objectContaining({
+          method: 'POST',
+        }));
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ eventId: 7, label: 'not_spam' });
+      });
+
+      it('should surface agent errors', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: false, json: async () => ({ error: 'Detection not found' }) });
+
+        await expect(containerManager.sendReviewFeedback('agent-12345', 7, 'spam'))
+          .rejects.toThrow('Detection not found');
+      });
+    });
+
+    describe('blockSender', () => {
+      it('should POST the sender to block and return the action id', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true, actionId: 5 }) });
+
+        const actionId = await containerManager.blockSender('agent-12345', 555, 999);
+
+        expect(mockFetch).toHaveBeenCalledWith('http://agent-12345:3100/actions/block', expect.objectContaining({
+          method: 'POST',
+        }));
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ chatId: 555, userId: 999 });
+        expect(actionId).toBe(5);
+      });
+    });
+
+    describe('undoAction', () => {
+      it('should POST to the action undo route', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+
+        await containerManager.undoAction('agent-12345', 4);
+
+        expect(mockFetch).toHaveBeenCalledWith('http://agent-12345:3100/actions/4/undo', expect.objectContaining({
+          method: 'POST',
+        }));
+      });
+
+      it('should surface agent errors', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: false, json: async () => ({ error: 'Action was already undone' }) });
+
+        await expect(containerManager.undoAction('agent-12345', 4)).rejects.toThrow('already undone');
+      });
+    });
+
+    describe('collectMetrics', () => {
+      it('should store a snapshot for every running container', async () => {
+        mockDb.getAllActiveContainers.mockReturnValue([
+          { telegram_id: 111, container_id: 'c1', status: 'running' },
+          { telegram_id: 222, container_id: 'c2', status: 'running' },
+        ]);
+        mockFetch.mockResolvedValue({ ok: true, json: async () => agentMetrics });
+
+        await containerManager.collectMetrics(mockDb as any);
+
+        expect(mockDb.addMetricsSnapshot).toHaveBeenCalledTimes(2);
+        expect(mockDb.addMetricsSnapshot).toHaveBeenCalledWith(111, {
+          messages_processed: 40,
+          spam_detected: 10,
+          spam_archived: 8,
+          spam_blocked: 2,
+          spam_rate: 0.25,
+        });
+      });
+
+      it('should skip containers that are still starting', async () => {
+        mockDb.getAllActiveContainers.mockReturnValue([
+          { telegram_id: 111, container_id: 'c1', status: 'starting' },
+        ]);
+
+        await containerManager.collectMetrics(mockDb as any);
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(mockDb.addMetricsSnapshot).not.toHaveBeenCalled();
+      });
+
+      it('should continue with other containers when one agent is unreachable', async () => {
+        mockDb.getAllActiveContainers.mockReturnValue([
+          { telegram_id: 111, container_id: 'c1', status: 'running' },
+          { telegram_id: 222, container_id: 'c2', status: 'running' },
+        ]);
+        mockFetch
+          .mockRejectedValueOnce(new Error('fetch failed'))
+          .mockResolvedValueOnce({ ok: true, json: async () => agentMetrics });
+
+        await containerManager.collectMetrics(mockDb as any);
+
+        expect(mockDb.addMetricsSnapshot).toHaveBeenCalledTimes(1);
+        expect(mockDb.addMetricsSnapshot).toHaveBeenCalledWith(222, expect.any(Object));
+      });
+    });
+  });
 });
@@ -0,0 +1,169 @@
+import type { Telegram } from 'telegraf';
+import { logger } from '../utils/logger';
+import type { DatabaseManager, ReviewReason } from '../db/database';
+import type { AgentEvent, ContainerManager } from './containerManager';
+import { notifyReview } from '../commands/review';
+
+// Older agents report bare rule ids; newer ones report each rule's contribution
+function toReviewReasons(raw: unknown): ReviewReason[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.map(reason => {
+    if (typeof reason !== 'object' || reason === null) {
+      return { ruleId: String(reason), contribution: 0 };
+    }
+    const normalized: ReviewReason = { ruleId: String(reason.ruleId), contribution: Number(reason.contribution) || 0 };
+    if (typeof reason.details === 'object' && reason.details !== null) {
+      normalized.details = reason.details;
+    }
+    return normalized;
+  });
+}
+
+// An event that keeps failing is skipped after this many polls so it cannot hold back later ones
+const MAX_EVENT_ATTEMPTS = 5;
+
+/**
+ * Polls each running agent's event outbox and turns events into
+ * orchestrator-side records (audit log entries, notifications).
+ */
+export class AgentEventProcessor {
+  private db: DatabaseManager;
+  private containerMgr: ContainerManager;
+  private telegram: Telegram;
+  private collecting = false;
+  /** Failed attempts per `telegramId:eventId` */
+  private failedAttempts = new Map<string, number>();
+
+  constructor(db: DatabaseManager, containerMgr: ContainerManager, telegram: Telegram) {
+    this.db = db;
+    this.containerMgr = containerMgr;
+    this.telegram = telegram;
+  }
+
+  async collect(): Promise<void> {
+    // A slow agent can make a poll outlast the interval; overlapping polls would handle events twice
+    if (this.collecting) {
+      logger.debug('Previous agent event collection still running, skipping this poll');
+      return;
+    }
+
+    this.collecting = true;
+    try {
+      const activeContainers = this.db.getAllActiveContainers();
+
+      for (const dbContainer of activeContainers) {
+        if (dbContainer.status !== 'running') {
+          continue;
+        }
+
+        try {
+          await this.collectForUser(dbContainer.telegram_id);
+        } catch (error) {
+          // One unreachable agent must not stop collection for the others
+          logger.warn({ telegramId: dbContainer.telegram_id, error }, 'Failed to collect agent events');
+        }
+      }
+    } finally {
+      this.collecting = false;
+    }
+  }
+
+  private async collectForUser(telegramId: number): Promise<void> {
+    const containerName = `agent-${telegramId}`;
+    const cursor = this.db.getAgentEventCursor(telegramId);
+    const { events, lastId } = await this.containerMgr.getAgentEvents(containerName, cursor);
+
+    if (lastId < cursor) {
+      // Agent state was wiped (e.g. /reset); restart from the beginning and restore its lists.
+      // Unanswered reviews and undo buttons point at ids the agent no longer knows.
+      logger.warn({ telegramId, cursor, lastId }, 'Agent event ids went backwards, resetting cursor');
+      this.db.setAgentEventCursor(telegramId, 0);
+      this.db.discardPendingReviews(telegramId);
+      this.db.clearReviewActions(telegramId);
+      await this.containerMgr.syncSenderLists(containerName, this.db.getSenderListEntries(telegramId));
+      return;
+    }
+
+    // The cursor only moves past handled events, so a failed one is retried on the next poll
+    for (const event of events) {
+      const key = `${telegramId}:${event.id}`;
+      try {
+        await this.handleEvent(telegramId, event);
+      } catch (error) {
+        const attempts = (this.failedAttempts.get(key) ?? 0) + 1;
+        if (attempts < MAX_EVENT_ATTEMPTS) {
+          this.failedAttempts.set(key, attempts);
+          logger.warn({ telegramId, eventId: event.id, attempts, error }, 'Failed to handle agent event, will retry');
+          return;
+        }
+        logger.error({ telegramId, eventId: event.id, attempts, error }, 'Failed to handle agent event, skipping it');
+      }
+      this.failedAttempts.delete(key);
+      this.db.setAgentEventCursor(telegramId, event.id);
+    }
+  }
+
+  private async handleEvent(telegramId: number, event: AgentEvent): Promise<void> {
+    switch (event.type) {
+      case 'list_hit':
+        this.db.addAuditLog(telegramId, 'sender_list_hit', {
+          list: event.data.list,
+          entry_type: event.data.entryType,
+          entry_value: event.data.entryValue,
+          sender_id: event.data.userId,
+        });
+        break;
+      case 'detection': {
+        // A retried detection whose notification failed is queued already
+        const item = this.db.getPendingReviewByEvent(telegramId, event.id) ?? this.db.addReviewItem(telegramId, {
+          agent_event_id: event.id,
+          chat_id: Number(event.data.chatId),
+          sender_id: Number(event.data.userId),
+          sender_username: typeof event.data.username === 'string' ? event.data.username : null,
+          score: Number(event.data.score),
+          reasons: toReviewReasons(event.data.reasons),
+          snippet: typeof event.data.snippet === 'string' ? event.data.snippet : null,
+          action: typeof event.data.action === 'string' ? event.data.action : null,
+          action_id: typeof event.data.actionId === 'number' ? event.data.actionId : null,
+        });
+        await notifyReview(this.telegram, item);
+        break;
+      }
+      case 'action_undone': {
+        // Undo also allowlists the sender on the agent; mirror it so the next list sync keeps it
+        const senderId = String(event.data.userId);
+        this.db.markActionUndone(telegramId, Number(event.data.actionId));
+        const known = this.db.getSenderListEntries(telegramId)
+          .some(entry => entry.list_type === 'allow' && entry.entry_type === 'user_id' && entry.value === senderId);
+        if (!known) {
+          this.db.addSenderListEntry(telegramId, 'allow', 'user_id', senderId);
+          this.db.addAuditLog(telegramId, 'sender_list_added', {
+            list: 'allow',
+            entry_type: 'user_id',
+            entry_value: senderId,
+            source: 'undo',
+          });
+        }
+        break;
+      }
+      case 'owner_replied': {
+        // Replying in a flagged chat is an implicit "not spam"; the agent already relabeled it
+        const eventIds = Array.isArray(event.data.eventIds) ? event.data.eventIds.map(Number) : [];
+        const resolved = this.db.resolveReviewsAsNotSpam(telegramId, eventIds);
+        if (resolved > 0) {
+          this.db.addAuditLog(telegramId, 'review_verdict', {
+            verdict: 'not_spam',
+            source: 'owner_reply',
+            sender_id: event.data.userId,
+            agent_event_ids: eventIds,
+          });
+        }
+        break;
+      }
+      default:
+        logger.debug({ telegramId, type: event.type }, 'Ignoring unknown agent event');
+    }
+  }
+}
@@ -1,15 +1,58 @@
 import Docker from 'dockerode';
-import { resolve } from 'path';
+import { readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
 import { logger } from '../utils/logger';
-import type { DatabaseManager, UserSettings } from '../db/database';
+import type { DatabaseManager, SenderListEntry, UserSettings } from '../db/database';
 
 export interface ContainerConfig {
   telegramId: number;
   apiId: string;
   apiHash: string;
   settings: UserSettings;
+  /** Ids of the keyword lexicon packs the user enabled */
+  lexiconPacks: string[];
 }
 
+export interface AgentMetrics {
+  msgProcessedTotal: number;
+  spamDetectedTotal: number;
+  spamBlockedTotal: number;
+  spamArchivedTotal: number;
+  rateLimitHits: number;
+  spamRate: number;
+}
+
+export interface AgentConfig {
+  thresholds: {
+    lowThreshold: number;
+    actionThreshold: number;
+  };
+  actions: {
+    defaultAction: string;
+    enableDeletion: boolean;
+    enableBlocking: boolean;
+  };
+  lexicons: {
+    enabledPacks: string[];
+  };
+}
+
+export interface LexiconPackSummary {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export interface AgentEvent {
+  id: number;
+  type: string;
+  timestamp: number;
+  data: Record<string, any>;
+}
+
+// A poll that waits on a hung agent would hold up collection for every other user
+const AGENT_EVENTS_TIMEOUT_MS = 10000;
+
 export class ContainerManager {
   private docker: Docker;
   private sessionsDir: string;
@@ -39,7 +82,7 @@ export class ContainerManager {
   }
 
   async createContainer(config: ContainerConfig): Promise<string> {
-    const { telegramId, apiId, apiHash, settings } = config;
+    const { telegramId, apiId, apiHash, settings, lexiconPacks } = config;
     const containerName = `agent-${telegramId}`;
 
     logger.info({ telegramId, containerName }, 'Creating agent container');
@@ -65,8 +108,11 @@ export class ContainerManager {
           `DEFAULT_ACTION=${settings.default_action}`,
           `ENABLE_DELETION=${settings.enable_deletion ? 'true' : 'false'}`,
           `ENABLE_BLOCKING=${settings.enable_blocking ? 'true' : 'false'}`,
+          `LEXICON_PACKS=${lexiconPacks.join(',')}`,
           `LOG_LEVEL=${process.env.LOG_LEVEL || 'info'}`,
           `CONFIG_PATH=/app/config/default.json`,
+          // Tells the agent to drop runtime overrides saved by a previous container
+          `CONFIG_GENERATION=${Date.now()}`,
         ],
         HostConfig: {
           Binds: [
@@ -242,6 +288,33 @@ export class ContainerManager {
     }
   }
 
+  async collectMetrics(db: DatabaseManager): Promise<void> {
+    logger.debug('Collecting agent metrics');
+
+    const activeContainers = db.getAllActiveContainers();
+
+    for (const dbContainer of activeContainers) {
+      if (dbContainer.status !== 'running') {
+        continue;
+      }
+
+      const containerName = `agent-${dbContainer.telegram_id}`;
+      try {
+        const agentMetrics = await this.getAgentMetrics(containerName);
+        db.addMetricsSnapshot(dbContainer.telegram_id, {
+          messages_processed: agentMetrics.msgProcessedTotal,
+          spam_detected: agentMetrics.spamDetectedTotal,
+          spam_archived: agentMetrics.spamArchivedTotal,
+          spam_blocked: agentMetrics.spamBlockedTotal,
+          spam_rate: agentMetrics.spamRate,
+        });
+      } catch (error) {
+        // One unreachable agent must not stop collection for the others
+        logger.warn({ containerName, error }, 'Failed to collect agent metrics');
+      }
+    }
+  }
+
   private async getContainer(nameOrId: string): Promise<Docker.Container | null> {
     try {
       const container = this.docker.getContainer(nameOrId);
@@ -507,4 +580,260 @@ export class ContainerManager {
       throw error;
     }
   }
+
+  /**
+   * Get cumulative detection counters from agent
+   */
+  async getAgentMetrics(containerName: string): Promise<AgentMetrics> {
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/metrics`,
+        {
+          method: 'GET',
+          headers: { 'Content-Type': 'application/json' },
+        },
+        1
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to get agent metrics');
+      }
+
+      return await response.json() as AgentMetrics;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Push user settings to a running agent and confirm it applied them.
+   * Returns false if the agent answered but its effective config does not match.
+   * Pass more attempts when the agent may still be starting up.
+   */
+  async applyAgentSettings(
+    containerName: string,
+    settings: UserSettings,
+    lexiconPacks: string[],
+    attempts = 1
+  ): Promise<boolean> {
+    const expected: AgentConfig = {
+      thresholds: {
+        lowThreshold: settings.low_threshold,
+        actionThreshold: settings.action_threshold,
+      },
+      actions: {
+        defaultAction: settings.default_action,
+        enableDeletion: !!settings.enable_deletion,
+        enableBlocking: !!settings.enable_blocking,
+      },
+      lexicons: {
+        enabledPacks: [...lexiconPacks].sort(),
+      },
+    };
+
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/config`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(expected),
+        },
+        attempts
+      );
+
+      if (!response.ok) {
+        const error: any = await response.json();
+        throw new Error(error.details || 'Failed to update agent config');
+      }
+
+      const { config: applied } = await response.json() as { config: AgentConfig };
+      return applied.thresholds.lowThreshold === expected.thresholds.lowThreshold
+        && applied.thresholds.actionThreshold === expected.thresholds.actionThreshold
+        && applied.actions.defaultAction === expected.actions.defaultAction
+        && applied.actions.enableDeletion === expected.actions.enableDeletion
+        && applied.actions.enableBlocking === expected.actions.enableBlocking
+        && [...applied.lexicons.enabledPacks].sort().join(',') === expected.lexicons.enabledPacks.join(',');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keyword lexicon packs installed in the shared config directory, which agents
+   * mount read-only. Files that cannot be read are left out.
+   */
+  listLexiconPacks(): LexiconPackSummary[] {
+    const lexiconDir = join(this.configDir, 'lexicons');
+    let files: string[];
+    try {
+      files = readdirSync(lexiconDir).filter(name => name.endsWith('.json')).sort();
+    } catch (error) {
+      logger.warn({ lexiconDir, error }, 'Cannot read lexicon pack directory');
+      return [];
+    }
+
+    const packs: LexiconPackSummary[] = [];
+    for (const name of files) {
+      try {
+        const { id, name: packName, version } = JSON.parse(readFileSync(join(lexiconDir, name), 'utf-8'));
+        if (typeof id === 'string' && typeof packName === 'string' && typeof version === 'number') {
+          packs.push({ id, name: packName, version });
+        }
+      } catch (error) {
+        logger.warn({ file: name, error }, 'Skipping unreadable lexicon pack');
+      }
+    }
+    return packs;
+  }
+
+  /**
+   * Replace the agent's allow/deny lists with the given entries
+   */
+  async syncSenderLists(containerName: string, entries: SenderListEntry[]): Promise<void> {
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/lists`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            entries: entries.map(entry => ({
+              list: entry.list_type,
+              type: entry.entry_type,
+              value: entry.value,
+            })),
+          }),
+        },
+        1
+      );
+
+      if (!response.ok) {
+        const error: any = await response.json();
+        throw new Error(error.details || 'Failed to sync sender lists');
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get events recorded by the agent after the given event id
+   */
+  async getAgentEvents(containerName: string, afterId: number): Promise<{ events: AgentEvent[]; lastId: number }> {
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/events?after=${afterId}`,
+        {
+          method: 'GET',
+          headers: { 'Content-Type': 'application/json' },
+          signal: AbortSignal.timeout(AGENT_EVENTS_TIMEOUT_MS),
+        },
+        1
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to get agent events');
+      }
+
+      return await response.json() as { events: AgentEvent[]; lastId: number };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Relay the user's verdict on a detection so the agent can keep it as a labeled example
+   */
+  async sendReviewFeedback(containerName: string, eventId: number, label: 'spam' | 'not_spam'): Promise<void> {
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/feedback`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ eventId, label }),
+        },
+        1
+      );
+
+      if (!response.ok) {
+        const error: any = await response.json();
+        throw new Error(error.details || error.error || 'Failed to send feedback');
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the agent to block a sender. Returns the agent's action id (for undo).
+   */
+  async blockSender(containerName: string, chatId: number, userId: number): Promise<number> {
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/actions/block`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ chatId, userId }),
+        },
+        1
+      );
+
+      if (!response.ok) {
+        const error: any = await response.json();
+        throw new Error(error.details || error.error || 'Failed to block sender');
+      }
+
+      const result = await response.json() as { actionId: number };
+      return result.actionId;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse an agent action (unarchive/unblock); the agent also allowlists the sender
+   */
+  async undoAction(containerName: string, actionId: number): Promise<void> {
+    try {
+      const response = await this.fetchWithRetry(
+        `http://${containerName}:3100/actions/${actionId}/undo`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        },
+        1
+      );
+
+      if (!response.ok) {
+        const error: any = await response.json();
+        throw new Error(error.details || error.error || 'Failed to undo action');
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(`Cannot reach agent container ${containerName}:3100 - ${error.message}`);
+      }
+      throw error;
+    }
+  }
 }
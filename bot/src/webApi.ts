@@ -5,6 +5,7 @@ import { DatabaseManager } from './db/database';
 import { ContainerManager } from './services/containerManager';
 import { logger } from './utils/logger';
 import { preAuthTokens } from './commands/login';
+import { syncListsToAgent } from './commands/lists';
 
 interface LoginSession {
   token: string;
@@ -160,6 +161,7 @@ export class WebApiServer {
             apiId: process.env.TG_API_ID!,
             apiHash: process.env.TG_API_HASH!,
             settings,
+            lexiconPacks: this.db.getLexiconPacks(telegramId),
           });
 
           const existingContainer = this.db.getActiveContainer(telegramId);
@@ -169,6 +171,8 @@ export class WebApiServer {
 
           this.db.createContainer(telegramId, dockerContainerId);
           await this.waitForContainer(containerName, 30000);
+          // Entries added while the user had no agent are only in the database
+          await syncListsToAgent(telegramId, this.db, this.containerMgr);
           
           // Request QR code from agent
           const authStatus = await this.containerMgr.getAuthStatus(containerName);
@@ -271,6 +275,7 @@ export class WebApiServer {
             apiId: process.env.TG_API_ID!,
             apiHash: process.env.TG_API_HASH!,
             settings,
+            lexiconPacks: this.db.getLexiconPacks(telegramId),
           });
 
           // Check if there's an existing container record and clean it up
@@ -285,6 +290,8 @@ export class WebApiServer {
           
           // Wait for container to start
           await this.waitForContainer(containerName, 30000);
+          // Entries added while the user had no agent are only in the database
+          await syncListsToAgent(telegramId, this.db, this.containerMgr);
           
           // Request QR code from agent (only if not already in QR mode)
           const authStatus = await this.containerMgr.getAuthStatus(containerName);